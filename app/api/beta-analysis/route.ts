@@ -1,7 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { deriveAltcoinImpliedVolatility, BtcImpliedVolDerivation } from '@/lib/betaCalculator';
+import {
+  deriveAltcoinImpliedVolatility,
+  parseProxyToken,
+  parseBetaWindowDays,
+  parseBetaReturnFrequency,
+  parseBetaReturnType,
+  parseBetaPriceProvider,
+  parseBetaShrinkage,
+  forcedBetaProvider,
+  validateBetaEstimation,
+  INVALID_BETA_WINDOW_MESSAGE,
+  INVALID_BETA_RETURN_FREQUENCY_MESSAGE,
+  INVALID_BETA_RETURN_TYPE_MESSAGE,
+  INVALID_BETA_PRICE_PROVIDER_MESSAGE,
+  INVALID_BETA_SHRINKAGE_MESSAGE,
+  INVALID_PROXY_TOKEN_MESSAGE
+} from '@/lib/betaCalculator';
 import { calculateHistoricalVolatility, fetchHistoricalPrices, getCurrentPrice } from '@/lib/historicalVolatility';
-import { LockupPeriod } from '@/types';
+import { parseLockupPeriod, INVALID_LOCKUP_PERIOD_MESSAGE } from '@/lib/calculator';
+import { ProxyImpliedRequest, ProxyImpliedAnalysisResponse, ApiErrorResponse } from '@/types';
 
 // Force this route to be dynamic
 export const dynamic = 'force-dynamic';
@@ -12,7 +29,13 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const tokenId = searchParams.get('tokenId');
-    const period = searchParams.get('period') as LockupPeriod;
+    const period = parseLockupPeriod(searchParams.get('period'));
+    const windowDays = parseBetaWindowDays(searchParams.get('betaDays'));
+    const frequency = parseBetaReturnFrequency(searchParams.get('frequency'));
+    const returnType = parseBetaReturnType(searchParams.get('returnType'));
+    const provider = parseBetaPriceProvider(searchParams.get('provider'));
+    const shrinkage = parseBetaShrinkage(searchParams.get('shrinkage'));
+    const proxy = parseProxyToken(searchParams.get('proxy'));
     
     // Validate inputs
     if (!tokenId) {
@@ -22,27 +45,89 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    if (!period || !['3M', '6M', '1Y', '2Y'].includes(period)) {
+    if (!period) {
       return NextResponse.json(
-        { error: 'Invalid period. Must be 3M, 6M, 1Y, or 2Y' },
+        { error: INVALID_LOCKUP_PERIOD_MESSAGE },
         { status: 400 }
       );
     }
     
-    console.log(`[Beta Analysis API] 🚀 Starting beta analysis for ${tokenId}`);
+    if (!windowDays) {
+      return NextResponse.json(
+        { error: INVALID_BETA_WINDOW_MESSAGE },
+        { status: 400 }
+      );
+    }
+    
+    if (!frequency) {
+      return NextResponse.json(
+        { error: INVALID_BETA_RETURN_FREQUENCY_MESSAGE },
+        { status: 400 }
+      );
+    }
+    
+    if (!returnType) {
+      return NextResponse.json(
+        { error: INVALID_BETA_RETURN_TYPE_MESSAGE },
+        { status: 400 }
+      );
+    }
+    
+    if (!provider) {
+      return NextResponse.json(
+        { error: INVALID_BETA_PRICE_PROVIDER_MESSAGE },
+        { status: 400 }
+      );
+    }
+    
+    if (!shrinkage) {
+      return NextResponse.json(
+        { error: INVALID_BETA_SHRINKAGE_MESSAGE },
+        { status: 400 }
+      );
+    }
+    
+    if (!proxy) {
+      return NextResponse.json(
+        { error: INVALID_PROXY_TOKEN_MESSAGE },
+        { status: 400 }
+      );
+    }
+    
+    const proxyRequest: ProxyImpliedRequest = {
+      tokenId,
+      period,
+      proxy,
+      betaEstimation: { windowDays, frequency, returnType, provider, shrinkage }
+    };
+    
+    const betaEstimationError = validateBetaEstimation(proxyRequest.betaEstimation);
+    if (betaEstimationError) {
+      return NextResponse.json(
+        { error: betaEstimationError },
+        { status: 400 }
+      );
+    }
+    
+    console.log(`[Beta Analysis API] 🚀 Starting beta analysis for ${tokenId} against ${proxy}`);
     
-    // Get historical volatility for comparison
-    const historicalPricesResult = await fetchHistoricalPrices(tokenId, 90);
+    // Get historical volatility for comparison（與 beta 使用相同的價格來源設定）
+    const forcedProvider = forcedBetaProvider(provider);
+    const historicalPricesResult = await fetchHistoricalPrices(tokenId, 90, forcedProvider, forcedProvider !== undefined);
     const historicalVolResult = calculateHistoricalVolatility(historicalPricesResult.data, historicalPricesResult.provider);
     const historicalVolatility = historicalVolResult.annualizedVolatility * 100; // Convert to percentage
     
     console.log(`[Beta Analysis API] 📈 Historical volatility: ${historicalVolatility.toFixed(1)}%`);
     
-    // Perform BTC implied volatility derivation
-    const derivationResult: BtcImpliedVolDerivation = await deriveAltcoinImpliedVolatility(
-      tokenId, 
-      historicalVolatility
+    // Perform proxy implied volatility derivation
+    const derivationResult = await deriveAltcoinImpliedVolatility(
+      proxyRequest.tokenId,
+      historicalVolatility,
+      proxyRequest.period,
+      proxyRequest.betaEstimation,
+      proxyRequest.proxy
     );
+    const { betaCoefficient, proxyImpliedVol } = derivationResult;
     
     // Get current price for context
     const currentPriceResult = await getCurrentPrice(tokenId);
@@ -51,48 +136,77 @@ export async function GET(request: NextRequest) {
     
     console.log(`[Beta Analysis API] ✅ Analysis completed in ${totalDuration}ms`);
     console.log(`[Beta Analysis API] 📊 Results:`, {
-      beta: derivationResult.betaCoefficient.beta.toFixed(3),
-      btcIV: derivationResult.btcImpliedVol.impliedVolatility.toFixed(1) + '%',
+      beta: betaCoefficient.adjustedBeta.toFixed(3),
+      proxyIV: proxyImpliedVol.impliedVolatility.toFixed(1) + '%',
       derivedIV: derivationResult.derivedAltcoinImpliedVol.toFixed(1) + '%',
       historicalIV: derivationResult.altcoinHistoricalVol.toFixed(1) + '%',
       confidence: derivationResult.comparisonMetrics.confidence
     });
     
-    const response = {
+    const response: ProxyImpliedAnalysisResponse = {
       success: true,
       tokenId,
       period,
+      proxy,
       currentPrice: currentPriceResult.data,
       betaAnalysis: {
-        beta: derivationResult.betaCoefficient.beta,
-        correlation: derivationResult.betaCoefficient.correlation,
-        rSquared: derivationResult.betaCoefficient.rSquared,
-        altcoinVolatility: derivationResult.betaCoefficient.altcoinVolatility,
-        btcVolatility: derivationResult.betaCoefficient.btcVolatility,
-        dataPoints: derivationResult.betaCoefficient.dataPoints,
-        calculationPeriodDays: derivationResult.betaCoefficient.calculationPeriodDays
+        // beta 為推導所用 (收縮後) 的值，olsBeta 為原始迴歸估計
+        beta: betaCoefficient.adjustedBeta,
+        standardError: betaCoefficient.adjustedStandardError,
+        confidenceInterval: betaCoefficient.confidenceInterval,
+        shrinkage: betaCoefficient.shrinkage,
+        olsBeta: betaCoefficient.beta,
+        olsStandardError: betaCoefficient.standardError,
+        tStat: betaCoefficient.tStat,
+        rollingBeta: betaCoefficient.rollingBeta,
+        alpha: betaCoefficient.alpha,
+        correlation: betaCoefficient.correlation,
+        rSquared: betaCoefficient.rSquared,
+        altcoinVolatility: betaCoefficient.altcoinVolatility,
+        proxyVolatility: betaCoefficient.proxyVolatility,
+        idiosyncraticVolatility: betaCoefficient.idiosyncraticVolatility,
+        dataPoints: betaCoefficient.dataPoints,
+        calculationPeriodDays: betaCoefficient.calculationPeriodDays,
+        frequency: betaCoefficient.frequency,
+        returnType: betaCoefficient.returnType,
+        altcoinProvider: betaCoefficient.altcoinProvider,
+        proxyProvider: betaCoefficient.proxyProvider
       },
-      btcImpliedVolatility: {
-        impliedVolatility: derivationResult.btcImpliedVol.impliedVolatility,
-        source: derivationResult.btcImpliedVol.source,
-        atmStrike: derivationResult.btcImpliedVol.atmStrike,
-        optionsUsed: derivationResult.btcImpliedVol.optionsUsed,
-        calculationMethod: derivationResult.btcImpliedVol.calculationMethod
+      proxyImpliedVolatility: {
+        impliedVolatility: proxyImpliedVol.impliedVolatility,
+        source: proxyImpliedVol.source,
+        atmStrike: proxyImpliedVol.atmStrike,
+        optionsUsed: proxyImpliedVol.optionsUsed,
+        calculationMethod: proxyImpliedVol.calculationMethod,
+        lockupDays: proxyImpliedVol.lockupDays,
+        strategy: proxyImpliedVol.strategy,
+        shortTermExpiry: proxyImpliedVol.shortTermExpiry,
+        longTermExpiry: proxyImpliedVol.longTermExpiry,
+        shortTermIV: proxyImpliedVol.shortTermIV,
+        longTermIV: proxyImpliedVol.longTermIV
       },
       volatilityComparison: {
         historicalVolatility: derivationResult.altcoinHistoricalVol,
+        systematicImpliedVolatility: derivationResult.systematicImpliedVol,
+        idiosyncraticVolatility: derivationResult.idiosyncraticVol,
         derivedImpliedVolatility: derivationResult.derivedAltcoinImpliedVol,
+        derivedImpliedVolatilityRange: derivationResult.derivedImpliedVolRange,
         difference: derivationResult.comparisonMetrics.impliedVsHistoricalDiff,
         ratio: derivationResult.comparisonMetrics.impliedVsHistoricalRatio,
         confidence: derivationResult.comparisonMetrics.confidence
       },
       methodology: {
-        description: 'BTC implied volatility scaled by altcoin-Bitcoin beta coefficient',
-        formula: 'Altcoin Implied Vol = BTC Implied Vol × Beta',
-        betaFormula: 'Beta = Covariance(altcoin, BTC) / Variance(BTC)',
-        period: '90-day rolling calculation',
-        btcImpliedVolSource: derivationResult.btcImpliedVol.source === 'deribit_options' ? 
-          'Deribit BTC options (ATM weighted average)' : 'Historical fallback estimate'
+        description: `${proxy} implied volatility scaled by beta for the systematic part, plus idiosyncratic volatility from the regression residuals`,
+        formula: `Altcoin Implied Vol = √((Beta × ${proxy} Implied Vol)² + Idiosyncratic Vol²)`,
+        betaFormula: `Beta = Covariance(altcoin, ${proxy}) / Variance(${proxy})`,
+        betaShrinkage: shrinkage === 'blume'
+          ? 'Blume: 0.67 × Beta + 0.33'
+          : shrinkage === 'vasicek'
+            ? 'Vasicek: precision-weighted average of Beta and a prior of 1.0 (prior SD 0.5)'
+            : 'None (OLS beta)',
+        rangeFormula: 'Derived IV range from the 95% beta interval, Beta ± t(0.975, n − 2) × SE',
+        period: `${windowDays}-day window, ${frequency} ${returnType} returns`,
+        proxyImpliedVolSource: `Deribit ${proxy} options, ${proxyImpliedVol.strategy} of ${proxyImpliedVol.shortTermExpiry} / ${proxyImpliedVol.longTermExpiry} to ${proxyImpliedVol.lockupDays} days`
       },
       performance: {
         totalDuration,
@@ -106,7 +220,7 @@ export async function GET(request: NextRequest) {
     const errorDuration = Date.now() - startTime;
     console.error('[Beta Analysis API] ❌ Error:', error);
     
-    return NextResponse.json(
+    return NextResponse.json<ApiErrorResponse>(
       { 
         success: false,
         error: 'Failed to perform beta analysis',
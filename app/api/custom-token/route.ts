@@ -1,44 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchHistoricalPrices, calculateHistoricalVolatility, getCurrentPrice } from '@/lib/historicalVolatility';
-import { lockupPeriodToDays } from '@/lib/calculator';
-import { getTreasuryRateServer } from '@/lib/treasuryRates';
-import { deriveAltcoinImpliedVolatility, BtcImpliedVolDerivation } from '@/lib/betaCalculator';
-import { LockupPeriod } from '@/types';
+import { fetchHistoricalPrices, calculateHistoricalVolatility, calculateRobustVolatility, compareVolatilityEstimators, estimateJumpParameters, getCurrentPrice, parseRangeVolatilityEstimator, parseRobustVolatilityMethod, validateReturnHistory, MIN_ROBUST_RETURNS, MIN_JUMP_RETURNS, INVALID_RANGE_VOLATILITY_ESTIMATOR_MESSAGE, INVALID_ROBUST_VOLATILITY_METHOD_MESSAGE } from '@/lib/historicalVolatility';
+import { lockupPeriodToDays, parseLockupPeriod, parseDiscountMethodology, selectMethodologyPrice, priceDiscountModels, INVALID_LOCKUP_PERIOD_MESSAGE, INVALID_DISCOUNT_METHODOLOGY_MESSAGE } from '@/lib/calculator';
+import { getPricingModel, parsePricingModel, INVALID_PRICING_MODEL_MESSAGE, PricingInputs } from '@/lib/pricing';
+import { getTreasuryRateForDaysServer } from '@/lib/treasuryRates';
+import { parseVestingSchedule, validateVestingSchedule, valueVestingSchedule } from '@/lib/vesting';
+import { estimateVolatilityForecast, forecastVolatilityAtHorizon, parseVolatilityEstimator, validateVolatilityEstimation, MIN_GARCH_OBSERVATIONS, INVALID_VOLATILITY_ESTIMATOR_MESSAGE } from '@/lib/volatilityForecast';
+import { CustomTokenCalculationResult, DiscountMethodology, JumpDiffusionAnalysis } from '@/types';
 
 // Force this route to be dynamic
 export const dynamic = 'force-dynamic';
 
-// Black-Scholes Call option pricing function
-function blackScholesCall(
-  S: number,     // Current price
-  K: number,     // Strike price (target price)
-  T: number,     // Time to expiry (years)
-  r: number,     // Risk-free rate
-  sigma: number  // Volatility
-): number {
-  const d1 = (Math.log(S / K) + (r + 0.5 * sigma * sigma) * T) / (sigma * Math.sqrt(T));
-  const d2 = d1 - sigma * Math.sqrt(T);
-  
-  // Standard normal cumulative distribution function approximation
-  const normCdf = (x: number): number => {
-    const a1 =  0.254829592;
-    const a2 = -0.284496736;
-    const a3 =  1.421413741;
-    const a4 = -1.453152027;
-    const a5 =  1.061405429;
-    const p  =  0.3275911;
-
-    const sign = x < 0 ? -1 : 1;
-    const absX = Math.abs(x) / Math.sqrt(2.0);
-
-    const t = 1.0 / (1.0 + p * absX);
-    const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-absX * absX);
-
-    return 0.5 * (1.0 + sign * y);
-  };
-  
-  return S * normCdf(d1) - K * Math.exp(-r * T) * normCdf(d2);
-}
+const METHOD_TAGS: Record<DiscountMethodology, string> = {
+  'atm-call': 'historical-volatility-target-price',
+  'longstaff-lookback': 'historical-volatility-longstaff-lookback',
+  'average-strike-put': 'historical-volatility-average-strike-put'
+};
 
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
@@ -47,18 +23,30 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const tokenId = searchParams.get('tokenId');
-    const period = searchParams.get('period') as LockupPeriod;
+    const periodParam = searchParams.get('period');
+    const period = parseLockupPeriod(periodParam);
     const targetPriceStr = searchParams.get('targetPrice');
     const volatilityDaysStr = searchParams.get('volatilityDays');
+    const methodologyParam = searchParams.get('methodology');
+    const methodology = parseDiscountMethodology(methodologyParam);
+    const pricingModelParam = searchParams.get('pricingModel');
+    const pricingModel = parsePricingModel(pricingModelParam);
+    const volatilityEstimatorParam = searchParams.get('volatilityEstimator');
+    const volatilityEstimator = parseVolatilityEstimator(volatilityEstimatorParam);
+    const rangeEstimatorParam = searchParams.get('rangeEstimator');
+    const rangeEstimator = parseRangeVolatilityEstimator(rangeEstimatorParam);
+    const robustMethodParam = searchParams.get('robustMethod');
+    const robustMethod = parseRobustVolatilityMethod(robustMethodParam);
+    const vestingSchedule = parseVestingSchedule(searchParams);
     const debug = searchParams.get('debug') === 'true';
     
-    // Parse volatility days with default value of 90
-    const volatilityDays = volatilityDaysStr ? parseInt(volatilityDaysStr) : 90;
+    // Parse volatility days with default value of 90（非整數字串如 '90d' 視為無效）
+    const volatilityDays = volatilityDaysStr ? Number(volatilityDaysStr) : 90;
     
     debugLog.push({
       step: 'parameter_validation',
       timestamp: Date.now(),
-      params: { tokenId, period, targetPrice: targetPriceStr, volatilityDays }
+      params: { tokenId, period: periodParam, targetPrice: targetPriceStr, volatilityDays, methodology: methodologyParam, pricingModel: pricingModelParam, volatilityEstimator: volatilityEstimatorParam, rangeEstimator: rangeEstimatorParam, robustMethod: robustMethodParam, vestingSchedule }
     });
     
     // Validate inputs
@@ -69,9 +57,52 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    if (!period || !['3M', '6M', '1Y', '2Y'].includes(period)) {
+    if (!period) {
+      return NextResponse.json(
+        { error: INVALID_LOCKUP_PERIOD_MESSAGE },
+        { status: 400 }
+      );
+    }
+    
+    if (!methodology) {
+      return NextResponse.json(
+        { error: INVALID_DISCOUNT_METHODOLOGY_MESSAGE },
+        { status: 400 }
+      );
+    }
+    
+    if (!pricingModel) {
+      return NextResponse.json(
+        { error: INVALID_PRICING_MODEL_MESSAGE },
+        { status: 400 }
+      );
+    }
+    
+    if (!volatilityEstimator) {
+      return NextResponse.json(
+        { error: INVALID_VOLATILITY_ESTIMATOR_MESSAGE },
+        { status: 400 }
+      );
+    }
+    
+    if (!rangeEstimator) {
+      return NextResponse.json(
+        { error: INVALID_RANGE_VOLATILITY_ESTIMATOR_MESSAGE },
+        { status: 400 }
+      );
+    }
+    
+    if (!robustMethod) {
+      return NextResponse.json(
+        { error: INVALID_ROBUST_VOLATILITY_METHOD_MESSAGE },
+        { status: 400 }
+      );
+    }
+    
+    const volatilityEstimationError = validateVolatilityEstimation({ volatilityEstimator, rangeEstimator, robustMethod, pricingModel });
+    if (volatilityEstimationError) {
       return NextResponse.json(
-        { error: 'Invalid period. Must be 3M, 6M, 1Y, or 2Y' },
+        { error: volatilityEstimationError },
         { status: 400 }
       );
     }
@@ -99,12 +130,20 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    console.log(`[Custom Token API] 🚀 Calculating ${tokenId} ${period} discount; target: $${targetPrice}, volatility days: ${volatilityDays}`);
+    const vestingValidationError = vestingSchedule && validateVestingSchedule(vestingSchedule);
+    if (vestingValidationError) {
+      return NextResponse.json(
+        { error: vestingValidationError },
+        { status: 400 }
+      );
+    }
+    
+    console.log(`[Custom Token API] 🚀 Calculating ${tokenId} ${period} discount; target: $${targetPrice}, volatility days: ${volatilityDays}, methodology: ${methodology}, model: ${pricingModel}, estimator: ${volatilityEstimator}/${rangeEstimator}/${robustMethod}`);
     
     debugLog.push({
       step: 'validation_complete',
       timestamp: Date.now(),
-      validated_params: { tokenId, period, targetPrice, volatilityDays }
+      validated_params: { tokenId, period, targetPrice, volatilityDays, methodology, pricingModel, volatilityEstimator, rangeEstimator, robustMethod }
     });
     
     // Phase 1: Get current price with multi-API support
@@ -131,7 +170,29 @@ export async function GET(request: NextRequest) {
     
     const historicalStartTime = Date.now();
     const historicalPricesResult = await fetchHistoricalPrices(tokenId, volatilityDays);
+    
+    // 新上市代幣的歷史可能不足以估計所選設定，回傳 400 而非在估計中拋出
+    const requiredReturns = Math.max(
+      MIN_ROBUST_RETURNS,
+      volatilityEstimator === 'garch' ? MIN_GARCH_OBSERVATIONS : 0,
+      pricingModel === 'merton-jump' ? MIN_JUMP_RETURNS : 0
+    );
+    const historyError = validateReturnHistory(historicalPricesResult.data, requiredReturns);
+    if (historyError) {
+      console.warn(`[Custom Token API] ⚠️ ${tokenId}: ${historyError}`);
+      return NextResponse.json(
+        { error: `${historyError} for ${tokenId} (${volatilityEstimator}${pricingModel === 'merton-jump' ? ', merton-jump' : ''}, ${volatilityDays}-day window)` },
+        { status: 400 }
+      );
+    }
+    
     const volatilityResult = calculateHistoricalVolatility(historicalPricesResult.data, historicalPricesResult.provider);
+    const rangeVolatility = compareVolatilityEstimators(volatilityResult, rangeEstimator);
+    const robustVolatility = calculateRobustVolatility(historicalPricesResult.data, robustMethod);
+    // 穩健估計取代收盤對收盤的樣本標準差；選用 OHLC 區間估計量時以區間估計為準
+    const historicalVolatility = rangeVolatility.applied === 'close-to-close'
+      ? robustVolatility.selectedVolatility
+      : rangeVolatility.estimates.find(estimate => estimate.estimator === rangeVolatility.applied)!.annualizedVolatility;
     const historicalDuration = Date.now() - historicalStartTime;
     
     console.log(`[Custom Token API] ✅ Annualized volatility: ${(volatilityResult.annualizedVolatility * 100).toFixed(1)}% (source: ${historicalPricesResult.provider.toUpperCase()}${historicalPricesResult.cached ? ', cached' : ''})`);
@@ -141,85 +202,201 @@ export async function GET(request: NextRequest) {
       timestamp: Date.now(),
       data_points: volatilityResult.dataPoints,
       annualized_volatility: volatilityResult.annualizedVolatility,
+      range_estimator: rangeVolatility.applied,
+      range_estimator_fallback: rangeVolatility.applied !== rangeVolatility.selected,
+      range_estimates: rangeVolatility.estimates,
+      robust_method: robustMethod,
+      robust_volatility: robustVolatility.selectedVolatility,
+      outliers: robustVolatility.outliers,
       historical_api_provider: historicalPricesResult.provider,
       historical_data_cached: historicalPricesResult.cached || false,
       historical_days: volatilityDays,
       duration: historicalDuration
     });
     
-    // Phase 3: Calculate option pricing
-    console.log(`[Custom Token API] 🧮 Phase 3: Calculate option price...`);
+    // Phase 2b: Jump parameters from the same return series (Merton model only)
+    const jumpParameters = pricingModel === 'merton-jump'
+      ? estimateJumpParameters(historicalPricesResult.data)
+      : null;
+    
+    if (jumpParameters) {
+      debugLog.push({
+        step: 'jump_parameters_estimated',
+        timestamp: Date.now(),
+        ...jumpParameters
+      });
+    }
     
     const lockupDays = lockupPeriodToDays(period);
     const timeToExpiry = lockupDays / 365; // Convert to years
     
-    // Get dynamic treasury rate based on lockup period
-    const treasuryPeriodMap: Record<LockupPeriod, '3M' | '6M' | '1Y' | '2Y'> = {
-      '3M': '3M',
-      '6M': '6M', 
-      '1Y': '1Y',
-      '2Y': '2Y'
-    };
+    // Phase 2c: Volatility forecast over the lockup horizon (EWMA / GARCH); 'sample' keeps the selected range estimate
+    const volatilityForecast = estimateVolatilityForecast(historicalPricesResult.data, volatilityEstimator, lockupDays);
+    const pricingVolatility = volatilityEstimator === 'sample'
+      ? historicalVolatility
+      : volatilityForecast.forecastVolatility;
+    
+    if (volatilityEstimator !== 'sample') {
+      console.log(`[Custom Token API] 🔮 ${volatilityEstimator.toUpperCase()} ${lockupDays}-day volatility forecast: ${(pricingVolatility * 100).toFixed(1)}%`);
+      
+      debugLog.push({
+        step: 'volatility_forecast',
+        timestamp: Date.now(),
+        ...volatilityForecast
+      });
+    }
     
-    const treasuryPeriod = treasuryPeriodMap[period];
-    const riskFreeRate = await getTreasuryRateServer(treasuryPeriod);
+    // Phase 3: Calculate option pricing
+    console.log(`[Custom Token API] 🧮 Phase 3: Calculate option price...`);
+    
+    // Get dynamic treasury rate interpolated to the lockup length
+    const riskFreeRate = await getTreasuryRateForDaysServer(lockupDays);
     
-    console.log(`[Custom Token API] 💰 Using ${treasuryPeriod} treasury rate: ${(riskFreeRate * 100).toFixed(2)}%`);
+    console.log(`[Custom Token API] 💰 Using ${lockupDays}-day treasury rate: ${(riskFreeRate * 100).toFixed(2)}%`);
     
     const calculationStartTime = Date.now();
+    const method = jumpParameters ? `${METHOD_TAGS[methodology]}-merton-jump` : METHOD_TAGS[methodology];
+    const model = getPricingModel(pricingModel);
+    
+    // Call option with strike = target price, plus the marketability-discount put models
+    const pricingInputs: PricingInputs = {
+      spot: currentPrice,          // Current spot price
+      strike: targetPrice,         // Strike price (user's target)
+      timeToExpiry,                // Time to expiry
+      riskFreeRate,                // Risk-free rate
+      volatility: jumpParameters ? jumpParameters.diffusionVolatility : pricingVolatility,
+      ...(jumpParameters && { jumps: jumpParameters })
+    };
+    const prices = priceDiscountModels(model, pricingInputs);
+    const theoreticalCallPrice = prices.call;
     
-    // Calculate Call option with strike = target price
-    const theoreticalCallPrice = blackScholesCall(
-      currentPrice,        // Current spot price
-      targetPrice,         // Strike price (user's target)
-      timeToExpiry,        // Time to expiry
-      riskFreeRate,        // Risk-free rate
-      volatilityResult.annualizedVolatility  // Volatility
-    );
+    // Greeks at the target strike from the selected model
+    const greeks = model.greeks(pricingInputs);
     
-    // Calculate discount rate
+    // Calculate discount rates
     const callDiscountRate = (theoreticalCallPrice / currentPrice) * 100;
-    const annualizedRate = (callDiscountRate * 365) / lockupDays;
+    const lookbackDiscountRate = (prices.lookback / currentPrice) * 100;
+    const averageStrikeDiscountRate = (prices.averageStrike / currentPrice) * 100;
+    
+    // Primary discount follows the selected methodology
+    const primaryPrice = selectMethodologyPrice(methodology, prices);
+    const discountRate = (primaryPrice / currentPrice) * 100;
+    const annualizedRate = (discountRate * 365) / lockupDays;
     
     // Calculate fair value (current price - option premium)
-    const fairValue = currentPrice - theoreticalCallPrice;
+    const fairValue = currentPrice - primaryPrice;
+    
+    // 跳躍擴散與純 Black-Scholes 在同一方法論下的折扣差異
+    let jumpDiffusion: JumpDiffusionAnalysis | null = null;
+    if (jumpParameters) {
+      const blackScholesPrice = selectMethodologyPrice(methodology, priceDiscountModels(getPricingModel('black-scholes'), {
+        spot: currentPrice,
+        strike: targetPrice,
+        timeToExpiry,
+        riskFreeRate,
+        volatility: pricingVolatility
+      }));
+      const blackScholesDiscount = (blackScholesPrice / currentPrice) * 100;
+      jumpDiffusion = {
+        parameters: jumpParameters,
+        blackScholesDiscount,
+        jumpDiffusionDiscount: discountRate,
+        discountDifference: discountRate - blackScholesDiscount
+      };
+      
+      console.log(`[Custom Token API] 🦘 Merton vs Black-Scholes: ${discountRate.toFixed(2)}% vs ${blackScholesDiscount.toFixed(2)}% (${jumpDiffusion.discountDifference >= 0 ? '+' : ''}${jumpDiffusion.discountDifference.toFixed(2)}pp)`);
+    }
     
     const calculationDuration = Date.now() - calculationStartTime;
     
     console.log(`[Custom Token API] ✅ Calculation complete!`);
     console.log(`[Custom Token API] 💰 Call price: $${theoreticalCallPrice.toFixed(4)}`);
-    console.log(`[Custom Token API] 📊 Discount: ${callDiscountRate.toFixed(2)}%`);
+    console.log(`[Custom Token API] 📊 Discount (${methodology}): ${discountRate.toFixed(2)}%`);
+    console.log(`[Custom Token API] 📊 Call / Lookback / Avg-strike: ${callDiscountRate.toFixed(2)}% / ${lookbackDiscountRate.toFixed(2)}% / ${averageStrikeDiscountRate.toFixed(2)}%`);
     console.log(`[Custom Token API] 📈 Annualized rate: ${annualizedRate.toFixed(2)}%`);
     
     debugLog.push({
       step: 'calculation_complete',
       timestamp: Date.now(),
       theoretical_call_price: theoreticalCallPrice,
-      discount_rate: callDiscountRate,
+      methodology,
+      discount_rate: discountRate,
+      call_discount_rate: callDiscountRate,
+      lookback_discount_rate: lookbackDiscountRate,
+      average_strike_discount_rate: averageStrikeDiscountRate,
       annualized_rate: annualizedRate,
+      greeks,
       duration: calculationDuration
     });
     
+    // Phase 4: Vesting schedule strip valuation (same target strike per tranche; GARCH volatility follows each tranche horizon)
+    const vestingValuation = vestingSchedule
+      ? await valueVestingSchedule(vestingSchedule, currentPrice, async (_tranchePeriod, trancheDays) => {
+          const trancheRate = await getTreasuryRateForDaysServer(trancheDays);
+          const trancheVolatility = volatilityEstimator === 'sample'
+            ? pricingVolatility
+            : forecastVolatilityAtHorizon(volatilityForecast, trancheDays);
+          const tranchePrice = selectMethodologyPrice(methodology, priceDiscountModels(model, {
+            ...pricingInputs,
+            timeToExpiry: trancheDays / 365,
+            riskFreeRate: trancheRate,
+            ...(!jumpParameters && { volatility: trancheVolatility })
+          }));
+          const trancheDiscount = (tranchePrice / currentPrice) * 100;
+          
+          return {
+            discount: trancheDiscount,
+            annualizedRate: (trancheDiscount * 365) / trancheDays,
+            impliedVolatility: trancheVolatility * 100,
+            riskFreeRate: trancheRate * 100,
+            method
+          };
+        })
+      : null;
+    
+    if (vestingValuation) {
+      console.log(`[Custom Token API] 🗓️ Vesting strip: ${vestingValuation.tranches.length} tranches, blended discount ${vestingValuation.blendedDiscount.toFixed(2)}%`);
+      
+      debugLog.push({
+        step: 'vesting_valuation_complete',
+        timestamp: Date.now(),
+        tranches: vestingValuation.tranches.length,
+        blended_discount: vestingValuation.blendedDiscount,
+        blended_fair_value: vestingValuation.blendedFairValue
+      });
+    }
+    
     const totalDuration = Date.now() - startTime;
     
+    const calculation: CustomTokenCalculationResult = {
+      currentPrice,
+      targetPrice,
+      theoreticalCallPrice,
+      theoreticalLookbackPrice: prices.lookback,
+      theoreticalAverageStrikePrice: prices.averageStrike,
+      discountRate,
+      callDiscountRate,
+      lookbackDiscountRate,
+      averageStrikeDiscountRate,
+      annualizedRate,
+      fairValue,
+      greeks,
+      method,
+      methodology,
+      pricingModel,
+      volatilityEstimator,
+      impliedVolatility: pricingVolatility * 100, // Convert to percentage
+      timeToExpiry,
+      riskFreeRate: riskFreeRate * 100, // Convert to percentage
+      lockupDays
+    };
+    
     // Prepare response
     const response = {
       success: true,
       tokenId,
       period,
-      calculation: {
-        currentPrice,
-        targetPrice,
-        theoreticalCallPrice,
-        callDiscountRate,
-        annualizedRate,
-        fairValue,
-        method: 'historical-volatility-target-price',
-        impliedVolatility: volatilityResult.annualizedVolatility * 100, // Convert to percentage
-        timeToExpiry,
-        riskFreeRate: riskFreeRate * 100, // Convert to percentage
-        lockupDays
-      },
+      calculation,
       volatilityAnalysis: {
         annualizedVolatility: volatilityResult.annualizedVolatility * 100,
         dailyVolatility: volatilityResult.dailyVolatility * 100,
@@ -229,12 +406,14 @@ export async function GET(request: NextRequest) {
         apiProvider: historicalPricesResult.provider,
         cached: historicalPricesResult.cached || false
       },
+      rangeVolatility,
+      robustVolatility,
       blackScholesParameters: {
         spotPrice: currentPrice,
         strikePrice: targetPrice,
         timeToExpiry,
         riskFreeRate: riskFreeRate * 100, // Convert to percentage
-        volatility: volatilityResult.annualizedVolatility * 100,
+        volatility: pricingVolatility * 100,
         lockupDays
       },
       targetPriceAnalysis: {
@@ -244,6 +423,9 @@ export async function GET(request: NextRequest) {
         percentageIncrease: ((targetPrice / currentPrice) - 1) * 100,
         moneyness: targetPrice > currentPrice ? 'OTM' : targetPrice < currentPrice ? 'ITM' : 'ATM'
       },
+      ...(volatilityEstimator !== 'sample' && { volatilityForecast }),
+      ...(jumpDiffusion && { jumpDiffusion }),
+      ...(vestingValuation && { vestingValuation }),
       performance: {
         total_duration: totalDuration,
         current_price_duration: currentPriceDuration,
@@ -0,0 +1,294 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { lockupPeriodToDays, parseLockupPeriod, INVALID_LOCKUP_PERIOD_MESSAGE } from '@/lib/calculator';
+import { getTreasuryRateForDaysServer } from '@/lib/treasuryRates';
+import { fetchHistoricalPrices, calculateHistoricalVolatility, getCurrentPrice } from '@/lib/historicalVolatility';
+import { parseVestingSchedule, validateVestingSchedule, buildVestingTranches, finalUnlockPeriod } from '@/lib/vesting';
+import { runMonteCarlo, validateMonteCarloParams, MonteCarloPayoff, MonteCarloParams, OptionType, BarrierType } from '@/lib/monteCarlo';
+import { VestingSchedule } from '@/types';
+
+// Force this route to be dynamic
+export const dynamic = 'force-dynamic';
+
+const PAYOFF_TYPES: MonteCarloPayoff['type'][] = ['european', 'average-price', 'average-strike-put', 'lookback-put', 'barrier', 'vesting-strip'];
+const BARRIER_TYPES: BarrierType[] = ['down-and-in', 'down-and-out', 'up-and-in', 'up-and-out'];
+const VESTING_SCHEDULE_REQUIRED_MESSAGE =
+  'Vesting schedule (vestingStart, cliffMonths, cliffPercent, vestingFrequency, vestingTranches) is required for vesting-strip payoffs';
+const VESTING_FULLY_UNLOCKED_MESSAGE = 'The vesting schedule has no future unlock to price';
+
+// 從查詢參數建立 payoff，無效時返回錯誤訊息（歸屬計畫已於呼叫前驗證）
+function buildPayoff(
+  searchParams: URLSearchParams,
+  spotPrice: number,
+  schedule: VestingSchedule | null
+): { payoff: MonteCarloPayoff; error?: undefined } | { payoff?: undefined; error: string } {
+  const type = (searchParams.get('payoff') || 'european') as MonteCarloPayoff['type'];
+  const optionType = (searchParams.get('optionType') || 'call') as OptionType;
+  const strikeStr = searchParams.get('strike');
+  const strike = strikeStr ? parseFloat(strikeStr) : spotPrice; // 預設 ATM
+
+  if (!PAYOFF_TYPES.includes(type)) {
+    return { error: `Invalid payoff. Must be one of: ${PAYOFF_TYPES.join(', ')}` };
+  }
+  if (optionType !== 'call' && optionType !== 'put') {
+    return { error: 'Invalid option type. Must be call or put' };
+  }
+  if (isNaN(strike) || strike <= 0) {
+    return { error: 'Invalid strike price' };
+  }
+
+  switch (type) {
+    case 'european':
+    case 'average-price':
+      return { payoff: { type, optionType, strike } };
+
+    case 'average-strike-put':
+    case 'lookback-put':
+      return { payoff: { type } };
+
+    case 'barrier': {
+      const barrier = parseFloat(searchParams.get('barrier') || '');
+      const barrierType = (searchParams.get('barrierType') || 'down-and-in') as BarrierType;
+      if (isNaN(barrier) || barrier <= 0) {
+        return { error: 'Barrier level is required for barrier payoffs' };
+      }
+      if (!BARRIER_TYPES.includes(barrierType)) {
+        return { error: `Invalid barrier type. Must be one of: ${BARRIER_TYPES.join(', ')}` };
+      }
+      return { payoff: { type, optionType, strike, barrier, barrierType } };
+    }
+
+    case 'vesting-strip': {
+      if (!schedule) {
+        return { error: VESTING_SCHEDULE_REQUIRED_MESSAGE };
+      }
+      // 已解鎖的 tranche 無期權價值，但仍佔總比例
+      const tranches = buildVestingTranches(schedule)
+        .filter(tranche => !tranche.vested)
+        .map(tranche => ({ time: tranche.lockupDays / 365, weight: tranche.percent / 100 }));
+      if (tranches.length === 0) {
+        return { error: VESTING_FULLY_UNLOCKED_MESSAGE };
+      }
+      return { payoff: { type, optionType, strike, tranches } };
+    }
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const debugLog: any[] = [];
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const tokenId = searchParams.get('tokenId');
+    const periodParam = searchParams.get('period');
+    const isVestingStrip = searchParams.get('payoff') === 'vesting-strip';
+    const vestingSchedule = isVestingStrip ? parseVestingSchedule(searchParams) : null;
+    const vestingError = vestingSchedule && validateVestingSchedule(vestingSchedule);
+    // 歸屬計畫 payoff 一律以最後解鎖日為期限（period 僅可省略或與其一致）
+    const period = isVestingStrip
+      ? vestingSchedule && !vestingError ? finalUnlockPeriod(vestingSchedule) : null
+      : parseLockupPeriod(periodParam);
+    const spotPriceStr = searchParams.get('spotPrice');
+    const volatilityStr = searchParams.get('volatility');
+    const volatilityDays = parseInt(searchParams.get('volatilityDays') || '90');
+    const debug = searchParams.get('debug') === 'true';
+
+    debugLog.push({
+      step: 'parameter_validation',
+      timestamp: Date.now(),
+      params: Object.fromEntries(searchParams.entries())
+    });
+
+    if (vestingError) {
+      return NextResponse.json(
+        { error: vestingError },
+        { status: 400 }
+      );
+    }
+
+    if (!period) {
+      return NextResponse.json(
+        { error: !isVestingStrip
+          ? INVALID_LOCKUP_PERIOD_MESSAGE
+          : vestingSchedule ? VESTING_FULLY_UNLOCKED_MESSAGE : VESTING_SCHEDULE_REQUIRED_MESSAGE },
+        { status: 400 }
+      );
+    }
+
+    if (isVestingStrip && periodParam) {
+      const requestedPeriod = parseLockupPeriod(periodParam);
+      if (!requestedPeriod || lockupPeriodToDays(requestedPeriod) !== lockupPeriodToDays(period)) {
+        return NextResponse.json(
+          { error: `Period ${periodParam} does not match the vesting schedule's final unlock (${period}). Omit period or pass ${period}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (!tokenId && (!spotPriceStr || !volatilityStr)) {
+      return NextResponse.json(
+        { error: 'Provide tokenId, or both spotPrice and volatility' },
+        { status: 400 }
+      );
+    }
+
+    if (![60, 90, 180].includes(volatilityDays)) {
+      return NextResponse.json(
+        { error: 'Invalid volatility days. Must be 60, 90, or 180' },
+        { status: 400 }
+      );
+    }
+
+    // Phase 1: Spot price (explicit or current market price)
+    let spotPrice: number;
+    let spotSource = 'request';
+    if (spotPriceStr) {
+      spotPrice = parseFloat(spotPriceStr);
+    } else {
+      const currentPriceResult = await getCurrentPrice(tokenId!);
+      spotPrice = currentPriceResult.data;
+      spotSource = currentPriceResult.provider;
+    }
+
+    if (isNaN(spotPrice) || spotPrice <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid spot price' },
+        { status: 400 }
+      );
+    }
+
+    // Phase 2: Volatility (explicit percentage or historical volatility)
+    let volatility: number;
+    let volatilitySource = 'request';
+    if (volatilityStr) {
+      volatility = parseFloat(volatilityStr) / 100;
+    } else {
+      const historicalPricesResult = await fetchHistoricalPrices(tokenId!, volatilityDays);
+      volatility = calculateHistoricalVolatility(historicalPricesResult.data, historicalPricesResult.provider).annualizedVolatility;
+      volatilitySource = `historical-${volatilityDays}d (${historicalPricesResult.provider})`;
+    }
+
+    if (isNaN(volatility) || volatility <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid volatility. Must be a positive percentage' },
+        { status: 400 }
+      );
+    }
+
+    const payoffResult = buildPayoff(searchParams, spotPrice, vestingSchedule);
+    if (payoffResult.error !== undefined) {
+      return NextResponse.json(
+        { error: payoffResult.error },
+        { status: 400 }
+      );
+    }
+    const payoff = payoffResult.payoff;
+
+    // 歸屬計畫的 period 即最後解鎖日，模擬期限涵蓋所有 tranche
+    const lockupDays = lockupPeriodToDays(period);
+    const timeToExpiry = lockupDays / 365;
+
+    // Phase 3: Treasury rate interpolated to the lockup length
+    const riskFreeRate = await getTreasuryRateForDaysServer(lockupDays);
+
+    const pathsStr = searchParams.get('paths');
+    const stepsStr = searchParams.get('steps');
+    const seedStr = searchParams.get('seed');
+    const params: MonteCarloParams = {
+      spotPrice,
+      riskFreeRate,
+      volatility,
+      timeToExpiry,
+      ...(pathsStr && { paths: Number(pathsStr) }),
+      ...(stepsStr && { steps: Number(stepsStr) }),
+      ...(seedStr && { seed: Number(seedStr) }),
+      antithetic: searchParams.get('antithetic') !== 'false',
+      controlVariate: searchParams.get('controlVariate') !== 'false'
+    };
+
+    const paramsError = validateMonteCarloParams(params);
+    if (paramsError) {
+      return NextResponse.json(
+        { error: paramsError },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Monte Carlo API] 🎲 ${payoff.type} payoff; S=$${spotPrice}, σ=${(volatility * 100).toFixed(1)}%, r=${(riskFreeRate * 100).toFixed(2)}%, T=${timeToExpiry.toFixed(3)}yr`);
+
+    debugLog.push({
+      step: 'inputs_resolved',
+      timestamp: Date.now(),
+      spot_price: spotPrice,
+      spot_source: spotSource,
+      volatility,
+      volatility_source: volatilitySource,
+      risk_free_rate: riskFreeRate,
+      lockup_days: lockupDays
+    });
+
+    // Phase 4: Simulation
+    const simulationStartTime = Date.now();
+    const result = runMonteCarlo(payoff, params);
+    const simulationDuration = Date.now() - simulationStartTime;
+
+    console.log(`[Monte Carlo API] ✅ Price: $${result.price.toFixed(4)} ± ${result.standardError.toFixed(4)} (${result.paths} paths × ${result.steps} steps, ${simulationDuration}ms)`);
+
+    debugLog.push({
+      step: 'simulation_complete',
+      timestamp: Date.now(),
+      price: result.price,
+      standard_error: result.standardError,
+      duration: simulationDuration
+    });
+
+    const totalDuration = Date.now() - startTime;
+
+    return NextResponse.json({
+      success: true,
+      ...(tokenId && { tokenId }),
+      period,
+      lockupDays,
+      payoff,
+      inputs: {
+        spotPrice,
+        spotSource,
+        volatility: volatility * 100, // Convert to percentage
+        volatilitySource,
+        riskFreeRate: riskFreeRate * 100, // Convert to percentage
+        timeToExpiry
+      },
+      result,
+      discount: (result.price / spotPrice) * 100,
+      discountStandardError: (result.standardError / spotPrice) * 100,
+      performance: {
+        total_duration: totalDuration,
+        simulation_duration: simulationDuration
+      },
+      timestamp: new Date().toISOString(),
+      ...(debug && { debugLog })
+    });
+
+  } catch (error) {
+    const errorDuration = Date.now() - startTime;
+    console.error('[Monte Carlo API] ❌ Error:', error);
+
+    debugLog.push({
+      step: 'error_occurred',
+      timestamp: Date.now(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to run Monte Carlo simulation',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        duration: errorDuration,
+        debugLog
+      },
+      { status: 500 }
+    );
+  }
+}
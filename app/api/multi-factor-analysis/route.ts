@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deriveMultiFactorImpliedVolatility, parseExtraFactors, INVALID_EXTRA_FACTORS_MESSAGE, MultiFactorEstimationOptions } from '@/lib/multiFactorModel';
+import {
+  parseBetaWindowDays,
+  parseBetaReturnFrequency,
+  parseBetaReturnType,
+  parseBetaPriceProvider,
+  forcedBetaProvider,
+  validateBetaEstimation,
+  INVALID_BETA_WINDOW_MESSAGE,
+  INVALID_BETA_RETURN_FREQUENCY_MESSAGE,
+  INVALID_BETA_RETURN_TYPE_MESSAGE,
+  INVALID_BETA_PRICE_PROVIDER_MESSAGE
+} from '@/lib/betaCalculator';
+import { calculateHistoricalVolatility, fetchHistoricalPrices, getCurrentPrice } from '@/lib/historicalVolatility';
+import { parseLockupPeriod, INVALID_LOCKUP_PERIOD_MESSAGE } from '@/lib/calculator';
+import { MultiFactorAnalysisResponse, ApiErrorResponse } from '@/types';
+
+// Force this route to be dynamic
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const tokenId = searchParams.get('tokenId');
+    const period = parseLockupPeriod(searchParams.get('period'));
+    const extraFactors = parseExtraFactors(searchParams.get('extraFactors'));
+    const windowDays = parseBetaWindowDays(searchParams.get('betaDays'));
+    const frequency = parseBetaReturnFrequency(searchParams.get('frequency'));
+    const returnType = parseBetaReturnType(searchParams.get('returnType'));
+    const provider = parseBetaPriceProvider(searchParams.get('provider'));
+
+    // Validate inputs
+    if (!tokenId) {
+      return NextResponse.json(
+        { error: 'Token ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!period) {
+      return NextResponse.json(
+        { error: INVALID_LOCKUP_PERIOD_MESSAGE },
+        { status: 400 }
+      );
+    }
+
+    if (!extraFactors) {
+      return NextResponse.json(
+        { error: INVALID_EXTRA_FACTORS_MESSAGE },
+        { status: 400 }
+      );
+    }
+
+    if (!windowDays) {
+      return NextResponse.json(
+        { error: INVALID_BETA_WINDOW_MESSAGE },
+        { status: 400 }
+      );
+    }
+
+    if (!frequency) {
+      return NextResponse.json(
+        { error: INVALID_BETA_RETURN_FREQUENCY_MESSAGE },
+        { status: 400 }
+      );
+    }
+
+    if (!returnType) {
+      return NextResponse.json(
+        { error: INVALID_BETA_RETURN_TYPE_MESSAGE },
+        { status: 400 }
+      );
+    }
+
+    if (!provider) {
+      return NextResponse.json(
+        { error: INVALID_BETA_PRICE_PROVIDER_MESSAGE },
+        { status: 400 }
+      );
+    }
+
+    const estimation: MultiFactorEstimationOptions = { windowDays, frequency, returnType, provider };
+
+    const estimationError = validateBetaEstimation(estimation);
+    if (estimationError) {
+      return NextResponse.json(
+        { error: estimationError },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Multi-Factor API] 🚀 Starting multi-factor analysis for ${tokenId}`);
+
+    // Get historical volatility for comparison（與迴歸使用相同的價格來源設定）
+    const forcedProvider = forcedBetaProvider(provider);
+    const historicalPricesResult = await fetchHistoricalPrices(tokenId, 90, forcedProvider, forcedProvider !== undefined);
+    const historicalVolResult = calculateHistoricalVolatility(historicalPricesResult.data, historicalPricesResult.provider);
+    const historicalVolatility = historicalVolResult.annualizedVolatility * 100; // Convert to percentage
+
+    console.log(`[Multi-Factor API] 📈 Historical volatility: ${historicalVolatility.toFixed(1)}%`);
+
+    const derivationResult = await deriveMultiFactorImpliedVolatility(tokenId, historicalVolatility, period, extraFactors, estimation);
+
+    // Get current price for context
+    const currentPriceResult = await getCurrentPrice(tokenId);
+
+    const totalDuration = Date.now() - startTime;
+    const { regression } = derivationResult;
+
+    console.log(`[Multi-Factor API] ✅ Analysis completed in ${totalDuration}ms`);
+
+    const response: MultiFactorAnalysisResponse = {
+      success: true,
+      tokenId,
+      period,
+      currentPrice: currentPriceResult.data,
+      multiFactorAnalysis: {
+        factors: regression.factors.map((factor, i) => ({
+          ...factor,
+          impliedVolatility: derivationResult.factorVolatilities[i].volatility,
+          volatilitySource: derivationResult.factorVolatilities[i].source,
+          varianceContribution: derivationResult.factorVolatilities[i].varianceContribution,
+          optionsDetail: derivationResult.factorVolatilities[i].optionsDetail,
+          provider: regression.factorProviders[i]
+        })),
+        alpha: regression.alpha,
+        alphaTStat: regression.alphaTStat,
+        rSquared: regression.rSquared,
+        adjustedRSquared: regression.adjustedRSquared,
+        factorCorrelations: regression.factorCorrelations,
+        altcoinVolatility: regression.altcoinVolatility,
+        idiosyncraticVolatility: regression.idiosyncraticVolatility,
+        dataPoints: regression.dataPoints,
+        calculationPeriodDays: regression.calculationPeriodDays,
+        frequency: regression.frequency,
+        returnType: regression.returnType,
+        altcoinProvider: regression.altcoinProvider
+      },
+      volatilityComparison: {
+        historicalVolatility: derivationResult.altcoinHistoricalVol,
+        systematicImpliedVolatility: derivationResult.systematicImpliedVol,
+        idiosyncraticVolatility: derivationResult.idiosyncraticVol,
+        derivedImpliedVolatility: derivationResult.derivedAltcoinImpliedVol,
+        difference: derivationResult.comparisonMetrics.impliedVsHistoricalDiff,
+        ratio: derivationResult.comparisonMetrics.impliedVsHistoricalRatio,
+        confidence: derivationResult.comparisonMetrics.confidence
+      },
+      methodology: {
+        description: 'Factor loadings from an OLS regression on benchmark token returns combine each factor\'s implied volatility and the realized factor correlations, plus idiosyncratic volatility from the regression residuals',
+        formula: 'Altcoin Implied Vol = √(bᵀΣb + Idiosyncratic Vol²), Σ_ij = ρ_ij × σ_i × σ_j',
+        regression: `r_alt = α + ${regression.factors.map(f => `b_${f.symbol} × r_${f.symbol}`).join(' + ')} + ε`,
+        period: `${windowDays}-day window, ${frequency} ${returnType} returns`,
+        factorVolatilitySources: derivationResult.factorVolatilities.map(f =>
+          f.optionsDetail
+            ? `${f.symbol}: Deribit options, ${f.optionsDetail.strategy} of ${f.optionsDetail.shortTermExpiry} / ${f.optionsDetail.longTermExpiry} to ${f.optionsDetail.lockupDays} days`
+            : `${f.symbol}: realized volatility (no Deribit options)`
+        )
+      },
+      performance: {
+        totalDuration,
+        timestamp: new Date().toISOString()
+      }
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    const errorDuration = Date.now() - startTime;
+    console.error('[Multi-Factor API] ❌ Error:', error);
+
+    return NextResponse.json<ApiErrorResponse>(
+      {
+        success: false,
+        error: 'Failed to perform multi-factor analysis',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        duration: errorDuration,
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchOptionsChain, fetchDualExpiryOptionsData } from '@/lib/optionsService';
-import { calculateDiscountFromDualExpiry, lockupPeriodToDays } from '@/lib/calculator';
-import { getTreasuryRateServer } from '@/lib/treasuryRates';
-import { Token, LockupPeriod } from '@/types';
+import { fetchOptionsChain, fetchDualExpiryOptionsData, fetchOptionsMarketSnapshot, OptionsMarketSnapshot, PRICE_TYPES, PriceType } from '@/lib/optionsService';
+import { calculateDiscountFromDualExpiry, lockupPeriodToDays, parseLockupPeriod, parseDiscountMethodology, INVALID_LOCKUP_PERIOD_MESSAGE, INVALID_DISCOUNT_METHODOLOGY_MESSAGE } from '@/lib/calculator';
+import { getTreasuryRateForDaysServer } from '@/lib/treasuryRates';
+import { parseVestingSchedule, validateVestingSchedule, valueVestingSchedule } from '@/lib/vesting';
+import { analyzeVarianceRiskPremium } from '@/lib/varianceRiskPremium';
+import { parseTermStructureModel, INVALID_TERM_STRUCTURE_MODEL_MESSAGE } from '@/lib/termStructure';
+import { arbitrageWarnings } from '@/lib/arbitrageChecks';
+import { Token, VarianceRiskPremiumAnalysis, VestingValuation } from '@/types';
 
 // Force this route to be dynamic
 export const dynamic = 'force-dynamic';
@@ -14,14 +18,22 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const token = searchParams.get('token') as Token;
-    const period = searchParams.get('period') as LockupPeriod;
+    const periodParam = searchParams.get('period');
+    const period = parseLockupPeriod(periodParam);
     const spotPriceStr = searchParams.get('spotPrice');
+    const methodologyParam = searchParams.get('methodology');
+    const methodology = parseDiscountMethodology(methodologyParam);
+    const priceTypeParam = searchParams.get('priceType');
+    const priceType = (priceTypeParam || 'mark') as PriceType;
+    const termStructureParam = searchParams.get('termStructure');
+    const termStructureModel = parseTermStructureModel(termStructureParam);
+    const vestingSchedule = parseVestingSchedule(searchParams);
     const debug = searchParams.get('debug') === 'true';
     
     debugLog.push({
       step: 'parameter_validation',
       timestamp: Date.now(),
-      params: { token, period, spotPrice: spotPriceStr }
+      params: { token, period: periodParam, spotPrice: spotPriceStr, methodology: methodologyParam, priceType: priceTypeParam, termStructure: termStructureParam, vestingSchedule }
     });
     
     if (!token || !['BTC', 'ETH'].includes(token)) {
@@ -31,9 +43,30 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    if (!period || !['3M', '6M', '1Y', '2Y'].includes(period)) {
+    if (!period) {
       return NextResponse.json(
-        { error: 'Invalid period. Must be 3M, 6M, 1Y, or 2Y' },
+        { error: INVALID_LOCKUP_PERIOD_MESSAGE },
+        { status: 400 }
+      );
+    }
+    
+    if (!methodology) {
+      return NextResponse.json(
+        { error: INVALID_DISCOUNT_METHODOLOGY_MESSAGE },
+        { status: 400 }
+      );
+    }
+    
+    if (!PRICE_TYPES.includes(priceType)) {
+      return NextResponse.json(
+        { error: `Invalid price type. Must be one of: ${PRICE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    if (!termStructureModel) {
+      return NextResponse.json(
+        { error: INVALID_TERM_STRUCTURE_MODEL_MESSAGE },
         { status: 400 }
       );
     }
@@ -53,10 +86,18 @@ export async function GET(request: NextRequest) {
       );
     }
     
+    const vestingValidationError = vestingSchedule && validateVestingSchedule(vestingSchedule);
+    if (vestingValidationError) {
+      return NextResponse.json(
+        { error: vestingValidationError },
+        { status: 400 }
+      );
+    }
+    
     debugLog.push({
       step: 'validation_complete',
       timestamp: Date.now(),
-      validated_params: { token, period, spotPrice }
+      validated_params: { token, period, spotPrice, methodology, priceType, termStructureModel }
     });
     
     console.log(`[API] 🚀 Fetching ${token} ${period} options; spot: $${spotPrice.toLocaleString()}`);
@@ -75,16 +116,78 @@ export async function GET(request: NextRequest) {
     
     let dualExpiryData = null;
     let dualExpiryError = null;
+    // 合約清單、遠期曲線與期限結構只抓取一次，歸屬計畫各分批期限共用
+    let marketSnapshot: OptionsMarketSnapshot | null = null;
     
     try {
-      dualExpiryData = await fetchDualExpiryOptionsData(token, period, spotPrice);
+      marketSnapshot = await fetchOptionsMarketSnapshot(token, spotPrice, priceType);
+      dualExpiryData = await fetchDualExpiryOptionsData(token, period, spotPrice, priceType, termStructureModel, marketSnapshot);
       console.log(`[API] ✅ Dual-expiry data fetch ${dualExpiryData ? 'success' : 'failed'}`);
       
       if (dualExpiryData) {
-        console.log(`[API] 📈 Strategy: ${dualExpiryData.strategy}`);
+        console.log(`[API] 📈 Strategy: ${dualExpiryData.strategy} (term structure: ${dualExpiryData.termStructure.model}, ${dualExpiryData.termStructure.nodes.length} expiries, RMSE ${dualExpiryData.termStructure.rmse.toFixed(2)})`);
         console.log(`[API] 📈 Short: ${dualExpiryData.shortTerm.expiry} (${dualExpiryData.shortTerm.optionsData.length} contracts)`);
         console.log(`[API] 📈 Long: ${dualExpiryData.longTerm.expiry} (${dualExpiryData.longTerm.optionsData.length} contracts)`);
         console.log(`[API] 📈 Target T: ${dualExpiryData.targetTimeToExpiry.toFixed(3)} yr`);
+        console.log(`[API] ⚖️ Arbitrage checks: ${dualExpiryData.arbitrage.violations.length} violations, ${dualExpiryData.arbitrage.excludedContracts} contracts excluded`);
+        
+        // 各到期日 SVI 微笑擬合參數與殘差
+        debugLog.push({
+          step: 'smile_fit',
+          timestamp: Date.now(),
+          phase: 1,
+          short_term: dualExpiryData.shortTerm.smile
+            ? { expiry: dualExpiryData.shortTerm.expiry, ...dualExpiryData.shortTerm.smile }
+            : { expiry: dualExpiryData.shortTerm.expiry, fallback: 'average_iv', average_iv: dualExpiryData.shortTerm.impliedVol },
+          long_term: dualExpiryData.longTerm.smile
+            ? { expiry: dualExpiryData.longTerm.expiry, ...dualExpiryData.longTerm.smile }
+            : { expiry: dualExpiryData.longTerm.expiry, fallback: 'average_iv', average_iv: dualExpiryData.longTerm.impliedVol }
+        });
+        
+        // 所有到期日 ATM 總方差期限結構的擬合參數與殘差
+        debugLog.push({
+          step: 'term_structure_fit',
+          timestamp: Date.now(),
+          phase: 1,
+          ...dualExpiryData.termStructure
+        });
+        
+        // 日曆、垂直/蝶式價差與 put-call parity 無套利檢查
+        debugLog.push({
+          step: 'arbitrage_checks',
+          timestamp: Date.now(),
+          phase: 1,
+          ...dualExpiryData.arbitrage
+        });
+        
+        // 由所選價格反推的隱含波動率與警示合約
+        debugLog.push({
+          step: 'iv_solver',
+          timestamp: Date.now(),
+          phase: 1,
+          price_type: priceType,
+          ...Object.fromEntries([dualExpiryData.shortTerm, dualExpiryData.longTerm].map((term, i) => [
+            i === 0 ? 'short_term' : 'long_term',
+            {
+              expiry: term.expiry,
+              solved: term.optionsData.filter(option => option.ivSolution?.source !== 'market').length,
+              contracts: term.optionsData.length,
+              flagged: term.optionsData
+                .filter(option => option.ivSolution && option.ivSolution.flags.length > 0)
+                .map(option => ({ strike: option.strike, ...option.ivSolution }))
+            }
+          ]))
+        });
+        
+        // Deribit 期貨遠期曲線與 put-call parity 交叉驗證
+        debugLog.push({
+          step: 'forward_curve',
+          timestamp: Date.now(),
+          phase: 1,
+          ...(dualExpiryData.forward
+            ? dualExpiryData.forward
+            : { fallback: 'spot_treasury_carry' })
+        });
       }
     } catch (error) {
       dualExpiryError = error;
@@ -96,6 +199,7 @@ export async function GET(request: NextRequest) {
     let calculationMethod = 'single_expiry_fallback';
     let dualExpiryCalculation = null;
     let calculationError = null;
+    let varianceRiskPremium: VarianceRiskPremiumAnalysis | null = null;
     
     if (dualExpiryData) {
       console.log(`[API] 🧮 Phase 2: Run dual-expiry discount calculation...`);
@@ -103,18 +207,10 @@ export async function GET(request: NextRequest) {
       try {
         const lockupDays = lockupPeriodToDays(period);
         
-        // Get treasury rate based on period
-        const treasuryPeriodMap: Record<LockupPeriod, '3M' | '6M' | '1Y' | '2Y'> = {
-          '3M': '3M',
-          '6M': '6M', 
-          '1Y': '1Y',
-          '2Y': '2Y'
-        };
+        // Get treasury rate interpolated to the lockup length
+        const riskFreeRate = await getTreasuryRateForDaysServer(lockupDays);
         
-        const treasuryPeriod = treasuryPeriodMap[period];
-        const riskFreeRate = await getTreasuryRateServer(treasuryPeriod);
-        
-        console.log(`[API] 💰 Using ${treasuryPeriod} treasury rate: ${(riskFreeRate * 100).toFixed(2)}%`);
+        console.log(`[API] 💰 Using ${lockupDays}-day treasury rate: ${(riskFreeRate * 100).toFixed(2)}%`);
         
         debugLog.push({
           step: 'dual_expiry_calculation_start',
@@ -122,13 +218,12 @@ export async function GET(request: NextRequest) {
           phase: 2,
           lockup_days: lockupDays,
           risk_free_rate: riskFreeRate,
-          treasury_period: treasuryPeriod,
           strategy: dualExpiryData.strategy,
           short_term_expiry: dualExpiryData.shortTerm.expiry,
           long_term_expiry: dualExpiryData.longTerm.expiry
         });
         
-        dualExpiryCalculation = calculateDiscountFromDualExpiry(dualExpiryData, spotPrice, lockupDays, riskFreeRate);
+        dualExpiryCalculation = calculateDiscountFromDualExpiry(dualExpiryData, spotPrice, lockupDays, riskFreeRate, methodology);
         calculationMethod = 'dual_expiry_variance_extrapolation';
         
         // Use long-term contracts for display
@@ -137,6 +232,7 @@ export async function GET(request: NextRequest) {
         console.log(`[API] ✅ Dual-expiry calculation success!`);
         console.log(`[API] 💰 Call discount: ${dualExpiryCalculation.callDiscount?.toFixed(2)}%`);
         console.log(`[API] 💰 Put discount: ${dualExpiryCalculation.putDiscount?.toFixed(2)}%`);
+        console.log(`[API] 💰 Longstaff lookback discount: ${dualExpiryCalculation.lookbackDiscount?.toFixed(2)}%`);
         console.log(`[API] 📊 Extrapolated IV: ${dualExpiryCalculation.impliedVolatility?.toFixed(1)}%`);
         
         debugLog.push({
@@ -145,10 +241,39 @@ export async function GET(request: NextRequest) {
           phase: 2,
           call_discount: dualExpiryCalculation.callDiscount,
           put_discount: dualExpiryCalculation.putDiscount,
+          lookback_discount: dualExpiryCalculation.lookbackDiscount,
+          methodology,
           extrapolated_volatility: dualExpiryCalculation.impliedVolatility,
           total_contracts: dualExpiryCalculation.totalContracts
         });
         
+        // Phase 2b: Implied vs realized vol over matching windows; failure here does not affect the discount
+        try {
+          varianceRiskPremium = await analyzeVarianceRiskPremium(
+            token, dualExpiryData, dualExpiryCalculation, spotPrice, lockupDays, riskFreeRate, methodology
+          );
+          
+          console.log(`[API] 📐 Implied vs historical-vol discount: ${varianceRiskPremium.impliedDiscount.toFixed(2)}% vs ${varianceRiskPremium.historicalDiscount.discount.toFixed(2)}%`);
+          
+          debugLog.push({
+            step: 'variance_risk_premium',
+            timestamp: Date.now(),
+            phase: 2,
+            points: varianceRiskPremium.points,
+            historical_discount: varianceRiskPremium.historicalDiscount.discount,
+            api_provider: varianceRiskPremium.apiProvider
+          });
+        } catch (error) {
+          console.warn(`[API] ⚠️ Variance risk premium unavailable:`, error);
+          
+          debugLog.push({
+            step: 'variance_risk_premium_error',
+            timestamp: Date.now(),
+            phase: 2,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+        
       } catch (error) {
         calculationError = error;
         console.error(`[API] ❌ Dual-expiry calculation failed:`, error);
@@ -185,7 +310,7 @@ export async function GET(request: NextRequest) {
       });
       
       try {
-        optionsData = await fetchOptionsChain(token, period, spotPrice);
+        optionsData = await fetchOptionsChain(token, period, spotPrice, priceType);
         calculationMethod = 'single_expiry_nearest_match';
         
         console.log(`[API] ✅ Single-expiry data success: ${optionsData.length} contracts`);
@@ -247,12 +372,63 @@ export async function GET(request: NextRequest) {
       checks: qualityChecks
     });
     
+    // Phase 4: Vesting schedule strip valuation
+    let vestingValuation: VestingValuation | null = null;
+    let vestingError: string | null = null;
+    
+    if (vestingSchedule) {
+      console.log(`[API] 🗓️ Phase 4: Value vesting schedule as a strip of options...`);
+      
+      try {
+        const snapshot = marketSnapshot ?? await fetchOptionsMarketSnapshot(token, spotPrice, priceType);
+        vestingValuation = await valueVestingSchedule(vestingSchedule, spotPrice, async (tranchePeriod, trancheDays) => {
+          const trancheData = await fetchDualExpiryOptionsData(token, tranchePeriod, spotPrice, priceType, termStructureModel, snapshot);
+          if (!trancheData) {
+            throw new Error(`No dual-expiry data for ${tranchePeriod}`);
+          }
+          const trancheRate = await getTreasuryRateForDaysServer(trancheDays);
+          const trancheCalculation = calculateDiscountFromDualExpiry(trancheData, spotPrice, trancheDays, trancheRate, methodology);
+          
+          return {
+            discount: trancheCalculation.discount,
+            annualizedRate: trancheCalculation.annualizedRate,
+            impliedVolatility: trancheCalculation.impliedVolatility,
+            riskFreeRate: trancheRate * 100,
+            method: trancheCalculation.method
+          };
+        });
+        
+        console.log(`[API] ✅ Vesting strip: ${vestingValuation.tranches.length} tranches from ${snapshot.chains.size} option expiries, blended discount ${vestingValuation.blendedDiscount.toFixed(2)}%`);
+        
+        debugLog.push({
+          step: 'vesting_valuation_success',
+          timestamp: Date.now(),
+          phase: 4,
+          tranches: vestingValuation.tranches.length,
+          blended_discount: vestingValuation.blendedDiscount,
+          blended_fair_value: vestingValuation.blendedFairValue
+        });
+      } catch (error) {
+        vestingError = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[API] ❌ Vesting valuation failed:`, error);
+        
+        debugLog.push({
+          step: 'vesting_valuation_error',
+          timestamp: Date.now(),
+          phase: 4,
+          error: vestingError
+        });
+      }
+    }
+    
     const totalDuration = Date.now() - startTime;
     
     const response = {
       success: true,
       token,
       period,
+      lockupDays: lockupPeriodToDays(period),
+      methodology,
       spotPrice,
       optionsData,
       count: optionsData.length,
@@ -262,6 +438,8 @@ export async function GET(request: NextRequest) {
         fetch_duration: fetchDuration,
       },
       quality: qualityChecks,
+      // 無套利檢查剔除或修正的合約
+      warnings: dualExpiryData ? arbitrageWarnings(dualExpiryData.arbitrage) : [],
       // 新增雙到期日計算相關信息
       calculationMethod,
       ...(dualExpiryCalculation && {
@@ -272,9 +450,14 @@ export async function GET(request: NextRequest) {
           longTermExpiry: dualExpiryData.longTerm.expiry,
           shortTermIV: dualExpiryData.shortTerm.impliedVol,
           longTermIV: dualExpiryData.longTerm.impliedVol,
-          targetTimeToExpiry: dualExpiryData.targetTimeToExpiry
-        } : null
+          targetTimeToExpiry: dualExpiryData.targetTimeToExpiry,
+          termStructure: dualExpiryData.termStructure,
+          arbitrage: dualExpiryData.arbitrage,
+          forward: dualExpiryData.forward
+        } : null,
+        ...(varianceRiskPremium && { varianceRiskPremium })
       }),
+      ...(vestingSchedule && { vestingValuation, vestingError }),
       ...(debug && { debugLog })
     };
     
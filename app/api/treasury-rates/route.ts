@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { apiCache, cacheKeys, cacheTTL } from '@/lib/apiCache';
+import { getTreasuryTenorBracket, interpolateTreasuryRate } from '@/lib/treasuryRates';
+import { MAX_LOCKUP_DAYS } from '@/lib/calculator';
 
 // Force this route to be dynamic
 export const dynamic = 'force-dynamic';
@@ -34,7 +36,7 @@ interface FredResponse {
 
 // Treasury rate cache interface
 interface TreasuryRateData {
-  period: Period;
+  period: Period | `${number}D`;
   rate: number;
   series_id: string;
   date: string;
@@ -143,30 +145,58 @@ async function getTreasuryRate(period: Period): Promise<TreasuryRateData> {
   return result;
 }
 
+// Interpolate between the bracketing tenors for a custom lockup length
+async function getTreasuryRateForDays(days: number): Promise<TreasuryRateData> {
+  const bracket = getTreasuryTenorBracket(days);
+  
+  const [lower, upper] = await Promise.all([
+    getTreasuryRate(bracket.lower),
+    getTreasuryRate(bracket.upper)
+  ]);
+  
+  return {
+    period: `${days}D`,
+    rate: interpolateTreasuryRate(bracket, lower.rate, upper.rate),
+    series_id: bracket.lower === bracket.upper ? lower.series_id : `${lower.series_id}/${upper.series_id}`,
+    date: lower.date < upper.date ? lower.date : upper.date,
+    source: lower.source === 'FRED' && upper.source === 'FRED' ? 'FRED' : 'FALLBACK'
+  };
+}
+
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
   
   try {
     const { searchParams } = new URL(request.url);
     const period = searchParams.get('period') as Period;
+    const daysStr = searchParams.get('days');
+    const days = daysStr ? parseInt(daysStr) : null;
     
-    // Validate period parameter
-    if (!period || !Object.keys(TREASURY_SERIES_MAP).includes(period)) {
+    // Validate period / days parameter
+    if (days !== null) {
+      if (isNaN(days) || days < 1 || days > MAX_LOCKUP_DAYS || String(days) !== daysStr) {
+        return NextResponse.json(
+          { error: `Invalid days. Must be an integer between 1 and ${MAX_LOCKUP_DAYS}` },
+          { status: 400 }
+        );
+      }
+    } else if (!period || !Object.keys(TREASURY_SERIES_MAP).includes(period)) {
       return NextResponse.json(
         { 
-          error: 'Invalid period. Must be one of: 3M, 6M, 1Y, 2Y',
+          error: 'Invalid period. Must be one of: 3M, 6M, 1Y, 2Y (or pass days)',
           available_periods: Object.keys(TREASURY_SERIES_MAP)
         },
         { status: 400 }
       );
     }
 
-    console.log(`[Treasury API] 🚀 Fetching ${period} U.S. Treasury rate...`);
+    const label = days !== null ? `${days}-day` : period;
+    console.log(`[Treasury API] 🚀 Fetching ${label} U.S. Treasury rate...`);
 
-    const treasuryData = await getTreasuryRate(period);
+    const treasuryData = days !== null ? await getTreasuryRateForDays(days) : await getTreasuryRate(period);
     const duration = Date.now() - startTime;
 
-    console.log(`[Treasury API] ✅ ${period} rate: ${(treasuryData.rate * 100).toFixed(2)}% (source: ${treasuryData.source}, in ${duration}ms)`);
+    console.log(`[Treasury API] ✅ ${label} rate: ${(treasuryData.rate * 100).toFixed(2)}% (source: ${treasuryData.source}, in ${duration}ms)`);
 
     return NextResponse.json({
       success: true,
@@ -174,7 +204,7 @@ export async function GET(request: NextRequest) {
       rate_percentage: treasuryData.rate * 100, // Also include percentage format
       performance: {
         duration,
-        cached: treasuryData.source !== 'FRED' || apiCache.has(`treasury_rate_${period}`)
+        cached: treasuryData.source !== 'FRED' || apiCache.has(`treasury_rate_${days !== null ? getTreasuryTenorBracket(days).lower : period}`)
       }
     });
     
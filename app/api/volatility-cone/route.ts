@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchHistoricalPrices } from '@/lib/historicalVolatility';
+import { calculateVolatilityCone, DEFAULT_CONE_HISTORY_DAYS } from '@/lib/volatilityCone';
+
+// Force this route to be dynamic
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const debugLog: any[] = [];
+  
+  try {
+    const { searchParams } = new URL(request.url);
+    const tokenId = searchParams.get('tokenId');
+    const historyDaysStr = searchParams.get('historyDays');
+    const overlayStr = searchParams.get('overlayVolatility');
+    const debug = searchParams.get('debug') === 'true';
+    
+    const historyDays = historyDaysStr ? parseInt(historyDaysStr) : DEFAULT_CONE_HISTORY_DAYS;
+    const overlayVolatility = overlayStr ? parseFloat(overlayStr) : undefined;
+    
+    debugLog.push({
+      step: 'parameter_validation',
+      timestamp: Date.now(),
+      params: { tokenId, historyDays: historyDaysStr, overlayVolatility: overlayStr }
+    });
+    
+    // Validate inputs
+    if (!tokenId) {
+      return NextResponse.json(
+        { error: 'Token ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    if (isNaN(historyDays) || historyDays < 60 || historyDays > 1825) {
+      return NextResponse.json(
+        { error: 'Invalid history days. Must be between 60 and 1825' },
+        { status: 400 }
+      );
+    }
+    
+    if (overlayVolatility !== undefined && (isNaN(overlayVolatility) || overlayVolatility <= 0)) {
+      return NextResponse.json(
+        { error: 'Invalid overlay volatility. Must be a positive percentage' },
+        { status: 400 }
+      );
+    }
+    
+    console.log(`[Volatility Cone API] 🚀 Building ${tokenId} volatility cone from ${historyDays} days of history`);
+    
+    const historicalPricesResult = await fetchHistoricalPrices(tokenId, historyDays);
+    
+    debugLog.push({
+      step: 'historical_prices_fetched',
+      timestamp: Date.now(),
+      data_points: historicalPricesResult.data.length,
+      api_provider: historicalPricesResult.provider,
+      cached: historicalPricesResult.cached || false
+    });
+    
+    const cone = calculateVolatilityCone(tokenId, historicalPricesResult.data, undefined, overlayVolatility);
+    
+    debugLog.push({
+      step: 'cone_calculated',
+      timestamp: Date.now(),
+      windows: cone.windows.map(w => w.windowDays),
+      observations: cone.observations
+    });
+    
+    const totalDuration = Date.now() - startTime;
+    
+    console.log(`[Volatility Cone API] ✅ ${cone.windows.length} windows in ${totalDuration}ms`);
+    
+    return NextResponse.json({
+      success: true,
+      tokenId,
+      cone,
+      apiProvider: historicalPricesResult.provider,
+      cached: historicalPricesResult.cached || false,
+      performance: {
+        total_duration: totalDuration
+      },
+      timestamp: new Date().toISOString(),
+      ...(debug && { debugLog })
+    });
+    
+  } catch (error) {
+    const errorDuration = Date.now() - startTime;
+    console.error('[Volatility Cone API] ❌ Error:', error);
+    
+    debugLog.push({
+      step: 'error',
+      timestamp: Date.now(),
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to build volatility cone',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        duration: errorDuration,
+        debugLog
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,8 @@
 
 import React, { useState } from 'react';
 import { ChevronDownIcon, ChevronRightIcon, CheckIcon, ExclamationTriangleIcon, ClockIcon } from '@heroicons/react/24/outline';
-import { CalculationStep } from '@/types';
+import { CalculationStep, TermStructureFit } from '@/types';
+import { EXTRAPOLATION_STRATEGY_LABELS } from '@/lib/termStructure';
 
 interface CalculationFlowProps {
   steps: CalculationStep[];
@@ -24,6 +25,50 @@ const StepIcon = ({ status }: { status: CalculationStep['status'] }) => {
   }
 };
 
+// 期限結構擬合診斷：參數與各到期日的市場/擬合 ATM 隱含波動率
+const TermStructureDiagnostics = ({ fit }: { fit: TermStructureFit }) => (
+  <div className="mt-3">
+    <h4 className="text-sm font-medium text-gray-900 mb-2">Term Structure Fit</h4>
+    <div className="bg-indigo-50 p-3 rounded-md text-xs text-indigo-900 space-y-2">
+      <div>
+        {EXTRAPOLATION_STRATEGY_LABELS[fit.model]} over {fit.nodes.length} expiries
+        {fit.source === 'selected_expiries' && ' (selected expiries only)'}
+        {' '}· RMSE {fit.rmse.toFixed(2)} vol pts · max |residual| {fit.maxAbsResidual.toFixed(2)} vol pts
+      </div>
+      {fit.model !== fit.requestedModel && (
+        <div className="text-orange-700">
+          ⚠️ {EXTRAPOLATION_STRATEGY_LABELS[fit.requestedModel]} needs more expiries; fell back to {EXTRAPOLATION_STRATEGY_LABELS[fit.model]}
+        </div>
+      )}
+      <div className="font-mono">
+        {Object.entries(fit.parameters).map(([name, value]) => `${name} = ${value.toFixed(4)}`).join(', ')}
+      </div>
+      <table className="w-full">
+        <thead>
+          <tr className="text-indigo-700">
+            <th className="text-left font-medium">Expiry</th>
+            <th className="text-right font-medium">Days</th>
+            <th className="text-right font-medium">ATM IV</th>
+            <th className="text-right font-medium">Fitted</th>
+            <th className="text-right font-medium">Residual</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fit.residuals.map(residual => (
+            <tr key={residual.expiry}>
+              <td>{residual.expiry}</td>
+              <td className="text-right">{(residual.timeToExpiry * 365).toFixed(0)}</td>
+              <td className="text-right">{residual.atmVol.toFixed(1)}%</td>
+              <td className="text-right">{residual.fittedVol.toFixed(1)}%</td>
+              <td className="text-right">{residual.residual >= 0 ? '+' : ''}{residual.residual.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
 const StepDetail = ({ step }: { step: CalculationStep }) => {
   const [expanded, setExpanded] = useState(false);
 
@@ -88,6 +133,8 @@ const StepDetail = ({ step }: { step: CalculationStep }) => {
             </div>
           )}
 
+          {step.termStructure && <TermStructureDiagnostics fit={step.termStructure} />}
+
           {step.errorMessage && (
             <div className="mt-3">
               <h4 className="text-sm font-medium text-red-900 mb-2">Error</h4>
@@ -183,6 +230,14 @@ export const CALCULATION_STEPS_TEMPLATE = {
     formula: 'Strategy = f(target_date, available_expiries)'
   },
   
+  TERM_STRUCTURE_FIT: {
+    id: 'term-structure-fit',
+    name: '📐 Term Structure Fit',
+    description: 'Fit ATM total variance across every listed expiry',
+    status: 'pending' as const,
+    formula: 'w(T) = σ_ATM(T)² × T'
+  },
+  
   COMMON_STRIKES: {
     id: 'common-strikes',
     name: '⚖️ Common ATM Strikes',
@@ -194,9 +249,9 @@ export const CALCULATION_STEPS_TEMPLATE = {
   VARIANCE_EXTRAPOLATION: {
     id: 'variance-extrapolation',
     name: '📈 Variance Extrapolation',
-    description: 'Linearly extrapolate variance between two expiries to target',
+    description: 'Interpolate variance between two expiries, or scale from the nearest expiry along the fitted term structure',
     status: 'pending' as const,
-    formula: 'σ_target = √(Var_target / T_target)'
+    formula: 'Var_target = Var_anchor × w(T_target) / w(T_anchor); σ_target = √(Var_target / T_target)'
   },
   
   BLACK_SCHOLES: {
@@ -1,47 +1,44 @@
 'use client';
 
 import { useState } from 'react';
-import { Token, LockupPeriod, PriceData, DiscountCalculation, OptionData, CalculationStep, RawATMContract, TokenCalculationMode, CustomTokenInput as CustomTokenInputType } from '@/types';
-import { lockupPeriodToDays, calculateDiscountFromOptions, validateOptionsData } from '@/lib/calculator';
+import { Token, LockupPeriod, PriceData, DiscountCalculation, OptionData, CalculationStep, RawATMContract, TokenCalculationMode, DiscountMethodology, VestingSchedule, VestingValuation, VarianceRiskPremiumAnalysis, BetaEstimationOptions, ExtrapolationStrategy, TermStructureFit, ProxyImpliedAnalysisResponse, MultiFactorAnalysisResponse, ApiErrorResponse, CustomTokenCalculationResult, CustomTokenInput as CustomTokenInputType } from '@/types';
+import { lockupPeriodToDays, formatLockupPeriod, calculateDiscountFromOptions, validateOptionsData, longstaffLookbackPut, averageStrikePut, selectMethodologyPrice, priceDiscountModels } from '@/lib/calculator';
+import { getPricingModel, PricingInputs } from '@/lib/pricing';
+import { finalUnlockPeriod, validateVestingSchedule, valueVestingSchedule, vestingScheduleToQuery } from '@/lib/vesting';
 import { getTreasuryRateForPeriod } from '@/lib/treasuryRates';
+import { EXTRAPOLATION_STRATEGY_LABELS } from '@/lib/termStructure';
 import CalculationFlow, { CALCULATION_STEPS_TEMPLATE } from './CalculationFlow';
 import DiscountResults from './DiscountResults';
 import HistoricalVolatilityResults from './HistoricalVolatilityResults';
-import BetaImpliedVolatilityResults from './BetaImpliedVolatilityResults';
+import ProxyImpliedVolatilityResults from './ProxyImpliedVolatilityResults';
+import MultiFactorImpliedVolatilityResults from './MultiFactorImpliedVolatilityResults';
 import TokenModeSelector from './TokenModeSelector';
 import CustomTokenInput from './CustomTokenInput';
+import LockupPeriodSelector from './LockupPeriodSelector';
+import VestingScheduleInput from './VestingScheduleInput';
+import DiscountMethodologySelector from './DiscountMethodologySelector';
+import VestingResults from './VestingResults';
 import MadeByBill from './MadeByBill';
 
-// Black-Scholes Call option pricing function
-function blackScholesCall(
-  S: number,     // Current price
-  K: number,     // Strike price (target price)
-  T: number,     // Time to expiry (years)
-  r: number,     // Risk-free rate
-  sigma: number  // Volatility
-): number {
-  const d1 = (Math.log(S / K) + (r + 0.5 * sigma * sigma) * T) / (sigma * Math.sqrt(T));
-  const d2 = d1 - sigma * Math.sqrt(T);
-  
-  // Standard normal cumulative distribution function approximation
-  const normCdf = (x: number): number => {
-    const a1 =  0.254829592;
-    const a2 = -0.284496736;
-    const a3 =  1.421413741;
-    const a4 = -1.453152027;
-    const a5 =  1.061405429;
-    const p  =  0.3275911;
-
-    const sign = x < 0 ? -1 : 1;
-    const absX = Math.abs(x) / Math.sqrt(2.0);
-
-    const t = 1.0 / (1.0 + p * absX);
-    const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-absX * absX);
-
-    return 0.5 * (1.0 + sign * y);
+// 將 /api/custom-token 的計算結果轉為 DiscountCalculation
+function toCustomTokenCalculation(apiCalculation: CustomTokenCalculationResult): DiscountCalculation {
+  return {
+    annualizedRate: apiCalculation.annualizedRate,
+    fairValue: apiCalculation.fairValue,
+    discount: apiCalculation.discountRate,
+    method: apiCalculation.method,
+    methodology: apiCalculation.methodology,
+    callDiscount: apiCalculation.callDiscountRate,
+    putDiscount: 0, // 自定義代幣模式只計算 Call
+    lookbackDiscount: apiCalculation.lookbackDiscountRate,
+    averageStrikeDiscount: apiCalculation.averageStrikeDiscountRate,
+    impliedVolatility: apiCalculation.impliedVolatility,
+    theoreticalCallPrice: apiCalculation.theoreticalCallPrice,
+    theoreticalPutPrice: 0, // 自定義代幣模式不計算 Put
+    theoreticalLookbackPrice: apiCalculation.theoreticalLookbackPrice,
+    theoreticalAverageStrikePrice: apiCalculation.theoreticalAverageStrikePrice,
+    greeks: apiCalculation.greeks,
   };
-  
-  return S * normCdf(d1) - K * Math.exp(-r * T) * normCdf(d2);
 }
 
 export default function Calculator() {
@@ -51,18 +48,34 @@ export default function Calculator() {
   const [customTokenApiResult, setCustomTokenApiResult] = useState<any>(null);
   
   // Beta分析相關狀態
-  const [betaAnalysisResult, setBetaAnalysisResult] = useState<any>(null);
+  const [betaAnalysisResult, setBetaAnalysisResult] = useState<ProxyImpliedAnalysisResponse | null>(null);
+  const [multiFactorResult, setMultiFactorResult] = useState<MultiFactorAnalysisResponse | null>(null);
   const [historicalCalculation, setHistoricalCalculation] = useState<DiscountCalculation | null>(null);
   
   // 原有狀態
   const [token, setToken] = useState<Token>('BTC');
   const [period, setPeriod] = useState<LockupPeriod>('6M');
+  const [methodology, setMethodology] = useState<DiscountMethodology>('atm-call');
   const [prices, setPrices] = useState<PriceData | null>(null);
   const [loading, setLoading] = useState(false);
   const [calculation, setCalculation] = useState<DiscountCalculation | null>(null);
   const [optionsData, setOptionsData] = useState<OptionData[] | null>(null);
   const [optionsLoading, setOptionsLoading] = useState(false);
   const [dualExpiryInfo, setDualExpiryInfo] = useState<any>(null);
+  const [varianceRiskPremium, setVarianceRiskPremium] = useState<VarianceRiskPremiumAnalysis | null>(null);
+  
+  // 歸屬計畫（cliff + 定期解鎖）
+  const [vestingSchedule, setVestingSchedule] = useState<VestingSchedule | null>(null);
+  const [vestingValuation, setVestingValuation] = useState<VestingValuation | null>(null);
+  
+  // 有歸屬計畫時，主要結果以最後解鎖日一次性解鎖計算
+  const headlinePeriod: LockupPeriod = (vestingSchedule && finalUnlockPeriod(vestingSchedule)) || period;
+  
+  const vestingQuery = (schedule?: VestingSchedule | null) =>
+    schedule ? `&${vestingScheduleToQuery(schedule)}` : '';
+  
+  const betaEstimationQuery = (options?: BetaEstimationOptions) =>
+    options ? `&betaDays=${options.windowDays}&frequency=${options.frequency}&returnType=${options.returnType}&provider=${options.provider}&shrinkage=${options.shrinkage}` : '';
   
 
   // 新的UI狀態
@@ -75,6 +88,7 @@ export default function Calculator() {
     const steps = [
       { ...CALCULATION_STEPS_TEMPLATE.MARKET_DATA },
       { ...CALCULATION_STEPS_TEMPLATE.DUAL_EXPIRY_SELECTION },
+      { ...CALCULATION_STEPS_TEMPLATE.TERM_STRUCTURE_FIT },
       { ...CALCULATION_STEPS_TEMPLATE.COMMON_STRIKES },
       { ...CALCULATION_STEPS_TEMPLATE.VARIANCE_EXTRAPOLATION },
       { ...CALCULATION_STEPS_TEMPLATE.BLACK_SCHOLES },
@@ -100,19 +114,28 @@ export default function Calculator() {
       return;
     }
     
+    const vestingError = customTokenInput.vestingSchedule && validateVestingSchedule(customTokenInput.vestingSchedule);
+    if (vestingError) {
+      alert(vestingError);
+      return;
+    }
+    
     setLoading(true);
     setCalculation(null);
     setBetaAnalysisResult(null);
+    setMultiFactorResult(null);
     setHistoricalCalculation(null);
-    
-    const volatilityMethod = (customTokenInput as any).volatilityMethod || 'historical';
+    setVestingValuation(null);
     
     try {
-      console.log(`[Calculator] 🚀 Start custom token calculation: ${customTokenInput.symbol} (method: ${volatilityMethod})`);
+      console.log(`[Calculator] 🚀 Start custom token calculation: ${customTokenInput.symbol} (mode: ${calculationMode})`);
       
-      if (volatilityMethod === 'btc-implied') {
-        // Use BTC-implied volatility derivation
-        await calculateWithBtcImpliedVolatility();
+      if (calculationMode === 'proxy-implied') {
+        // 以代理資產 (BTC/ETH) 隱含波動率與 beta 推導
+        await calculateWithProxyImpliedVolatility();
+      } else if (calculationMode === 'multi-factor') {
+        // 以 BTC、ETH (與選用因子) 的隱含波動率與因子載荷推導
+        await calculateWithMultiFactorVolatility();
       } else {
         // Use historical volatility method
         await calculateWithHistoricalVolatility();
@@ -131,7 +154,7 @@ export default function Calculator() {
   const calculateWithHistoricalVolatility = async () => {
     const volatilityDays = customTokenInput!.volatilityDays || 90;
     const response = await fetch(
-      `/api/custom-token?tokenId=${customTokenInput!.symbol}&period=${customTokenInput!.period}&targetPrice=${customTokenInput!.targetPrice}&volatilityDays=${volatilityDays}`
+      `/api/custom-token?tokenId=${customTokenInput!.symbol}&period=${encodeURIComponent(customTokenInput!.period)}&targetPrice=${customTokenInput!.targetPrice}&volatilityDays=${volatilityDays}&methodology=${customTokenInput!.methodology || 'atm-call'}&pricingModel=${customTokenInput!.pricingModel || 'black-scholes'}&volatilityEstimator=${customTokenInput!.volatilityEstimator || 'sample'}&rangeEstimator=${customTokenInput!.rangeEstimator || 'close-to-close'}&robustMethod=${customTokenInput!.robustMethod || 'none'}${vestingQuery(customTokenInput!.vestingSchedule)}`
     );
     
     if (!response.ok) {
@@ -147,20 +170,9 @@ export default function Calculator() {
     console.log(`[Calculator] ✅ Historical volatility calculation completed:`, result.calculation);
     
     // Convert to DiscountCalculation compatible format
-    const customCalculation: DiscountCalculation = {
-      annualizedRate: result.calculation.annualizedRate,
-      fairValue: result.calculation.fairValue,
-      discount: result.calculation.callDiscountRate,
-      method: result.calculation.method,
-      callDiscount: result.calculation.callDiscountRate,
-      putDiscount: 0, // 自定義代幣模式只計算 Call
-      impliedVolatility: result.calculation.impliedVolatility,
-      theoreticalCallPrice: result.calculation.theoreticalCallPrice,
-      theoreticalPutPrice: 0, // 自定義代幣模式不計算 Put
-    };
-    
-    setCalculation(customCalculation);
+    setCalculation(toCustomTokenCalculation(result.calculation));
     setCustomTokenApiResult(result); // Save full API result
+    setVestingValuation(result.vestingValuation || null);
     
     // Set pseudo price data for display
     setPrices({
@@ -170,100 +182,174 @@ export default function Calculator() {
     });
   };
   
-  // BTC-implied volatility derived method
-  const calculateWithBtcImpliedVolatility = async () => {
-    // Fetch beta analysis first
+  // Proxy-implied volatility derived method
+  const calculateWithProxyImpliedVolatility = async () => {
+    const proxy = customTokenInput!.proxy || 'BTC';
+    // Fetch beta analysis against the proxy first
     const betaResponse = await fetch(
-      `/api/beta-analysis?tokenId=${customTokenInput!.symbol}&period=${customTokenInput!.period}`
+      `/api/beta-analysis?tokenId=${customTokenInput!.symbol}&period=${encodeURIComponent(customTokenInput!.period)}&proxy=${proxy}${betaEstimationQuery(customTokenInput!.betaEstimation)}`
     );
     
-    if (!betaResponse.ok) {
-      throw new Error(`Beta analysis failed: ${betaResponse.status}`);
-    }
-    
-    const betaResult = await betaResponse.json();
+    const betaResult: ProxyImpliedAnalysisResponse | ApiErrorResponse = await betaResponse.json();
     
-    if (!betaResult.success) {
-      throw new Error(betaResult.details || betaResult.error || 'Beta analysis failed');
+    if (!betaResponse.ok || !betaResult.success) {
+      const failure = betaResult as Partial<ApiErrorResponse>;
+      throw new Error(failure.details || failure.error || `Beta analysis failed: ${betaResponse.status}`);
     }
     
     console.log(`[Calculator] ✅ Beta analysis completed:`, betaResult);
     setBetaAnalysisResult(betaResult);
     
-    // Also fetch historical volatility as comparison
+    await fetchHistoricalComparison();
+    await calculateWithDerivedVolatility(
+      betaResult.currentPrice,
+      betaResult.volatilityComparison.derivedImpliedVolatility,
+      'proxy-implied-volatility'
+    );
+  };
+  
+  // 多因子 (BTC + ETH [+ SOL]) 推導隱含波動率
+  const calculateWithMultiFactorVolatility = async () => {
+    const extraFactors = customTokenInput!.extraFactors || [];
+    const factorResponse = await fetch(
+      `/api/multi-factor-analysis?tokenId=${customTokenInput!.symbol}&period=${encodeURIComponent(customTokenInput!.period)}${extraFactors.length > 0 ? `&extraFactors=${extraFactors.join(',')}` : ''}${betaEstimationQuery(customTokenInput!.betaEstimation)}`
+    );
+    
+    const factorResult: MultiFactorAnalysisResponse | ApiErrorResponse = await factorResponse.json();
+    
+    if (!factorResponse.ok || !factorResult.success) {
+      const failure = factorResult as Partial<ApiErrorResponse>;
+      throw new Error(failure.details || failure.error || `Multi-factor analysis failed: ${factorResponse.status}`);
+    }
+    
+    console.log(`[Calculator] ✅ Multi-factor analysis completed:`, factorResult);
+    setMultiFactorResult(factorResult);
+    
+    await fetchHistoricalComparison();
+    await calculateWithDerivedVolatility(
+      factorResult.currentPrice,
+      factorResult.volatilityComparison.derivedImpliedVolatility,
+      'multi-factor-implied-volatility'
+    );
+  };
+  
+  // Also fetch historical volatility as comparison（歸屬計畫改以推導波動率定價，不在此取得）
+  const fetchHistoricalComparison = async () => {
     try {
       const volatilityDays = customTokenInput!.volatilityDays || 90;
       const historicalResponse = await fetch(
-        `/api/custom-token?tokenId=${customTokenInput!.symbol}&period=${customTokenInput!.period}&targetPrice=${customTokenInput!.targetPrice}&volatilityDays=${volatilityDays}`
+        `/api/custom-token?tokenId=${customTokenInput!.symbol}&period=${encodeURIComponent(customTokenInput!.period)}&targetPrice=${customTokenInput!.targetPrice}&volatilityDays=${volatilityDays}&methodology=${customTokenInput!.methodology || 'atm-call'}&pricingModel=${customTokenInput!.pricingModel || 'black-scholes'}&volatilityEstimator=${customTokenInput!.volatilityEstimator || 'sample'}&rangeEstimator=${customTokenInput!.rangeEstimator || 'close-to-close'}&robustMethod=${customTokenInput!.robustMethod || 'none'}`
       );
       
       if (historicalResponse.ok) {
         const historicalResult = await historicalResponse.json();
         if (historicalResult.success) {
-          const historicalCalc: DiscountCalculation = {
-            annualizedRate: historicalResult.calculation.annualizedRate,
-            fairValue: historicalResult.calculation.fairValue,
-            discount: historicalResult.calculation.callDiscountRate,
-            method: historicalResult.calculation.method,
-            callDiscount: historicalResult.calculation.callDiscountRate,
-            putDiscount: 0,
-            impliedVolatility: historicalResult.calculation.impliedVolatility,
-            theoreticalCallPrice: historicalResult.calculation.theoreticalCallPrice,
-            theoreticalPutPrice: 0,
-          };
-          setHistoricalCalculation(historicalCalc);
+          setHistoricalCalculation(toCustomTokenCalculation(historicalResult.calculation));
         }
       }
     } catch (error) {
       console.warn('[Calculator] ⚠️ Unable to fetch historical volatility comparison:', error);
     }
-    
-    // 使用BTC推導的隱含波動率和正確的Black-Scholes公式計算Call價格
-    const derivedImpliedVol = betaResult.volatilityComparison.derivedImpliedVolatility / 100; // Convert to decimal
-    const lockupDays = customTokenInput!.period === '1Y' ? 365 : customTokenInput!.period === '6M' ? 180 : customTokenInput!.period === '3M' ? 90 : 730;
+  };
+  
+  // 使用推導的隱含波動率和正確的Black-Scholes公式計算Call價格
+  const calculateWithDerivedVolatility = async (currentPrice: number, derivedImpliedVolPercent: number, method: string) => {
+    const derivedImpliedVol = derivedImpliedVolPercent / 100; // Convert to decimal
+    const lockupDays = lockupPeriodToDays(customTokenInput!.period);
     const timeToExpiry = lockupDays / 365; // Convert to years
     
     // Get risk-free rate (using the same treasury rate logic)
     const riskFreeRate = await getTreasuryRateForPeriod(customTokenInput!.period);
     
-    // Calculate Call option price using correct Black-Scholes formula
-    const theoreticalCallPrice = blackScholesCall(
-      betaResult.currentPrice,        // S: Current spot price
-      customTokenInput!.targetPrice,  // K: Strike price (target price)
-      timeToExpiry,                   // T: Time to expiry
-      riskFreeRate,                   // r: Risk-free rate
-      derivedImpliedVol              // σ: Derived implied volatility
-    );
+    // Calculate Call option price with the pricing engine's Black-Scholes model
+    const blackScholes = getPricingModel('black-scholes');
+    const pricingInputs: PricingInputs = {
+      spot: currentPrice,                    // S: Current spot price
+      strike: customTokenInput!.targetPrice, // K: Strike price (target price)
+      timeToExpiry,                          // T: Time to expiry
+      riskFreeRate,                          // r: Risk-free rate
+      volatility: derivedImpliedVol          // σ: Derived implied volatility
+    };
+    const theoreticalCallPrice = blackScholes.price('call', pricingInputs);
+    
+    // 可售性折扣模型使用同一推導波動率
+    const theoreticalLookbackPrice = longstaffLookbackPut(currentPrice, timeToExpiry, riskFreeRate, derivedImpliedVol);
+    const theoreticalAverageStrikePrice = averageStrikePut(currentPrice, timeToExpiry, derivedImpliedVol);
+    const methodology = customTokenInput!.methodology || 'atm-call';
+    const primaryPrice = selectMethodologyPrice(methodology, {
+      call: theoreticalCallPrice,
+      lookback: theoreticalLookbackPrice,
+      averageStrike: theoreticalAverageStrikePrice
+    });
     
-    // Calculate correct discount rate: Call price / Spot price
-    const callDiscountRate = (theoreticalCallPrice / betaResult.currentPrice) * 100;
-    const annualizedRate = (callDiscountRate * 365) / lockupDays;
-    const fairValue = betaResult.currentPrice - theoreticalCallPrice;
+    // Calculate correct discount rate: option price / Spot price
+    const callDiscountRate = (theoreticalCallPrice / currentPrice) * 100;
+    const discountRate = (primaryPrice / currentPrice) * 100;
+    const annualizedRate = (discountRate * 365) / lockupDays;
+    const fairValue = currentPrice - primaryPrice;
     
     // 模擬Black-Scholes計算使用推導的隱含波動率
-    const btcCalculation: DiscountCalculation = {
+    const derivedCalculation: DiscountCalculation = {
       annualizedRate,
       fairValue,
-      discount: callDiscountRate,
-      method: 'btc-implied-volatility',
+      discount: discountRate,
+      method,
+      methodology,
       callDiscount: callDiscountRate,
       putDiscount: 0,
-      impliedVolatility: betaResult.volatilityComparison.derivedImpliedVolatility,
+      lookbackDiscount: (theoreticalLookbackPrice / currentPrice) * 100,
+      averageStrikeDiscount: (theoreticalAverageStrikePrice / currentPrice) * 100,
+      impliedVolatility: derivedImpliedVolPercent,
       theoreticalCallPrice,
       theoreticalPutPrice: 0,
+      theoreticalLookbackPrice,
+      theoreticalAverageStrikePrice,
+      greeks: blackScholes.greeks(pricingInputs),
     };
     
-    setCalculation(btcCalculation);
+    setCalculation(derivedCalculation);
+    
+    // 歸屬計畫以同一推導波動率逐 tranche 定價，與主要折扣一致
+    const schedule = customTokenInput!.vestingSchedule;
+    if (schedule) {
+      try {
+        setVestingValuation(await valueVestingSchedule(schedule, currentPrice, async (tranchePeriod, trancheDays) => {
+          const trancheRate = await getTreasuryRateForPeriod(tranchePeriod);
+          const tranchePrice = selectMethodologyPrice(methodology, priceDiscountModels(blackScholes, {
+            ...pricingInputs,
+            timeToExpiry: trancheDays / 365,
+            riskFreeRate: trancheRate
+          }));
+          const trancheDiscount = (tranchePrice / currentPrice) * 100;
+          
+          return {
+            discount: trancheDiscount,
+            annualizedRate: (trancheDiscount * 365) / trancheDays,
+            impliedVolatility: derivedImpliedVolPercent,
+            riskFreeRate: trancheRate * 100,
+            method
+          };
+        }));
+      } catch (error) {
+        console.warn('[Calculator] ⚠️ Vesting valuation failed:', error);
+      }
+    }
     
     // 設定虛擬價格數據
     setPrices({
       token: 'BTC',
-      spot: betaResult.currentPrice,
+      spot: currentPrice,
       timestamp: new Date()
     });
   };
 
   const updatePrices = async () => {
+    const vestingError = vestingSchedule && validateVestingSchedule(vestingSchedule);
+    if (vestingError) {
+      alert(vestingError);
+      return;
+    }
+    
     setLoading(true);
     setOptionsLoading(true);
     
@@ -273,13 +359,15 @@ export default function Calculator() {
     // Reset previous results
     setCalculation(null);
     setDualExpiryInfo(null);
+    setVarianceRiskPremium(null);
     setOptionsData(null);
+    setVestingValuation(null);
     
-    const lockupDays = lockupPeriodToDays(period);
+    const lockupDays = lockupPeriodToDays(headlinePeriod);
     
     // Get dynamic treasury rate based on period
-    const riskFreeRate = await getTreasuryRateForPeriod(period);
-    console.log(`[Calculator] 💰 Using ${period} treasury rate: ${(riskFreeRate * 100).toFixed(2)}%`);
+    const riskFreeRate = await getTreasuryRateForPeriod(headlinePeriod);
+    console.log(`[Calculator] 💰 Using ${headlinePeriod} treasury rate: ${(riskFreeRate * 100).toFixed(2)}%`);
     
     try {
       // Step 1: Fetch spot price
@@ -313,7 +401,7 @@ export default function Calculator() {
       });
       
       const optionsResponse = await fetch(
-        `/api/options?token=${token}&period=${period}&spotPrice=${priceData.spot}`
+        `/api/options?token=${token}&period=${encodeURIComponent(headlinePeriod)}&spotPrice=${priceData.spot}&methodology=${methodology}${vestingQuery(vestingSchedule)}`
       );
       
       if (optionsResponse.ok) {
@@ -327,19 +415,38 @@ export default function Calculator() {
           setOptionsData(optionsChainData);
           setCalculation(optionsCalc);
           setDualExpiryInfo(dualExpiryInfo);
+          setVarianceRiskPremium(optionsResult.varianceRiskPremium || null);
+          setVestingValuation(optionsResult.vestingValuation || null);
+          
+          if (optionsResult.vestingError) {
+            console.warn('[Calculator] ⚠️ Vesting valuation failed:', optionsResult.vestingError);
+          }
           
           // Update calculation steps
           updateCalculationStep('dual-expiry-selection', {
             status: 'completed',
-            description: `✅ Strategy: ${dualExpiryInfo?.strategy === 'interpolation' ? 'Interpolation' : 
-                                  dualExpiryInfo?.strategy === 'extrapolation' ? 'Extrapolation' : 'Bounded Extrapolation'}`
+            description: `✅ Strategy: ${EXTRAPOLATION_STRATEGY_LABELS[dualExpiryInfo?.strategy as ExtrapolationStrategy] ?? 'N/A'}`
+          });
+          
+          const termStructure: TermStructureFit | undefined = dualExpiryInfo?.termStructure;
+          updateCalculationStep('term-structure-fit', termStructure ? {
+            status: 'completed',
+            description: `✅ ${EXTRAPOLATION_STRATEGY_LABELS[termStructure.model]} over ${termStructure.nodes.length} expiries, RMSE ${termStructure.rmse.toFixed(2)} vol pts`,
+            termStructure
+          } : {
+            status: 'error',
+            description: 'No term structure fit returned'
           });
           
           updateCalculationStep('common-strikes', {
             status: 'completed',
-            description: `✅ Found ${optionsChainData?.length || 0} contracts`
+            description: `✅ Found ${optionsChainData?.length || 0} contracts${dualExpiryInfo?.arbitrage?.excludedContracts ? `, ${dualExpiryInfo.arbitrage.excludedContracts} excluded by no-arbitrage checks` : ''}`
           });
           
+          if (optionsResult.warnings?.length > 0) {
+            console.warn('[Calculator] ⚠️ Arbitrage violations:', optionsResult.warnings);
+          }
+          
           updateCalculationStep('variance-extrapolation', {
             status: 'completed',
             description: `✅ Extrapolated IV: ${optionsCalc?.impliedVolatility?.toFixed(1)}%`
@@ -352,7 +459,7 @@ export default function Calculator() {
           
           updateCalculationStep('discount-calculation', {
             status: 'completed',
-            description: `✅ Call discount: ${optionsCalc?.callDiscount?.toFixed(2)}%, Put discount: ${optionsCalc?.putDiscount?.toFixed(2)}%`
+            description: `✅ Call discount: ${optionsCalc?.callDiscount?.toFixed(2)}%, Put discount: ${optionsCalc?.putDiscount?.toFixed(2)}%, Lookback discount: ${optionsCalc?.lookbackDiscount?.toFixed(2)}%`
           });
         } else {
           setOptionsData([]);
@@ -409,6 +516,8 @@ export default function Calculator() {
             setPrices(null);
             setOptionsData(null);
             setDualExpiryInfo(null);
+            setVarianceRiskPremium(null);
+            setVestingValuation(null);
           }}
         />
         
@@ -442,29 +551,41 @@ export default function Calculator() {
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Lockup Period
               </label>
-              <div className="grid grid-cols-4 gap-2">
-                {(['3M', '6M', '1Y', '2Y'] as LockupPeriod[]).map((p) => (
-                  <button
-                    key={p}
-                    onClick={() => setPeriod(p)}
-                    className={`px-4 py-2 rounded-md font-medium text-sm ${
-                      period === p
-                        ? 'bg-blue-600 text-white'
-                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                    }`}
-                  >
-                    {p}
-                  </button>
-                ))}
+              {!vestingSchedule && (
+                <LockupPeriodSelector
+                  value={period}
+                  onChange={setPeriod}
+                  disabled={loading || optionsLoading}
+                />
+              )}
+              <div className={vestingSchedule ? '' : 'mt-3'}>
+                <VestingScheduleInput
+                  value={vestingSchedule}
+                  onChange={setVestingSchedule}
+                  disabled={loading || optionsLoading}
+                />
               </div>
             </div>
+
+            {/* Methodology Selection */}
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Discount Methodology
+              </label>
+              <DiscountMethodologySelector
+                value={methodology}
+                onChange={setMethodology}
+                disabled={loading || optionsLoading}
+              />
+            </div>
           </>
         )}
         
-        {/* Historical Volatility Mode - Custom Token Input */}
-        {calculationMode === 'historical-volatility' && (
+        {/* Historical / Proxy-Implied / Multi-Factor Mode - Custom Token Input */}
+        {calculationMode !== 'market-data' && (
           <div className="mb-6">
             <CustomTokenInput 
+              mode={calculationMode}
               onInputChange={setCustomTokenInput}
               loading={loading}
             />
@@ -539,34 +660,55 @@ export default function Calculator() {
                 calculation={calculation}
                 spotPrice={prices.spot}
                 dualExpiryInfo={dualExpiryInfo}
+                varianceRiskPremium={varianceRiskPremium}
                 token={token}
-                period={period}
+                period={headlinePeriod}
               />
             ) : (
               // 根據計算方法顯示不同的結果組件
-              (customTokenInput as any)?.volatilityMethod === 'btc-implied' ? (
-                <BetaImpliedVolatilityResults
+              calculationMode === 'proxy-implied' ? (
+                <ProxyImpliedVolatilityResults
                   calculation={calculation}
                   spotPrice={prices.spot}
                   customTokenInput={customTokenInput!}
                   betaAnalysis={betaAnalysisResult}
                   historicalCalculation={historicalCalculation}
                 />
+              ) : calculationMode === 'multi-factor' ? (
+                <MultiFactorImpliedVolatilityResults
+                  calculation={calculation}
+                  spotPrice={prices.spot}
+                  customTokenInput={customTokenInput!}
+                  multiFactorAnalysis={multiFactorResult}
+                  historicalCalculation={historicalCalculation}
+                />
               ) : (
                 <HistoricalVolatilityResults
                   calculation={calculation}
                   spotPrice={prices.spot}
                   customTokenInput={customTokenInput!}
                   volatilityData={customTokenApiResult?.volatilityAnalysis}
+                  jumpDiffusion={customTokenApiResult?.jumpDiffusion}
+                  volatilityForecast={customTokenApiResult?.volatilityForecast}
+                  rangeVolatility={customTokenApiResult?.rangeVolatility}
+                  robustVolatility={customTokenApiResult?.robustVolatility}
                   treasuryRateData={customTokenApiResult?.blackScholesParameters ? {
                     rate: customTokenApiResult.blackScholesParameters.riskFreeRate / 100, // Convert to decimal
-                    displayText: `${customTokenApiResult.blackScholesParameters.riskFreeRate.toFixed(2)}% (${customTokenInput!.period}) U.S. Treasury`,
+                    displayText: `${customTokenApiResult.blackScholesParameters.riskFreeRate.toFixed(2)}% (${formatLockupPeriod(customTokenInput!.period)}) U.S. Treasury`,
                     source: 'FRED_API',
                     date: new Date().toISOString().split('T')[0]
                   } : undefined}
                 />
               )
             )}
+            
+            {vestingValuation && (
+              <VestingResults
+                valuation={vestingValuation}
+                spotPrice={prices.spot}
+                bulletDiscount={calculation.discount}
+              />
+            )}
           </div>
         )}
 
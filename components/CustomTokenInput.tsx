@@ -1,19 +1,39 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { LockupPeriod, CustomTokenInput as CustomTokenInputType } from '@/types';
+import { LockupPeriod, VestingSchedule, DiscountMethodology, PricingModel, VolatilityEstimator, RangeVolatilityEstimator, RobustVolatilityMethod, TokenCalculationMode, Token, BetaReturnFrequency, BetaReturnType, BetaPriceProvider, BetaShrinkage, CustomTokenInput as CustomTokenInputType } from '@/types';
+import { finalUnlockPeriod } from '@/lib/vesting';
+import LockupPeriodSelector from './LockupPeriodSelector';
+import VestingScheduleInput from './VestingScheduleInput';
+import DiscountMethodologySelector from './DiscountMethodologySelector';
 
 interface CustomTokenInputProps {
-  onInputChange: (input: CustomTokenInputType & { volatilityMethod?: 'historical' | 'btc-implied' }) => void;
+  onInputChange: (input: CustomTokenInputType) => void;
+  mode?: Exclude<TokenCalculationMode, 'market-data'>;
   loading?: boolean;
 }
 
-export default function CustomTokenInput({ onInputChange, loading = false }: CustomTokenInputProps) {
+export default function CustomTokenInput({ onInputChange, mode = 'historical-volatility', loading = false }: CustomTokenInputProps) {
+  const isHistoricalMode = mode === 'historical-volatility';
+  const isProxyMode = mode === 'proxy-implied';
+  const isMultiFactorMode = mode === 'multi-factor';
   const [symbol, setSymbol] = useState('');
   const [targetPrice, setTargetPrice] = useState('');
   const [period, setPeriod] = useState<LockupPeriod>('1Y');
-  const [volatilityMethod, setVolatilityMethod] = useState<'historical' | 'btc-implied'>('historical');
+  const [vestingSchedule, setVestingSchedule] = useState<VestingSchedule | null>(null);
+  const [methodology, setMethodology] = useState<DiscountMethodology>('atm-call');
+  const [extraFactors, setExtraFactors] = useState<string[]>([]);
+  const [proxy, setProxy] = useState<Token>('BTC');
+  const [betaWindowDays, setBetaWindowDays] = useState<90 | 180 | 365>(90);
+  const [betaFrequency, setBetaFrequency] = useState<BetaReturnFrequency>('daily');
+  const [betaReturnType, setBetaReturnType] = useState<BetaReturnType>('simple');
+  const [betaProvider, setBetaProvider] = useState<BetaPriceProvider>('auto');
+  const [betaShrinkage, setBetaShrinkage] = useState<BetaShrinkage>('none');
   const [volatilityDays, setVolatilityDays] = useState<60 | 90 | 180>(90);
+  const [pricingModel, setPricingModel] = useState<PricingModel>('black-scholes');
+  const [volatilityEstimator, setVolatilityEstimator] = useState<VolatilityEstimator>('sample');
+  const [rangeEstimator, setRangeEstimator] = useState<RangeVolatilityEstimator>('close-to-close');
+  const [robustMethod, setRobustMethod] = useState<RobustVolatilityMethod>('none');
   const [currentPrice, setCurrentPrice] = useState<number | null>(null);
   const [priceLoading, setPriceLoading] = useState(false);
   const [priceError, setPriceError] = useState<string | null>(null);
@@ -89,12 +109,26 @@ export default function CustomTokenInput({ onInputChange, loading = false }: Cus
       onInputChange({
         symbol: tokenId,
         targetPrice: parseFloat(targetPrice),
-        period,
-        volatilityMethod,
-        volatilityDays
+        period: (vestingSchedule && finalUnlockPeriod(vestingSchedule)) || period,
+        volatilityDays,
+        methodology,
+        // 跳躍參數由歷史價格估計，僅適用歷史波動率模式
+        pricingModel: isHistoricalMode ? pricingModel : 'black-scholes',
+        // Merton 的擴散波動率由剔除跳躍後的收盤對收盤報酬估計，不使用其他估計設定
+        volatilityEstimator: isHistoricalMode && pricingModel === 'black-scholes' ? volatilityEstimator : 'sample',
+        // 區間與穩健估計僅作用於樣本波動率；EWMA / GARCH 以收盤報酬預測
+        rangeEstimator: isHistoricalMode && pricingModel === 'black-scholes' && volatilityEstimator === 'sample' ? rangeEstimator : 'close-to-close',
+        // 穩健估計僅作用於收盤對收盤報酬
+        robustMethod: isHistoricalMode && pricingModel === 'black-scholes' && volatilityEstimator === 'sample' && rangeEstimator === 'close-to-close' ? robustMethod : 'none',
+        extraFactors: isMultiFactorMode ? extraFactors : [],
+        ...(isProxyMode && { proxy }),
+        ...((isProxyMode || isMultiFactorMode) && {
+          betaEstimation: { windowDays: betaWindowDays, frequency: betaFrequency, returnType: betaReturnType, provider: betaProvider, shrinkage: betaShrinkage }
+        }),
+        ...(vestingSchedule && { vestingSchedule })
       });
     }
-  }, [symbol, targetPrice, period, volatilityMethod, volatilityDays, onInputChange]);
+  }, [symbol, targetPrice, period, vestingSchedule, methodology, isHistoricalMode, isProxyMode, isMultiFactorMode, proxy, volatilityDays, pricingModel, volatilityEstimator, rangeEstimator, robustMethod, extraFactors, betaWindowDays, betaFrequency, betaReturnType, betaProvider, betaShrinkage, onInputChange]);
 
   const targetPriceNum = parseFloat(targetPrice);
   const multiplier = currentPrice && targetPriceNum ? (targetPriceNum / currentPrice) : null;
@@ -145,74 +179,29 @@ export default function CustomTokenInput({ onInputChange, loading = false }: Cus
         <label className="block text-sm font-medium text-gray-700 mb-2">
           Lockup Period
         </label>
-        <div className="grid grid-cols-4 gap-2">
-          {(['3M', '6M', '1Y', '2Y'] as LockupPeriod[]).map((p) => (
-            <button
-              key={p}
-              onClick={() => setPeriod(p)}
-              disabled={loading}
-              className={`px-3 py-2 rounded-md font-medium text-sm transition-colors ${
-                period === p
-                  ? 'bg-blue-600 text-white'
-                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50'
-              }`}
-            >
-              {p}
-            </button>
-          ))}
+        {!vestingSchedule && (
+          <LockupPeriodSelector
+            value={period}
+            onChange={setPeriod}
+            disabled={loading}
+          />
+        )}
+        <div className={vestingSchedule ? '' : 'mt-3'}>
+          <VestingScheduleInput
+            value={vestingSchedule}
+            onChange={setVestingSchedule}
+            disabled={loading}
+          />
         </div>
       </div>
 
-      {/* Volatility Calculation Method */}
-      <div>
-        <label className="block text-sm font-medium text-gray-700 mb-2">
-          Volatility Method
-        </label>
-        <div className="space-y-2">
-          <label className="flex items-center">
-            <input
-              type="radio"
-              name="volatilityMethod"
-              value="historical"
-              checked={volatilityMethod === 'historical'}
-              onChange={(e) => setVolatilityMethod(e.target.value as 'historical' | 'btc-implied')}
-              disabled={loading}
-              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
-            />
-            <span className="ml-2 text-sm text-gray-900">
-              📈 Historical Volatility
-              <span className="text-gray-500 ml-1">(based on past data)</span>
-            </span>
-          </label>
-          
-          <label className="flex items-center">
-            <input
-              type="radio"
-              name="volatilityMethod"
-              value="btc-implied"
-              checked={volatilityMethod === 'btc-implied'}
-              onChange={(e) => setVolatilityMethod(e.target.value as 'historical' | 'btc-implied')}
-              disabled={loading}
-              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
-            />
-            <span className="ml-2 text-sm text-gray-900">
-              🚀 BTC-Implied Volatility (derived)
-              <span className="text-gray-500 ml-1">(BTC options market × Beta)</span>
-            </span>
+      {/* 歷史波動率設定 - 僅在歷史波動率模式顯示 */}
+      {isHistoricalMode && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Historical Volatility
           </label>
-        </div>
-        
-        <div className="mt-2 text-xs text-gray-500">
-          {volatilityMethod === 'historical' ? (
-            '💡 Uses historical price volatility to reflect past behavior'
-          ) : (
-            '💡 Incorporates BTC options market expectations; derives altcoin IV via beta'
-          )}
-        </div>
-        
-        {/* Historical Volatility Days Selection - Only show when historical method is selected */}
-        {volatilityMethod === 'historical' && (
-          <div className="mt-3 pl-6">
+          <div className="pl-6">
             <label className="block text-xs font-medium text-gray-600 mb-2">
               Historical Window
             </label>
@@ -237,8 +226,353 @@ export default function CustomTokenInput({ onInputChange, loading = false }: Cus
               {volatilityDays === 90 && 'Standard window—balances short/mid-term trends'}
               {volatilityDays === 180 && 'Longer window—smoother historical trend'}
             </div>
+
+            <label className="block text-xs font-medium text-gray-600 mt-3 mb-2">
+              Return Measure
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                ['close-to-close', 'Close-to-Close'],
+                ['parkinson', 'Parkinson'],
+                ['garman-klass', 'Garman-Klass'],
+                ['rogers-satchell', 'Rogers-Satchell'],
+                ['yang-zhang', 'Yang-Zhang']
+              ] as const).map(([estimator, label]) => (
+                <button
+                  key={estimator}
+                  onClick={() => setRangeEstimator(estimator)}
+                  disabled={loading}
+                  className={`px-3 py-1.5 rounded-md font-medium text-xs transition-colors ${
+                    rangeEstimator === estimator
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="mt-1.5 text-xs text-gray-500">
+              {rangeEstimator === 'close-to-close'
+                ? 'Daily closes only—works with every data source'
+                : 'Uses daily open/high/low/close (Binance); falls back to close-to-close when OHLC is unavailable'}
+            </div>
+
+            {rangeEstimator === 'close-to-close' && (
+              <>
+                <label className="block text-xs font-medium text-gray-600 mt-3 mb-2">
+                  Outlier Handling
+                </label>
+                <div className="grid grid-cols-4 gap-2">
+                  {([
+                    ['none', 'None'],
+                    ['winsorized', 'Winsorize'],
+                    ['mad', 'MAD'],
+                    ['bipower', 'Bipower']
+                  ] as const).map(([method, label]) => (
+                    <button
+                      key={method}
+                      onClick={() => setRobustMethod(method)}
+                      disabled={loading}
+                      className={`px-3 py-1.5 rounded-md font-medium text-xs transition-colors ${
+                        robustMethod === method
+                          ? 'bg-indigo-600 text-white'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <div className="mt-1.5 text-xs text-gray-500">
+                  {robustMethod === 'none' && 'Raw close-to-close returns—bad prints count in full'}
+                  {robustMethod === 'winsorized' && 'Clips returns beyond 4 robust σ from the median'}
+                  {robustMethod === 'mad' && 'Median absolute deviation—ignores the tails entirely'}
+                  {robustMethod === 'bipower' && 'Bipower variation—robust to isolated jumps, not to one-day bad prints'}
+                </div>
+              </>
+            )}
+
+            <label className="block text-xs font-medium text-gray-600 mt-3 mb-2">
+              Volatility Estimator
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                ['sample', 'Sample'],
+                ['ewma', 'EWMA'],
+                ['garch', 'GARCH(1,1)']
+              ] as const).map(([estimator, label]) => (
+                <button
+                  key={estimator}
+                  onClick={() => setVolatilityEstimator(estimator)}
+                  disabled={loading}
+                  className={`px-3 py-1.5 rounded-md font-medium text-xs transition-colors ${
+                    volatilityEstimator === estimator
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="mt-1.5 text-xs text-gray-500">
+              {volatilityEstimator === 'sample' && 'Equal-weighted standard deviation of the window'}
+              {volatilityEstimator === 'ewma' && 'RiskMetrics λ = 0.94—weights recent moves more heavily; uses close-to-close returns, ignoring the return measure and outlier handling above'}
+              {volatilityEstimator === 'garch' && 'Current conditional volatility mean-reverting to the long-run level over the lockup; uses close-to-close returns, ignoring the return measure and outlier handling above'}
+            </div>
+
+            <label className="block text-xs font-medium text-gray-600 mt-3 mb-2">
+              Price Dynamics
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                ['black-scholes', 'Black-Scholes'],
+                ['merton-jump', 'Merton Jump-Diffusion']
+              ] as const).map(([model, label]) => (
+                <button
+                  key={model}
+                  onClick={() => setPricingModel(model)}
+                  disabled={loading}
+                  className={`px-3 py-1.5 rounded-md font-medium text-xs transition-colors ${
+                    pricingModel === model
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="mt-1.5 text-xs text-gray-500">
+              {pricingModel === 'black-scholes'
+                ? 'Lognormal prices—no gap risk'
+                : 'Adds price gaps (unlocks, hacks, delistings) detected in the same history; diffusion volatility comes from jump-filtered close-to-close returns, ignoring the return measure, outlier handling and estimator above'}
+            </div>
           </div>
-        )}
+        </div>
+      )}
+
+      {/* 多因子模式的因子選擇 */}
+      {isMultiFactorMode && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Factors
+          </label>
+          <div className="grid grid-cols-3 gap-2">
+            {(['BTC', 'ETH'] as const).map((factor) => (
+              <span key={factor} className="px-3 py-1.5 rounded-md font-medium text-xs text-center bg-indigo-600 text-white">
+                {factor}
+              </span>
+            ))}
+            {(['SOL'] as const).map((factor) => (
+              <button
+                key={factor}
+                onClick={() => setExtraFactors(extraFactors.includes(factor)
+                  ? extraFactors.filter(f => f !== factor)
+                  : [...extraFactors, factor])}
+                disabled={loading}
+                className={`px-3 py-1.5 rounded-md font-medium text-xs transition-colors ${
+                  extraFactors.includes(factor)
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50'
+                }`}
+              >
+                + {factor}
+              </button>
+            ))}
+          </div>
+          <div className="mt-2 text-xs text-gray-500">
+            💡 Regresses on BTC and ETH together—better for DeFi and L2 tokens that track ETH more than BTC.
+            Factors without Deribit options are priced at their realized volatility.
+          </div>
+        </div>
+      )}
+
+      {/* Proxy 資產 - 僅在 proxy-implied 模式顯示 */}
+      {isProxyMode && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Proxy Asset
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {(['BTC', 'ETH'] as const).map((token) => (
+              <button
+                key={token}
+                onClick={() => setProxy(token)}
+                disabled={loading}
+                className={`px-3 py-2 rounded-md font-medium text-sm transition-colors ${
+                  proxy === token
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50'
+                }`}
+              >
+                {token}
+              </button>
+            ))}
+          </div>
+          <div className="mt-2 text-xs text-gray-500">
+            💡 {proxy} options at the lockup horizon × the token&apos;s beta to {proxy}, plus its idiosyncratic volatility.
+            Pick the asset the token actually trades with—ETH for most DeFi and L2 tokens.
+          </div>
+        </div>
+      )}
+
+      {/* Beta 估計設定 - proxy-implied 與多因子模式共用 */}
+      {(isProxyMode || isMultiFactorMode) && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {isProxyMode ? 'Beta Estimation' : 'Regression Estimation'}
+          </label>
+          <div className="pl-6">
+            <label className="block text-xs font-medium text-gray-600 mb-2">
+              Window
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {([90, 180, 365] as const).map((days) => (
+                <button
+                  key={days}
+                  onClick={() => setBetaWindowDays(days)}
+                  disabled={loading}
+                  className={`px-3 py-1.5 rounded-md font-medium text-xs transition-colors ${
+                    betaWindowDays === days
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50'
+                  }`}
+                >
+                  {days}d
+                </button>
+              ))}
+            </div>
+
+            <label className="block text-xs font-medium text-gray-600 mt-3 mb-2">
+              Return Frequency
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                ['daily', 'Daily'],
+                ['weekly', 'Weekly']
+              ] as const).map(([frequency, label]) => (
+                <button
+                  key={frequency}
+                  onClick={() => setBetaFrequency(frequency)}
+                  disabled={loading}
+                  className={`px-3 py-1.5 rounded-md font-medium text-xs transition-colors ${
+                    betaFrequency === frequency
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="mt-1.5 text-xs text-gray-500">
+              {betaFrequency === 'daily'
+                ? 'Most observations—can understate beta for thinly traded tokens'
+                : 'Fewer observations, but robust to stale prices and asynchronous trading'}
+            </div>
+
+            <label className="block text-xs font-medium text-gray-600 mt-3 mb-2">
+              Returns
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                ['simple', 'Simple'],
+                ['log', 'Log']
+              ] as const).map(([returnType, label]) => (
+                <button
+                  key={returnType}
+                  onClick={() => setBetaReturnType(returnType)}
+                  disabled={loading}
+                  className={`px-3 py-1.5 rounded-md font-medium text-xs transition-colors ${
+                    betaReturnType === returnType
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            <label className="block text-xs font-medium text-gray-600 mt-3 mb-2">
+              Price Source
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              {([
+                ['auto', 'Auto'],
+                ['binance', 'Binance'],
+                ['coincap', 'CoinCap'],
+                ['coingecko', 'CoinGecko']
+              ] as const).map(([provider, label]) => (
+                <button
+                  key={provider}
+                  onClick={() => setBetaProvider(provider)}
+                  disabled={loading}
+                  className={`px-3 py-1.5 rounded-md font-medium text-xs transition-colors ${
+                    betaProvider === provider
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="mt-1.5 text-xs text-gray-500">
+              {betaProvider === 'auto'
+                ? `Binance → CoinCap → CoinGecko; ${isProxyMode ? proxy : 'factor'} prices are fetched from the same source as the token`
+                : `Token and ${isProxyMode ? 'proxy' : 'factor'} prices from this source only; the request fails if it is unavailable`}
+            </div>
+
+            {/* 收縮僅適用單因子 beta */}
+            {isProxyMode && (
+              <>
+                <label className="block text-xs font-medium text-gray-600 mt-3 mb-2">
+                  Beta Shrinkage
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {([
+                    ['none', 'None (OLS)'],
+                    ['blume', 'Blume'],
+                    ['vasicek', 'Vasicek']
+                  ] as const).map(([method, label]) => (
+                    <button
+                      key={method}
+                      onClick={() => setBetaShrinkage(method)}
+                      disabled={loading}
+                      className={`px-3 py-1.5 rounded-md font-medium text-xs transition-colors ${
+                        betaShrinkage === method
+                          ? 'bg-indigo-600 text-white'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <div className="mt-1.5 text-xs text-gray-500">
+                  {betaShrinkage === 'none' && 'Raw regression beta'}
+                  {betaShrinkage === 'blume' && '0.67 × beta + 0.33—pulls every estimate toward 1'}
+                  {betaShrinkage === 'vasicek' && 'Pulls noisy estimates toward 1 in proportion to their standard error'}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Discount Methodology */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Discount Methodology
+        </label>
+        <DiscountMethodologySelector
+          value={methodology}
+          onChange={setMethodology}
+          disabled={loading}
+        />
       </div>
 
       {/* Target Price Input */}
@@ -0,0 +1,52 @@
+'use client';
+
+import React from 'react';
+import { DiscountMethodology } from '@/types';
+import { DISCOUNT_METHODOLOGIES } from '@/lib/calculator';
+
+interface DiscountMethodologySelectorProps {
+  value: DiscountMethodology;
+  onChange: (methodology: DiscountMethodology) => void;
+  disabled?: boolean;
+}
+
+const METHODOLOGY_INFO: Record<DiscountMethodology, { label: string; description: string }> = {
+  'atm-call': {
+    label: 'ATM Call',
+    description: 'Black-Scholes ATM call premium — opportunity cost of the lockup',
+  },
+  'longstaff-lookback': {
+    label: 'Longstaff Lookback',
+    description: 'Longstaff (1995) lookback put — upper bound on the marketability discount',
+  },
+  'average-strike-put': {
+    label: 'Average-Strike Put',
+    description: 'Finnerty (2012) / Ghaidarov average-strike (Asian) put — sale at the average price over the lockup',
+  },
+};
+
+export default function DiscountMethodologySelector({ value, onChange, disabled = false }: DiscountMethodologySelectorProps) {
+  return (
+    <div>
+      <div className="grid grid-cols-3 gap-2">
+        {DISCOUNT_METHODOLOGIES.map((methodology) => (
+          <button
+            key={methodology}
+            onClick={() => onChange(methodology)}
+            disabled={disabled}
+            className={`px-3 py-2 rounded-md font-medium text-sm transition-colors ${
+              value === methodology
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50'
+            }`}
+          >
+            {METHODOLOGY_INFO[methodology].label}
+          </button>
+        ))}
+      </div>
+      <div className="mt-1.5 text-xs text-gray-500">
+        💡 {METHODOLOGY_INFO[value].description}
+      </div>
+    </div>
+  );
+}
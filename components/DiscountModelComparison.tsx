@@ -0,0 +1,70 @@
+'use client';
+
+import React from 'react';
+import { DiscountCalculation, DiscountMethodology } from '@/types';
+
+interface DiscountModelComparisonProps {
+  calculation: DiscountCalculation;
+  spotPrice: number;
+  lockupDays: number;
+}
+
+const formatPercentage = (value: number) => {
+  return `${value.toFixed(2)}%`;
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: value < 1 ? 4 : 2,
+  }).format(value);
+};
+
+// 同一波動率下各折扣模型的並列比較，標示目前選用的方法論
+export default function DiscountModelComparison({ calculation, spotPrice, lockupDays }: DiscountModelComparisonProps) {
+  const models: { methodology: DiscountMethodology; label: string; discount?: number; price?: number }[] = [
+    { methodology: 'atm-call', label: 'Black-Scholes Call', discount: calculation.callDiscount, price: calculation.theoreticalCallPrice },
+    { methodology: 'longstaff-lookback', label: 'Longstaff Lookback Put', discount: calculation.lookbackDiscount, price: calculation.theoreticalLookbackPrice },
+    { methodology: 'average-strike-put', label: 'Average-Strike Put (Finnerty)', discount: calculation.averageStrikeDiscount, price: calculation.theoreticalAverageStrikePrice },
+  ];
+  const selected = calculation.methodology || 'atm-call';
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold mb-4 text-gray-900">⚖️ Discount Model Comparison</h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-600">
+              <th className="py-2 pr-3 text-left font-medium">Model</th>
+              <th className="py-2 pr-3 text-right font-medium">Discount</th>
+              <th className="py-2 pr-3 text-right font-medium">Annualized</th>
+              <th className="py-2 text-right font-medium">Fair Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {models.filter(model => model.discount !== undefined).map((model) => (
+              <tr
+                key={model.methodology}
+                className={`border-b border-gray-100 ${model.methodology === selected ? 'bg-blue-50 font-semibold text-blue-900' : 'text-gray-800'}`}
+              >
+                <td className="py-2 pr-3">
+                  {model.label}
+                  {model.methodology === selected && <span className="ml-2 text-xs text-blue-600">selected</span>}
+                </td>
+                <td className="py-2 pr-3 text-right">{formatPercentage(model.discount!)}</td>
+                <td className="py-2 pr-3 text-right">{formatPercentage((model.discount! * 365) / lockupDays)}</td>
+                <td className="py-2 text-right">{formatCurrency(spotPrice - (model.price || 0))}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-3 text-xs text-gray-500">
+        All models use the same volatility ({calculation.impliedVolatility?.toFixed(1)}%) and lockup length ({lockupDays} days).
+      </p>
+    </div>
+  );
+}
@@ -1,14 +1,20 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { ArrowTrendingUpIcon, ShieldCheckIcon, InformationCircleIcon, ChartBarIcon } from '@heroicons/react/24/outline';
-import { DiscountCalculation, RawATMContract, LockupPeriod } from '@/types';
+import { ArrowTrendingUpIcon, ShieldCheckIcon, InformationCircleIcon, ChartBarIcon, ScaleIcon, CalculatorIcon } from '@heroicons/react/24/outline';
+import { DiscountCalculation, RawATMContract, LockupPeriod, ExpiryForwardCheck, VarianceRiskPremiumAnalysis, ExtrapolationStrategy } from '@/types';
 import { getTreasuryRateInfo } from '@/lib/treasuryRates';
+import { lockupPeriodToDays, formatLockupPeriod } from '@/lib/calculator';
+import { EXTRAPOLATION_STRATEGY_LABELS } from '@/lib/termStructure';
+import GreeksTable, { GreeksRow } from './GreeksTable';
+import VolatilityConeChart from './VolatilityConeChart';
+import VarianceRiskPremiumResults from './VarianceRiskPremiumResults';
 
 interface DiscountResultsProps {
   calculation: DiscountCalculation;
   spotPrice: number;
   dualExpiryInfo?: any;
+  varianceRiskPremium?: VarianceRiskPremiumAnalysis | null;
   token: string;
   period: LockupPeriod;
 }
@@ -122,6 +128,8 @@ const ContractTable = ({
     const putDiscount = (contract.putPrice / spotPrice) * 100;
     return { callDiscount, putDiscount };
   };
+  
+  const showExtrapolatedVol = contracts.some(contract => contract.extrapolatedVol !== undefined);
 
   return (
     <div className="mb-6">
@@ -141,6 +149,9 @@ const ContractTable = ({
                 </>
               )}
               <th className="text-right py-2 px-2">Market IV</th>
+              {showExtrapolatedVol && (
+                <th className="text-right py-2 px-2">Extrap. IV</th>
+              )}
               <th className="text-right py-2 px-2">Weight</th>
             </tr>
           </thead>
@@ -173,7 +184,15 @@ const ContractTable = ({
                   )}
                   <td className="text-right py-2 px-2 font-semibold text-indigo-600">
                     {contract.impliedVol.toFixed(1)}%
+                    {contract.ivFlags && contract.ivFlags.length > 0 && (
+                      <span className="ml-1 text-orange-600" title={`IV solver: ${contract.ivFlags.join(', ')}`}>⚠️</span>
+                    )}
                   </td>
+                  {showExtrapolatedVol && (
+                    <td className="text-right py-2 px-2 font-semibold text-purple-600">
+                      {contract.extrapolatedVol !== undefined ? `${contract.extrapolatedVol.toFixed(1)}%` : 'N/A'}
+                    </td>
+                  )}
                   <td className="text-right py-2 px-2">
                     {contract.weight?.toFixed(3) || 'N/A'}
                   </td>
@@ -191,10 +210,14 @@ export default function DiscountResults({
   calculation, 
   spotPrice, 
   dualExpiryInfo, 
+  varianceRiskPremium,
   token, 
   period 
 }: DiscountResultsProps) {
-  const [selectedDiscount, setSelectedDiscount] = useState<'call' | 'put'>('call');
+  const [selectedDiscount, setSelectedDiscount] = useState<'call' | 'put' | 'lookback' | 'averageStrike'>(
+    calculation.methodology === 'longstaff-lookback' ? 'lookback' :
+    calculation.methodology === 'average-strike-put' ? 'averageStrike' : 'call'
+  );
   const [showDetails, setShowDetails] = useState(false);
   const [treasuryRateInfo, setTreasuryRateInfo] = useState<{
     displayText: string;
@@ -206,6 +229,20 @@ export default function DiscountResults({
   const putDiscount = calculation.putDiscount || 0;
   const callTheoretical = calculation.theoreticalCallPrice || 0;
   const putTheoretical = calculation.theoreticalPutPrice || 0;
+  const hasLookback = calculation.lookbackDiscount !== undefined;
+  const lookbackDiscount = calculation.lookbackDiscount || 0;
+  const lookbackTheoretical = calculation.theoreticalLookbackPrice || 0;
+  const hasAverageStrike = calculation.averageStrikeDiscount !== undefined;
+  const averageStrikeDiscount = calculation.averageStrikeDiscount || 0;
+  const averageStrikeTheoretical = calculation.theoreticalAverageStrikePrice || 0;
+
+  // 各履約價與加權平均的敏感度
+  const greeksRows: GreeksRow[] = [
+    ...(calculation.atmCalculations || [])
+      .filter(calc => calc.greeks)
+      .map(calc => ({ label: `$${calc.strike.toLocaleString()} (${calc.expiry})`, greeks: calc.greeks! })),
+    ...(calculation.greeks ? [{ label: 'Weighted average', greeks: calculation.greeks, aggregate: true }] : [])
+  ];
 
   // Fetch treasury rate info for display
   useEffect(() => {
@@ -225,14 +262,8 @@ export default function DiscountResults({
     fetchTreasuryInfo();
   }, [period]);
   
-  // Calculate period-specific values for Put and Call
-  const periodDaysMap = {
-    '3M': 90,
-    '6M': 180,
-    '1Y': 365,
-    '2Y': 730
-  };
-  const lockupDays = periodDaysMap[period as keyof typeof periodDaysMap] || 365;
+  // Calculate period-specific values
+  const lockupDays = lockupPeriodToDays(period);
   
   // Calculate annualized rates for both Put and Call
   const callAnnualizedRate = (callDiscount * 365) / lockupDays;
@@ -241,13 +272,32 @@ export default function DiscountResults({
   // Calculate fair values for both Put and Call
   const callFairValue = spotPrice - callTheoretical;
   const putFairValue = spotPrice - putTheoretical;
+  
+  const selectedFigures = {
+    call: { label: 'Call', discount: callDiscount, annualized: callAnnualizedRate, fairValue: callFairValue, theoretical: callTheoretical },
+    put: { label: 'Put', discount: putDiscount, annualized: putAnnualizedRate, fairValue: putFairValue, theoretical: putTheoretical },
+    lookback: {
+      label: 'Lookback',
+      discount: lookbackDiscount,
+      annualized: (lookbackDiscount * 365) / lockupDays,
+      fairValue: spotPrice - lookbackTheoretical,
+      theoretical: lookbackTheoretical
+    },
+    averageStrike: {
+      label: 'Average-Strike Put',
+      discount: averageStrikeDiscount,
+      annualized: (averageStrikeDiscount * 365) / lockupDays,
+      fairValue: spotPrice - averageStrikeTheoretical,
+      theoretical: averageStrikeTheoretical
+    }
+  }[selectedDiscount];
 
   return (
     <div className="space-y-6">
       {/* Calculation header */}
       <div className="text-center">
         <h2 className="text-xl font-bold text-gray-900 mb-2">
-          📊 {token} {period} Lockup Discount Analysis
+          📊 {token} {formatLockupPeriod(period)} Lockup Discount Analysis
         </h2>
         <p className="text-sm text-gray-600">
           {dualExpiryInfo ? 'Dual-Expiry Variance Extrapolation' : 'Multi-ATM Weighted Average'}
@@ -268,8 +318,7 @@ export default function DiscountResults({
             <div>
               <span className="text-blue-700 font-medium">Strategy</span>
               <p className="text-blue-900">
-                {dualExpiryInfo.strategy === 'interpolation' ? 'Interpolation' :
-                 dualExpiryInfo.strategy === 'extrapolation' ? 'Extrapolation' : 'Bounded Extrapolation'}
+                {EXTRAPOLATION_STRATEGY_LABELS[dualExpiryInfo.strategy as ExtrapolationStrategy]}
               </p>
             </div>
             <div>
@@ -300,6 +349,56 @@ export default function DiscountResults({
               )}
             </div>
           )}
+
+          {/* Deribit 期貨遠期與基差 */}
+          {dualExpiryInfo.forward && (
+            <div className="mt-4 pt-3 border-t border-blue-200">
+              <h4 className="text-blue-900 font-medium text-sm mb-2">Forward &amp; Basis (Deribit futures)</h4>
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <span className="text-blue-700 font-medium">Index Price</span>
+                  <p className="text-blue-900">{formatCurrency(dualExpiryInfo.forward.indexPrice)}</p>
+                  <p className="text-blue-700 text-xs">
+                    vs. spot {formatCurrency(spotPrice)} ({((dualExpiryInfo.forward.indexPrice / spotPrice - 1) * 100).toFixed(2)}%)
+                  </p>
+                </div>
+                <div>
+                  <span className="text-blue-700 font-medium">Target Forward</span>
+                  <p className="text-blue-900">{formatCurrency(dualExpiryInfo.forward.targetForward)}</p>
+                </div>
+                <div>
+                  <span className="text-blue-700 font-medium">Basis</span>
+                  <p className="text-blue-900">
+                    {dualExpiryInfo.forward.basis >= 0 ? '+' : ''}{dualExpiryInfo.forward.basis.toFixed(2)}%
+                  </p>
+                </div>
+                <div>
+                  <span className="text-blue-700 font-medium">Implied Carry</span>
+                  <p className="text-blue-900">{(dualExpiryInfo.forward.impliedCarry * 100).toFixed(2)}% / yr</p>
+                  {treasuryRateInfo && (
+                    <p className="text-blue-700 text-xs">
+                      vs. treasury {(treasuryRateInfo.rate * 100).toFixed(2)}%
+                    </p>
+                  )}
+                </div>
+              </div>
+              {dualExpiryInfo.forward.checks.length > 0 && (
+                <div className="mt-3 text-xs text-blue-800 space-y-1">
+                  {dualExpiryInfo.forward.checks.map((check: ExpiryForwardCheck) => (
+                    <div key={check.expiry}>
+                      {check.expiry}: futures {formatCurrency(check.futuresForward)}
+                      {check.parityForward !== undefined && check.deviation !== undefined
+                        ? ` · put-call parity ${formatCurrency(check.parityForward)} (${check.deviation >= 0 ? '+' : ''}${check.deviation.toFixed(2)}%)`
+                        : ' · put-call parity N/A'}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p className="mt-2 text-xs text-blue-700">
+                European calls and puts are priced on forward moneyness (Black-76) and discounted at the treasury rate.
+              </p>
+            </div>
+          )}
         </div>
       )}
 
@@ -321,8 +420,8 @@ export default function DiscountResults({
         </div>
       )}
 
-      {/* Call vs Put discount cards */}
-      <div className="grid md:grid-cols-2 gap-6">
+      {/* Call vs Put (vs marketability put models) discount cards */}
+      <div className={`grid gap-6 ${hasLookback && !hasAverageStrike ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
         <DiscountCard
           title="Call Discount Rate"
           subtitle="Opportunity Cost"
@@ -346,45 +445,92 @@ export default function DiscountResults({
           isSelected={selectedDiscount === 'put'}
           onClick={() => setSelectedDiscount('put')}
         />
+
+        {hasLookback && (
+          <DiscountCard
+            title="Longstaff Discount"
+            subtitle="Marketability Upper Bound"
+            value={lookbackDiscount}
+            description="Lookback put (Longstaff 1995): value of selling at the lockup-period high. An upper bound often requested by auditors."
+            theoreticalPrice={lookbackTheoretical}
+            icon={<ScaleIcon className="w-6 h-6 text-purple-600" />}
+            colorClass="bg-gradient-to-br from-purple-500 to-purple-600"
+            isSelected={selectedDiscount === 'lookback'}
+            onClick={() => setSelectedDiscount('lookback')}
+          />
+        )}
+
+        {hasAverageStrike && (
+          <DiscountCard
+            title="Average-Strike Put"
+            subtitle="Finnerty / Ghaidarov"
+            value={averageStrikeDiscount}
+            description="Asian put struck at the average price over the lockup: selling gradually instead of at a single point."
+            theoreticalPrice={averageStrikeTheoretical}
+            icon={<CalculatorIcon className="w-6 h-6 text-amber-600" />}
+            colorClass="bg-gradient-to-br from-amber-500 to-amber-600"
+            isSelected={selectedDiscount === 'averageStrike'}
+            onClick={() => setSelectedDiscount('averageStrike')}
+          />
+        )}
       </div>
 
+      {/* Dual-expiry (implied) vs historical-vol discount */}
+      {varianceRiskPremium && (
+        <VarianceRiskPremiumResults analysis={varianceRiskPremium} methodology={calculation.methodology} />
+      )}
+
+      {/* Greeks per contract and for the weighted aggregate */}
+      {greeksRows.length > 0 && <GreeksTable rows={greeksRows} />}
+
+      {/* Implied vol vs the token's own realized-vol history */}
+      {calculation.impliedVolatility !== undefined && (
+        <VolatilityConeChart
+          tokenId={token === 'ETH' ? 'ethereum' : 'bitcoin'}
+          overlayVolatility={calculation.impliedVolatility}
+          overlayLabel="Implied vol"
+          lockupDays={lockupDays}
+        />
+      )}
+
       {/* Selected discount detailed analysis */}
       <div className="bg-white rounded-lg border border-gray-200 p-6">
         <h3 className="text-lg font-semibold mb-4 flex items-center">
           <ChartBarIcon className="w-5 h-5 mr-2 text-gray-600" />
-          {selectedDiscount === 'call' ? 'Call Discount Rate' : 'Put Discount Rate'} — Detailed Analysis
+          {selectedDiscount === 'lookback' ? 'Longstaff Discount' :
+           selectedDiscount === 'averageStrike' ? 'Average-Strike Put Discount' : `${selectedFigures.label} Discount Rate`} — Detailed Analysis
         </h3>
         
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
           <div className="text-center p-4 bg-gray-50 rounded-lg">
             <div className="text-2xl font-bold text-gray-900">
-              {formatPercentage(selectedDiscount === 'call' ? callDiscount : putDiscount)}
+              {formatPercentage(selectedFigures.discount)}
             </div>
             <div className="text-sm text-gray-600">
-              {selectedDiscount === 'call' ? 'Call' : 'Put'} Discount
+              {selectedFigures.label} Discount
             </div>
           </div>
           
           <div className="text-center p-4 bg-gray-50 rounded-lg">
             <div className="text-2xl font-bold text-gray-900">
-              {formatPercentage(selectedDiscount === 'call' ? callAnnualizedRate : putAnnualizedRate)}
+              {formatPercentage(selectedFigures.annualized)}
             </div>
             <div className="text-sm text-gray-600">Annualized Rate</div>
           </div>
           
           <div className="text-center p-4 bg-gray-50 rounded-lg">
             <div className="text-2xl font-bold text-gray-900">
-              {formatCurrency(selectedDiscount === 'call' ? callFairValue : putFairValue)}
+              {formatCurrency(selectedFigures.fairValue)}
             </div>
             <div className="text-sm text-gray-600">Fair Value</div>
           </div>
           
           <div className="text-center p-4 bg-gray-50 rounded-lg">
             <div className="text-2xl font-bold text-gray-900">
-              {formatCurrency(selectedDiscount === 'call' ? callTheoretical : putTheoretical)}
+              {formatCurrency(selectedFigures.theoretical)}
             </div>
             <div className="text-sm text-gray-600">
-              Theoretical {selectedDiscount === 'call' ? 'Call' : 'Put'} Price
+              Theoretical {selectedFigures.label} Price
             </div>
           </div>
         </div>
@@ -396,9 +542,21 @@ export default function DiscountResults({
             {selectedDiscount === 'call' ? (
               <>
                 <strong>Opportunity cost view</strong>: {formatPercentage(callDiscount)} represents potential upside missed during lockup.
-                If you expect {token} to rise more than this over {period}, lockup may be suboptimal.
+                If you expect {token} to rise more than this over {formatLockupPeriod(period)}, lockup may be suboptimal.
                 Compare with staking APY or other DeFi yields.
               </>
+            ) : selectedDiscount === 'lookback' ? (
+              <>
+                <strong>Marketability view</strong>: {formatPercentage(lookbackDiscount)} is the Longstaff upper bound —
+                what a holder with perfect timing would give up by being unable to sell at the {formatLockupPeriod(period)} high.
+                Treat it as a ceiling rather than a point estimate.
+              </>
+            ) : selectedDiscount === 'averageStrike' ? (
+              <>
+                <strong>Restricted-token view</strong>: {formatPercentage(averageStrikeDiscount)} is the average-strike put value —
+                the value of selling at the average {token} price over {formatLockupPeriod(period)} rather than only at unlock.
+                Commonly accepted for valuing restricted holdings and usually well below the Longstaff bound.
+              </>
             ) : (
               <>
                 <strong>Risk control view</strong>: {formatPercentage(putDiscount)} represents insurance cost against downside.
@@ -502,6 +660,18 @@ export default function DiscountResults({
                     <span className="text-gray-600">Theoretical Put Price:</span>
                     <span className="ml-2 font-medium">{formatCurrency(putTheoretical)}</span>
                   </div>
+                  {hasLookback && (
+                    <div>
+                      <span className="text-gray-600">Theoretical Lookback Price:</span>
+                      <span className="ml-2 font-medium">{formatCurrency(lookbackTheoretical)}</span>
+                    </div>
+                  )}
+                  {hasAverageStrike && (
+                    <div>
+                      <span className="text-gray-600">Theoretical Avg-Strike Put:</span>
+                      <span className="ml-2 font-medium">{formatCurrency(averageStrikeTheoretical)}</span>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -0,0 +1,92 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ContractGreeks, OptionGreeks } from '@/types';
+
+export interface GreeksRow {
+  label: string;
+  greeks: ContractGreeks;
+  aggregate?: boolean; // 加權平均列
+}
+
+interface GreeksTableProps {
+  rows: GreeksRow[];
+  showPut?: boolean; // 只定價 Call 的模式（自定義代幣）不顯示 Put
+}
+
+const formatValue = (value: number, digits: number = 4) => {
+  if (value !== 0 && Math.abs(value) < 0.0001) {
+    return value.toExponential(2);
+  }
+  return value.toFixed(digits);
+};
+
+const GREEK_COLUMNS: { key: keyof OptionGreeks; label: string; unit: string }[] = [
+  { key: 'delta', label: 'Delta', unit: 'per $1 spot' },
+  { key: 'gamma', label: 'Gamma', unit: 'per $1 spot' },
+  { key: 'vega', label: 'Vega', unit: '$ per vol pt' },
+  { key: 'theta', label: 'Theta', unit: '$ per day' },
+  { key: 'rho', label: 'Rho', unit: '$ per rate pt' },
+];
+
+// 各合約與加權平均的 Call/Put 敏感度
+export default function GreeksTable({ rows, showPut = true }: GreeksTableProps) {
+  const [side, setSide] = useState<'call' | 'put'>('call');
+  const activeSide = showPut ? side : 'call';
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Δ Option Greeks</h3>
+        {showPut && (
+          <div className="flex rounded-md border border-gray-200 text-xs overflow-hidden">
+            {(['call', 'put'] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setSide(option)}
+                className={`px-3 py-1 ${side === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              >
+                {option === 'call' ? 'Call' : 'Put'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-600">
+              <th className="py-2 pr-3 text-left font-medium">Contract</th>
+              {GREEK_COLUMNS.map(column => (
+                <th key={column.key} className="py-2 pr-3 text-right font-medium">
+                  {column.label}
+                  <div className="text-xs font-normal text-gray-400">{column.unit}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr
+                key={row.label}
+                className={`border-b border-gray-100 ${row.aggregate ? 'bg-blue-50 font-semibold text-blue-900' : 'text-gray-800'}`}
+              >
+                <td className="py-2 pr-3">{row.label}</td>
+                {GREEK_COLUMNS.map(column => (
+                  <td key={column.key} className="py-2 pr-3 text-right">
+                    {formatValue(row.greeks[activeSide][column.key], column.key === 'gamma' ? 6 : 4)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-3 text-xs text-gray-500">
+        Sensitivities of one option per token. The locked position&apos;s fair value is spot minus the option,
+        so its delta is 1 − Δ and its vega, theta and rho are the option&apos;s with the sign flipped.
+      </p>
+    </div>
+  );
+}
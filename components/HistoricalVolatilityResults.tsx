@@ -2,14 +2,26 @@
 
 import React, { useState, useEffect } from 'react';
 import { ArrowTrendingUpIcon, InformationCircleIcon, ChartBarIcon } from '@heroicons/react/24/outline';
-import { DiscountCalculation, CustomTokenInput, LockupPeriod } from '@/types';
+import { DiscountCalculation, CustomTokenInput, JumpDiffusionAnalysis, VolatilityForecast, RangeVolatilityComparison, RobustVolatilityAnalysis } from '@/types';
 import { getTreasuryRateInfo } from '@/lib/treasuryRates';
+import { lockupPeriodToDays, formatLockupPeriod } from '@/lib/calculator';
+import DiscountModelComparison from './DiscountModelComparison';
+import JumpDiffusionResults from './JumpDiffusionResults';
+import VolatilityForecastResults from './VolatilityForecastResults';
+import VolatilityEstimatorComparison from './VolatilityEstimatorComparison';
+import RobustVolatilityResults from './RobustVolatilityResults';
+import VolatilityConeChart from './VolatilityConeChart';
+import GreeksTable from './GreeksTable';
 
 interface HistoricalVolatilityResultsProps {
   calculation: DiscountCalculation;
   spotPrice: number;
   customTokenInput: CustomTokenInput;
   volatilityData?: any;
+  jumpDiffusion?: JumpDiffusionAnalysis;
+  volatilityForecast?: VolatilityForecast;
+  rangeVolatility?: RangeVolatilityComparison;
+  robustVolatility?: RobustVolatilityAnalysis;
   treasuryRateData?: {
     rate: number;
     displayText: string;
@@ -53,6 +65,10 @@ export default function HistoricalVolatilityResults({
   spotPrice, 
   customTokenInput,
   volatilityData,
+  jumpDiffusion,
+  volatilityForecast,
+  rangeVolatility,
+  robustVolatility,
   treasuryRateData
 }: HistoricalVolatilityResultsProps) {
   const [showCalculationDetails, setShowCalculationDetails] = useState(false);
@@ -80,7 +96,7 @@ export default function HistoricalVolatilityResults({
 
       // Otherwise, fetch from treasury API
       try {
-        const info = await getTreasuryRateInfo(customTokenInput.period as LockupPeriod);
+        const info = await getTreasuryRateInfo(customTokenInput.period);
         setTreasuryRateInfo({
           displayText: info.displayText,
           source: info.source,
@@ -95,13 +111,7 @@ export default function HistoricalVolatilityResults({
   }, [customTokenInput.period, treasuryRateData]);
   
   // Calculate period-specific values
-  const periodDaysMap = {
-    '3M': 90,
-    '6M': 180,
-    '1Y': 365,
-    '2Y': 730
-  };
-  const lockupDays = periodDaysMap[customTokenInput.period as keyof typeof periodDaysMap] || 365;
+  const lockupDays = lockupPeriodToDays(customTokenInput.period);
   
   const callAnnualizedRate = (callDiscount * 365) / lockupDays;
   const callFairValue = spotPrice - callTheoretical;
@@ -111,7 +121,7 @@ export default function HistoricalVolatilityResults({
       {/* Title */}
       <div className="text-center">
         <h2 className="text-xl font-bold text-gray-900 mb-2">
-          💎 {customTokenInput.symbol.toUpperCase()} {customTokenInput.period} Lockup Discount Analysis
+          💎 {customTokenInput.symbol.toUpperCase()} {formatLockupPeriod(customTokenInput.period)} Lockup Discount Analysis
         </h2>
         <p className="text-sm text-gray-600">
           Call option pricing based on historical volatility and target price
@@ -146,7 +156,9 @@ export default function HistoricalVolatilityResults({
             <p className="text-purple-900">{lockupDays} days</p>
           </div>
           <div>
-            <span className="text-purple-700 font-medium">Historical Volatility</span>
+            <span className="text-purple-700 font-medium">
+              {volatilityForecast ? 'Forecast Volatility' : 'Historical Volatility'}
+            </span>
             <p className="text-purple-900 font-bold">
               {calculation.impliedVolatility?.toFixed(1)}%
             </p>
@@ -178,7 +190,9 @@ export default function HistoricalVolatilityResults({
             <ArrowTrendingUpIcon className="w-8 h-8" />
             <div>
               <h3 className="text-xl font-semibold">Call Discount Rate</h3>
-              <p className="text-red-100">Opportunity cost vs target price</p>
+              <p className="text-red-100">
+                Opportunity cost vs target price{jumpDiffusion && ' (Merton jump-diffusion)'}
+              </p>
             </div>
           </div>
         </div>
@@ -198,6 +212,57 @@ export default function HistoricalVolatilityResults({
         </p>
       </div>
 
+      {/* Discount model comparison (call vs marketability put models) */}
+      {calculation.averageStrikeDiscount !== undefined && (
+        <DiscountModelComparison
+          calculation={calculation}
+          spotPrice={spotPrice}
+          lockupDays={lockupDays}
+        />
+      )}
+
+      {/* Greeks of the target-strike call */}
+      {calculation.greeks && (
+        <GreeksTable
+          rows={[{ label: `Call @ ${formatCurrency(customTokenInput.targetPrice)}`, greeks: calculation.greeks, aggregate: true }]}
+          showPut={false}
+        />
+      )}
+
+      {/* Close-to-close vs OHLC range estimators */}
+      {rangeVolatility && (
+        <VolatilityEstimatorComparison comparison={rangeVolatility} />
+      )}
+
+      {/* Robust estimators and outlier report (clipped dates highlighted) */}
+      {robustVolatility && (robustVolatility.method !== 'none' || robustVolatility.outliers.length > 0) && (
+        <RobustVolatilityResults
+          analysis={robustVolatility}
+          applied={!rangeVolatility || rangeVolatility.applied === 'close-to-close'}
+        />
+      )}
+
+      {/* EWMA / GARCH volatility forecast parameters */}
+      {volatilityForecast && (
+        <VolatilityForecastResults forecast={volatilityForecast} />
+      )}
+
+      {/* Chosen vol vs the token's own realized-vol history */}
+      <VolatilityConeChart
+        tokenId={customTokenInput.symbol}
+        overlayVolatility={calculation.impliedVolatility}
+        overlayLabel="Chosen vol"
+        lockupDays={lockupDays}
+      />
+
+      {/* Merton jump-diffusion parameters and BS comparison */}
+      {jumpDiffusion && (
+        <JumpDiffusionResults
+          analysis={jumpDiffusion}
+          historicalVolatility={volatilityData?.annualizedVolatility ?? calculation.impliedVolatility}
+        />
+      )}
+
       {/* Detailed analysis */}
       <div className="bg-white rounded-lg border border-gray-200 p-6">
         <h3 className="text-lg font-semibold mb-4 flex items-center">
@@ -320,8 +385,8 @@ export default function HistoricalVolatilityResults({
                     </span>
                   </div>
                   <div className="flex justify-between p-3 bg-green-50 rounded border border-green-200">
-                    <span className="font-medium">Final discount rate:</span>
-                    <span className="font-bold text-green-700">{formatPercentage(callDiscount)}</span>
+                    <span className="font-medium">Final discount rate{calculation.methodology && calculation.methodology !== 'atm-call' ? ` (${calculation.methodology})` : ''}:</span>
+                    <span className="font-bold text-green-700">{formatPercentage(calculation.discount)}</span>
                   </div>
                 </div>
               </div>
@@ -0,0 +1,149 @@
+'use client';
+
+import React, { useState } from 'react';
+import { LockupPeriod } from '@/types';
+import { LOCKUP_PRESETS, MAX_LOCKUP_DAYS, parseLockupPeriod, lockupPeriodToDays, lockupPeriodToDate } from '@/lib/calculator';
+
+interface LockupPeriodSelectorProps {
+  value: LockupPeriod;
+  onChange: (period: LockupPeriod) => void;
+  disabled?: boolean;
+}
+
+type CustomMode = 'days' | 'date';
+
+const isPreset = (period: LockupPeriod) => (LOCKUP_PRESETS as string[]).includes(period);
+
+const toDateInputValue = (date: Date) => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export default function LockupPeriodSelector({ value, onChange, disabled = false }: LockupPeriodSelectorProps) {
+  const [showCustom, setShowCustom] = useState(!isPreset(value));
+  const [customMode, setCustomMode] = useState<CustomMode>(value.includes('-') ? 'date' : 'days');
+  const [customDays, setCustomDays] = useState(isPreset(value) ? '' : String(lockupPeriodToDays(value)));
+  const [customDate, setCustomDate] = useState(isPreset(value) ? '' : toDateInputValue(lockupPeriodToDate(value)));
+  const [error, setError] = useState<string | null>(null);
+
+  const applyCustom = (mode: CustomMode, rawValue: string) => {
+    if (!rawValue) {
+      setError(null);
+      return;
+    }
+
+    const parsed = parseLockupPeriod(mode === 'days' ? `${rawValue}D` : rawValue);
+    if (!parsed) {
+      setError(mode === 'days'
+        ? `Enter a whole number of days between 1 and ${MAX_LOCKUP_DAYS}`
+        : `Pick a future unlock date within ${MAX_LOCKUP_DAYS} days`);
+      return;
+    }
+
+    setError(null);
+    onChange(parsed);
+  };
+
+  const today = new Date();
+  const minDate = toDateInputValue(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1));
+  const maxDate = toDateInputValue(new Date(today.getFullYear(), today.getMonth(), today.getDate() + MAX_LOCKUP_DAYS));
+
+  return (
+    <div>
+      <div className="grid grid-cols-5 gap-2">
+        {LOCKUP_PRESETS.map((p) => (
+          <button
+            key={p}
+            onClick={() => {
+              setShowCustom(false);
+              setError(null);
+              onChange(p);
+            }}
+            disabled={disabled}
+            className={`px-3 py-2 rounded-md font-medium text-sm transition-colors ${
+              !showCustom && value === p
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50'
+            }`}
+          >
+            {p}
+          </button>
+        ))}
+        <button
+          onClick={() => setShowCustom(true)}
+          disabled={disabled}
+          className={`px-3 py-2 rounded-md font-medium text-sm transition-colors ${
+            showCustom
+              ? 'bg-blue-600 text-white'
+              : 'bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50'
+          }`}
+        >
+          Custom
+        </button>
+      </div>
+
+      {showCustom && (
+        <div className="mt-3 pl-6">
+          <div className="flex space-x-4 mb-2">
+            {(['days', 'date'] as const).map((mode) => (
+              <label key={mode} className="flex items-center text-xs text-gray-700">
+                <input
+                  type="radio"
+                  name="lockupCustomMode"
+                  value={mode}
+                  checked={customMode === mode}
+                  onChange={() => {
+                    setCustomMode(mode);
+                    applyCustom(mode, mode === 'days' ? customDays : customDate);
+                  }}
+                  disabled={disabled}
+                  className="h-3 w-3 text-blue-600 focus:ring-blue-500 border-gray-300"
+                />
+                <span className="ml-1.5">{mode === 'days' ? 'Day count' : 'Unlock date'}</span>
+              </label>
+            ))}
+          </div>
+
+          {customMode === 'days' ? (
+            <input
+              type="number"
+              value={customDays}
+              onChange={(e) => {
+                setCustomDays(e.target.value);
+                applyCustom('days', e.target.value);
+              }}
+              placeholder="e.g., 417"
+              min="1"
+              max={MAX_LOCKUP_DAYS}
+              step="1"
+              disabled={disabled}
+              className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          ) : (
+            <input
+              type="date"
+              value={customDate}
+              onChange={(e) => {
+                setCustomDate(e.target.value);
+                applyCustom('date', e.target.value);
+              }}
+              min={minDate}
+              max={maxDate}
+              disabled={disabled}
+              className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          )}
+
+          {error ? (
+            <div className="mt-1.5 text-xs text-red-600">❌ {error}</div>
+          ) : !isPreset(value) && (
+            <div className="mt-1.5 text-xs text-gray-500">
+              {lockupPeriodToDays(value)} days → unlocks {lockupPeriodToDate(value).toLocaleDateString('en-US')}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import React from 'react';
+import { ArrowTrendingUpIcon, ScaleIcon, TableCellsIcon } from '@heroicons/react/24/outline';
+import { DiscountCalculation, CustomTokenInput, MultiFactorAnalysisResponse } from '@/types';
+import { lockupPeriodToDays, formatLockupPeriod } from '@/lib/calculator';
+import DiscountModelComparison from './DiscountModelComparison';
+
+interface MultiFactorImpliedVolatilityResultsProps {
+  calculation: DiscountCalculation;
+  spotPrice: number;
+  customTokenInput: CustomTokenInput;
+  multiFactorAnalysis?: MultiFactorAnalysisResponse | null; // Multi-factor analysis data from API
+  historicalCalculation?: DiscountCalculation | null; // For comparison
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: value < 1 ? 4 : 2,
+  }).format(value);
+};
+
+const formatPercentage = (value: number) => {
+  return `${value.toFixed(2)}%`;
+};
+
+const CONFIDENCE_LABELS: Record<string, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low'
+};
+
+// |t| > 2 約為 5% 顯著水準
+const SIGNIFICANT_T_STAT = 2;
+
+// 多因子迴歸載荷、因子隱含波動率與推導折扣
+export default function MultiFactorImpliedVolatilityResults({
+  calculation,
+  spotPrice,
+  customTokenInput,
+  multiFactorAnalysis,
+  historicalCalculation
+}: MultiFactorImpliedVolatilityResultsProps) {
+  const lockupDays = lockupPeriodToDays(customTokenInput.period);
+  const callDiscount = calculation.callDiscount || 0;
+  const callTheoretical = calculation.theoreticalCallPrice || 0;
+
+  const analysis = multiFactorAnalysis?.multiFactorAnalysis;
+  const comparison = multiFactorAnalysis?.volatilityComparison;
+  const factors = analysis?.factors || [];
+  const confidence: string = comparison?.confidence || 'low';
+
+  // 方差占比：各因子 Euler 貢獻 + 特有方差
+  const idiosyncraticVariance = comparison ? comparison.idiosyncraticVolatility * comparison.idiosyncraticVolatility : 0;
+  const totalVariance = factors.reduce((sum, factor) => sum + factor.varianceContribution, 0) + idiosyncraticVariance;
+  const shareOf = (variance: number) => (totalVariance > 0 ? (variance / totalVariance) * 100 : 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Title */}
+      <div className="text-center">
+        <h2 className="text-xl font-bold text-gray-900 mb-2">
+          🧮 {customTokenInput.symbol.toUpperCase()} {formatLockupPeriod(customTokenInput.period)} Multi-Factor Implied Volatility Analysis
+        </h2>
+        <p className="text-sm text-gray-600">
+          Discount derived from {factors.map(factor => factor.symbol).join(' + ') || 'benchmark'} factor loadings and their option markets
+        </p>
+      </div>
+
+      {/* 迴歸摘要 */}
+      {analysis && (
+        <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg p-4 border border-blue-200">
+          <h3 className="font-semibold text-blue-900 mb-3 flex items-center">
+            <ScaleIcon className="w-5 h-5 mr-2" />
+            Factor Regression
+          </h3>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+            <div>
+              <span className="text-blue-700 font-medium">R²</span>
+              <p className="text-blue-900 font-bold text-lg">{(analysis.rSquared * 100).toFixed(1)}%</p>
+            </div>
+            <div>
+              <span className="text-blue-700 font-medium">Adjusted R²</span>
+              <p className="text-blue-900 font-bold">{(analysis.adjustedRSquared * 100).toFixed(1)}%</p>
+            </div>
+            <div>
+              <span className="text-blue-700 font-medium">Alpha (daily)</span>
+              <p className="text-blue-900 font-bold">
+                {(analysis.alpha * 100).toFixed(3)}% <span className="text-xs font-normal">(t = {analysis.alphaTStat.toFixed(2)})</span>
+              </p>
+            </div>
+            <div>
+              <span className="text-blue-700 font-medium">Confidence</span>
+              <p className={`font-bold ${
+                confidence === 'high' ? 'text-green-700' : confidence === 'medium' ? 'text-yellow-700' : 'text-red-700'
+              }`}>
+                {CONFIDENCE_LABELS[confidence]}
+              </p>
+            </div>
+          </div>
+          <p className="mt-3 text-xs text-blue-700">
+            {analysis.dataPoints} aligned {analysis.frequency} closes over {analysis.calculationPeriodDays} days ({analysis.returnType} returns, {analysis.altcoinProvider.toUpperCase()}
+            {factors.filter(factor => factor.provider !== analysis.altcoinProvider).map(factor => `; ${factor.symbol}: ${factor.provider.toUpperCase()}`).join('')});
+            altcoin realized volatility {analysis.altcoinVolatility.toFixed(1)}%.
+          </p>
+        </div>
+      )}
+
+      {/* Call discount main card */}
+      <div className="bg-gradient-to-br from-purple-500 to-purple-600 p-6 rounded-lg text-white shadow-lg">
+        <div className="flex items-center space-x-3 mb-4">
+          <ArrowTrendingUpIcon className="w-8 h-8" />
+          <div>
+            <h3 className="text-xl font-semibold">Multi-Factor Implied Vol Discount</h3>
+            <p className="text-purple-100">Market-implied discount</p>
+          </div>
+        </div>
+        <div className="text-4xl font-bold mb-2">
+          {formatPercentage(callDiscount)}
+        </div>
+        <div className="text-purple-100">
+          Theoretical Call Value: {formatCurrency(callTheoretical)} · Derived IV {calculation.impliedVolatility?.toFixed(1)}%
+        </div>
+      </div>
+
+      {/* 因子載荷與波動率 */}
+      {analysis && factors.length > 0 && comparison && (
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold mb-4 flex items-center text-gray-900">
+            <TableCellsIcon className="w-5 h-5 mr-2 text-indigo-500" />
+            Factor Loadings
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-600">
+                  <th className="text-left py-2 pr-4 font-medium">Factor</th>
+                  <th className="text-right py-2 pr-4 font-medium">Loading</th>
+                  <th className="text-right py-2 pr-4 font-medium">Std. Error</th>
+                  <th className="text-right py-2 pr-4 font-medium">t-stat</th>
+                  <th className="text-right py-2 pr-4 font-medium">Realized Vol</th>
+                  <th className="text-right py-2 pr-4 font-medium">Vol Used ({lockupDays}d)</th>
+                  <th className="text-right py-2 font-medium">Variance Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {factors.map(factor => (
+                  <tr key={factor.symbol} className="border-b border-gray-100">
+                    <td className="py-2 pr-4 text-gray-900 font-medium">{factor.symbol}</td>
+                    <td className="py-2 pr-4 text-right">{factor.loading.toFixed(3)}</td>
+                    <td className="py-2 pr-4 text-right text-gray-600">{factor.standardError.toFixed(3)}</td>
+                    <td className={`py-2 pr-4 text-right ${Math.abs(factor.tStat) > SIGNIFICANT_T_STAT ? 'font-semibold text-gray-900' : 'text-gray-500'}`}>
+                      {factor.tStat.toFixed(2)}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{factor.realizedVolatility.toFixed(1)}%</td>
+                    <td className="py-2 pr-4 text-right">
+                      {factor.impliedVolatility.toFixed(1)}%
+                      <span className={`ml-1 text-xs ${factor.volatilitySource === 'deribit_options' ? 'text-blue-600' : 'text-orange-600'}`}>
+                        {factor.volatilitySource === 'deribit_options' ? 'Deribit IV' : 'realized'}
+                      </span>
+                    </td>
+                    <td className="py-2 text-right">{shareOf(factor.varianceContribution).toFixed(0)}%</td>
+                  </tr>
+                ))}
+                <tr className="border-b border-gray-100 text-amber-700">
+                  <td className="py-2 pr-4 font-medium">Idiosyncratic</td>
+                  <td className="py-2 pr-4 text-right" colSpan={4}>residual</td>
+                  <td className="py-2 pr-4 text-right">{comparison.idiosyncraticVolatility.toFixed(1)}%</td>
+                  <td className="py-2 text-right">{shareOf(idiosyncraticVariance).toFixed(0)}%</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {/* 因子相關係數 */}
+          {analysis.factorCorrelations.length > 1 && (
+            <div className="mt-4">
+              <h4 className="font-medium text-gray-900 mb-2 text-sm">Factor Correlations (realized)</h4>
+              <table className="text-sm">
+                <thead>
+                  <tr className="text-gray-600">
+                    <th className="pr-4" />
+                    {factors.map(factor => (
+                      <th key={factor.symbol} className="text-right pr-4 font-medium">{factor.symbol}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {analysis.factorCorrelations.map((row, i) => (
+                    <tr key={factors[i].symbol}>
+                      <td className="pr-4 text-gray-600 font-medium">{factors[i].symbol}</td>
+                      {row.map((value, j) => (
+                        <td key={factors[j].symbol} className="text-right pr-4">{value.toFixed(2)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="mt-4 p-3 bg-gray-50 rounded text-sm">
+            Derived IV = √(bᵀΣb + idio²) = √({comparison.systematicImpliedVolatility.toFixed(1)}%² + {comparison.idiosyncraticVolatility.toFixed(1)}%²)
+            = <span className="font-semibold">{comparison.derivedImpliedVolatility.toFixed(1)}%</span>
+          </div>
+
+          <p className="mt-3 text-xs text-gray-500">
+            Σ combines each factor&apos;s volatility at the lockup horizon with the realized factor correlations. Loadings with
+            |t| ≤ {SIGNIFICANT_T_STAT} are not statistically distinguishable from zero; with correlated factors the individual
+            loadings are less stable than their combined systematic variance.
+            {factors.some(factor => factor.volatilitySource !== 'deribit_options') &&
+              ' Factors without Deribit options use their realized volatility, so their part of the systematic variance is backward-looking.'}
+          </p>
+        </div>
+      )}
+
+      {/* Discount model comparison (call vs marketability put models) */}
+      {calculation.averageStrikeDiscount !== undefined && (
+        <DiscountModelComparison
+          calculation={calculation}
+          spotPrice={spotPrice}
+          lockupDays={lockupDays}
+        />
+      )}
+
+      {/* 與歷史波動率比較 */}
+      {historicalCalculation && (
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold mb-4 flex items-center">
+            <ScaleIcon className="w-5 h-5 mr-2 text-gray-600" />
+            Method Comparison: Multi-Factor vs Historical
+          </h3>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 text-sm">
+            <div className="bg-purple-50 rounded-lg p-4 border border-purple-200 space-y-2">
+              <h4 className="font-medium text-purple-900">🧮 Multi-factor IV</h4>
+              <div className="flex justify-between"><span>Discount:</span><span className="font-bold text-purple-700">{formatPercentage(callDiscount)}</span></div>
+              <div className="flex justify-between"><span>Derived volatility:</span><span className="font-medium">{calculation.impliedVolatility?.toFixed(1)}%</span></div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4 border border-gray-200 space-y-2">
+              <h4 className="font-medium text-gray-900">📈 Historical method</h4>
+              <div className="flex justify-between"><span>Discount:</span><span className="font-bold text-gray-700">{formatPercentage(historicalCalculation.callDiscount || 0)}</span></div>
+              <div className="flex justify-between"><span>Historical volatility:</span><span className="font-medium">{historicalCalculation.impliedVolatility?.toFixed(1)}%</span></div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
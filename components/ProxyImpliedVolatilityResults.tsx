@@ -2,13 +2,17 @@
 
 import React, { useState } from 'react';
 import { ArrowTrendingUpIcon, InformationCircleIcon, ChartBarIcon, ScaleIcon } from '@heroicons/react/24/outline';
-import { DiscountCalculation, CustomTokenInput } from '@/types';
+import { DiscountCalculation, CustomTokenInput, ProxyImpliedAnalysisResponse, ExtrapolationStrategy } from '@/types';
+import { lockupPeriodToDays, formatLockupPeriod } from '@/lib/calculator';
+import { EXTRAPOLATION_STRATEGY_LABELS } from '@/lib/termStructure';
+import DiscountModelComparison from './DiscountModelComparison';
+import RollingBetaChart from './RollingBetaChart';
 
-interface BetaImpliedVolatilityResultsProps {
+interface ProxyImpliedVolatilityResultsProps {
   calculation: DiscountCalculation;
   spotPrice: number;
   customTokenInput: CustomTokenInput;
-  betaAnalysis?: any; // Beta analysis data from API
+  betaAnalysis?: ProxyImpliedAnalysisResponse | null; // Beta analysis data from API
   historicalCalculation?: DiscountCalculation | null; // For comparison
 }
 
@@ -41,32 +45,34 @@ const formatPercentage = (value: number) => {
   return `${value.toFixed(2)}%`;
 };
 
-export default function BetaImpliedVolatilityResults({ 
+export default function ProxyImpliedVolatilityResults({ 
   calculation, 
   spotPrice, 
   customTokenInput,
   betaAnalysis,
   historicalCalculation
-}: BetaImpliedVolatilityResultsProps) {
+}: ProxyImpliedVolatilityResultsProps) {
   const [showCalculationDetails, setShowCalculationDetails] = useState(false);
   const [showBetaDetails, setShowBetaDetails] = useState(false);
 
   const callDiscount = calculation.callDiscount || 0;
   const callTheoretical = calculation.theoreticalCallPrice || 0;
   
-  const periodDaysMap = {
-    '3M': 90,
-    '6M': 180,
-    '1Y': 365,
-    '2Y': 730
-  };
-  const lockupDays = periodDaysMap[customTokenInput.period as keyof typeof periodDaysMap] || 365;
+  const lockupDays = lockupPeriodToDays(customTokenInput.period);
+  const proxy = betaAnalysis?.proxy || customTokenInput.proxy || 'BTC';
   
   const callAnnualizedRate = (callDiscount * 365) / lockupDays;
   const callFairValue = spotPrice - callTheoretical;
 
   // Comparison metrics if historical calculation is available
   const hasComparison = historicalCalculation && betaAnalysis;
+
+  // 派生隱含波動率的系統性/特有分解 (%)
+  const systematicVol = betaAnalysis?.volatilityComparison.systematicImpliedVolatility;
+  const idiosyncraticVol = betaAnalysis?.volatilityComparison.idiosyncraticVolatility;
+  const systematicShare = systematicVol !== undefined && idiosyncraticVol !== undefined && systematicVol + idiosyncraticVol > 0
+    ? (systematicVol * systematicVol) / (systematicVol * systematicVol + idiosyncraticVol * idiosyncraticVol) * 100
+    : 0;
   const discountDifference = hasComparison ? 
     (callDiscount - (historicalCalculation.callDiscount || 0)) : 0;
   const volatilityDifference = hasComparison ? 
@@ -77,10 +83,10 @@ export default function BetaImpliedVolatilityResults({
       {/* Title */}
       <div className="text-center">
         <h2 className="text-xl font-bold text-gray-900 mb-2">
-          🚀 {customTokenInput.symbol.toUpperCase()} {customTokenInput.period} BTC-Implied Volatility Derived Analysis
+          🚀 {customTokenInput.symbol.toUpperCase()} {formatLockupPeriod(customTokenInput.period)} {proxy}-Implied Volatility Derived Analysis
         </h2>
         <p className="text-sm text-gray-600">
-          Discount derived from BTC options market expectations and beta
+          Discount derived from {proxy} options market expectations and beta
         </p>
       </div>
 
@@ -116,6 +122,17 @@ export default function BetaImpliedVolatilityResults({
             </div>
           </div>
           
+          {betaAnalysis?.betaAnalysis?.confidenceInterval && (
+            <p className="mt-3 text-sm text-blue-800">
+              95% interval [{betaAnalysis.betaAnalysis.confidenceInterval.lower.toFixed(3)}, {betaAnalysis.betaAnalysis.confidenceInterval.upper.toFixed(3)}]
+              · SE {betaAnalysis.betaAnalysis.standardError?.toFixed(3)}
+              · OLS t-stat {betaAnalysis.betaAnalysis.tStat?.toFixed(1)}
+              {betaAnalysis.betaAnalysis.shrinkage !== 'none' && (
+                <> · {betaAnalysis.betaAnalysis.shrinkage === 'blume' ? 'Blume' : 'Vasicek'}-shrunk from OLS {betaAnalysis.betaAnalysis.olsBeta?.toFixed(3)}</>
+              )}
+            </p>
+          )}
+          
           <button
             onClick={() => setShowBetaDetails(!showBetaDetails)}
             className="mt-3 text-sm text-blue-600 hover:text-blue-800"
@@ -126,8 +143,8 @@ export default function BetaImpliedVolatilityResults({
           {showBetaDetails && betaAnalysis && (
             <div className="mt-4 pt-3 border-t border-blue-200 space-y-2 text-sm">
               <div className="flex justify-between">
-                <span>BTC volatility:</span>
-                <span className="font-medium">{betaAnalysis.betaAnalysis?.btcVolatility?.toFixed(1)}%</span>
+                <span>{proxy} volatility:</span>
+                <span className="font-medium">{betaAnalysis.betaAnalysis?.proxyVolatility?.toFixed(1)}%</span>
               </div>
               <div className="flex justify-between">
                 <span>Altcoin volatility:</span>
@@ -141,18 +158,40 @@ export default function BetaImpliedVolatilityResults({
                 <span>Period:</span>
                 <span className="font-medium">{betaAnalysis.betaAnalysis?.calculationPeriodDays} days</span>
               </div>
+              <div className="flex justify-between">
+                <span>Returns:</span>
+                <span className="font-medium">{betaAnalysis.betaAnalysis?.frequency} {betaAnalysis.betaAnalysis?.returnType}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Price source:</span>
+                <span className="font-medium">
+                  {betaAnalysis.betaAnalysis?.altcoinProvider?.toUpperCase()}
+                  {betaAnalysis.betaAnalysis?.proxyProvider !== betaAnalysis.betaAnalysis?.altcoinProvider &&
+                    ` (${proxy}: ${betaAnalysis.betaAnalysis?.proxyProvider?.toUpperCase()})`}
+                </span>
+              </div>
             </div>
           )}
         </div>
       )}
 
+      {/* 滾動 beta 歷史 */}
+      {betaAnalysis && betaAnalysis.betaAnalysis.rollingBeta.length > 1 && (
+        <RollingBetaChart
+          points={betaAnalysis.betaAnalysis.rollingBeta}
+          beta={betaAnalysis.betaAnalysis.beta}
+          confidenceInterval={betaAnalysis.betaAnalysis.confidenceInterval}
+          proxy={proxy}
+        />
+      )}
+
       {/* Call discount main card */}
       <div className="bg-gradient-to-br from-purple-500 to-purple-600 p-6 rounded-lg text-white shadow-lg">
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center space-x-3">
             <ArrowTrendingUpIcon className="w-8 h-8" />
             <div>
-              <h3 className="text-xl font-semibold">BTC-Implied Vol Discount</h3>
+              <h3 className="text-xl font-semibold">{proxy}-Implied Vol Discount</h3>
               <p className="text-purple-100">Market-implied discount</p>
             </div>
           </div>
@@ -165,26 +204,79 @@ export default function BetaImpliedVolatilityResults({
           <div className="text-purple-100">
             Theoretical Call Value: {formatCurrency(callTheoretical)}
           </div>
+          {betaAnalysis?.volatilityComparison?.derivedImpliedVolatilityRange && (
+            <div className="text-purple-100 text-sm mt-1">
+              Derived IV {calculation.impliedVolatility?.toFixed(1)}% (95% beta range
+              {' '}{betaAnalysis.volatilityComparison.derivedImpliedVolatilityRange.lower.toFixed(1)}%
+              –{betaAnalysis.volatilityComparison.derivedImpliedVolatilityRange.upper.toFixed(1)}%)
+            </div>
+          )}
         </div>
         
         <p className="text-purple-100">
-          Discount derived from BTC implied volatility ({betaAnalysis?.btcImpliedVolatility?.impliedVolatility?.toFixed(1)}%)
-          and beta ({betaAnalysis?.betaAnalysis?.beta?.toFixed(3)}).
+          Discount derived from {proxy} implied volatility ({betaAnalysis?.proxyImpliedVolatility?.impliedVolatility?.toFixed(1)}%)
+          and beta ({betaAnalysis?.betaAnalysis?.beta?.toFixed(3)}), plus the token&apos;s idiosyncratic volatility.
         </p>
       </div>
 
+      {/* 系統性 vs 特有波動率分解 */}
+      {systematicVol !== undefined && idiosyncraticVol !== undefined && (
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold mb-4 text-gray-900">🧩 Volatility Decomposition</h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div className="text-center p-4 bg-purple-50 rounded-lg border border-purple-200">
+              <div className="text-2xl font-bold text-purple-700">{systematicVol.toFixed(1)}%</div>
+              <div className="text-sm text-purple-700">Systematic (β × {proxy} IV)</div>
+            </div>
+            <div className="text-center p-4 bg-amber-50 rounded-lg border border-amber-200">
+              <div className="text-2xl font-bold text-amber-700">{idiosyncraticVol.toFixed(1)}%</div>
+              <div className="text-sm text-amber-700">Idiosyncratic (residual)</div>
+            </div>
+            <div className="text-center p-4 bg-gray-50 rounded-lg">
+              <div className="text-2xl font-bold text-gray-900">{calculation.impliedVolatility?.toFixed(1)}%</div>
+              <div className="text-sm text-gray-600">Derived IV = √(sys² + idio²)</div>
+            </div>
+          </div>
+
+          {/* 方差占比 */}
+          <div className="flex h-4 rounded overflow-hidden">
+            <div className="bg-purple-500" style={{ width: `${systematicShare}%` }} />
+            <div className="bg-amber-400" style={{ width: `${100 - systematicShare}%` }} />
+          </div>
+          <div className="flex justify-between mt-1 text-xs text-gray-600">
+            <span>Systematic {systematicShare.toFixed(0)}% of variance</span>
+            <span>Idiosyncratic {(100 - systematicShare).toFixed(0)}% of variance</span>
+          </div>
+
+          <p className="mt-3 text-xs text-gray-500">
+            The systematic part is priced off {proxy} options; the idiosyncratic part is the annualized standard deviation of
+            the regression residuals (altcoin return − α − β × {proxy} return), which no {proxy} option can hedge.
+          </p>
+        </div>
+      )}
+
+      {/* Discount model comparison (call vs marketability put models) */}
+      {calculation.averageStrikeDiscount !== undefined && (
+        <DiscountModelComparison
+          calculation={calculation}
+          spotPrice={spotPrice}
+          lockupDays={lockupDays}
+        />
+      )}
+
       {/* 方法比較 */}
       {hasComparison && (
         <div className="bg-white rounded-lg border border-gray-200 p-6">
           <h3 className="text-lg font-semibold mb-4 flex items-center">
             <ScaleIcon className="w-5 h-5 mr-2 text-gray-600" />
-            Method Comparison: BTC-derived vs Historical
+            Method Comparison: {proxy}-derived vs Historical
           </h3>
           
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {/* BTC推導結果 */}
+            {/* 代理資產推導結果 */}
             <div className="bg-purple-50 rounded-lg p-4 border border-purple-200">
-              <h4 className="font-medium text-purple-900 mb-3">🚀 BTC-derived IV</h4>
+              <h4 className="font-medium text-purple-900 mb-3">🚀 {proxy}-derived IV</h4>
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
                   <span>Discount:</span>
@@ -281,9 +373,9 @@ export default function BetaImpliedVolatilityResults({
 
         {/* 投資建議 */}
         <div className="bg-blue-50 border-l-4 border-blue-400 p-4">
-          <h4 className="font-medium text-blue-900 mb-2">💡 Why BTC-derived IV</h4>
+          <h4 className="font-medium text-blue-900 mb-2">💡 Why {proxy}-derived IV</h4>
           <p className="text-sm text-blue-800">
-            Compared to historical IV, BTC-implied IV reflects forward-looking market expectations. Beta scales BTC risk
+            Compared to historical IV, {proxy}-implied IV reflects forward-looking market expectations. Beta scales {proxy} risk
             to altcoins ({betaAnalysis?.betaAnalysis?.beta?.toFixed(2)}×). Confidence:
             <span className={`font-medium ml-1 ${
               betaAnalysis?.volatilityComparison?.confidence === 'high' ? 'text-green-700' :
@@ -314,16 +406,26 @@ export default function BetaImpliedVolatilityResults({
 
         {showCalculationDetails && (
           <div className="p-4 space-y-4">
-            {/* BTC隱含波動率推導步驟 */}
+            {/* 代理資產隱含波動率推導步驟 */}
             <div>
-              <h4 className="font-medium text-gray-900 mb-3">🔄 BTC-IV Derivation Steps</h4>
+              <h4 className="font-medium text-gray-900 mb-3">🔄 {proxy}-IV Derivation Steps</h4>
               <div className="space-y-2 text-sm">
-                <div className="flex justify-between p-3 bg-blue-50 rounded">
-                  <span>1. Fetch BTC implied volatility:</span>
-                  <span className="font-medium">
-                    {betaAnalysis?.btcImpliedVolatility?.impliedVolatility?.toFixed(1)}% 
-                    ({betaAnalysis?.btcImpliedVolatility?.source === 'deribit_options' ? 'Deribit' : 'Fallback'})
-                  </span>
+                <div className="p-3 bg-blue-50 rounded">
+                  <div className="flex justify-between">
+                    <span>1. {proxy} implied volatility at {betaAnalysis?.proxyImpliedVolatility?.lockupDays} days:</span>
+                    <span className="font-medium">
+                      {betaAnalysis?.proxyImpliedVolatility?.impliedVolatility?.toFixed(1)}% (Deribit)
+                    </span>
+                  </div>
+                  {betaAnalysis?.proxyImpliedVolatility?.shortTermExpiry && (
+                    <div className="mt-1 text-xs text-blue-700">
+                      {betaAnalysis.proxyImpliedVolatility.strategy === ExtrapolationStrategy.INTERPOLATION
+                        ? 'Interpolated in total variance'
+                        : `Extrapolated along the ${EXTRAPOLATION_STRATEGY_LABELS[betaAnalysis.proxyImpliedVolatility.strategy]} term structure`}
+                      {' '}from {betaAnalysis.proxyImpliedVolatility.shortTermExpiry} ({betaAnalysis.proxyImpliedVolatility.shortTermIV?.toFixed(1)}%)
+                      and {betaAnalysis.proxyImpliedVolatility.longTermExpiry} ({betaAnalysis.proxyImpliedVolatility.longTermIV?.toFixed(1)}%)
+                    </div>
+                  )}
                 </div>
                 <div className="flex justify-between p-3 bg-blue-50 rounded">
                   <span>2. Compute Beta:</span>
@@ -334,7 +436,7 @@ export default function BetaImpliedVolatilityResults({
                 <div className="flex justify-between p-3 bg-blue-50 rounded">
                   <span>3. Derive implied volatility:</span>
                   <span className="font-medium">
-                    {betaAnalysis?.btcImpliedVolatility?.impliedVolatility?.toFixed(1)}% × {betaAnalysis?.betaAnalysis?.beta?.toFixed(3)} = {calculation.impliedVolatility?.toFixed(1)}%
+                    √(({betaAnalysis?.proxyImpliedVolatility?.impliedVolatility?.toFixed(1)}% × {betaAnalysis?.betaAnalysis?.beta?.toFixed(3)})² + {idiosyncraticVol?.toFixed(1)}%²) = {calculation.impliedVolatility?.toFixed(1)}%
                   </span>
                 </div>
                 <div className="flex justify-between p-3 bg-green-50 rounded border border-green-200">
@@ -351,7 +453,7 @@ export default function BetaImpliedVolatilityResults({
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 text-sm">
                   <div className="flex justify-between p-3 bg-gray-50 rounded">
                     <span className="text-gray-600">Formula:</span>
-                    <span className="font-medium">Cov(Altcoin, BTC) / Var(BTC)</span>
+                    <span className="font-medium">Cov(Altcoin, {proxy}) / Var({proxy})</span>
                   </div>
                   <div className="flex justify-between p-3 bg-gray-50 rounded">
                     <span className="text-gray-600">Data window:</span>
@@ -361,6 +463,12 @@ export default function BetaImpliedVolatilityResults({
                     <span className="text-gray-600">Data points:</span>
                     <span className="font-medium">{betaAnalysis.betaAnalysis?.dataPoints}</span>
                   </div>
+                  {betaAnalysis.betaAnalysis?.idiosyncraticVolatility !== undefined && (
+                    <div className="flex justify-between p-3 bg-gray-50 rounded">
+                      <span className="text-gray-600">Residual (idiosyncratic) vol:</span>
+                      <span className="font-medium">{betaAnalysis.betaAnalysis.idiosyncraticVolatility.toFixed(1)}%</span>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -0,0 +1,149 @@
+'use client';
+
+import React from 'react';
+import { FunnelIcon } from '@heroicons/react/24/outline';
+import { RobustVolatilityAnalysis, RobustVolatilityMethod, OutlierReason } from '@/types';
+
+interface RobustVolatilityResultsProps {
+  analysis: RobustVolatilityAnalysis;
+  applied: boolean; // 選用 OHLC 區間估計量時穩健估計僅供參考
+}
+
+const formatPercentage = (value: number) => {
+  return `${value.toFixed(2)}%`;
+};
+
+const METHOD_LABELS: Record<RobustVolatilityMethod, string> = {
+  none: 'Sample (raw)',
+  winsorized: 'Winsorized',
+  mad: 'MAD',
+  bipower: 'Bipower'
+};
+
+const REASON_LABELS: Record<OutlierReason, string> = {
+  'spike-reversal': 'Spike reversed next/previous day (likely bad print)',
+  'extreme-return': 'Extreme one-day move'
+};
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 120;
+
+// 穩健波動率比較、日報酬圖（標示被截斷的日期）與離群報告
+export default function RobustVolatilityResults({ analysis, applied }: RobustVolatilityResultsProps) {
+  const { returns, outliers } = analysis;
+  const outlierDates = new Set(outliers.map(outlier => outlier.date));
+
+  const methodValues: [RobustVolatilityMethod, number][] = [
+    ['none', analysis.sampleVolatility],
+    ['winsorized', analysis.winsorizedVolatility],
+    ['mad', analysis.madVolatility],
+    ['bipower', analysis.bipowerVolatility]
+  ];
+
+  // 以最大絕對報酬縮放，0 軸置中
+  const maxAbsReturn = Math.max(...returns.map(point => Math.abs(point.logReturn)), 1e-6);
+  const barWidth = CHART_WIDTH / returns.length;
+  const yOf = (value: number) => CHART_HEIGHT / 2 - (value / maxAbsReturn) * (CHART_HEIGHT / 2 - 4);
+  const clipBound = outliers.length > 0 ? Math.min(...outliers.map(outlier => Math.abs(outlier.clippedReturn))) : null;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center text-gray-900">
+        <FunnelIcon className="w-5 h-5 mr-2 text-teal-500" />
+        Robust Realized Volatility
+      </h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {methodValues.map(([method, value]) => {
+          const isSelected = method === analysis.method;
+          return (
+            <div
+              key={method}
+              className={`text-center p-4 rounded-lg ${isSelected ? 'bg-teal-50 border border-teal-200' : 'bg-gray-50'}`}
+            >
+              <div className={`text-2xl font-bold ${isSelected ? 'text-teal-700' : 'text-gray-900'}`}>
+                {formatPercentage(value * 100)}
+              </div>
+              <div className={`text-sm ${isSelected ? 'text-teal-700' : 'text-gray-600'}`}>
+                {METHOD_LABELS[method]}{isSelected && applied && ' (used)'}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* 日報酬：離群（被截斷）的日期以紅色標示 */}
+      <h4 className="font-medium text-gray-900 mb-2">📊 Daily Log Returns</h4>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-32 bg-gray-50 rounded">
+        <line x1={0} x2={CHART_WIDTH} y1={CHART_HEIGHT / 2} y2={CHART_HEIGHT / 2} stroke="#d1d5db" strokeWidth={1} />
+        {clipBound !== null && [clipBound, -clipBound].map(bound => (
+          <line
+            key={bound}
+            x1={0}
+            x2={CHART_WIDTH}
+            y1={yOf(bound)}
+            y2={yOf(bound)}
+            stroke="#f87171"
+            strokeWidth={1}
+            strokeDasharray="4 3"
+          />
+        ))}
+        {returns.map((point, i) => {
+          const y = yOf(point.logReturn);
+          const isOutlier = outlierDates.has(point.date);
+          return (
+            <rect
+              key={point.date + i}
+              x={i * barWidth}
+              y={Math.min(y, CHART_HEIGHT / 2)}
+              width={Math.max(barWidth - 0.5, 0.5)}
+              height={Math.max(Math.abs(y - CHART_HEIGHT / 2), 0.5)}
+              fill={isOutlier ? '#dc2626' : '#9ca3af'}
+            >
+              <title>{`${point.date}: ${(point.logReturn * 100).toFixed(2)}%`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      <p className="mt-1 mb-4 text-xs text-gray-500">
+        Red bars are returns beyond {analysis.threshold}σ (MAD-based) from the median; dashed lines mark the winsorizing bounds.
+      </p>
+
+      {/* 離群報告 */}
+      {outliers.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-gray-600">
+                <th className="text-left py-2 pr-4 font-medium">Date</th>
+                <th className="text-right py-2 pr-4 font-medium">Return</th>
+                <th className="text-right py-2 pr-4 font-medium">Clipped To</th>
+                <th className="text-right py-2 pr-4 font-medium">Robust z</th>
+                <th className="text-left py-2 font-medium">Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {outliers.map(outlier => (
+                <tr key={outlier.date} className="border-b border-gray-100">
+                  <td className="py-2 pr-4 text-gray-900">{outlier.date}</td>
+                  <td className="py-2 pr-4 text-right text-red-600 font-medium">{formatPercentage(outlier.logReturn * 100)}</td>
+                  <td className="py-2 pr-4 text-right">{formatPercentage(outlier.clippedReturn * 100)}</td>
+                  <td className="py-2 pr-4 text-right">{outlier.robustZScore.toFixed(1)}</td>
+                  <td className="py-2 text-gray-600">{REASON_LABELS[outlier.reason]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600">✅ No returns beyond {analysis.threshold}σ—the sample volatility is not driven by outliers.</p>
+      )}
+
+      {!applied && analysis.method !== 'none' && (
+        <p className="mt-3 text-xs text-orange-600">
+          ⚠️ An OHLC range estimator is selected, so this robust estimate is shown for reference only.
+        </p>
+      )}
+    </div>
+  );
+}
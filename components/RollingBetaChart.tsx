@@ -0,0 +1,94 @@
+'use client';
+
+import React from 'react';
+import { ChartBarIcon } from '@heroicons/react/24/outline';
+import { RollingBetaPoint } from '@/types';
+
+interface RollingBetaChartProps {
+  points: RollingBetaPoint[];
+  beta: number; // 全窗口 (收縮後) beta
+  confidenceInterval?: { lower: number; upper: number };
+  windowDays?: number;
+  proxy?: string; // 迴歸基準資產
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const PADDING = { top: 12, right: 16, bottom: 24, left: 40 };
+
+// 滾動 beta 歷史，疊加全窗口 beta 及其 95% 區間
+export default function RollingBetaChart({ points, beta, confidenceInterval, windowDays = 30, proxy = 'BTC' }: RollingBetaChartProps) {
+  if (points.length < 2) return null;
+
+  const values = points.map(point => point.beta);
+  const bounds = [...values, beta, 0, 1, ...(confidenceInterval ? [confidenceInterval.lower, confidenceInterval.upper] : [])];
+  const yMin = Math.min(...bounds);
+  const yMax = Math.max(...bounds);
+  const yPad = (yMax - yMin) * 0.1 || 0.1;
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const xOf = (i: number) => PADDING.left + (plotWidth * i) / (points.length - 1);
+  const yOf = (value: number) => PADDING.top + plotHeight * (1 - (value - yMin + yPad) / (yMax - yMin + 2 * yPad));
+  const yTicks = [0, 0.25, 0.5, 0.75, 1].map(f => yMin - yPad + f * (yMax - yMin + 2 * yPad));
+  const labelIndexes = [0, Math.floor((points.length - 1) / 2), points.length - 1];
+
+  const latest = values[values.length - 1];
+  const minBeta = Math.min(...values);
+  const maxBeta = Math.max(...values);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold mb-1 flex items-center text-gray-900">
+        <ChartBarIcon className="w-5 h-5 mr-2 text-blue-500" />
+        Rolling {windowDays}-Day Beta
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Latest {latest.toFixed(2)} · range {minBeta.toFixed(2)} to {maxBeta.toFixed(2)} over {points.length} windows
+      </p>
+
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-52">
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={yOf(tick)} y2={yOf(tick)} stroke="#f3f4f6" strokeWidth={1} />
+            <text x={PADDING.left - 6} y={yOf(tick) + 4} textAnchor="end" fontSize={10} fill="#6b7280">
+              {tick.toFixed(2)}
+            </text>
+          </g>
+        ))}
+        {labelIndexes.map(i => (
+          <text key={i} x={xOf(i)} y={CHART_HEIGHT - 6} textAnchor={i === 0 ? 'start' : i === points.length - 1 ? 'end' : 'middle'} fontSize={10} fill="#6b7280">
+            {points[i].date}
+          </text>
+        ))}
+
+        {/* 全窗口 beta 的 95% 區間 */}
+        {confidenceInterval && (
+          <rect
+            x={PADDING.left}
+            width={plotWidth}
+            y={yOf(confidenceInterval.upper)}
+            height={Math.max(yOf(confidenceInterval.lower) - yOf(confidenceInterval.upper), 0)}
+            fill="#dbeafe"
+          />
+        )}
+        <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={yOf(1)} y2={yOf(1)} stroke="#9ca3af" strokeWidth={1} strokeDasharray="2 3" />
+        <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={yOf(beta)} y2={yOf(beta)} stroke="#2563eb" strokeWidth={1.5} strokeDasharray="6 4" />
+
+        <polyline points={values.map((value, i) => `${xOf(i)},${yOf(value)}`).join(' ')} fill="none" stroke="#1e3a8a" strokeWidth={2} />
+      </svg>
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600 mt-2">
+        <span className="flex items-center"><span className="inline-block w-3 h-0.5 mr-1 bg-blue-900" />Rolling beta</span>
+        <span className="flex items-center"><span className="inline-block w-3 h-0.5 mr-1 bg-blue-600" />Full-window beta ({beta.toFixed(2)})</span>
+        {confidenceInterval && (
+          <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 bg-blue-100" />95% interval</span>
+        )}
+        <span className="flex items-center"><span className="inline-block w-3 h-0.5 mr-1 bg-gray-400" />β = 1</span>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        Each point regresses the trailing {windowDays} daily returns on {proxy}. Swings well outside the shaded interval mean beta is
+        unstable, and a single full-window estimate understates the uncertainty in the derived volatility.
+      </p>
+    </div>
+  );
+}
@@ -76,9 +76,71 @@ export default function TokenModeSelector({ selectedMode, onModeChange }: TokenM
             </label>
           </div>
         </div>
+
+        <div 
+          className={`
+            border-2 rounded-lg p-4 cursor-pointer transition-all duration-200
+            ${selectedMode === 'proxy-implied' 
+              ? 'border-blue-500 bg-blue-50' 
+              : 'border-gray-200 hover:border-gray-300'
+            }
+          `}
+          onClick={() => onModeChange('proxy-implied')}
+        >
+          <div className="flex items-center">
+            <input
+              type="radio"
+              id="proxy-implied"
+              name="calculation-mode"
+              value="proxy-implied"
+              checked={selectedMode === 'proxy-implied'}
+              onChange={() => onModeChange('proxy-implied')}
+              className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+            />
+            <label htmlFor="proxy-implied" className="ml-3 cursor-pointer">
+              <div className="text-sm font-medium text-gray-900">
+                🚀 Other Tokens (Proxy-Implied Volatility)
+              </div>
+              <div className="text-xs text-gray-600 mt-1">
+                Anchors on BTC or ETH options and scales by the token&apos;s beta to that proxy
+              </div>
+            </label>
+          </div>
+        </div>
+
+        <div 
+          className={`
+            border-2 rounded-lg p-4 cursor-pointer transition-all duration-200
+            ${selectedMode === 'multi-factor' 
+              ? 'border-blue-500 bg-blue-50' 
+              : 'border-gray-200 hover:border-gray-300'
+            }
+          `}
+          onClick={() => onModeChange('multi-factor')}
+        >
+          <div className="flex items-center">
+            <input
+              type="radio"
+              id="multi-factor"
+              name="calculation-mode"
+              value="multi-factor"
+              checked={selectedMode === 'multi-factor'}
+              onChange={() => onModeChange('multi-factor')}
+              className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+            />
+            <label htmlFor="multi-factor" className="ml-3 cursor-pointer">
+              <div className="text-sm font-medium text-gray-900">
+                🧮 Other Tokens (Multi-Factor Implied Volatility)
+              </div>
+              <div className="text-xs text-gray-600 mt-1">
+                Regresses on BTC and ETH together and prices each factor at its Deribit implied volatility
+              </div>
+            </label>
+          </div>
+        </div>
       </div>
       
-      {selectedMode === 'historical-volatility' && (
+      {selectedMode !== 'market-data' && (
         <div className="mt-4 p-3 bg-yellow-50 border-l-4 border-yellow-400 rounded-md">
           <div className="flex">
             <div className="ml-3">
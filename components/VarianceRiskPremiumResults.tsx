@@ -0,0 +1,98 @@
+'use client';
+
+import React from 'react';
+import { ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
+import { DiscountMethodology, VarianceRiskPremiumAnalysis } from '@/types';
+
+interface VarianceRiskPremiumResultsProps {
+  analysis: VarianceRiskPremiumAnalysis;
+  methodology?: DiscountMethodology;
+}
+
+const formatPercentage = (value: number) => {
+  return `${value.toFixed(2)}%`;
+};
+
+const formatSigned = (value: number) => {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}pp`;
+};
+
+const METHODOLOGY_LABELS: Record<DiscountMethodology, string> = {
+  'atm-call': 'ATM call',
+  'longstaff-lookback': 'Longstaff lookback',
+  'average-strike-put': 'Average-strike put'
+};
+
+// 隱含與已實現波動率的差距，以及兩者各自定價的折扣並列
+export default function VarianceRiskPremiumResults({ analysis, methodology = 'atm-call' }: VarianceRiskPremiumResultsProps) {
+  const { historicalDiscount } = analysis;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center text-gray-900">
+        <ArrowsRightLeftIcon className="w-5 h-5 mr-2 text-cyan-600" />
+        Implied vs. Realized Volatility
+      </h3>
+
+      {/* 折扣並列：雙到期日隱含波動率 vs 已實現波動率 */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="text-center p-4 bg-blue-50 rounded-lg border border-blue-200">
+          <div className="text-2xl font-bold text-blue-700">
+            {formatPercentage(analysis.impliedDiscount)}
+          </div>
+          <div className="text-sm text-blue-700">Dual-Expiry Discount (implied)</div>
+        </div>
+        <div className="text-center p-4 bg-gray-50 rounded-lg">
+          <div className="text-2xl font-bold text-gray-900">
+            {formatPercentage(historicalDiscount.discount)}
+          </div>
+          <div className="text-sm text-gray-600">
+            Historical-Vol Discount ({historicalDiscount.windowDays}d realized {historicalDiscount.realizedVolatility.toFixed(1)}%)
+          </div>
+        </div>
+        <div className="text-center p-4 bg-gray-50 rounded-lg">
+          <div className={`text-2xl font-bold ${analysis.discountDifference >= 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {formatSigned(analysis.discountDifference)}
+          </div>
+          <div className="text-sm text-gray-600">Implied − Historical</div>
+        </div>
+      </div>
+
+      {/* 各期限的隱含/已實現波動率差距 */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-600">
+              <th className="text-left py-2 pr-4 font-medium">Tenor</th>
+              <th className="text-right py-2 pr-4 font-medium">Window</th>
+              <th className="text-right py-2 pr-4 font-medium">Implied</th>
+              <th className="text-right py-2 pr-4 font-medium">Realized</th>
+              <th className="text-right py-2 pr-4 font-medium">Spread</th>
+              <th className="text-right py-2 font-medium">Ratio</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.points.map(point => (
+              <tr key={point.label} className="border-b border-gray-100">
+                <td className="py-2 pr-4 text-gray-900">{point.label}</td>
+                <td className="py-2 pr-4 text-right">{point.windowDays}d</td>
+                <td className="py-2 pr-4 text-right">{point.impliedVolatility.toFixed(1)}%</td>
+                <td className="py-2 pr-4 text-right">{point.realizedVolatility.toFixed(1)}%</td>
+                <td className={`py-2 pr-4 text-right font-medium ${point.spread >= 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {formatSigned(point.spread)}
+                </td>
+                <td className="py-2 text-right">{point.ratio.toFixed(2)}×</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-3 text-xs text-gray-500">
+        Realized volatility uses the trailing window of the same length as each tenor ({analysis.apiProvider.toUpperCase()} daily closes).
+        The historical-vol discount prices the {METHODOLOGY_LABELS[methodology]} at strike = spot with the custom-token
+        Black-Scholes pricing and the lockup-window realized vol. A positive spread is the variance risk premium option sellers earn.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import React from 'react';
+import { CalendarDaysIcon } from '@heroicons/react/24/outline';
+import { VestingValuation } from '@/types';
+
+interface VestingResultsProps {
+  valuation: VestingValuation;
+  spotPrice: number;
+  bulletDiscount?: number; // 最後解鎖日一次性解鎖的折扣，作為對照
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: value < 1 ? 4 : 2,
+  }).format(value);
+};
+
+const formatPercentage = (value: number) => {
+  return `${value.toFixed(2)}%`;
+};
+
+export default function VestingResults({ valuation, spotPrice, bulletDiscount }: VestingResultsProps) {
+  const { schedule, tranches } = valuation;
+
+  return (
+    <div className="mt-6 bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center mb-4">
+        <CalendarDaysIcon className="h-6 w-6 text-indigo-600 mr-2" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Vesting Schedule Valuation</h3>
+          <p className="text-xs text-gray-500">
+            {schedule.cliffMonths}M cliff ({schedule.cliffPercent}%) + {schedule.trancheCount} {schedule.frequency} tranches from {schedule.startDate}
+          </p>
+        </div>
+      </div>
+
+      {/* Blended Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <div className="p-3 bg-indigo-50 rounded-md">
+          <div className="text-xs text-gray-600">Blended Discount</div>
+          <div className="text-lg font-bold text-indigo-700">{formatPercentage(valuation.blendedDiscount)}</div>
+        </div>
+        <div className="p-3 bg-green-50 rounded-md">
+          <div className="text-xs text-gray-600">Blended Fair Value</div>
+          <div className="text-lg font-bold text-green-700">{formatCurrency(valuation.blendedFairValue)}</div>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-md">
+          <div className="text-xs text-gray-600">Avg. Lockup</div>
+          <div className="text-lg font-bold text-gray-800">{Math.round(valuation.weightedAverageLockupDays)} days</div>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-md">
+          <div className="text-xs text-gray-600">Already Vested</div>
+          <div className="text-lg font-bold text-gray-800">{formatPercentage(valuation.vestedPercent)}</div>
+        </div>
+      </div>
+
+      {bulletDiscount !== undefined && (
+        <div className="mb-4 text-sm text-gray-600">
+          💡 vs. single unlock on {valuation.finalUnlockDate}: {formatPercentage(bulletDiscount)} discount
+          <span className="text-gray-500 ml-1">
+            ({formatPercentage(bulletDiscount - valuation.blendedDiscount)} lower with vesting)
+          </span>
+        </div>
+      )}
+
+      {/* Per-tranche Table */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-600">
+              <th className="py-2 pr-3 text-left font-medium">#</th>
+              <th className="py-2 pr-3 text-left font-medium">Unlock Date</th>
+              <th className="py-2 pr-3 text-right font-medium">Share</th>
+              <th className="py-2 pr-3 text-right font-medium">Days</th>
+              <th className="py-2 pr-3 text-right font-medium">Volatility</th>
+              <th className="py-2 pr-3 text-right font-medium">Rate</th>
+              <th className="py-2 pr-3 text-right font-medium">Discount</th>
+              <th className="py-2 text-right font-medium">Fair Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tranches.map((tranche) => (
+              <tr key={tranche.index} className={`border-b border-gray-100 ${tranche.vested ? 'text-gray-400' : 'text-gray-800'}`}>
+                <td className="py-1.5 pr-3">{tranche.index}</td>
+                <td className="py-1.5 pr-3">{tranche.unlockDate}{tranche.vested && ' ✅'}</td>
+                <td className="py-1.5 pr-3 text-right">{formatPercentage(tranche.percent)}</td>
+                <td className="py-1.5 pr-3 text-right">{tranche.lockupDays}</td>
+                <td className="py-1.5 pr-3 text-right">
+                  {tranche.impliedVolatility !== undefined ? `${tranche.impliedVolatility.toFixed(1)}%` : '—'}
+                </td>
+                <td className="py-1.5 pr-3 text-right">
+                  {tranche.riskFreeRate !== undefined ? formatPercentage(tranche.riskFreeRate) : '—'}
+                </td>
+                <td className="py-1.5 pr-3 text-right font-medium">{formatPercentage(tranche.discount)}</td>
+                <td className="py-1.5 text-right">{formatCurrency(tranche.fairValue)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 text-xs text-gray-500">
+        Spot {formatCurrency(spotPrice)} · each tranche weighted by its share of the grant; vested tranches carry no discount
+      </div>
+    </div>
+  );
+}
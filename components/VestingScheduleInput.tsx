@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useState } from 'react';
+import { VestingSchedule, VestingFrequency } from '@/types';
+import { VESTING_FREQUENCIES, MAX_VESTING_TRANCHES, buildVestingTranches, validateVestingSchedule } from '@/lib/vesting';
+
+interface VestingScheduleInputProps {
+  value: VestingSchedule | null;
+  onChange: (schedule: VestingSchedule | null) => void;
+  disabled?: boolean;
+}
+
+const toDateInputValue = (date: Date) => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// 預設：6 個月 cliff 解鎖 25%，之後 18 個月線性解鎖（共 2 年）
+const defaultSchedule = (): VestingSchedule => ({
+  startDate: toDateInputValue(new Date()),
+  cliffMonths: 6,
+  cliffPercent: 25,
+  frequency: 'monthly',
+  trancheCount: 18,
+});
+
+export default function VestingScheduleInput({ value, onChange, disabled = false }: VestingScheduleInputProps) {
+  const [draft, setDraft] = useState<VestingSchedule>(value ?? defaultSchedule());
+  const enabled = value !== null;
+
+  const update = (changes: Partial<VestingSchedule>) => {
+    const next = { ...draft, ...changes };
+    setDraft(next);
+    onChange(next);
+  };
+
+  const error = enabled ? validateVestingSchedule(draft) : null;
+  const tranches = enabled && !error ? buildVestingTranches(draft) : [];
+  const pendingTranches = tranches.filter(t => !t.vested);
+
+  const inputClass = 'w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div>
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onChange(e.target.checked ? draft : null)}
+          disabled={disabled}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+        />
+        <span className="ml-2 text-sm text-gray-900">
+          🗓️ Vesting Schedule
+          <span className="text-gray-500 ml-1">(cliff + periodic unlocks)</span>
+        </span>
+      </label>
+
+      {enabled && (
+        <div className="mt-3 pl-6 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Vesting Start</label>
+              <input
+                type="date"
+                value={draft.startDate}
+                onChange={(e) => update({ startDate: e.target.value })}
+                disabled={disabled}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Frequency</label>
+              <select
+                value={draft.frequency}
+                onChange={(e) => update({ frequency: e.target.value as VestingFrequency })}
+                disabled={disabled}
+                className={inputClass}
+              >
+                {VESTING_FREQUENCIES.map((frequency) => (
+                  <option key={frequency} value={frequency}>
+                    {frequency === 'monthly' ? 'Monthly' : 'Quarterly'}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Cliff (months)</label>
+              <input
+                type="number"
+                value={draft.cliffMonths}
+                onChange={(e) => update({ cliffMonths: Number(e.target.value) })}
+                min="0"
+                max="36"
+                step="1"
+                disabled={disabled}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">At Cliff (%)</label>
+              <input
+                type="number"
+                value={draft.cliffPercent}
+                onChange={(e) => update({ cliffPercent: Number(e.target.value) })}
+                min="0"
+                max="100"
+                step="0.01"
+                disabled={disabled}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Tranches</label>
+              <input
+                type="number"
+                value={draft.trancheCount}
+                onChange={(e) => update({ trancheCount: Number(e.target.value) })}
+                min="0"
+                max={MAX_VESTING_TRANCHES}
+                step="1"
+                disabled={disabled}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {error ? (
+            <div className="text-xs text-red-600">❌ {error}</div>
+          ) : (
+            <div className="text-xs text-gray-500">
+              {pendingTranches.length} pending unlocks
+              {draft.trancheCount > 0 && ` · ${((100 - draft.cliffPercent) / draft.trancheCount).toFixed(2)}% per ${draft.frequency === 'monthly' ? 'month' : 'quarter'}`}
+              {tranches.length > 0 && ` · final unlock ${tranches[tranches.length - 1].unlockDate}`}
+            </div>
+          )}
+          <div className="text-xs text-gray-500">
+            💡 Each tranche is priced as its own option; headline figures show a single unlock at the final vesting date
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { PresentationChartLineIcon } from '@heroicons/react/24/outline';
+import { VolatilityCone } from '@/types';
+
+interface VolatilityConeChartProps {
+  tokenId: string;              // 歷史價格 API 的代幣 ID（例如 bitcoin）
+  overlayVolatility?: number;   // 疊加的隱含或所選波動率 (%)
+  overlayLabel?: string;
+  lockupDays?: number;          // 標示最接近鎖倉期限的窗口
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 44 };
+
+// 以 /api/volatility-cone 取得長歷史的已實現波動率分佈，疊加目前採用的波動率
+export default function VolatilityConeChart({ tokenId, overlayVolatility, overlayLabel = 'Selected vol', lockupDays }: VolatilityConeChartProps) {
+  const [cone, setCone] = useState<VolatilityCone | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchCone = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const overlayQuery = overlayVolatility && overlayVolatility > 0
+          ? `&overlayVolatility=${overlayVolatility.toFixed(4)}`
+          : '';
+        const response = await fetch(`/api/volatility-cone?tokenId=${encodeURIComponent(tokenId)}${overlayQuery}`);
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.details || result.error || 'Failed to load volatility cone');
+        }
+        setCone(result.cone);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load volatility cone');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCone();
+  }, [tokenId, overlayVolatility]);
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-6 text-sm text-gray-500">
+        Loading volatility cone...
+      </div>
+    );
+  }
+
+  if (error || !cone) {
+    return error ? (
+      <div className="bg-white rounded-lg border border-gray-200 p-6 text-sm text-orange-600">
+        ⚠️ Volatility cone unavailable: {error}
+      </div>
+    ) : null;
+  }
+
+  const windows = cone.windows;
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const yMax = Math.max(...windows.map(w => w.max), overlayVolatility || 0) * 1.1;
+  const xOf = (i: number) => PADDING.left + (windows.length === 1 ? plotWidth / 2 : (plotWidth * i) / (windows.length - 1));
+  const yOf = (value: number) => PADDING.top + plotHeight * (1 - value / yMax);
+  const path = (values: number[]) => values.map((v, i) => `${xOf(i)},${yOf(v)}`).join(' ');
+  const band = (upper: number[], lower: number[]) =>
+    `${path(upper)} ${lower.map((v, i) => `${xOf(i)},${yOf(v)}`).reverse().join(' ')}`;
+  const yTicks = [0, 0.25, 0.5, 0.75, 1].map(f => f * yMax);
+
+  // 最接近鎖倉期限的窗口
+  const lockupWindow = lockupDays
+    ? windows.reduce((best, w) => Math.abs(w.windowDays - lockupDays) < Math.abs(best.windowDays - lockupDays) ? w : best, windows[0])
+    : null;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold mb-1 flex items-center text-gray-900">
+        <PresentationChartLineIcon className="w-5 h-5 mr-2 text-indigo-500" />
+        Volatility Cone
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Realized volatility of every rolling window over the last {cone.observations} days
+      </p>
+
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-64">
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={yOf(tick)} y2={yOf(tick)} stroke="#f3f4f6" strokeWidth={1} />
+            <text x={PADDING.left - 6} y={yOf(tick) + 4} textAnchor="end" fontSize={10} fill="#6b7280">
+              {tick.toFixed(0)}%
+            </text>
+          </g>
+        ))}
+        {windows.map((w, i) => (
+          <text key={w.windowDays} x={xOf(i)} y={CHART_HEIGHT - 8} textAnchor="middle" fontSize={10}
+            fill={lockupWindow?.windowDays === w.windowDays ? '#4f46e5' : '#6b7280'}
+            fontWeight={lockupWindow?.windowDays === w.windowDays ? 700 : 400}>
+            {w.windowDays}d
+          </text>
+        ))}
+
+        {/* min-max 與四分位帶 */}
+        <polygon points={band(windows.map(w => w.max), windows.map(w => w.min))} fill="#e0e7ff" />
+        <polygon points={band(windows.map(w => w.p75), windows.map(w => w.p25))} fill="#a5b4fc" />
+        <polyline points={path(windows.map(w => w.median))} fill="none" stroke="#4338ca" strokeWidth={2} />
+
+        {/* 目前已實現波動率 */}
+        <polyline points={path(windows.map(w => w.current))} fill="none" stroke="#059669" strokeWidth={2} />
+        {windows.map((w, i) => (
+          <circle key={w.windowDays} cx={xOf(i)} cy={yOf(w.current)} r={3} fill="#059669" />
+        ))}
+
+        {/* 疊加的隱含或所選波動率 */}
+        {overlayVolatility !== undefined && overlayVolatility > 0 && (
+          <line
+            x1={PADDING.left}
+            x2={CHART_WIDTH - PADDING.right}
+            y1={yOf(overlayVolatility)}
+            y2={yOf(overlayVolatility)}
+            stroke="#dc2626"
+            strokeWidth={1.5}
+            strokeDasharray="6 4"
+          />
+        )}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600 mt-2 mb-4">
+        <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 bg-indigo-100" />Min–Max</span>
+        <span className="flex items-center"><span className="inline-block w-3 h-3 mr-1 bg-indigo-300" />25th–75th</span>
+        <span className="flex items-center"><span className="inline-block w-3 h-0.5 mr-1 bg-indigo-700" />Median</span>
+        <span className="flex items-center"><span className="inline-block w-3 h-0.5 mr-1 bg-emerald-600" />Current realized</span>
+        {overlayVolatility !== undefined && overlayVolatility > 0 && (
+          <span className="flex items-center"><span className="inline-block w-3 h-0.5 mr-1 bg-red-600" />{overlayLabel} ({overlayVolatility.toFixed(1)}%)</span>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-600">
+              <th className="text-left py-2 pr-4 font-medium">Window</th>
+              <th className="text-right py-2 pr-4 font-medium">Min</th>
+              <th className="text-right py-2 pr-4 font-medium">25th</th>
+              <th className="text-right py-2 pr-4 font-medium">Median</th>
+              <th className="text-right py-2 pr-4 font-medium">75th</th>
+              <th className="text-right py-2 pr-4 font-medium">Max</th>
+              <th className="text-right py-2 pr-4 font-medium">Current</th>
+              {overlayVolatility !== undefined && overlayVolatility > 0 && (
+                <th className="text-right py-2 font-medium">{overlayLabel} pctl</th>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {windows.map(w => (
+              <tr
+                key={w.windowDays}
+                className={`border-b border-gray-100 ${lockupWindow?.windowDays === w.windowDays ? 'bg-indigo-50 font-semibold' : ''}`}
+              >
+                <td className="py-2 pr-4">{w.windowDays}d</td>
+                <td className="py-2 pr-4 text-right">{w.min.toFixed(1)}%</td>
+                <td className="py-2 pr-4 text-right">{w.p25.toFixed(1)}%</td>
+                <td className="py-2 pr-4 text-right">{w.median.toFixed(1)}%</td>
+                <td className="py-2 pr-4 text-right">{w.p75.toFixed(1)}%</td>
+                <td className="py-2 pr-4 text-right">{w.max.toFixed(1)}%</td>
+                <td className="py-2 pr-4 text-right text-emerald-700">{w.current.toFixed(1)}%</td>
+                {w.overlayPercentile !== undefined && (
+                  <td className="py-2 text-right text-red-600">{w.overlayPercentile.toFixed(0)}th</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-3 text-xs text-gray-500">
+        Overlapping windows are highly autocorrelated, so long-window percentiles rest on few independent observations.
+        {lockupWindow && ` The highlighted ${lockupWindow.windowDays}d window is closest to the ${lockupDays}-day lockup.`}
+      </p>
+    </div>
+  );
+}
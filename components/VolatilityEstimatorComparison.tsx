@@ -0,0 +1,94 @@
+'use client';
+
+import React from 'react';
+import { Squares2X2Icon } from '@heroicons/react/24/outline';
+import { RangeVolatilityComparison, RangeVolatilityEstimator } from '@/types';
+
+interface VolatilityEstimatorComparisonProps {
+  comparison: RangeVolatilityComparison;
+}
+
+const formatPercentage = (value: number) => {
+  return `${value.toFixed(2)}%`;
+};
+
+// 名稱與相對收盤對收盤的理論效率（無漂移、連續交易下的方差比）
+const ESTIMATOR_INFO: Record<RangeVolatilityEstimator, { label: string; efficiency: string; inputs: string }> = {
+  'close-to-close': { label: 'Close-to-Close', efficiency: '1.0×', inputs: 'C' },
+  'parkinson': { label: 'Parkinson', efficiency: '5.2×', inputs: 'H, L' },
+  'garman-klass': { label: 'Garman-Klass', efficiency: '7.4×', inputs: 'O, H, L, C' },
+  'rogers-satchell': { label: 'Rogers-Satchell', efficiency: '6.0×', inputs: 'O, H, L, C' },
+  'yang-zhang': { label: 'Yang-Zhang', efficiency: '8.0×', inputs: 'O, H, L, C + prior C' }
+};
+
+// 同一段歷史的收盤對收盤與 OHLC 區間估計量並列比較
+export default function VolatilityEstimatorComparison({ comparison }: VolatilityEstimatorComparisonProps) {
+  const closeToClose = comparison.estimates.find(estimate => estimate.estimator === 'close-to-close');
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center text-gray-900">
+        <Squares2X2Icon className="w-5 h-5 mr-2 text-indigo-500" />
+        Volatility Estimators
+      </h3>
+
+      {comparison.applied !== comparison.selected && (
+        <div className="mb-4 p-3 bg-orange-50 border border-orange-200 rounded text-sm text-orange-800">
+          ⚠️ {ESTIMATOR_INFO[comparison.selected].label} needs daily OHLC bars, which this data source does not provide.
+          Close-to-close volatility was used instead.
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-600">
+              <th className="text-left py-2 pr-4 font-medium">Estimator</th>
+              <th className="text-left py-2 pr-4 font-medium">Inputs</th>
+              <th className="text-right py-2 pr-4 font-medium">Annualized</th>
+              <th className="text-right py-2 pr-4 font-medium">Daily</th>
+              <th className="text-right py-2 pr-4 font-medium">vs. Close</th>
+              <th className="text-right py-2 pr-4 font-medium">Efficiency</th>
+              <th className="text-right py-2 font-medium">Days</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.estimates.map(estimate => {
+              const info = ESTIMATOR_INFO[estimate.estimator];
+              const isApplied = estimate.estimator === comparison.applied;
+              const difference = closeToClose
+                ? (estimate.annualizedVolatility - closeToClose.annualizedVolatility) * 100
+                : 0;
+
+              return (
+                <tr
+                  key={estimate.estimator}
+                  className={`border-b border-gray-100 ${isApplied ? 'bg-indigo-50 font-semibold text-indigo-900' : 'text-gray-900'}`}
+                >
+                  <td className="py-2 pr-4">
+                    {info.label}
+                    {isApplied && <span className="ml-2 text-xs text-indigo-600">(applied)</span>}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-500">{info.inputs}</td>
+                  <td className="py-2 pr-4 text-right">{formatPercentage(estimate.annualizedVolatility * 100)}</td>
+                  <td className="py-2 pr-4 text-right">{formatPercentage(estimate.dailyVolatility * 100)}</td>
+                  <td className="py-2 pr-4 text-right">
+                    {estimate.estimator === 'close-to-close' ? '—' : `${difference >= 0 ? '+' : ''}${difference.toFixed(2)}pp`}
+                  </td>
+                  <td className="py-2 pr-4 text-right">{info.efficiency}</td>
+                  <td className="py-2 text-right">{estimate.observations}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-3 text-xs text-gray-500">
+        {comparison.ohlcAvailable
+          ? 'Range estimators use the intraday high/low of each completed daily bar, so they need far fewer days for the same precision. Parkinson and Garman-Klass assume zero drift; Rogers-Satchell is drift-independent; Yang-Zhang also captures open-to-prior-close gaps.'
+          : 'Only daily closes are available from this data source, so range-based estimators could not be computed.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import React from 'react';
+import { ClockIcon } from '@heroicons/react/24/outline';
+import { VolatilityForecast } from '@/types';
+
+interface VolatilityForecastResultsProps {
+  forecast: VolatilityForecast;
+}
+
+const formatPercentage = (value: number) => {
+  return `${value.toFixed(2)}%`;
+};
+
+const ESTIMATOR_LABELS: Record<VolatilityForecast['estimator'], string> = {
+  sample: 'Sample Standard Deviation',
+  ewma: 'EWMA (RiskMetrics)',
+  garch: 'GARCH(1,1)'
+};
+
+// 條件波動率預測：估計參數與鎖倉期間的預測波動率
+export default function VolatilityForecastResults({ forecast }: VolatilityForecastResultsProps) {
+  const { ewma, garch } = forecast;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center text-gray-900">
+        <ClockIcon className="w-5 h-5 mr-2 text-indigo-500" />
+        Volatility Forecast — {ESTIMATOR_LABELS[forecast.estimator]}
+      </h3>
+
+      {/* 預測與樣本波動率比較 */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="text-center p-4 bg-gray-50 rounded-lg">
+          <div className="text-2xl font-bold text-gray-900">
+            {formatPercentage(forecast.sampleVolatility * 100)}
+          </div>
+          <div className="text-sm text-gray-600">Sample Volatility</div>
+        </div>
+        <div className="text-center p-4 bg-indigo-50 rounded-lg border border-indigo-200">
+          <div className="text-2xl font-bold text-indigo-700">
+            {formatPercentage(forecast.forecastVolatility * 100)}
+          </div>
+          <div className="text-sm text-indigo-700">{forecast.horizonDays}-day Forecast (used for pricing)</div>
+        </div>
+        <div className="text-center p-4 bg-gray-50 rounded-lg">
+          <div className={`text-2xl font-bold ${forecast.forecastVolatility >= forecast.sampleVolatility ? 'text-red-600' : 'text-green-600'}`}>
+            {forecast.forecastVolatility >= forecast.sampleVolatility ? '+' : ''}
+            {((forecast.forecastVolatility - forecast.sampleVolatility) * 100).toFixed(2)}pp
+          </div>
+          <div className="text-sm text-gray-600">Forecast vs. Sample</div>
+        </div>
+      </div>
+
+      {/* 估計參數 */}
+      <h4 className="font-medium text-gray-900 mb-3">📐 Estimated Parameters</h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 text-sm">
+        {ewma && (
+          <>
+            <div className="flex justify-between p-3 bg-gray-50 rounded">
+              <span className="text-gray-600">λ (Decay factor):</span>
+              <span className="font-medium">{ewma.lambda.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between p-3 bg-gray-50 rounded">
+              <span className="text-gray-600">Current volatility:</span>
+              <span className="font-medium">{formatPercentage(ewma.currentVolatility * 100)}</span>
+            </div>
+          </>
+        )}
+        {garch && (
+          <>
+            <div className="flex justify-between p-3 bg-gray-50 rounded">
+              <span className="text-gray-600">ω (Constant):</span>
+              <span className="font-medium">{garch.omega.toExponential(3)}</span>
+            </div>
+            <div className="flex justify-between p-3 bg-gray-50 rounded">
+              <span className="text-gray-600">α (Shock / ARCH):</span>
+              <span className="font-medium">{garch.alpha.toFixed(4)}</span>
+            </div>
+            <div className="flex justify-between p-3 bg-gray-50 rounded">
+              <span className="text-gray-600">β (Persistence / GARCH):</span>
+              <span className="font-medium">{garch.beta.toFixed(4)}</span>
+            </div>
+            <div className="flex justify-between p-3 bg-gray-50 rounded">
+              <span className="text-gray-600">α + β:</span>
+              <span className="font-medium">{garch.persistence.toFixed(4)}</span>
+            </div>
+            <div className="flex justify-between p-3 bg-gray-50 rounded">
+              <span className="text-gray-600">Shock half-life:</span>
+              <span className="font-medium">{garch.halfLife.toFixed(1)} days</span>
+            </div>
+            <div className="flex justify-between p-3 bg-gray-50 rounded">
+              <span className="text-gray-600">Current volatility:</span>
+              <span className="font-medium">{formatPercentage(garch.currentVolatility * 100)}</span>
+            </div>
+            <div className="flex justify-between p-3 bg-gray-50 rounded">
+              <span className="text-gray-600">Long-run volatility:</span>
+              <span className="font-medium">{formatPercentage(garch.longRunVolatility * 100)}</span>
+            </div>
+            <div className="flex justify-between p-3 bg-gray-50 rounded">
+              <span className="text-gray-600">Log-likelihood:</span>
+              <span className="font-medium">{garch.logLikelihood.toFixed(1)}</span>
+            </div>
+          </>
+        )}
+        <div className="flex justify-between p-3 bg-gray-50 rounded">
+          <span className="text-gray-600">Daily returns:</span>
+          <span className="font-medium">{forecast.observations}</span>
+        </div>
+      </div>
+
+      <p className="mt-3 text-xs text-gray-500">
+        {garch
+          ? `GARCH(1,1) is fitted by Gaussian maximum likelihood with variance targeting (ω = long-run variance × (1 − α − β)).
+            The pricing volatility is the average forecast variance over the ${forecast.horizonDays}-day lockup, decaying from the current
+            conditional level toward the long-run level.`
+          : `EWMA weights each past squared return by λ^k, so the latest moves dominate. It has no mean reversion, so the current
+            conditional volatility is used for the whole ${forecast.horizonDays}-day lockup.`}
+      </p>
+    </div>
+  );
+}
@@ -110,7 +110,7 @@ export { apiCache };
 // Cache key generators
 export const cacheKeys = {
   currentPrice: (tokenId: string) => `price:${tokenId}`,
-  historicalPrices: (tokenId: string, days: number) => `history:${tokenId}:${days}d`,
+  historicalPrices: (tokenId: string, days: number, provider?: string) => `history:${tokenId}:${days}d${provider ? `:${provider}` : ''}`,
   volatility: (tokenId: string, days: number) => `volatility:${tokenId}:${days}d`
 };
 
@@ -0,0 +1,168 @@
+// Static no-arbitrage checks on the Deribit option surface (put-call parity, vertical spreads, butterflies, calendar)
+// Deribit 選擇權以幣本位報價且以零利率標記：c − p = 1 − K/F，USD 價格 = 幣價 × F
+
+import { OptionData, DualExpiryData, TermStructurePoint, ArbitrageViolation, ArbitrageReport } from '@/types';
+import { strikeImpliedVolatility } from './calculator';
+
+// Put-call parity 容許偏差（遠期的比例），買賣價差一半更大時以價差為準
+const PARITY_TOLERANCE = 0.005;
+
+// 價格比較容許誤差（幣本位，Deribit 選擇權最小跳動單位）
+const PRICE_TOLERANCE = 1e-4;
+
+// 總方差比較容許誤差
+const CALENDAR_TOLERANCE = 1e-5;
+
+// 相鄰履約價的垂直價差與蝶式價差違反：call 價格須隨履約價遞減、價差不超過履約價差、且對履約價為凸
+function findPriceViolations(chain: OptionData[], forward: number, expiry: string): ArbitrageViolation[] {
+  const violations: ArbitrageViolation[] = [];
+
+  for (let i = 0; i < chain.length - 1; i++) {
+    const lo = chain[i];
+    const hi = chain[i + 1];
+    const spread = lo.callPrice - hi.callPrice;
+    const width = (hi.strike - lo.strike) / forward;
+    if (spread < -PRICE_TOLERANCE) {
+      violations.push({
+        type: 'vertical-spread', expiry, strikes: [lo.strike, hi.strike], action: 'excluded',
+        detail: `call ${hi.strike} priced above call ${lo.strike} by ${(-spread).toFixed(4)}`
+      });
+    } else if (spread > width + PRICE_TOLERANCE) {
+      violations.push({
+        type: 'vertical-spread', expiry, strikes: [lo.strike, hi.strike], action: 'excluded',
+        detail: `${lo.strike}/${hi.strike} call spread ${spread.toFixed(4)} exceeds strike width ${width.toFixed(4)}`
+      });
+    }
+  }
+
+  for (let i = 1; i < chain.length - 1; i++) {
+    const [left, middle, right] = [chain[i - 1], chain[i], chain[i + 1]];
+    const weight = (right.strike - middle.strike) / (right.strike - left.strike);
+    const bound = weight * left.callPrice + (1 - weight) * right.callPrice;
+    if (middle.callPrice > bound + PRICE_TOLERANCE) {
+      violations.push({
+        type: 'butterfly', expiry, strikes: [left.strike, middle.strike, right.strike], action: 'excluded',
+        detail: `call ${middle.strike} exceeds the ${left.strike}/${right.strike} convex bound by ${(middle.callPrice - bound).toFixed(4)} (negative butterfly density)`
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * 單一到期日的靜態套利檢查：先剔除 put-call parity 偏差過大的履約價，
+ * 再反覆剔除參與最多垂直/蝶式違反的履約價（同數時取離遠期最遠者），直到 call 價格單調且凸
+ */
+export function removeStaticArbitrage(
+  options: OptionData[],
+  forward: number,
+  expiry: string
+): { options: OptionData[] } & ArbitrageReport {
+  const violations: ArbitrageViolation[] = [];
+
+  const parityClean = options.filter(option => {
+    const deviation = option.callPrice - option.putPrice - (1 - option.strike / forward);
+    const halfSpread = ((option.callAsk || 0) - (option.callBid || 0) + (option.putAsk || 0) - (option.putBid || 0)) / 2;
+    if (Math.abs(deviation) <= Math.max(PARITY_TOLERANCE, halfSpread)) return true;
+
+    violations.push({
+      type: 'put-call-parity', expiry, strikes: [option.strike], action: 'excluded',
+      detail: `C − P deviates from F − K by ${(deviation * 100).toFixed(2)}% of forward`
+    });
+    return false;
+  });
+
+  let chain = [...parityClean].sort((a, b) => a.strike - b.strike);
+  while (chain.length >= 2) {
+    const found = findPriceViolations(chain, forward, expiry);
+    if (found.length === 0) break;
+
+    const counts = new Map<number, number>();
+    for (const violation of found) {
+      for (const strike of violation.strikes) counts.set(strike, (counts.get(strike) || 0) + 1);
+    }
+    const [worst] = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || Math.abs(b[0] - forward) - Math.abs(a[0] - forward))[0];
+
+    violations.push(...found
+      .filter(violation => violation.strikes.includes(worst))
+      .map(violation => ({ ...violation, detail: `${violation.detail}; excluded ${worst}` })));
+    chain = chain.filter(option => option.strike !== worst);
+  }
+
+  const excludedContracts = options.length - chain.length;
+  if (excludedContracts > 0) {
+    console.warn(`Arbitrage ${expiry}: excluded ${excludedContracts}/${options.length} strikes (${Array.from(new Set(violations.map(v => v.type))).join(', ')})`);
+  }
+
+  return { options: chain, violations, excludedContracts };
+}
+
+/**
+ * 所選兩個到期日間的日曆價差檢查：同一遠期 moneyness 下長期總方差不得低於短期
+ * 短期以微笑在 K × F_short / F_long 取值（無微笑時以同一履約價近似），違反的長期履約價不參與共同履約價
+ */
+export function removeCalendarArbitrage(
+  shortTerm: DualExpiryData['shortTerm'],
+  longTerm: DualExpiryData['longTerm']
+): { longTermOptions: OptionData[]; violations: ArbitrageViolation[] } {
+  const violations: ArbitrageViolation[] = [];
+  const shortByStrike = new Map(shortTerm.optionsData.map(option => [option.strike, option]));
+  const moneynessScale = shortTerm.forward && longTerm.forward ? shortTerm.forward / longTerm.forward : 1;
+
+  const longTermOptions = longTerm.optionsData.filter(option => {
+    const shortOption = shortByStrike.get(option.strike);
+    if (!shortOption) return true;
+
+    const longVariance = (strikeImpliedVolatility(longTerm, option) / 100) ** 2 * longTerm.timeToExpiry;
+    const shortVol = strikeImpliedVolatility(shortTerm, { ...shortOption, strike: option.strike * moneynessScale });
+    const shortVariance = (shortVol / 100) ** 2 * shortTerm.timeToExpiry;
+    if (longVariance >= shortVariance - CALENDAR_TOLERANCE) return true;
+
+    violations.push({
+      type: 'calendar', expiry: longTerm.expiry, strikes: [option.strike], action: 'excluded',
+      detail: `total variance ${longVariance.toFixed(5)} below ${shortTerm.expiry} ${shortVariance.toFixed(5)} at the same moneyness`
+    });
+    return false;
+  });
+
+  return { longTermOptions, violations };
+}
+
+// ATM 期限結構的日曆套利修正：總方差取累積最大值（違反區段的遠期方差設為 0）
+export function repairTermStructureCalendar(
+  points: TermStructurePoint[]
+): { points: TermStructurePoint[]; violations: ArbitrageViolation[] } {
+  const violations: ArbitrageViolation[] = [];
+  const sorted = [...points].sort((a, b) => a.timeToExpiry - b.timeToExpiry);
+  let maxVariance = 0;
+  let maxExpiry = '';
+
+  const repaired = sorted.map(point => {
+    const totalVariance = (point.atmVol / 100) ** 2 * point.timeToExpiry;
+    if (totalVariance >= maxVariance - CALENDAR_TOLERANCE) {
+      if (totalVariance > maxVariance) {
+        maxVariance = totalVariance;
+        maxExpiry = point.expiry;
+      }
+      return point;
+    }
+
+    const atmVol = Math.sqrt(maxVariance / point.timeToExpiry) * 100;
+    violations.push({
+      type: 'calendar', expiry: point.expiry, strikes: [], action: 'repaired',
+      detail: `ATM total variance ${totalVariance.toFixed(5)} below ${maxExpiry} ${maxVariance.toFixed(5)}; ATM IV raised from ${point.atmVol.toFixed(1)}% to ${atmVol.toFixed(1)}%`
+    });
+    return { ...point, atmVol };
+  });
+
+  return { points: repaired, violations };
+}
+
+// API 警示訊息
+export function arbitrageWarnings(report: ArbitrageReport): string[] {
+  return report.violations.map(violation =>
+    `Arbitrage (${violation.type}) ${violation.expiry}${violation.strikes.length > 0 ? ` K=${violation.strikes.join('/')}` : ' ATM'}: ${violation.detail} [${violation.action}]`
+  );
+}
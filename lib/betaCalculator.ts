@@ -1,32 +1,255 @@
 // Beta calculator for cryptocurrency volatility analysis
-// Calculates beta coefficient between altcoin and Bitcoin
+// Calculates beta coefficient between an altcoin and an options-listed proxy (BTC or ETH)
 
 import { fetchPriceHistory } from './priceService';
-import { fetchOptionsChain } from './optionsService';
+import { fetchHistoricalPrices, ApiProvider, HistoricalPriceData } from './historicalVolatility';
+import { fetchDualExpiryOptionsData } from './optionsService';
+import { calculateDiscountFromDualExpiry, lockupPeriodToDays } from './calculator';
+import { getTreasuryRateForDaysServer } from './treasuryRates';
+import { ExtrapolationStrategy, LockupPeriod, Token, BetaEstimationOptions, BetaReturnFrequency, BetaReturnType, BetaPriceProvider, BetaShrinkage, RollingBetaPoint } from '@/types';
 
 export interface BetaCalculationResult {
-  beta: number;
+  beta: number;         // OLS beta
+  standardError: number;
+  tStat: number;
+  adjustedBeta: number; // 收縮後用於推導的 beta，未收縮時等於 OLS beta
+  adjustedStandardError: number;
+  confidenceInterval: { lower: number; upper: number }; // adjustedBeta 的 95% 區間
+  shrinkage: BetaShrinkage;
+  rollingBeta: RollingBetaPoint[]; // 30 天滾動日報酬 beta
+  alpha: number; // 每期報酬迴歸截距
   correlation: number;
   altcoinVolatility: number;
-  btcVolatility: number;
+  proxyVolatility: number;
   rSquared: number;
-  dataPoints: number;
+  idiosyncraticVolatility: number; // 迴歸殘差的年化波動率 (%)
+  dataPoints: number; // 取樣後的價格點數
   calculationPeriodDays: number;
+  frequency: BetaReturnFrequency;
+  returnType: BetaReturnType;
+  proxy: Token;
+  altcoinProvider: ApiProvider; // 實際取得價格的資料來源
+  proxyProvider: ApiProvider;
+}
+
+export const DEFAULT_BETA_ESTIMATION: BetaEstimationOptions = {
+  windowDays: 90,
+  frequency: 'daily',
+  returnType: 'simple',
+  provider: 'auto',
+  shrinkage: 'none'
+};
+
+export const MIN_BETA_WINDOW_DAYS = 30;
+export const MAX_BETA_WINDOW_DAYS = 1095;
+export const BETA_RETURN_FREQUENCIES: BetaReturnFrequency[] = ['daily', 'weekly'];
+export const BETA_RETURN_TYPES: BetaReturnType[] = ['simple', 'log'];
+export const BETA_PRICE_PROVIDERS: BetaPriceProvider[] = ['auto', 'binance', 'coincap', 'coingecko'];
+export const BETA_SHRINKAGE_METHODS: BetaShrinkage[] = ['none', 'blume', 'vasicek'];
+
+// Blume 調整權重：β_adj = 0.67β + 0.33·1
+const BLUME_WEIGHT = 0.67;
+// Vasicek 先驗：加密資產 beta 以 1 為中心、橫截面標準差約 0.5
+const VASICEK_PRIOR_BETA = 1;
+const VASICEK_PRIOR_SD = 0.5;
+export const ROLLING_BETA_WINDOW_DAYS = 30;
+
+// 各頻率的最少報酬數、每期日曆天數與年化期數
+export const MIN_BETA_RETURNS: Record<BetaReturnFrequency, number> = { daily: 30, weekly: 12 };
+export const RETURN_PERIOD_DAYS: Record<BetaReturnFrequency, number> = { daily: 1, weekly: 7 };
+export const PERIODS_PER_YEAR: Record<BetaReturnFrequency, number> = { daily: 365, weekly: 365 / 7 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 回看天數為報酬涵蓋的期間，須足以取得該頻率的最少報酬數
+export function minBetaWindowDays(frequency: BetaReturnFrequency): number {
+  return Math.max(MIN_BETA_WINDOW_DAYS, MIN_BETA_RETURNS[frequency] * RETURN_PERIOD_DAYS[frequency]);
+}
+
+// 檢查回看天數與報酬頻率的組合，無效時返回錯誤訊息
+export function validateBetaEstimation(options: Pick<BetaEstimationOptions, 'windowDays' | 'frequency'>): string | null {
+  const minDays = minBetaWindowDays(options.frequency);
+  if (options.windowDays < minDays) {
+    return `Invalid betaDays for ${options.frequency} returns. Must be at least ${minDays} to give ${MIN_BETA_RETURNS[options.frequency]} returns`;
+  }
+  return null;
+}
+
+// 解析 Beta 回看天數，未提供時使用預設，超出範圍或非整數時返回 null
+export function parseBetaWindowDays(value: string | null | undefined): number | null {
+  if (!value) return DEFAULT_BETA_ESTIMATION.windowDays;
+  const days = Number(value);
+  return Number.isInteger(days) && days >= MIN_BETA_WINDOW_DAYS && days <= MAX_BETA_WINDOW_DAYS ? days : null;
+}
+
+export const INVALID_BETA_WINDOW_MESSAGE =
+  `Invalid betaDays. Must be an integer between ${MIN_BETA_WINDOW_DAYS} and ${MAX_BETA_WINDOW_DAYS}`;
+
+// 解析報酬頻率，未提供時使用日報酬，無效時返回 null
+export function parseBetaReturnFrequency(value: string | null | undefined): BetaReturnFrequency | null {
+  if (!value) return DEFAULT_BETA_ESTIMATION.frequency;
+  return (BETA_RETURN_FREQUENCIES as string[]).includes(value) ? value as BetaReturnFrequency : null;
+}
+
+export const INVALID_BETA_RETURN_FREQUENCY_MESSAGE =
+  `Invalid frequency. Must be one of: ${BETA_RETURN_FREQUENCIES.join(', ')}`;
+
+// 解析報酬類型，未提供時使用簡單報酬，無效時返回 null
+export function parseBetaReturnType(value: string | null | undefined): BetaReturnType | null {
+  if (!value) return DEFAULT_BETA_ESTIMATION.returnType;
+  return (BETA_RETURN_TYPES as string[]).includes(value) ? value as BetaReturnType : null;
+}
+
+export const INVALID_BETA_RETURN_TYPE_MESSAGE =
+  `Invalid returnType. Must be one of: ${BETA_RETURN_TYPES.join(', ')}`;
+
+// 解析價格來源，未提供時依序回退，無效時返回 null
+export function parseBetaPriceProvider(value: string | null | undefined): BetaPriceProvider | null {
+  if (!value) return DEFAULT_BETA_ESTIMATION.provider;
+  return (BETA_PRICE_PROVIDERS as string[]).includes(value) ? value as BetaPriceProvider : null;
+}
+
+export const INVALID_BETA_PRICE_PROVIDER_MESSAGE =
+  `Invalid provider. Must be one of: ${BETA_PRICE_PROVIDERS.join(', ')}`;
+
+// 明確指定的價格來源，auto 時返回 undefined（依回退鏈）
+export function forcedBetaProvider(provider: BetaPriceProvider): ApiProvider | undefined {
+  return provider === 'auto' ? undefined : provider;
+}
+
+// 解析 beta 收縮方法，未提供時不收縮，無效時返回 null
+export function parseBetaShrinkage(value: string | null | undefined): BetaShrinkage | null {
+  if (!value) return DEFAULT_BETA_ESTIMATION.shrinkage;
+  return (BETA_SHRINKAGE_METHODS as string[]).includes(value) ? value as BetaShrinkage : null;
+}
+
+export const INVALID_BETA_SHRINKAGE_MESSAGE =
+  `Invalid shrinkage. Must be one of: ${BETA_SHRINKAGE_METHODS.join(', ')}`;
+
+// 有 Deribit 期權鏈、可作為隱含波動率錨定的資產
+export const PROXY_TOKENS: Token[] = ['BTC', 'ETH'];
+
+// 解析 proxy 資產，未提供時使用 BTC，無效時返回 null
+export function parseProxyToken(value: string | null | undefined): Token | null {
+  if (!value) return 'BTC';
+  return (PROXY_TOKENS as string[]).includes(value) ? value as Token : null;
+}
+
+export const INVALID_PROXY_TOKEN_MESSAGE =
+  `Invalid proxy. Must be one of: ${PROXY_TOKENS.join(', ')}`;
+
+/**
+ * Student t 分佈 97.5% 分位數 (Cornish-Fisher 展開，自由度 ≥ 4 時誤差 < 0.01)
+ */
+export function studentT975(degreesOfFreedom: number): number {
+  const z = 1.959964;
+  const v = degreesOfFreedom;
+  return z
+    + (z ** 3 + z) / (4 * v)
+    + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * v ** 2)
+    + (3 * z ** 7 + 19 * z ** 5 + 17 * z ** 3 - 15 * z) / (384 * v ** 3);
+}
+
+/**
+ * 收縮 OLS beta 並回傳收縮後的標準誤
+ * Blume 為固定線性調整；Vasicek 為常態先驗下的後驗均值，估計越不精確越向先驗靠攏
+ */
+export function shrinkBeta(beta: number, standardError: number, shrinkage: BetaShrinkage): { beta: number; standardError: number } {
+  switch (shrinkage) {
+    case 'blume':
+      return { beta: BLUME_WEIGHT * beta + (1 - BLUME_WEIGHT) * 1, standardError: BLUME_WEIGHT * standardError };
+    case 'vasicek': {
+      const priorVariance = VASICEK_PRIOR_SD * VASICEK_PRIOR_SD;
+      const sampleVariance = standardError * standardError;
+      const weight = priorVariance / (priorVariance + sampleVariance);
+      return {
+        beta: weight * beta + (1 - weight) * VASICEK_PRIOR_BETA,
+        standardError: Math.sqrt(priorVariance * sampleVariance / (priorVariance + sampleVariance))
+      };
+    }
+    default:
+      return { beta, standardError };
+  }
+}
+
+// 單因子迴歸統計（每期報酬，未年化）
+export interface BetaRegression extends Pick<BetaCalculationResult,
+  'beta' | 'standardError' | 'tStat' | 'adjustedBeta' | 'adjustedStandardError' | 'confidenceInterval' | 'alpha' | 'correlation' | 'rSquared'> {
+  altcoinVariance: number;
+  proxyVariance: number;
+  residualVariance: number; // 自由度 n - 2
+}
+
+/**
+ * 以 OLS 估計 altcoin 報酬對 proxy 報酬的 beta
+ * 標準誤 = √(殘差方差 / Σ(x - x̄)²)，收縮後的 95% 區間以 t(n - 2) 分位數計算
+ */
+export function estimateBeta(altcoinReturns: number[], proxyReturns: number[], shrinkage: BetaShrinkage): BetaRegression {
+  const altcoinMean = calculateMean(altcoinReturns);
+  const proxyMean = calculateMean(proxyReturns);
+  
+  const covariance = calculateCovariance(altcoinReturns, proxyReturns, altcoinMean, proxyMean);
+  const proxyVariance = calculateVariance(proxyReturns, proxyMean);
+  const altcoinVariance = calculateVariance(altcoinReturns, altcoinMean);
+  
+  // Calculate beta and other metrics
+  const beta = covariance / proxyVariance;
+  const correlation = covariance / Math.sqrt(proxyVariance * altcoinVariance);
+  const rSquared = correlation * correlation;
+  const alpha = altcoinMean - beta * proxyMean;
+  
+  // 殘差方差 (自由度 n - 2)：altcoin 中 proxy 無法解釋的特有風險
+  let residualSumSquares = 0;
+  for (let i = 0; i < altcoinReturns.length; i++) {
+    const residual = altcoinReturns[i] - alpha - beta * proxyReturns[i];
+    residualSumSquares += residual * residual;
+  }
+  const residualVariance = residualSumSquares / (altcoinReturns.length - 2);
+  
+  const standardError = Math.sqrt(residualVariance / (proxyVariance * (proxyReturns.length - 1)));
+  const adjusted = shrinkBeta(beta, standardError, shrinkage);
+  const halfWidth = studentT975(altcoinReturns.length - 2) * adjusted.standardError;
+  
+  return {
+    beta,
+    standardError,
+    tStat: beta / standardError,
+    adjustedBeta: adjusted.beta,
+    adjustedStandardError: adjusted.standardError,
+    confidenceInterval: { lower: adjusted.beta - halfWidth, upper: adjusted.beta + halfWidth },
+    alpha,
+    correlation,
+    rSquared,
+    altcoinVariance,
+    proxyVariance,
+    residualVariance
+  };
 }
 
 export interface ImpliedVolatilityResult {
-  impliedVolatility: number; // Annualized %
-  source: 'deribit_options' | 'fallback';
+  impliedVolatility: number; // Annualized %, at the lockup horizon
+  source: 'deribit_options';
   atmStrike: number;
   optionsUsed: number;
-  calculationMethod: 'average_atm' | 'vwap' | 'simple';
+  calculationMethod: 'dual_expiry_extrapolation';
+  // 與市場模式相同的雙到期日方差內插/外推所用的到期日
+  period: LockupPeriod;
+  lockupDays: number;
+  strategy: ExtrapolationStrategy;
+  shortTermExpiry: string;
+  longTermExpiry: string;
+  shortTermIV: number; // %
+  longTermIV: number;  // %
 }
 
-export interface BtcImpliedVolDerivation {
-  btcImpliedVol: ImpliedVolatilityResult;
+export interface ProxyImpliedVolDerivation {
+  proxyImpliedVol: ImpliedVolatilityResult;
   altcoinHistoricalVol: number;
   betaCoefficient: BetaCalculationResult;
-  derivedAltcoinImpliedVol: number; // BTC implied vol * beta
+  systematicImpliedVol: number;     // β × proxy implied vol (%)
+  idiosyncraticVol: number;         // 迴歸殘差波動率 (%)
+  derivedAltcoinImpliedVol: number; // √((β·σ_proxy,implied)² + σ²_idio) (%)
+  derivedImpliedVolRange: { lower: number; upper: number }; // beta 95% 區間對應的派生隱含波動率 (%)
   comparisonMetrics: {
     impliedVsHistoricalDiff: number; // percentage points difference
     impliedVsHistoricalRatio: number; // ratio
@@ -34,71 +257,97 @@ export interface BtcImpliedVolDerivation {
   };
 }
 
+// Deribit 期權標的對應的歷史價格代幣 ID
+const OPTIONS_TOKEN_PRICE_IDS: Record<Token, string> = {
+  BTC: 'bitcoin',
+  ETH: 'ethereum'
+};
+
 /**
- * Calculate beta coefficient between an altcoin and Bitcoin
- * Beta = Covariance(altcoin, BTC) / Variance(BTC)
+ * Calculate beta coefficient between an altcoin and a proxy asset
+ * Beta = Covariance(altcoin, proxy) / Variance(proxy)
  */
 export async function calculateBetaCoefficient(
   altcoinId: string,
-  periodDays: number = 90
+  options: BetaEstimationOptions = DEFAULT_BETA_ESTIMATION,
+  proxy: Token = 'BTC'
 ): Promise<BetaCalculationResult> {
+  const { windowDays, frequency, returnType, provider, shrinkage } = options;
+  
   try {
-    console.log(`[Beta Calculator] 🔄 Computing beta for ${altcoinId} vs BTC over ${periodDays} days`);
+    console.log(`[Beta Calculator] 🔄 Computing beta for ${altcoinId} vs ${proxy} over ${windowDays} days (${frequency} ${returnType} returns, provider: ${provider})`);
     
-    // Fetch price histories
-    const [altcoinHistory, btcHistory] = await Promise.all([
-      fetchPriceHistory(altcoinId, periodDays),
-      fetchPriceHistory('bitcoin', periodDays)
-    ]);
+    // Fetch price histories: altcoin 依回退鏈取得，proxy 優先使用相同來源，避免不同來源收盤時間差一天
+    // 明確指定來源時兩者皆不回退
+    // 多取一期價格，使報酬涵蓋完整的回看天數
+    const forcedProvider = forcedBetaProvider(provider);
+    const historyDays = windowDays + RETURN_PERIOD_DAYS[frequency];
+    const altcoinResult = await fetchHistoricalPrices(altcoinId, historyDays, forcedProvider, forcedProvider !== undefined);
+    const proxyResult = await fetchHistoricalPrices(OPTIONS_TOKEN_PRICE_IDS[proxy], historyDays, altcoinResult.provider, forcedProvider !== undefined);
     
-    if (altcoinHistory.length === 0 || btcHistory.length === 0) {
-      throw new Error(`Insufficient price data for ${altcoinId} or Bitcoin`);
+    if (altcoinResult.data.length === 0 || proxyResult.data.length === 0) {
+      throw new Error(`Insufficient price data for ${altcoinId} or ${proxy}`);
     }
     
-    // Align data points by date
-    const alignedData = alignPriceData(altcoinHistory, btcHistory);
-    
-    if (alignedData.length < 30) {
-      throw new Error(`Insufficient aligned data points: ${alignedData.length} < 30`);
+    if (altcoinResult.provider !== proxyResult.provider) {
+      console.warn(`[Beta Calculator] ⚠️ ${altcoinId} prices from ${altcoinResult.provider}, ${proxy} from ${proxyResult.provider}; daily closes may be offset`);
     }
     
-    // Calculate daily returns
-    const altcoinReturns = calculateDailyReturns(alignedData.map(d => d.altcoinPrice));
-    const btcReturns = calculateDailyReturns(alignedData.map(d => d.btcPrice));
+    // Align data points by date, then sample weekly if requested
+    const dailyData = alignPriceData(altcoinResult.data, proxyResult.data);
+    const alignedData = sampleByFrequency(dailyData, frequency);
     
-    // Calculate statistics
-    const altcoinMean = calculateMean(altcoinReturns);
-    const btcMean = calculateMean(btcReturns);
+    // Calculate periodic returns
+    const altcoinReturns = calculateReturns(alignedData.map(d => d.altcoinPrice), returnType);
+    const proxyReturns = calculateReturns(alignedData.map(d => d.proxyPrice), returnType);
     
-    const covariance = calculateCovariance(altcoinReturns, btcReturns, altcoinMean, btcMean);
-    const btcVariance = calculateVariance(btcReturns, btcMean);
-    const altcoinVariance = calculateVariance(altcoinReturns, altcoinMean);
+    if (altcoinReturns.length < MIN_BETA_RETURNS[frequency]) {
+      throw new Error(`Insufficient ${frequency} returns: ${altcoinReturns.length} < ${MIN_BETA_RETURNS[frequency]}`);
+    }
     
-    // Calculate beta and other metrics
-    const beta = covariance / btcVariance;
-    const correlation = covariance / Math.sqrt(btcVariance * altcoinVariance);
-    const rSquared = correlation * correlation;
+    const regression = estimateBeta(altcoinReturns, proxyReturns, shrinkage);
+    const { beta, standardError, correlation } = regression;
     
     // Annualize volatilities
-    const altcoinVolatility = Math.sqrt(altcoinVariance) * Math.sqrt(365) * 100;
-    const btcVolatility = Math.sqrt(btcVariance) * Math.sqrt(365) * 100;
+    const annualization = Math.sqrt(PERIODS_PER_YEAR[frequency]);
+    const altcoinVolatility = Math.sqrt(regression.altcoinVariance) * annualization * 100;
+    const proxyVolatility = Math.sqrt(regression.proxyVariance) * annualization * 100;
+    const idiosyncraticVolatility = Math.sqrt(regression.residualVariance) * annualization * 100;
     
     const result: BetaCalculationResult = {
       beta,
+      standardError,
+      tStat: regression.tStat,
+      adjustedBeta: regression.adjustedBeta,
+      adjustedStandardError: regression.adjustedStandardError,
+      confidenceInterval: regression.confidenceInterval,
+      shrinkage,
+      rollingBeta: calculateRollingBeta(dailyData, returnType),
+      alpha: regression.alpha,
       correlation,
       altcoinVolatility,
-      btcVolatility,
-      rSquared,
+      proxyVolatility,
+      rSquared: regression.rSquared,
+      idiosyncraticVolatility,
       dataPoints: alignedData.length,
-      calculationPeriodDays: periodDays
+      calculationPeriodDays: windowDays,
+      frequency,
+      returnType,
+      proxy,
+      altcoinProvider: altcoinResult.provider,
+      proxyProvider: proxyResult.provider
     };
     
     console.log(`[Beta Calculator] ✅ Beta calculation completed:`, {
       beta: beta.toFixed(3),
+      standardError: standardError.toFixed(3),
+      adjustedBeta: regression.adjustedBeta.toFixed(3),
       correlation: correlation.toFixed(3),
       altcoinVol: altcoinVolatility.toFixed(1) + '%',
-      btcVol: btcVolatility.toFixed(1) + '%',
-      dataPoints: alignedData.length
+      proxyVol: proxyVolatility.toFixed(1) + '%',
+      idioVol: idiosyncraticVolatility.toFixed(1) + '%',
+      dataPoints: alignedData.length,
+      provider: altcoinResult.provider
     });
     
     return result;
@@ -110,135 +359,104 @@ export async function calculateBetaCoefficient(
 }
 
 /**
- * Get Bitcoin's current implied volatility from options market
+ * Get a Deribit underlying's implied volatility at the lockup horizon
+ * 以市場模式相同的雙到期日方差內插/外推取得鎖倉期的 ATM 隱含波動率；Deribit 無資料時拋出錯誤，不以固定值替代
  */
-export async function getBtcImpliedVolatility(): Promise<ImpliedVolatilityResult> {
-  try {
-    console.log(`[BTC IV] 🔄 Fetching BTC implied volatility from Deribit options...`);
-    
-    // Get current BTC price for ATM determination
-    const btcPriceHistory = await fetchPriceHistory('bitcoin', 1);
-    if (btcPriceHistory.length === 0) {
-      throw new Error('Unable to fetch current BTC price');
-    }
-    const currentBtcPrice = btcPriceHistory[0].price;
-    
-    // Fetch options chain for multiple periods
-    const periods = ['1Y', '6M', '3M'] as const;
-    let optionsData = null;
-    let usedPeriod = null;
-    
-    for (const period of periods) {
-      try {
-        const options = await fetchOptionsChain('BTC', period, currentBtcPrice, 'mark');
-        if (options.length > 0) {
-          optionsData = options;
-          usedPeriod = period;
-          console.log(`[BTC IV] ✅ Found ${options.length} BTC options for period ${period}`);
-          break;
-        }
-      } catch (error) {
-        console.warn(`[BTC IV] ⚠️ Failed to fetch options for period ${period}:`, error);
-      }
-    }
-    
-    if (!optionsData || optionsData.length === 0) {
-      console.warn(`[BTC IV] ⚠️ No BTC options data found, using fallback`);
-      return {
-        impliedVolatility: 65.0, // Historical average for BTC
-        source: 'fallback',
-        atmStrike: currentBtcPrice,
-        optionsUsed: 0,
-        calculationMethod: 'simple'
-      };
-    }
-    
-    // Find ATM options (closest to current price)
-    const atmOptions = optionsData
-      .map(option => ({
-        ...option,
-        distanceFromAtm: Math.abs(option.strike - currentBtcPrice) / currentBtcPrice
-      }))
-      .sort((a, b) => a.distanceFromAtm - b.distanceFromAtm)
-      .slice(0, 5); // Take closest 5 strikes
-    
-    // Calculate weighted average implied volatility
-    let totalWeight = 0;
-    let weightedIV = 0;
-    
-    atmOptions.forEach(option => {
-      const weight = 1 / (1 + option.distanceFromAtm * 10); // Weight by proximity to ATM
-      const iv = option.impliedVol;
-      
-      if (iv > 0 && iv < 300) { // Sanity check for IV
-        weightedIV += iv * weight;
-        totalWeight += weight;
-      }
-    });
-    
-    const averageIV = totalWeight > 0 ? weightedIV / totalWeight : 65.0;
-    
-    const result: ImpliedVolatilityResult = {
-      impliedVolatility: averageIV,
-      source: 'deribit_options',
-      atmStrike: atmOptions[0]?.strike || currentBtcPrice,
-      optionsUsed: atmOptions.length,
-      calculationMethod: 'vwap'
-    };
-    
-    console.log(`[BTC IV] ✅ BTC implied volatility calculated: ${averageIV.toFixed(1)}% (${atmOptions.length} options)`);
-    
-    return result;
-    
-  } catch (error) {
-    console.error(`[BTC IV] ❌ Error fetching BTC implied volatility:`, error);
-    
-    // Return fallback
-    return {
-      impliedVolatility: 65.0,
-      source: 'fallback',
-      atmStrike: 0,
-      optionsUsed: 0,
-      calculationMethod: 'simple'
-    };
+export async function getOptionsImpliedVolatility(token: Token, period: LockupPeriod): Promise<ImpliedVolatilityResult> {
+  const lockupDays = lockupPeriodToDays(period);
+  console.log(`[${token} IV] 🔄 Fetching ${token} implied volatility at ${lockupDays} days from Deribit options...`);
+  
+  // Get current price for ATM determination
+  const priceHistory = await fetchPriceHistory(OPTIONS_TOKEN_PRICE_IDS[token], 1);
+  if (priceHistory.length === 0) {
+    throw new Error(`Unable to fetch current ${token} price`);
+  }
+  const currentPrice = priceHistory[0].price;
+  
+  const dualExpiryData = await fetchDualExpiryOptionsData(token, period, currentPrice, 'mark');
+  if (!dualExpiryData) {
+    throw new Error(`No ${token} options expiries available to interpolate a ${lockupDays}-day implied volatility`);
   }
+  
+  const riskFreeRate = await getTreasuryRateForDaysServer(lockupDays);
+  const calculation = calculateDiscountFromDualExpiry(dualExpiryData, currentPrice, lockupDays, riskFreeRate);
+  if (calculation.impliedVolatility === undefined || !(calculation.impliedVolatility > 0)) {
+    throw new Error(`${token} dual-expiry extrapolation returned no implied volatility for ${lockupDays} days`);
+  }
+  
+  const result: ImpliedVolatilityResult = {
+    impliedVolatility: calculation.impliedVolatility,
+    source: 'deribit_options',
+    atmStrike: calculation.atmCalculations?.[0]?.strike ?? currentPrice,
+    optionsUsed: calculation.totalContracts ?? 0,
+    calculationMethod: 'dual_expiry_extrapolation',
+    period,
+    lockupDays,
+    strategy: dualExpiryData.strategy,
+    shortTermExpiry: dualExpiryData.shortTerm.expiry,
+    longTermExpiry: dualExpiryData.longTerm.expiry,
+    shortTermIV: dualExpiryData.shortTerm.impliedVol,
+    longTermIV: dualExpiryData.longTerm.impliedVol
+  };
+  
+  console.log(`[${token} IV] ✅ ${token} ${lockupDays}-day implied volatility: ${result.impliedVolatility.toFixed(1)}% (${result.strategy} of ${result.shortTermExpiry} / ${result.longTermExpiry})`);
+  
+  return result;
 }
 
 /**
- * Derive altcoin implied volatility using BTC implied volatility and beta
+ * Derive altcoin implied volatility using a proxy's implied volatility and beta
  */
 export async function deriveAltcoinImpliedVolatility(
   altcoinId: string,
-  altcoinHistoricalVol: number
-): Promise<BtcImpliedVolDerivation> {
-  console.log(`[Altcoin IV Derivation] 🔄 Starting derivation for ${altcoinId}`);
+  altcoinHistoricalVol: number,
+  period: LockupPeriod,
+  betaOptions: BetaEstimationOptions = DEFAULT_BETA_ESTIMATION,
+  proxy: Token = 'BTC'
+): Promise<ProxyImpliedVolDerivation> {
+  console.log(`[Altcoin IV Derivation] 🔄 Starting derivation for ${altcoinId} (${period}) via ${proxy}`);
   
-  // Get BTC implied volatility and calculate beta
-  const [btcImpliedVol, betaResult] = await Promise.all([
-    getBtcImpliedVolatility(),
-    calculateBetaCoefficient(altcoinId)
+  // Get term-matched proxy implied volatility and calculate beta against the same proxy
+  const [proxyImpliedVol, betaResult] = await Promise.all([
+    getOptionsImpliedVolatility(proxy, period),
+    calculateBetaCoefficient(altcoinId, betaOptions, proxy)
   ]);
   
-  // Derive altcoin implied volatility
-  const derivedAltcoinImpliedVol = btcImpliedVol.impliedVolatility * betaResult.beta;
+  // Derive altcoin implied volatility: 系統性部分以 proxy 隱含波動率定價，特有部分以迴歸殘差的已實現波動率補上
+  const idiosyncraticVol = betaResult.idiosyncraticVolatility;
+  const deriveFromBeta = (beta: number) =>
+    Math.sqrt((beta * proxyImpliedVol.impliedVolatility) ** 2 + idiosyncraticVol * idiosyncraticVol);
+  const systematicImpliedVol = Math.abs(betaResult.adjustedBeta) * proxyImpliedVol.impliedVolatility;
+  const derivedAltcoinImpliedVol = deriveFromBeta(betaResult.adjustedBeta);
+  
+  // 派生波動率隨 |β| 單調，區間跨 0 時下限取 β = 0
+  const { lower, upper } = betaResult.confidenceInterval;
+  const derivedImpliedVolRange = {
+    lower: deriveFromBeta(lower <= 0 && upper >= 0 ? 0 : Math.min(Math.abs(lower), Math.abs(upper))),
+    upper: deriveFromBeta(Math.max(Math.abs(lower), Math.abs(upper)))
+  };
   
   // Calculate comparison metrics
   const impliedVsHistoricalDiff = derivedAltcoinImpliedVol - altcoinHistoricalVol;
   const impliedVsHistoricalRatio = derivedAltcoinImpliedVol / altcoinHistoricalVol;
   
-  // Determine confidence based on correlation and R-squared
+  // Determine confidence from the width of the derived IV range relative to its point estimate
+  const relativeRangeWidth = (derivedImpliedVolRange.upper - derivedImpliedVolRange.lower) / derivedAltcoinImpliedVol;
   let confidence: 'high' | 'medium' | 'low' = 'low';
-  if (betaResult.rSquared > 0.7 && betaResult.correlation > 0.8) {
+  if (relativeRangeWidth < 0.1) {
     confidence = 'high';
-  } else if (betaResult.rSquared > 0.5 && betaResult.correlation > 0.6) {
+  } else if (relativeRangeWidth < 0.25) {
     confidence = 'medium';
   }
   
-  const result: BtcImpliedVolDerivation = {
-    btcImpliedVol,
+  const result: ProxyImpliedVolDerivation = {
+    proxyImpliedVol,
     altcoinHistoricalVol,
     betaCoefficient: betaResult,
+    systematicImpliedVol,
+    idiosyncraticVol,
     derivedAltcoinImpliedVol,
+    derivedImpliedVolRange,
     comparisonMetrics: {
       impliedVsHistoricalDiff,
       impliedVsHistoricalRatio,
@@ -247,9 +465,13 @@ export async function deriveAltcoinImpliedVolatility(
   };
   
   console.log(`[Altcoin IV Derivation] ✅ Derivation completed:`, {
-    btcIV: btcImpliedVol.impliedVolatility.toFixed(1) + '%',
-    beta: betaResult.beta.toFixed(3),
+    proxyIV: proxyImpliedVol.impliedVolatility.toFixed(1) + '%',
+    beta: betaResult.adjustedBeta.toFixed(3),
+    betaInterval: `[${lower.toFixed(3)}, ${upper.toFixed(3)}]`,
+    systematicIV: systematicImpliedVol.toFixed(1) + '%',
+    idioVol: idiosyncraticVol.toFixed(1) + '%',
     derivedIV: derivedAltcoinImpliedVol.toFixed(1) + '%',
+    derivedIVRange: `${derivedImpliedVolRange.lower.toFixed(1)}–${derivedImpliedVolRange.upper.toFixed(1)}%`,
     historicalIV: altcoinHistoricalVol.toFixed(1) + '%',
     confidence
   });
@@ -261,26 +483,65 @@ export async function deriveAltcoinImpliedVolatility(
 interface AlignedPriceData {
   date: string;
   altcoinPrice: number;
-  btcPrice: number;
+  proxyPrice: number;
 }
 
-function alignPriceData(altcoinHistory: any[], btcHistory: any[]): AlignedPriceData[] {
-  const btcMap = new Map(btcHistory.map(item => [item.date, item.price]));
+function alignPriceData(altcoinHistory: HistoricalPriceData[], proxyHistory: HistoricalPriceData[]): AlignedPriceData[] {
+  const proxyMap = new Map(proxyHistory.map(item => [item.date, item.price]));
   
   return altcoinHistory
-    .filter(item => btcMap.has(item.date))
+    .filter(item => proxyMap.has(item.date))
     .map(item => ({
       date: item.date,
       altcoinPrice: item.price,
-      btcPrice: btcMap.get(item.date)!
+      proxyPrice: proxyMap.get(item.date)!
     }))
     .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 }
 
-function calculateDailyReturns(prices: number[]): number[] {
+// 週頻率：自最新日期往回每 7 個日曆天取一點；該日缺資料時取同一週內之前最近的一點
+// 資料須已按日期由舊到新排序
+export function sampleByFrequency<T extends { date: string }>(data: T[], frequency: BetaReturnFrequency): T[] {
+  if (frequency === 'daily' || data.length === 0) return data;
+  
+  const periodMs = RETURN_PERIOD_DAYS[frequency] * DAY_MS;
+  const times = data.map(d => new Date(d.date).getTime());
+  const sampled: T[] = [];
+  let index = data.length - 1;
+  for (let target = times[index]; target >= times[0]; target -= periodMs) {
+    while (index >= 0 && times[index] > target) index--;
+    if (index < 0) break;
+    if (target - times[index] < periodMs) sampled.push(data[index]);
+  }
+  
+  return sampled.reverse();
+}
+
+// 以日報酬計算每個 30 天窗口的 beta，日期為窗口結束日
+function calculateRollingBeta(data: AlignedPriceData[], returnType: BetaReturnType): RollingBetaPoint[] {
+  const altcoinReturns = calculateReturns(data.map(d => d.altcoinPrice), returnType);
+  const proxyReturns = calculateReturns(data.map(d => d.proxyPrice), returnType);
+  const points: RollingBetaPoint[] = [];
+  
+  for (let end = ROLLING_BETA_WINDOW_DAYS; end <= proxyReturns.length; end++) {
+    const x = proxyReturns.slice(end - ROLLING_BETA_WINDOW_DAYS, end);
+    const y = altcoinReturns.slice(end - ROLLING_BETA_WINDOW_DAYS, end);
+    const meanX = calculateMean(x);
+    const variance = calculateVariance(x, meanX);
+    if (variance > 0) {
+      points.push({ date: data[end].date, beta: calculateCovariance(y, x, calculateMean(y), meanX) / variance });
+    }
+  }
+  
+  return points;
+}
+
+export function calculateReturns(prices: number[], returnType: BetaReturnType): number[] {
   const returns = [];
   for (let i = 1; i < prices.length; i++) {
-    returns.push((prices[i] - prices[i-1]) / prices[i-1]);
+    returns.push(returnType === 'log'
+      ? Math.log(prices[i] / prices[i-1])
+      : (prices[i] - prices[i-1]) / prices[i-1]);
   }
   return returns;
 }
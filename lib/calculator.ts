@@ -1,61 +1,241 @@
-import { LockupPeriod, DiscountCalculation, OptionData, ATMCalculation, DualExpiryData, ExtrapolationStrategy, RawATMContract } from '@/types';
+import { LockupPeriod, LockupPreset, DiscountCalculation, DiscountMethodology, OptionData, ATMCalculation, DualExpiryData, ExtrapolationStrategy, TermStructureFit, RawATMContract, OptionGreeks, ContractGreeks } from '@/types';
+import { smileImpliedVolatility } from './volatilitySmile';
+import { termStructureTotalVariance } from './termStructure';
+import { getPricingModel, normalCdf, jumpAdjustedVolatility, OptionPricingModel, PricingInputs } from './pricing';
+
+export const LOCKUP_PRESETS: LockupPreset[] = ['3M', '6M', '1Y', '2Y'];
+
+// 自訂鎖倉期的上限（天）
+export const MAX_LOCKUP_DAYS = 1095;
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+const PRESET_DAYS: Record<LockupPreset, number> = {
+  '3M': 90,
+  '6M': 180,
+  '1Y': 365,
+  '2Y': 730,
+};
+
+function isLockupPreset(period: string): period is LockupPreset {
+  return (LOCKUP_PRESETS as string[]).includes(period);
+}
+
+// 解析 YYYY-MM-DD 為本地日期，無效日期（如 2027-02-30）返回 null
+export function parseUnlockDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const year = parseInt(match[1]);
+  const month = parseInt(match[2]) - 1;
+  const day = parseInt(match[3]);
+  const date = new Date(year, month, day);
+
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * 驗證並解析鎖倉期參數
+ * 接受預設期限 (3M/6M/1Y/2Y)、天數 (e.g. 417D) 或解鎖日期 (YYYY-MM-DD)
+ * @returns 有效的 LockupPeriod，無效時返回 null
+ */
+export function parseLockupPeriod(value: string | null | undefined, now: Date = new Date()): LockupPeriod | null {
+  if (!value) return null;
+  const trimmed = value.trim().toUpperCase();
+
+  if (isLockupPreset(trimmed)) {
+    return trimmed;
+  }
+
+  const daysMatch = /^(\d+)D$/.exec(trimmed);
+  if (daysMatch) {
+    const days = parseInt(daysMatch[1]);
+    if (days < 1 || days > MAX_LOCKUP_DAYS) return null;
+    return `${days}D`;
+  }
+
+  const unlockDate = parseUnlockDate(trimmed);
+  if (unlockDate) {
+    const days = Math.round((unlockDate.getTime() - startOfDay(now).getTime()) / ONE_DAY_MS);
+    if (days < 1 || days > MAX_LOCKUP_DAYS) return null;
+    return trimmed as LockupPeriod;
+  }
+
+  return null;
+}
+
+export const INVALID_LOCKUP_PERIOD_MESSAGE =
+  `Invalid period. Must be 3M, 6M, 1Y, 2Y, a day count (e.g. 417D) or a future unlock date (YYYY-MM-DD), up to ${MAX_LOCKUP_DAYS} days`;
+
+// 將鎖倉期轉換為解鎖日期
+export function lockupPeriodToDate(period: LockupPeriod, now: Date = new Date()): Date {
+  const targetDate = new Date(now);
+
+  switch (period) {
+    case '3M':
+      targetDate.setMonth(now.getMonth() + 3);
+      return targetDate;
+    case '6M':
+      targetDate.setMonth(now.getMonth() + 6);
+      return targetDate;
+    case '1Y':
+      targetDate.setFullYear(now.getFullYear() + 1);
+      return targetDate;
+    case '2Y':
+      targetDate.setFullYear(now.getFullYear() + 2);
+      return targetDate;
+  }
+
+  const unlockDate = parseUnlockDate(period);
+  if (unlockDate) {
+    return unlockDate;
+  }
+
+  return new Date(now.getTime() + parseInt(period) * ONE_DAY_MS);
+}
 
 // 將鎖倉期轉換為天數
-export function lockupPeriodToDays(period: LockupPeriod): number {
-  const periodMap: Record<LockupPeriod, number> = {
-    '3M': 90,
-    '6M': 180,
-    '1Y': 365,
-    '2Y': 730,
-  };
-  return periodMap[period];
+export function lockupPeriodToDays(period: LockupPeriod, now: Date = new Date()): number {
+  if (isLockupPreset(period)) {
+    return PRESET_DAYS[period];
+  }
+
+  const unlockDate = parseUnlockDate(period);
+  if (unlockDate) {
+    return Math.max(1, Math.round((unlockDate.getTime() - startOfDay(now).getTime()) / ONE_DAY_MS));
+  }
+
+  return parseInt(period);
 }
 
-// 標準正態分佈累積函數 N(x)
-function cumulativeNormalDistribution(x: number): number {
-  // 使用近似公式計算標準正態分佈累積函數
-  const a1 =  0.254829592;
-  const a2 = -0.284496736;
-  const a3 =  1.421413741;
-  const a4 = -1.453152027;
-  const a5 =  1.061405429;
-  const p  =  0.3275911;
+// 鎖倉期顯示文字 (e.g. '6M', '417 days', 'until 2027-03-14')
+export function formatLockupPeriod(period: LockupPeriod): string {
+  if (isLockupPreset(period)) {
+    return period;
+  }
+  if (parseUnlockDate(period)) {
+    return `until ${period}`;
+  }
+  return `${parseInt(period)} days`;
+}
 
-  const sign = x < 0 ? -1 : 1;
-  x = Math.abs(x) / Math.sqrt(2.0);
+export const DISCOUNT_METHODOLOGIES: DiscountMethodology[] = ['atm-call', 'longstaff-lookback', 'average-strike-put'];
 
-  const t = 1.0 / (1.0 + p * x);
-  const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
+// 解析折扣方法論參數，未提供時使用 ATM Call，無效時返回 null
+export function parseDiscountMethodology(value: string | null | undefined): DiscountMethodology | null {
+  if (!value) return 'atm-call';
+  return (DISCOUNT_METHODOLOGIES as string[]).includes(value) ? value as DiscountMethodology : null;
+}
+
+export const INVALID_DISCOUNT_METHODOLOGY_MESSAGE =
+  `Invalid methodology. Must be one of: ${DISCOUNT_METHODOLOGIES.join(', ')}`;
 
-  return 0.5 * (1.0 + sign * y);
+// 依方法論選擇作為主要折扣的期權價格
+export function selectMethodologyPrice(
+  methodology: DiscountMethodology,
+  prices: { call: number; lookback: number; averageStrike: number }
+): number {
+  switch (methodology) {
+    case 'longstaff-lookback':
+      return prices.lookback;
+    case 'average-strike-put':
+      return prices.averageStrike;
+    default:
+      return prices.call;
+  }
+}
+
+// 以流動性權重加權平均各履約價的敏感度
+function weightedGreeks(calculations: ATMCalculation[], totalWeight: number): ContractGreeks | undefined {
+  if (calculations.some(calc => !calc.greeks)) return undefined;
+  
+  const average = (side: 'call' | 'put'): OptionGreeks => {
+    const keys: (keyof OptionGreeks)[] = ['delta', 'gamma', 'vega', 'theta', 'rho'];
+    return keys.reduce((result, key) => {
+      result[key] = calculations.reduce((sum, calc) => sum + calc.greeks![side][key] * calc.weight, 0) / totalWeight;
+      return result;
+    }, {} as OptionGreeks);
+  };
+  
+  return { call: average('call'), put: average('put') };
 }
 
-// Black-Scholes Call期權價格
-function blackScholesCall(
+// Finnerty (2012) 平均履約價（亞式）賣權
+// 以鎖倉期間平均價格為履約價，修正 2002 版公式，與 Ghaidarov 的平均履約價框架一致；持有成本等於 r（無股息）時與 r 無關
+export function averageStrikePut(
   S: number,     // 現貨價格
-  K: number,     // 履約價格
-  T: number,     // 到期時間（年）
-  r: number,     // 無風險利率
-  sigma: number  // 波動率
+  T: number,     // 鎖倉時間（年）
+  sigma: number, // 波動率
+  r: number = 0,     // 無風險利率
+  carry: number = r  // 持有成本 b，股息率 q = r − b
 ): number {
-  const d1 = (Math.log(S / K) + (r + 0.5 * sigma * sigma) * T) / (sigma * Math.sqrt(T));
-  const d2 = d1 - sigma * Math.sqrt(T);
+  const variance = sigma * sigma * T;
+  
+  // v²T = σ²T + ln[2(e^(σ²T) - σ²T - 1)] - 2ln(e^(σ²T) - 1)
+  const adjustedVariance = variance
+    + Math.log(2 * (Math.exp(variance) - variance - 1))
+    - 2 * Math.log(Math.exp(variance) - 1);
   
-  return S * cumulativeNormalDistribution(d1) - K * Math.exp(-r * T) * cumulativeNormalDistribution(d2);
+  // 極小方差時數值相消，視為無折扣
+  if (!isFinite(adjustedVariance) || adjustedVariance <= 0) {
+    return 0;
+  }
+  
+  const halfVolSqrtT = Math.sqrt(adjustedVariance) / 2;
+  return S * Math.exp((carry - r) * T) * (normalCdf(halfVolSqrtT) - normalCdf(-halfVolSqrtT));
 }
 
-// Black-Scholes Put期權價格
-function blackScholesPut(
+// Longstaff (1995) 可售性折扣上限：浮動履約價回望賣權
+// 假設投資人能在鎖倉期間的最高點賣出，S_max 於起始時等於現貨價
+export function longstaffLookbackPut(
   S: number,     // 現貨價格
-  K: number,     // 履約價格
-  T: number,     // 到期時間（年）
+  T: number,     // 鎖倉時間（年）
   r: number,     // 無風險利率
-  sigma: number  // 波動率
+  sigma: number, // 波動率
+  carry: number = r // 持有成本 b（遠期隱含），預設等於 r
 ): number {
-  const d1 = (Math.log(S / K) + (r + 0.5 * sigma * sigma) * T) / (sigma * Math.sqrt(T));
-  const d2 = d1 - sigma * Math.sqrt(T);
+  const sigmaSqrtT = sigma * Math.sqrt(T);
+  const variance = sigma * sigma * T;
+  const carryDiscount = Math.exp((carry - r) * T);
+  
+  // b ≈ 0 時 σ²/(2b) 發散，改用 Longstaff 原始封閉解（以 e^(-rT) 折現）
+  if (Math.abs(carry) < 1e-8) {
+    return S * Math.exp(-r * T) * (
+      (2 + variance / 2) * normalCdf(sigmaSqrtT / 2)
+      + Math.sqrt(variance / (2 * Math.PI)) * Math.exp(-variance / 8)
+      - 1
+    );
+  }
+  
+  // Goldman-Sosin-Gatto 浮動回望賣權 (S_max = S)，持有成本 b
+  const b1 = (-carry + 0.5 * sigma * sigma) * T / sigmaSqrtT;
+  const b2 = b1 - sigmaSqrtT;
+  const k = (sigma * sigma) / (2 * carry);
   
-  return K * Math.exp(-r * T) * cumulativeNormalDistribution(-d2) - S * cumulativeNormalDistribution(-d1);
+  return S * (
+    Math.exp(-r * T) * normalCdf(b1) * (1 - k)
+    + carryDiscount * (k * normalCdf(-b2) - normalCdf(b2))
+  );
+}
+
+// 以同一組參數計算 Call (履約價 = 目標價)、Longstaff 回望賣權與平均履約價賣權
+// Call 由定價引擎的所選模型計算；跳躍擴散時 volatility 為擴散波動率，回望與平均履約價賣權使用總變異等效波動率
+export function priceDiscountModels(model: OptionPricingModel, inputs: PricingInputs) {
+  const { spot, timeToExpiry, riskFreeRate, volatility, carry, jumps } = inputs;
+  const effectiveSigma = jumps ? jumpAdjustedVolatility(volatility, jumps) : volatility;
+  
+  return {
+    call: model.price('call', inputs),
+    lookback: longstaffLookbackPut(spot, timeToExpiry, riskFreeRate, effectiveSigma, carry),
+    averageStrike: averageStrikePut(spot, timeToExpiry, effectiveSigma, riskFreeRate, carry)
+  };
 }
 
 // 方差線性內插/外推
@@ -143,7 +323,8 @@ export function calculateDiscountFromOptions(
   optionsData: OptionData[],
   spotPrice: number,
   lockupDays: number,
-  riskFreeRate: number // Remove default value - must be provided
+  riskFreeRate: number, // Remove default value - must be provided
+  methodology: DiscountMethodology = 'atm-call'
 ): DiscountCalculation {
   if (optionsData.length === 0) {
     throw new Error('No options data available');
@@ -156,6 +337,7 @@ export function calculateDiscountFromOptions(
   }
   
   const timeToExpiry = lockupDays / 365;
+  const pricingModel = getPricingModel('black-scholes');
   
   // 計算流動性評分
   const calculateLiquidityScore = (option: OptionData): number => {
@@ -213,25 +395,42 @@ export function calculateDiscountFromOptions(
     }
     
     // 計算理論Call和Put價格
-    const theoreticalCallPrice = blackScholesCall(spotPrice, option.strike, timeToExpiry, riskFreeRate, impliedVolatility);
-    const theoreticalPutPrice = blackScholesPut(spotPrice, option.strike, timeToExpiry, riskFreeRate, impliedVolatility);
+    const pricingInputs: PricingInputs = {
+      spot: spotPrice,
+      strike: option.strike,
+      timeToExpiry,
+      riskFreeRate,
+      volatility: impliedVolatility
+    };
+    const theoreticalCallPrice = pricingModel.price('call', pricingInputs);
+    const theoreticalPutPrice = pricingModel.price('put', pricingInputs);
+    const theoreticalLookbackPrice = longstaffLookbackPut(spotPrice, timeToExpiry, riskFreeRate, impliedVolatility);
+    const theoreticalAverageStrikePrice = averageStrikePut(spotPrice, timeToExpiry, impliedVolatility);
+    const greeks = pricingModel.greeks(pricingInputs);
     
     // 計算Call和Put折扣率
     const callDiscount = (theoreticalCallPrice / spotPrice) * 100;
     const putDiscount = (theoreticalPutPrice / spotPrice) * 100;
+    const lookbackDiscount = (theoreticalLookbackPrice / spotPrice) * 100;
+    const averageStrikeDiscount = (theoreticalAverageStrikePrice / spotPrice) * 100;
     
-    console.log(`Strike ${option.strike}: Call=${callDiscount.toFixed(2)}%, Put=${putDiscount.toFixed(2)}%, Weight=${option.liquidityScore.toFixed(3)}`);
+    console.log(`Strike ${option.strike}: Call=${callDiscount.toFixed(2)}%, Put=${putDiscount.toFixed(2)}%, Lookback=${lookbackDiscount.toFixed(2)}%, AvgStrike=${averageStrikeDiscount.toFixed(2)}%, Weight=${option.liquidityScore.toFixed(3)}`);
     
     return {
       strike: option.strike,
       callDiscount,
       putDiscount,
+      lookbackDiscount,
+      averageStrikeDiscount,
       theoreticalCallPrice,
       theoreticalPutPrice,
+      theoreticalLookbackPrice,
+      theoreticalAverageStrikePrice,
       impliedVolatility: impliedVolatility * 100,
       weight: option.liquidityScore,
       atmDistance: option.atmDistance,
-      expiry: option.expiry
+      expiry: option.expiry,
+      greeks
     };
   });
   
@@ -247,44 +446,80 @@ export function calculateDiscountFromOptions(
     sum + (calc.theoreticalCallPrice * calc.weight), 0) / totalWeight;
   const weightedPutPrice = calculations.reduce((sum, calc) => 
     sum + (calc.theoreticalPutPrice * calc.weight), 0) / totalWeight;
+  const weightedLookbackDiscount = calculations.reduce((sum, calc) => 
+    sum + (calc.lookbackDiscount * calc.weight), 0) / totalWeight;
+  const weightedLookbackPrice = calculations.reduce((sum, calc) => 
+    sum + (calc.theoreticalLookbackPrice * calc.weight), 0) / totalWeight;
+  const weightedAverageStrikeDiscount = calculations.reduce((sum, calc) => 
+    sum + (calc.averageStrikeDiscount * calc.weight), 0) / totalWeight;
+  const weightedAverageStrikePrice = calculations.reduce((sum, calc) => 
+    sum + (calc.theoreticalAverageStrikePrice * calc.weight), 0) / totalWeight;
   const weightedVolatility = calculations.reduce((sum, calc) => 
     sum + (calc.impliedVolatility * calc.weight), 0) / totalWeight;
   
   console.log(`\nWeighted Average Results:`);
   console.log(`Call Discount: ${weightedCallDiscount.toFixed(2)}%`);
   console.log(`Put Discount: ${weightedPutDiscount.toFixed(2)}%`);
+  console.log(`Lookback Discount: ${weightedLookbackDiscount.toFixed(2)}%`);
+  console.log(`Average-Strike Put Discount: ${weightedAverageStrikeDiscount.toFixed(2)}%`);
   console.log(`Implied Volatility: ${weightedVolatility.toFixed(1)}%`);
   
-  // 使用加權平均的Call折扣作為主要指標
-  const primaryDiscount = weightedCallDiscount;
+  // 依方法論選擇主要指標：預設為加權平均的Call折扣
+  const primaryPrice = selectMethodologyPrice(methodology, {
+    call: weightedCallPrice,
+    lookback: weightedLookbackPrice,
+    averageStrike: weightedAverageStrikePrice
+  });
+  const primaryDiscount = (primaryPrice / spotPrice) * 100;
   const annualizedRate = (primaryDiscount * 365) / lockupDays;
   
-  // 計算合理價格（現貨價格減去加權平均Call期權價值）
-  const fairValue = spotPrice - weightedCallPrice;
+  // 計算合理價格（現貨價格減去主要方法論的期權價值）
+  const fairValue = spotPrice - primaryPrice;
+  
+  const methodTags: Record<DiscountMethodology, string> = {
+    'atm-call': 'black-scholes-weighted',
+    'longstaff-lookback': 'longstaff-lookback-weighted',
+    'average-strike-put': 'average-strike-put-weighted'
+  };
   
   return {
     annualizedRate,
     fairValue,
     discount: primaryDiscount,
-    method: 'black-scholes-weighted',
+    method: methodTags[methodology],
+    methodology,
     // 使用加權平均結果
     callDiscount: weightedCallDiscount,
     putDiscount: weightedPutDiscount,
+    lookbackDiscount: weightedLookbackDiscount,
+    averageStrikeDiscount: weightedAverageStrikeDiscount,
     impliedVolatility: weightedVolatility,
     theoreticalCallPrice: weightedCallPrice,
     theoreticalPutPrice: weightedPutPrice,
+    theoreticalLookbackPrice: weightedLookbackPrice,
+    theoreticalAverageStrikePrice: weightedAverageStrikePrice,
+    greeks: weightedGreeks(calculations, totalWeight),
     // 新增多合約詳細信息
     atmCalculations: calculations,
     totalContracts: sortedByATM.length
   };
 }
 
+// 單一履約價在某到期日的隱含波動率 (%)
+export function strikeImpliedVolatility(term: DualExpiryData['shortTerm'], option: OptionData): number {
+  if (term.smile) {
+    return smileImpliedVolatility(term.smile, option.strike);
+  }
+  return option.impliedVol > 0 ? option.impliedVol : term.impliedVol;
+}
+
 // 新的雙到期日折扣率計算函數
 export function calculateDiscountFromDualExpiry(
   dualExpiryData: DualExpiryData,
   spotPrice: number,
   lockupDays: number,
-  riskFreeRate: number // Remove default value - must be provided
+  riskFreeRate: number, // Remove default value - must be provided
+  methodology: DiscountMethodology = 'atm-call'
 ): DiscountCalculation {
   const targetTimeToExpiry = dualExpiryData.targetTimeToExpiry;
   
@@ -293,6 +528,15 @@ export function calculateDiscountFromDualExpiry(
   console.log(`長期: ${dualExpiryData.longTerm.expiry} (${dualExpiryData.longTerm.timeToExpiry.toFixed(3)}年, IV=${dualExpiryData.longTerm.impliedVol.toFixed(1)}%)`);
   console.log(`目標: ${targetTimeToExpiry.toFixed(3)}年, 策略: ${dualExpiryData.strategy}`);
   
+  // 標的價格：有 Deribit 期貨曲線時一律使用其指數價格，僅在曲線缺失時使用傳入的現貨價格
+  const underlyingPrice = dualExpiryData.forward?.indexPrice ?? spotPrice;
+  // 目標期限的遠期價格：有 Deribit 期貨曲線時使用其隱含持有成本，否則 F = S × e^(rT)
+  const forwardPrice = dualExpiryData.forward?.targetForward ?? underlyingPrice * Math.exp(riskFreeRate * targetTimeToExpiry);
+  console.log(`標的價格: $${underlyingPrice.toFixed(2)} (${dualExpiryData.forward ? 'Deribit index' : 'spot'}), 遠期價格: $${forwardPrice.toFixed(2)} (${dualExpiryData.forward ? 'Deribit futures' : 'spot × e^(rT)'})`);
+  // 以遠期隱含的持有成本定價（等同 Black-76），回望與平均履約價賣權亦同；無期貨曲線時 b = r 即標準 Black-Scholes
+  const forwardCarry = dualExpiryData.forward ? Math.log(forwardPrice / underlyingPrice) / targetTimeToExpiry : undefined;
+  const pricingModel = getPricingModel('black-scholes');
+  
   // 找到兩個到期日共同的ATM strikes
   const shortTermStrikes = new Set(dualExpiryData.shortTerm.optionsData.map(o => o.strike));
   const commonStrikes = dualExpiryData.longTerm.optionsData.filter(o => shortTermStrikes.has(o.strike));
@@ -301,11 +545,11 @@ export function calculateDiscountFromDualExpiry(
     throw new Error('雙到期日數據中沒有共同的執行價格');
   }
   
-  // 選擇前5個最接近ATM的共同strikes
+  // 選擇前5個最接近遠期ATM的共同strikes
   const sortedCommonStrikes = commonStrikes
     .map(option => ({
       ...option,
-      atmDistance: Math.abs(option.strike - spotPrice)
+      atmDistance: Math.abs(option.strike - forwardPrice)
     }))
     .sort((a, b) => a.atmDistance - b.atmDistance)
     .slice(0, 5);
@@ -317,25 +561,43 @@ export function calculateDiscountFromDualExpiry(
     const shortTermOption = dualExpiryData.shortTerm.optionsData.find(o => o.strike === longTermOption.strike);
     if (!shortTermOption) return null;
     
+    // 各履約價使用自身的短/長期隱含波動率：微笑擬合值 → 合約市場IV → 到期日平均值
+    const shortTermIV = strikeImpliedVolatility(dualExpiryData.shortTerm, shortTermOption);
+    const longTermIV = strikeImpliedVolatility(dualExpiryData.longTerm, longTermOption);
+    
     // 計算外推隱含波動率
     const extrapolatedIV = calculateExtrapolatedVolatility(
-      dualExpiryData.shortTerm.impliedVol / 100,
+      shortTermIV / 100,
       dualExpiryData.shortTerm.timeToExpiry,
-      dualExpiryData.longTerm.impliedVol / 100,
+      longTermIV / 100,
       dualExpiryData.longTerm.timeToExpiry,
       targetTimeToExpiry,
-      dualExpiryData.strategy
+      dualExpiryData.strategy,
+      dualExpiryData.termStructure
     );
     
-    console.log(`Strike ${longTermOption.strike}: 短期IV=${(dualExpiryData.shortTerm.impliedVol).toFixed(1)}%, 長期IV=${(dualExpiryData.longTerm.impliedVol).toFixed(1)}%, 外推IV=${(extrapolatedIV * 100).toFixed(1)}%`);
+    console.log(`Strike ${longTermOption.strike}: 短期IV=${shortTermIV.toFixed(1)}%, 長期IV=${longTermIV.toFixed(1)}%, 外推IV=${(extrapolatedIV * 100).toFixed(1)}%`);
     
-    // 計算理論價格
-    const theoreticalCallPrice = blackScholesCall(spotPrice, longTermOption.strike, targetTimeToExpiry, riskFreeRate, extrapolatedIV);
-    const theoreticalPutPrice = blackScholesPut(spotPrice, longTermOption.strike, targetTimeToExpiry, riskFreeRate, extrapolatedIV);
+    // 計算理論價格（歐式以遠期 moneyness 定價，以美債利率折現）
+    const pricingInputs: PricingInputs = {
+      spot: underlyingPrice,
+      strike: longTermOption.strike,
+      timeToExpiry: targetTimeToExpiry,
+      riskFreeRate,
+      volatility: extrapolatedIV,
+      carry: forwardCarry
+    };
+    const theoreticalCallPrice = pricingModel.price('call', pricingInputs);
+    const theoreticalPutPrice = pricingModel.price('put', pricingInputs);
+    const theoreticalLookbackPrice = longstaffLookbackPut(underlyingPrice, targetTimeToExpiry, riskFreeRate, extrapolatedIV, forwardCarry);
+    const theoreticalAverageStrikePrice = averageStrikePut(underlyingPrice, targetTimeToExpiry, extrapolatedIV, riskFreeRate, forwardCarry);
+    const greeks = pricingModel.greeks(pricingInputs);
     
     // 計算折扣率
-    const callDiscount = (theoreticalCallPrice / spotPrice) * 100;
-    const putDiscount = (theoreticalPutPrice / spotPrice) * 100;
+    const callDiscount = (theoreticalCallPrice / underlyingPrice) * 100;
+    const putDiscount = (theoreticalPutPrice / underlyingPrice) * 100;
+    const lookbackDiscount = (theoreticalLookbackPrice / underlyingPrice) * 100;
+    const averageStrikeDiscount = (theoreticalAverageStrikePrice / underlyingPrice) * 100;
     
     // 計算流動性權重（使用長期合約的數據）
     const spread = (longTermOption.callAsk || 0) - (longTermOption.callBid || 0) + (longTermOption.putAsk || 0) - (longTermOption.putBid || 0);
@@ -347,18 +609,23 @@ export function calculateDiscountFromDualExpiry(
       strike: longTermOption.strike,
       callDiscount,
       putDiscount,
+      lookbackDiscount,
+      averageStrikeDiscount,
       theoreticalCallPrice,
       theoreticalPutPrice,
+      theoreticalLookbackPrice,
+      theoreticalAverageStrikePrice,
       impliedVolatility: extrapolatedIV * 100,
       weight: liquidityScore,
       atmDistance: longTermOption.atmDistance,
       expiry: `${dualExpiryData.shortTerm.expiry}+${dualExpiryData.longTerm.expiry}`,
       // 雙到期日相關資訊
-      shortTermIV: dualExpiryData.shortTerm.impliedVol,
-      longTermIV: dualExpiryData.longTerm.impliedVol,
+      shortTermIV,
+      longTermIV,
       shortTermExpiry: dualExpiryData.shortTerm.expiry,
       longTermExpiry: dualExpiryData.longTerm.expiry,
-      extrapolationStrategy: dualExpiryData.strategy
+      extrapolationStrategy: dualExpiryData.strategy,
+      greeks
     } as ATMCalculation;
   }).filter(calc => calc !== null) as ATMCalculation[];
   
@@ -379,8 +646,18 @@ export function calculateDiscountFromDualExpiry(
     sum + (calc.theoreticalCallPrice * calc.weight), 0) / totalWeight;
   const weightedPutPrice = calculations.reduce((sum, calc) => 
     sum + (calc.theoreticalPutPrice * calc.weight), 0) / totalWeight;
+  const weightedLookbackDiscount = calculations.reduce((sum, calc) => 
+    sum + ((calc.lookbackDiscount || 0) * calc.weight), 0) / totalWeight;
+  const weightedLookbackPrice = calculations.reduce((sum, calc) => 
+    sum + ((calc.theoreticalLookbackPrice || 0) * calc.weight), 0) / totalWeight;
+  const weightedAverageStrikeDiscount = calculations.reduce((sum, calc) => 
+    sum + ((calc.averageStrikeDiscount || 0) * calc.weight), 0) / totalWeight;
+  const weightedAverageStrikePrice = calculations.reduce((sum, calc) => 
+    sum + ((calc.theoreticalAverageStrikePrice || 0) * calc.weight), 0) / totalWeight;
     
-  // 準備原始合約數據
+  // 準備原始合約數據（附上該履約價的外推波動率）
+  const extrapolatedVolByStrike = new Map(calculations.map(calc => [calc.strike, calc.impliedVolatility]));
+  
   const rawShortTermContracts: RawATMContract[] = sortedCommonStrikes.map(longTermOption => {
     const shortTermOption = dualExpiryData.shortTerm.optionsData.find(o => o.strike === longTermOption.strike);
     if (!shortTermOption) return null;
@@ -397,7 +674,9 @@ export function calculateDiscountFromDualExpiry(
       putPrice: shortTermOption.putPrice,
       impliedVol: shortTermOption.impliedVol,
       expiry: shortTermOption.expiry,
-      atmDistance: Math.abs(shortTermOption.strike - spotPrice),
+      atmDistance: Math.abs(shortTermOption.strike - forwardPrice),
+      extrapolatedVol: extrapolatedVolByStrike.get(shortTermOption.strike),
+      ivFlags: shortTermOption.ivSolution?.flags,
       weight: liquidityScore
     } as RawATMContract;
   }).filter(contract => contract !== null) as RawATMContract[];
@@ -416,30 +695,53 @@ export function calculateDiscountFromDualExpiry(
       impliedVol: longTermOption.impliedVol,
       expiry: longTermOption.expiry,
       atmDistance: longTermOption.atmDistance,
+      extrapolatedVol: extrapolatedVolByStrike.get(longTermOption.strike),
+      ivFlags: longTermOption.ivSolution?.flags,
       weight: liquidityScore
     } as RawATMContract;
   });
   
-  // 計算最終結果
-  const annualizedRate = (weightedCallDiscount * 365) / lockupDays;
-  const fairValue = spotPrice - weightedCallPrice;
+  // 計算最終結果（依方法論選擇主要折扣）
+  const primaryPrice = selectMethodologyPrice(methodology, {
+    call: weightedCallPrice,
+    lookback: weightedLookbackPrice,
+    averageStrike: weightedAverageStrikePrice
+  });
+  const primaryDiscount = (primaryPrice / underlyingPrice) * 100;
+  const annualizedRate = (primaryDiscount * 365) / lockupDays;
+  const fairValue = underlyingPrice - primaryPrice;
   
   console.log(`=== 雙到期日計算結果 ===`);
   console.log(`加權Call折扣: ${weightedCallDiscount.toFixed(2)}%`);
   console.log(`加權Put折扣: ${weightedPutDiscount.toFixed(2)}%`);
+  console.log(`加權回望賣權折扣: ${weightedLookbackDiscount.toFixed(2)}%`);
+  console.log(`加權平均履約價賣權折扣: ${weightedAverageStrikeDiscount.toFixed(2)}%`);
   console.log(`年化折扣率: ${annualizedRate.toFixed(2)}%`);
   console.log(`合理購買價格: $${fairValue.toLocaleString()}`);
   
+  const methodNames: Record<DiscountMethodology, string> = {
+    'atm-call': '雙到期日方差外推法',
+    'longstaff-lookback': 'Longstaff回望賣權法',
+    'average-strike-put': '平均履約價賣權法'
+  };
+  
   return {
-    method: `雙到期日方差外推法 (${dualExpiryData.strategy})`,
-    discount: weightedCallDiscount,
+    method: `${methodNames[methodology]} (${dualExpiryData.strategy})`,
+    methodology,
+    discount: primaryDiscount,
     annualizedRate,
     fairValue,
+    underlyingPrice,
     callDiscount: weightedCallDiscount,
     putDiscount: weightedPutDiscount,
+    lookbackDiscount: weightedLookbackDiscount,
+    averageStrikeDiscount: weightedAverageStrikeDiscount,
     impliedVolatility: weightedVolatility,
     theoreticalCallPrice: weightedCallPrice,
     theoreticalPutPrice: weightedPutPrice,
+    theoreticalLookbackPrice: weightedLookbackPrice,
+    theoreticalAverageStrikePrice: weightedAverageStrikePrice,
+    greeks: weightedGreeks(calculations, totalWeight),
     atmCalculations: calculations,
     totalContracts: calculations.length,
     rawShortTermContracts,
@@ -447,14 +749,20 @@ export function calculateDiscountFromDualExpiry(
   };
 }
 
-// 計算外推隱含波動率
+/**
+ * 計算外推隱含波動率
+ * 目標在兩個到期日之間時對該履約價的總方差線性內插；
+ * 否則以最近的到期日為錨點，依擬合期限結構的總方差比例縮放：w_target = w_anchor × w_fit(T_target) / w_fit(T_anchor)，
+ * 保留該履約價相對 ATM 的微笑，期限形狀則來自所有到期日的擬合
+ */
 function calculateExtrapolatedVolatility(
   shortTermVol: number,
   shortTermTime: number,
   longTermVol: number,
   longTermTime: number,
   targetTime: number,
-  strategy: ExtrapolationStrategy
+  strategy: ExtrapolationStrategy,
+  termStructure: TermStructureFit
 ): number {
   console.log(`=== 波動率外推計算 ===`);
   console.log(`短期: ${shortTermTime.toFixed(3)}年, IV=${(shortTermVol * 100).toFixed(1)}%`);
@@ -467,74 +775,33 @@ function calculateExtrapolatedVolatility(
     return Math.max(shortTermVol, longTermVol); // 返回較大的輸入波動率作為備用
   }
   
-  // 使用方差線性外推 (variance = volatility² × time)
+  // 總方差 (variance = volatility² × time)
   const shortTermVariance = shortTermVol * shortTermVol * shortTermTime;
   const longTermVariance = longTermVol * longTermVol * longTermTime;
   
   console.log(`短期方差: ${shortTermVariance.toFixed(6)}, 長期方差: ${longTermVariance.toFixed(6)}`);
   
   let targetVariance: number;
-  let calculationDetails: string = '';
-  
-  switch (strategy) {
-    case ExtrapolationStrategy.INTERPOLATION:
-      // 內插：目標時間在兩個期限之間
-      // 公式: Var_target = Var_short + (Var_long - Var_short) × (T_target - T_short) / (T_long - T_short)
-      const interpolationFactor = (targetTime - shortTermTime) / (longTermTime - shortTermTime);
-      targetVariance = shortTermVariance + (longTermVariance - shortTermVariance) * interpolationFactor;
-      calculationDetails = `內插因子: ${interpolationFactor.toFixed(4)}, 內插方差: ${targetVariance.toFixed(6)}`;
-      console.log(`📊 內插計算: ${calculationDetails}`);
-      break;
-      
-    case ExtrapolationStrategy.EXTRAPOLATION:
-      // 外推：目標時間超出所有期限
-      const slope = (longTermVariance - shortTermVariance) / (longTermTime - shortTermTime);
-      const extrapolationDistance = targetTime - longTermTime;
-      targetVariance = longTermVariance + slope * extrapolationDistance;
-      
-      console.log(`📈 外推斜率: ${slope.toFixed(6)}, 外推距離: ${extrapolationDistance.toFixed(3)}年`);
-      console.log(`📈 線性外推計算: ${longTermVariance.toFixed(6)} + ${slope.toFixed(6)} × ${extrapolationDistance.toFixed(3)} = ${targetVariance.toFixed(6)}`);
-      
-      // 對於長期外推 (≥ 1年)，應用理論上的波動率期限結構調整
-      if (targetTime >= 1.0) {
-        const baseVolatility = Math.sqrt(longTermVariance / longTermTime);
-        // 修正公式：每年增加約5%的對數增長率來反映長期不確定性增加
-        const logEnhancementFactor = 1 + 0.05 * Math.log(targetTime);
-        const enhancedVolatility = baseVolatility * logEnhancementFactor;
-        const enhancedVariance = enhancedVolatility * enhancedVolatility * targetTime;
-        
-        console.log(`🔄 長期增強調整 (目標時間≥1年):`);
-        console.log(`   基礎波動率: ${(baseVolatility * 100).toFixed(1)}%`);
-        console.log(`   對數增強因子: ${logEnhancementFactor.toFixed(4)}`);
-        console.log(`   增強後波動率: ${(enhancedVolatility * 100).toFixed(1)}%`);
-        console.log(`   增強前方差: ${targetVariance.toFixed(6)} → 增強後方差: ${enhancedVariance.toFixed(6)}`);
-        
-        targetVariance = enhancedVariance;
-      }
-      
-      calculationDetails = `外推方差: ${targetVariance.toFixed(6)}, 包含長期調整: ${targetTime >= 1.0}`;
-      break;
-      
-    case ExtrapolationStrategy.BOUNDED_EXTRAPOLATION:
-      // 有界外推：使用線性外推但限制在合理範圍內
-      const boundedSlope = (longTermVariance - shortTermVariance) / (longTermTime - shortTermTime);
-      const boundedDistance = targetTime - shortTermTime;
-      targetVariance = shortTermVariance + boundedSlope * boundedDistance;
-      
-      // 為有界外推設置額外的限制，避免過度外推
-      const conservativeFactor = Math.min(1.0, 2.0 / Math.max(1.0, boundedDistance)); // 距離越遠越保守
-      targetVariance *= conservativeFactor;
-      
-      calculationDetails = `有界外推距離: ${boundedDistance.toFixed(3)}年, 保守因子: ${conservativeFactor.toFixed(3)}, 調整後方差: ${targetVariance.toFixed(6)}`;
-      console.log(`🎯 有界外推計算: ${calculationDetails}`);
-      break;
-      
-    default:
-      console.warn('⚠️ 未知的外推策略，使用短期方差作為備用');
-      targetVariance = shortTermVariance;
-      calculationDetails = '使用短期方差 (備用策略)';
+  let calculationDetails: string;
+  
+  if (strategy === ExtrapolationStrategy.INTERPOLATION) {
+    // 內插：目標時間在兩個期限之間
+    // 公式: Var_target = Var_short + (Var_long - Var_short) × (T_target - T_short) / (T_long - T_short)
+    const interpolationFactor = (targetTime - shortTermTime) / (longTermTime - shortTermTime);
+    targetVariance = shortTermVariance + (longTermVariance - shortTermVariance) * interpolationFactor;
+    calculationDetails = `內插因子: ${interpolationFactor.toFixed(4)}, 內插方差: ${targetVariance.toFixed(6)}`;
+  } else {
+    // 期限結構外推：目標超出最長期限時以長期為錨點，短於最短期限時以短期為錨點
+    const anchorIsLong = targetTime > longTermTime;
+    const anchorTime = anchorIsLong ? longTermTime : shortTermTime;
+    const anchorVariance = anchorIsLong ? longTermVariance : shortTermVariance;
+    const varianceRatio = termStructureTotalVariance(termStructure, targetTime) / termStructureTotalVariance(termStructure, anchorTime);
+    targetVariance = anchorVariance * varianceRatio;
+    calculationDetails = `${termStructure.model} 錨點 ${anchorIsLong ? '長期' : '短期'} (${anchorTime.toFixed(3)}年), 擬合總方差比: ${varianceRatio.toFixed(4)}, 外推方差: ${targetVariance.toFixed(6)}`;
   }
   
+  console.log(`📈 ${calculationDetails}`);
+  
   // 方差邊界檢查：確保方差為正值且不會過小
   const minVariance = 0.01 * targetTime; // 最小10%年化波動率對應的方差
   const maxVariance = 4.0 * targetTime;  // 最大200%年化波動率對應的方差
@@ -1,10 +1,16 @@
 // Historical volatility calculation utilities with multi-API support and caching
 
 import { apiCache, cacheKeys, cacheTTL } from './apiCache';
+import { JumpDiffusionParameters, RangeVolatilityEstimator, RangeVolatilityEstimate, RangeVolatilityComparison, RobustVolatilityMethod, RobustVolatilityAnalysis, ReturnOutlier, DailyReturnPoint } from '@/types';
 
 export interface HistoricalPriceData {
   date: string;
   price: number;
+  // 日K線 OHLC，僅在資料來源提供完整K線時存在（目前為 Binance）
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;
 }
 
 export interface VolatilityResult {
@@ -16,14 +22,27 @@ export interface VolatilityResult {
   cached?: boolean;
 }
 
+export type ApiProvider = 'binance' | 'coincap' | 'coingecko';
+
 export interface ApiResult<T> {
   data: T;
-  provider: string;
+  provider: ApiProvider;
   error?: string;
   cached?: boolean;
 }
 
-export type ApiProvider = 'binance' | 'coincap' | 'coingecko';
+// 預設回退順序
+export const API_PROVIDERS: ApiProvider[] = ['binance', 'coincap', 'coingecko'];
+
+function isApiProvider(value: string | undefined): value is ApiProvider {
+  return (API_PROVIDERS as (string | undefined)[]).includes(value);
+}
+
+// 回退順序：指定來源優先；strict 時僅使用指定來源
+function providerOrder(preferredProvider?: ApiProvider, strict = false): ApiProvider[] {
+  if (!preferredProvider) return API_PROVIDERS;
+  return strict ? [preferredProvider] : [preferredProvider, ...API_PROVIDERS.filter(p => p !== preferredProvider)];
+}
 
 // Token symbol mappings for different APIs
 const TOKEN_MAPPINGS = {
@@ -65,6 +84,8 @@ const TOKEN_MAPPINGS = {
   }
 };
 
+const BINANCE_KLINE_LIMIT = 1000;
+
 /**
  * Fetch historical price data from Binance API
  */
@@ -81,23 +102,39 @@ async function fetchHistoricalPricesFromBinance(
   const endTime = Date.now();
   const startTime = endTime - (days * 24 * 60 * 60 * 1000);
   
-  const response = await fetch(
-    `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=1d&startTime=${startTime}&endTime=${endTime}&limit=${days}`
-  );
-  
-  if (!response.ok) {
-    throw new Error(`Binance API error: ${response.status}`);
-  }
-  
-  const data = await response.json();
-  
-  if (!Array.isArray(data)) {
-    throw new Error('Invalid Binance API response format');
+  // Binance 單次最多回傳 1000 根K線，長歷史（例如波動率錐）分頁取得
+  const data: any[][] = [];
+  let pageStart = startTime;
+  while (pageStart < endTime) {
+    const response = await fetch(
+      `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=1d&startTime=${pageStart}&endTime=${endTime}&limit=${Math.min(days, BINANCE_KLINE_LIMIT)}`
+    );
+    
+    if (!response.ok) {
+      throw new Error(`Binance API error: ${response.status}`);
+    }
+    
+    const page = await response.json();
+    
+    if (!Array.isArray(page)) {
+      throw new Error('Invalid Binance API response format');
+    }
+    
+    data.push(...page);
+    if (page.length < BINANCE_KLINE_LIMIT) break;
+    pageStart = page[page.length - 1][0] + 24 * 60 * 60 * 1000;
   }
   
   return data.map((kline: any[]) => ({
     date: new Date(kline[0]).toISOString().split('T')[0], // Open time
-    price: parseFloat(kline[4]) // Close price
+    price: parseFloat(kline[4]), // Close price
+    // 當日未收盤的K線區間不完整，只保留收盤價
+    ...(kline[6] < endTime && {
+      open: parseFloat(kline[1]),
+      high: parseFloat(kline[2]),
+      low: parseFloat(kline[3]),
+      close: parseFloat(kline[4])
+    })
   }));
 }
 
@@ -166,24 +203,24 @@ async function fetchHistoricalPricesFromCoinGecko(
 
 /**
  * Fetch historical price data with API fallback mechanism and caching
+ * 指定 preferredProvider 時先查該來源的快取；strictProvider 為 true 時不回退到其他來源
  */
 export async function fetchHistoricalPrices(
   tokenId: string, 
   days: number = 90,
-  preferredProvider?: ApiProvider
+  preferredProvider?: ApiProvider,
+  strictProvider: boolean = false
 ): Promise<ApiResult<HistoricalPriceData[]>> {
-  const cacheKey = cacheKeys.historicalPrices(tokenId, days);
+  const cacheKey = cacheKeys.historicalPrices(tokenId, days, preferredProvider);
   
   // Check cache first
   const cached = apiCache.get<HistoricalPriceData[]>(cacheKey);
-  if (cached) {
-    console.log(`💾 Cache hit for ${tokenId} historical data (${days} days) from ${cached.provider?.toUpperCase()}`);
-    return { data: cached.data, provider: cached.provider || 'cached', cached: true };
+  if (cached && isApiProvider(cached.provider)) {
+    console.log(`💾 Cache hit for ${tokenId} historical data (${days} days) from ${cached.provider.toUpperCase()}`);
+    return { data: cached.data, provider: cached.provider, cached: true };
   }
   
-  const providers: ApiProvider[] = preferredProvider 
-    ? [preferredProvider, ...['binance', 'coincap', 'coingecko'].filter(p => p !== preferredProvider)] as ApiProvider[]
-    : ['binance', 'coincap', 'coingecko'];
+  const providers = providerOrder(preferredProvider, strictProvider);
     
   const errors: string[] = [];
   
@@ -207,8 +244,9 @@ export async function fetchHistoricalPrices(
           throw new Error(`Unknown provider: ${provider}`);
       }
       
-      // Cache the successful result
-      apiCache.set(cacheKey, data, cacheTTL.historicalPrices, provider);
+      // Cache the successful result，同時寫入未指定來源與實際來源的鍵
+      apiCache.set(cacheKeys.historicalPrices(tokenId, days), data, cacheTTL.historicalPrices, provider);
+      apiCache.set(cacheKeys.historicalPrices(tokenId, days, provider), data, cacheTTL.historicalPrices, provider);
       
       console.log(`✅ Successfully fetched ${data.length} price points from ${provider.toUpperCase()}`);
       return { data, provider, cached: false };
@@ -286,6 +324,353 @@ export function calculateHistoricalVolatility(
   };
 }
 
+export const ROBUST_VOLATILITY_METHODS: RobustVolatilityMethod[] = ['none', 'bipower', 'mad', 'winsorized'];
+
+// 解析穩健波動率方法參數，未提供時不過濾，無效時返回 null
+export function parseRobustVolatilityMethod(value: string | null | undefined): RobustVolatilityMethod | null {
+  if (!value) return 'none';
+  return (ROBUST_VOLATILITY_METHODS as string[]).includes(value) ? value as RobustVolatilityMethod : null;
+}
+
+export const INVALID_ROBUST_VOLATILITY_METHOD_MESSAGE =
+  `Invalid robust method. Must be one of: ${ROBUST_VOLATILITY_METHODS.join(', ')}`;
+
+// 常態分佈下 MAD 換算標準差的係數 1 / Φ⁻¹(3/4)
+const MAD_TO_SIGMA = 1.4826;
+
+// 穩健波動率與跳躍參數估計所需的最少日報酬數
+export const MIN_ROBUST_RETURNS = 3;
+export const MIN_JUMP_RETURNS = 20;
+
+// 有效日報酬數（相鄰兩日價格皆為正）
+export function countDailyReturns(prices: HistoricalPriceData[]): number {
+  const sortedPrices = [...prices].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+  let count = 0;
+  for (let i = 1; i < sortedPrices.length; i++) {
+    if (sortedPrices[i - 1].price > 0 && sortedPrices[i].price > 0) count++;
+  }
+  return count;
+}
+
+// 檢查價格歷史是否足以估計所需的日報酬數，不足時返回錯誤訊息
+export function validateReturnHistory(prices: HistoricalPriceData[], requiredReturns: number): string | null {
+  const returns = countDailyReturns(prices);
+  if (returns < requiredReturns) {
+    return `Insufficient price history: ${returns} daily returns available, at least ${requiredReturns} required`;
+  }
+  return null;
+}
+
+const medianOf = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * 抗離群的已實現波動率與離群報告
+ * - 雙冪次變異：(π/2)·mean(|r_t||r_{t-1}|)，單日跳躍只影響相鄰兩項乘積
+ * - MAD：1.4826 × median(|r - median(r)|)
+ * - 縮尾：超過中位數 ± threshold × MAD 標準差的報酬截斷至邊界後計算樣本標準差
+ * 錯誤報價會產生相鄰兩日方向相反的尖峰，雙冪次變異對此並不穩健，此時應選 MAD 或縮尾
+ */
+export function calculateRobustVolatility(
+  prices: HistoricalPriceData[],
+  method: RobustVolatilityMethod,
+  threshold: number = 4
+): RobustVolatilityAnalysis {
+  const sortedPrices = [...prices].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+
+  const returns: DailyReturnPoint[] = [];
+  for (let i = 1; i < sortedPrices.length; i++) {
+    if (sortedPrices[i - 1].price <= 0 || sortedPrices[i].price <= 0) {
+      continue; // Skip invalid prices
+    }
+    returns.push({
+      date: sortedPrices[i].date,
+      logReturn: Math.log(sortedPrices[i].price / sortedPrices[i - 1].price)
+    });
+  }
+
+  if (returns.length < MIN_ROBUST_RETURNS) {
+    throw new Error(`Need at least ${MIN_ROBUST_RETURNS} daily returns for robust volatility`);
+  }
+
+  const values = returns.map(point => point.logReturn);
+  const sampleStd = (series: number[]) => {
+    const mean = series.reduce((sum, v) => sum + v, 0) / series.length;
+    return Math.sqrt(series.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / (series.length - 1));
+  };
+
+  let bipowerSum = 0;
+  for (let i = 1; i < values.length; i++) {
+    bipowerSum += Math.abs(values[i]) * Math.abs(values[i - 1]);
+  }
+  const bipowerStd = Math.sqrt((Math.PI / 2) * bipowerSum / (values.length - 1));
+
+  const median = medianOf(values);
+  const madStd = MAD_TO_SIGMA * medianOf(values.map(v => Math.abs(v - median)));
+
+  // MAD 為 0（例如大量零報酬）時不縮尾
+  const lower = madStd > 0 ? median - threshold * madStd : -Infinity;
+  const upper = madStd > 0 ? median + threshold * madStd : Infinity;
+  const clipped = values.map(v => Math.min(Math.max(v, lower), upper));
+  const winsorizedStd = sampleStd(clipped);
+
+  const isOutlier = values.map(v => v < lower || v > upper);
+  const outliers: ReturnOutlier[] = [];
+  returns.forEach((point, i) => {
+    if (!isOutlier[i]) return;
+    const reversed = [i - 1, i + 1].some(j =>
+      j >= 0 && j < values.length && isOutlier[j] && Math.sign(values[j]) !== Math.sign(values[i])
+    );
+    outliers.push({
+      date: point.date,
+      logReturn: point.logReturn,
+      clippedReturn: clipped[i],
+      robustZScore: (point.logReturn - median) / madStd,
+      reason: reversed ? 'spike-reversal' : 'extreme-return'
+    });
+  });
+
+  const annualize = (dailyStd: number) => dailyStd * Math.sqrt(365);
+  const analysis: RobustVolatilityAnalysis = {
+    method,
+    threshold,
+    sampleVolatility: annualize(sampleStd(values)),
+    bipowerVolatility: annualize(bipowerStd),
+    madVolatility: annualize(madStd),
+    winsorizedVolatility: annualize(winsorizedStd),
+    selectedVolatility: 0,
+    outliers,
+    returns
+  };
+
+  const selected: Record<RobustVolatilityMethod, number> = {
+    none: analysis.sampleVolatility,
+    bipower: analysis.bipowerVolatility,
+    mad: analysis.madVolatility,
+    winsorized: analysis.winsorizedVolatility
+  };
+  analysis.selectedVolatility = selected[method];
+
+  console.log(`🧹 Robust volatility: sample ${(analysis.sampleVolatility * 100).toFixed(1)}%, bipower ${(analysis.bipowerVolatility * 100).toFixed(1)}%, MAD ${(analysis.madVolatility * 100).toFixed(1)}%, winsorized ${(analysis.winsorizedVolatility * 100).toFixed(1)}%`);
+  if (outliers.length > 0) {
+    console.log(`   ${outliers.length} returns beyond ${threshold}σ (MAD): ${outliers.map(o => `${o.date} ${(o.logReturn * 100).toFixed(1)}%`).join(', ')}`);
+  }
+
+  return analysis;
+}
+
+export const RANGE_VOLATILITY_ESTIMATORS: RangeVolatilityEstimator[] = [
+  'close-to-close',
+  'parkinson',
+  'garman-klass',
+  'rogers-satchell',
+  'yang-zhang'
+];
+
+// 解析區間波動率估計量參數，未提供時使用收盤對收盤，無效時返回 null
+export function parseRangeVolatilityEstimator(value: string | null | undefined): RangeVolatilityEstimator | null {
+  if (!value) return 'close-to-close';
+  return (RANGE_VOLATILITY_ESTIMATORS as string[]).includes(value) ? value as RangeVolatilityEstimator : null;
+}
+
+export const INVALID_RANGE_VOLATILITY_ESTIMATOR_MESSAGE =
+  `Invalid range estimator. Must be one of: ${RANGE_VOLATILITY_ESTIMATORS.join(', ')}`;
+
+// 單日K線的對數區間：o = ln(O/C₋₁)、u = ln(H/O)、d = ln(L/O)、c = ln(C/O)
+interface LogRangeBar {
+  overnight: number;
+  up: number;
+  down: number;
+  close: number;
+}
+
+function logRangeBars(sortedPrices: HistoricalPriceData[]): LogRangeBar[] {
+  const bars: LogRangeBar[] = [];
+  for (let i = 1; i < sortedPrices.length; i++) {
+    const { open, high, low, close } = sortedPrices[i];
+    const previousClose = sortedPrices[i - 1].close ?? sortedPrices[i - 1].price;
+    if (open === undefined || high === undefined || low === undefined || close === undefined) continue;
+    if (!(previousClose > 0 && open > 0 && close > 0 && low > 0 && high >= low)) continue;
+
+    bars.push({
+      overnight: Math.log(open / previousClose),
+      up: Math.log(high / open),
+      down: Math.log(low / open),
+      close: Math.log(close / open)
+    });
+  }
+  return bars;
+}
+
+const sampleVariance = (values: number[]) => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / (values.length - 1);
+};
+
+/**
+ * 以 OHLC 區間估計日方差
+ * - Parkinson：(ln H/L)² / (4 ln 2)
+ * - Garman-Klass：½(ln H/L)² - (2 ln 2 - 1)(ln C/O)²
+ * - Rogers-Satchell：u(u - c) + d(d - c)，對漂移不偏
+ * - Yang-Zhang：σ²_o + kσ²_c + (1 - k)σ²_RS，k = 0.34 / (1.34 + (n + 1)/(n - 1))，納入開盤跳空
+ */
+function rangeDailyVariance(bars: LogRangeBar[], estimator: Exclude<RangeVolatilityEstimator, 'close-to-close'>): number {
+  const n = bars.length;
+  const mean = (f: (bar: LogRangeBar) => number) => bars.reduce((sum, bar) => sum + f(bar), 0) / n;
+  const rogersSatchell = (bar: LogRangeBar) => bar.up * (bar.up - bar.close) + bar.down * (bar.down - bar.close);
+
+  switch (estimator) {
+    case 'parkinson':
+      return mean(bar => Math.pow(bar.up - bar.down, 2)) / (4 * Math.LN2);
+    case 'garman-klass':
+      return mean(bar => 0.5 * Math.pow(bar.up - bar.down, 2) - (2 * Math.LN2 - 1) * bar.close * bar.close);
+    case 'rogers-satchell':
+      return mean(rogersSatchell);
+    case 'yang-zhang': {
+      const k = 0.34 / (1.34 + (n + 1) / (n - 1));
+      return sampleVariance(bars.map(bar => bar.overnight))
+        + k * sampleVariance(bars.map(bar => bar.close))
+        + (1 - k) * mean(rogersSatchell);
+    }
+  }
+}
+
+/**
+ * 以 OHLC 區間估計量計算年化波動率
+ * @returns 資料來源未提供足夠的完整K線時返回 null
+ */
+export function calculateRangeVolatility(
+  prices: HistoricalPriceData[],
+  estimator: Exclude<RangeVolatilityEstimator, 'close-to-close'>
+): RangeVolatilityEstimate | null {
+  const sortedPrices = [...prices].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+  const bars = logRangeBars(sortedPrices);
+  if (bars.length < 2) return null;
+
+  const variance = rangeDailyVariance(bars, estimator);
+  if (!(variance >= 0)) return null;
+
+  const dailyVolatility = Math.sqrt(variance);
+  return {
+    estimator,
+    annualizedVolatility: dailyVolatility * Math.sqrt(365),
+    dailyVolatility,
+    observations: bars.length
+  };
+}
+
+/**
+ * 同一段歷史的所有波動率估計量並列比較
+ * 所選區間估計量無法計算（例如 CoinCap/CoinGecko 只有收盤價）時回退為收盤對收盤
+ */
+export function compareVolatilityEstimators(
+  volatilityResult: VolatilityResult,
+  selected: RangeVolatilityEstimator
+): RangeVolatilityComparison {
+  const estimates: RangeVolatilityEstimate[] = [{
+    estimator: 'close-to-close',
+    annualizedVolatility: volatilityResult.annualizedVolatility,
+    dailyVolatility: volatilityResult.dailyVolatility,
+    observations: volatilityResult.dataPoints
+  }];
+
+  for (const estimator of RANGE_VOLATILITY_ESTIMATORS) {
+    if (estimator === 'close-to-close') continue;
+    const estimate = calculateRangeVolatility(volatilityResult.priceData, estimator);
+    if (estimate) estimates.push(estimate);
+  }
+
+  const applied = estimates.some(estimate => estimate.estimator === selected) ? selected : 'close-to-close';
+
+  console.log(`📐 Range estimators: ${estimates.map(e => `${e.estimator} ${(e.annualizedVolatility * 100).toFixed(1)}%`).join(', ')}`);
+  if (applied !== selected) {
+    console.warn(`⚠️ ${selected} needs OHLC data; falling back to close-to-close`);
+  }
+
+  return {
+    selected,
+    applied,
+    ohlcAvailable: estimates.length > 1,
+    estimates
+  };
+}
+
+/**
+ * Estimate Merton jump-diffusion parameters from price data
+ * 以門檻法偵測跳躍：|報酬 - 平均| > k × 擴散標準差，反覆剔除跳躍後重新估計直到收斂
+ */
+export function estimateJumpParameters(
+  prices: HistoricalPriceData[],
+  thresholdSigmas: number = 3
+): JumpDiffusionParameters {
+  const sortedPrices = [...prices].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+
+  const dailyReturns: number[] = [];
+  for (let i = 1; i < sortedPrices.length; i++) {
+    if (sortedPrices[i - 1].price <= 0 || sortedPrices[i].price <= 0) {
+      continue; // Skip invalid prices
+    }
+    dailyReturns.push(Math.log(sortedPrices[i].price / sortedPrices[i - 1].price));
+  }
+
+  if (dailyReturns.length < MIN_JUMP_RETURNS) {
+    throw new Error(`Need at least ${MIN_JUMP_RETURNS} daily returns to estimate jump parameters`);
+  }
+
+  const meanOf = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const stdOf = (values: number[], mean: number) =>
+    Math.sqrt(values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / (values.length - 1));
+
+  let isJump = dailyReturns.map(() => false);
+  let diffusionMean = 0;
+  let diffusionStd = 0;
+
+  for (let iteration = 0; iteration < 20; iteration++) {
+    const diffusive = dailyReturns.filter((_, i) => !isJump[i]);
+    diffusionMean = meanOf(diffusive);
+    diffusionStd = stdOf(diffusive, diffusionMean);
+
+    const nextIsJump = dailyReturns.map(ret => Math.abs(ret - diffusionMean) > thresholdSigmas * diffusionStd);
+    // 至少保留 10 個擴散樣本，避免門檻塌縮
+    if (nextIsJump.filter(jump => !jump).length < 10) break;
+    if (nextIsJump.every((jump, i) => jump === isJump[i])) break;
+    isJump = nextIsJump;
+  }
+
+  // 跳躍幅度扣除當日的擴散漂移
+  const jumpSizes = dailyReturns.filter((_, i) => isJump[i]).map(ret => ret - diffusionMean);
+  const jumpCount = jumpSizes.length;
+  const jumpMean = jumpCount > 0 ? meanOf(jumpSizes) : 0;
+  const jumpVolatility = jumpCount > 1 ? stdOf(jumpSizes, jumpMean) : 0;
+
+  const parameters: JumpDiffusionParameters = {
+    jumpIntensity: (jumpCount / dailyReturns.length) * 365,
+    jumpMean,
+    jumpVolatility,
+    diffusionVolatility: diffusionStd * Math.sqrt(365),
+    jumpCount,
+    observations: dailyReturns.length,
+    thresholdSigmas
+  };
+
+  console.log(`🦘 Jump detection (${thresholdSigmas}σ threshold): ${jumpCount}/${dailyReturns.length} returns flagged`);
+  console.log(`   λ: ${parameters.jumpIntensity.toFixed(2)}/yr, μ_J: ${(jumpMean * 100).toFixed(2)}%, δ: ${(jumpVolatility * 100).toFixed(2)}%`);
+  console.log(`   Diffusion volatility: ${(parameters.diffusionVolatility * 100).toFixed(2)}%`);
+
+  return parameters;
+}
+
 /**
  * Get current price from Binance API
  */
@@ -367,14 +752,12 @@ export async function getCurrentPrice(
   
   // Check cache first
   const cached = apiCache.get<number>(cacheKey);
-  if (cached) {
-    console.log(`💾 Cache hit for ${tokenId} current price: $${cached.data.toLocaleString()} from ${cached.provider?.toUpperCase()}`);
-    return { data: cached.data, provider: cached.provider || 'cached', cached: true };
+  if (cached && isApiProvider(cached.provider)) {
+    console.log(`💾 Cache hit for ${tokenId} current price: $${cached.data.toLocaleString()} from ${cached.provider.toUpperCase()}`);
+    return { data: cached.data, provider: cached.provider, cached: true };
   }
   
-  const providers: ApiProvider[] = preferredProvider 
-    ? [preferredProvider, ...['binance', 'coincap', 'coingecko'].filter(p => p !== preferredProvider)] as ApiProvider[]
-    : ['binance', 'coincap', 'coingecko'];
+  const providers = providerOrder(preferredProvider);
     
   const errors: string[] = [];
   
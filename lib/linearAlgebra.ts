@@ -0,0 +1,52 @@
+// Small dense linear algebra helpers shared by the regression and model-fitting modules
+
+// 奇異判斷門檻
+const PIVOT_EPSILON = 1e-14;
+
+// 解 n×n 線性方程組 (部分選主元高斯消去)，奇異時返回 null
+export function solveLinearSystem(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const m = matrix.map((row, i) => [...row, vector[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < PIVOT_EPSILON) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let j = col; j <= n; j++) m[row][j] -= factor * m[col][j];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let j = row + 1; j < n; j++) sum -= m[row][j] * x[j];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+// n×n 反矩陣 (Gauss-Jordan)，奇異時返回 null
+export function invertMatrix(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const m = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < PIVOT_EPSILON) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    const scale = m[col][col];
+    for (let j = 0; j < 2 * n; j++) m[col][j] /= scale;
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = m[row][col];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * n; j++) m[row][j] -= factor * m[col][j];
+    }
+  }
+  return m.map(row => row.slice(n));
+}
@@ -0,0 +1,259 @@
+// Monte Carlo pricing engine for path-dependent lockup payoffs (seeded, GBM)
+
+export type OptionType = 'call' | 'put';
+export type BarrierType = 'down-and-in' | 'down-and-out' | 'up-and-in' | 'up-and-out';
+
+export type MonteCarloPayoff =
+  | { type: 'european'; optionType: OptionType; strike: number }
+  | { type: 'average-price'; optionType: OptionType; strike: number }   // 亞式固定履約價
+  | { type: 'average-strike-put' }                                      // max(平均價 - S_T, 0)
+  | { type: 'lookback-put' }                                            // max(最高價 - S_T, 0)
+  | { type: 'barrier'; optionType: OptionType; strike: number; barrier: number; barrierType: BarrierType }
+  | { type: 'vesting-strip'; optionType: OptionType; strike: number; tranches: { time: number; weight: number }[] };
+
+export interface MonteCarloParams {
+  spotPrice: number;
+  riskFreeRate: number;   // 小數 (0.042 = 4.2%)
+  volatility: number;     // 小數 (0.65 = 65%)
+  timeToExpiry: number;   // 年
+  paths?: number;
+  steps?: number;
+  seed?: number;
+  antithetic?: boolean;
+  controlVariate?: boolean;
+}
+
+export interface MonteCarloResult {
+  price: number;
+  standardError: number;
+  confidenceInterval: [number, number]; // 95%
+  paths: number;
+  steps: number;
+  seed: number;
+  antithetic: boolean;
+  controlVariate: boolean;
+  controlVariateBeta?: number;
+  varianceReductionFactor?: number;     // 未使用控制變量時的方差 / 實際方差
+}
+
+export const DEFAULT_MC_PATHS = 10000;
+export const MAX_MC_PATHS = 100000;
+export const MAX_MC_STEPS = 1095;
+// paths × steps 上限，避免單次請求佔用過多 CPU
+export const MAX_MC_PATH_STEPS = 20_000_000;
+
+// Mulberry32：輕量可重現的 32-bit PRNG
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Box-Muller 標準常態亂數，成對產生並快取第二個值
+export function createNormal(random: () => number): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    let u = 0;
+    while (u === 0) u = random();
+    const v = random();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spare = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  };
+}
+
+// 預設每日一步，至少 1 步
+export function defaultMonteCarloSteps(timeToExpiry: number): number {
+  return Math.min(MAX_MC_STEPS, Math.max(1, Math.round(timeToExpiry * 365)));
+}
+
+/**
+ * 驗證 Monte Carlo 參數
+ * @returns 錯誤訊息，有效時返回 null
+ */
+export function validateMonteCarloParams(params: MonteCarloParams): string | null {
+  const paths = params.paths ?? DEFAULT_MC_PATHS;
+  const steps = params.steps ?? defaultMonteCarloSteps(params.timeToExpiry);
+
+  if (!(params.spotPrice > 0)) return 'Spot price must be positive';
+  if (!(params.volatility > 0)) return 'Volatility must be positive';
+  if (!(params.timeToExpiry > 0)) return 'Time to expiry must be positive';
+  if (!Number.isFinite(params.riskFreeRate)) return 'Invalid risk-free rate';
+  if (!Number.isInteger(paths) || paths < 100 || paths > MAX_MC_PATHS) {
+    return `Paths must be a whole number between 100 and ${MAX_MC_PATHS}`;
+  }
+  if (!Number.isInteger(steps) || steps < 1 || steps > MAX_MC_STEPS) {
+    return `Steps must be a whole number between 1 and ${MAX_MC_STEPS}`;
+  }
+  if (paths * steps > MAX_MC_PATH_STEPS) {
+    return `Paths × steps must not exceed ${MAX_MC_PATH_STEPS.toLocaleString('en-US')}`;
+  }
+  return null;
+}
+
+function intrinsic(optionType: OptionType, price: number, strike: number): number {
+  return optionType === 'call' ? Math.max(price - strike, 0) : Math.max(strike - price, 0);
+}
+
+// 計算單一路徑的折現後 payoff；path[0] 為起始現貨價
+function discountedPayoff(
+  payoff: MonteCarloPayoff,
+  path: Float64Array,
+  dt: number,
+  r: number,
+  T: number
+): number {
+  const steps = path.length - 1;
+  const terminal = path[steps];
+  const discount = Math.exp(-r * T);
+
+  switch (payoff.type) {
+    case 'european':
+      return discount * intrinsic(payoff.optionType, terminal, payoff.strike);
+
+    case 'average-price':
+    case 'average-strike-put': {
+      // 算術平均（不含起始價）
+      let sum = 0;
+      for (let i = 1; i <= steps; i++) sum += path[i];
+      const average = sum / steps;
+      return payoff.type === 'average-price'
+        ? discount * intrinsic(payoff.optionType, average, payoff.strike)
+        : discount * Math.max(average - terminal, 0);
+    }
+
+    case 'lookback-put': {
+      let max = path[0];
+      for (let i = 1; i <= steps; i++) if (path[i] > max) max = path[i];
+      return discount * (max - terminal);
+    }
+
+    case 'barrier': {
+      const isDown = payoff.barrierType.startsWith('down');
+      let touched = false;
+      for (let i = 0; i <= steps && !touched; i++) {
+        touched = isDown ? path[i] <= payoff.barrier : path[i] >= payoff.barrier;
+      }
+      const knockedIn = payoff.barrierType.endsWith('in');
+      const alive = knockedIn ? touched : !touched;
+      return alive ? discount * intrinsic(payoff.optionType, terminal, payoff.strike) : 0;
+    }
+
+    case 'vesting-strip': {
+      // 每個 tranche 在解鎖時點行使並以各自期限折現
+      let value = 0;
+      for (const tranche of payoff.tranches) {
+        const index = Math.min(steps, Math.max(0, Math.round(tranche.time / dt)));
+        value += tranche.weight * Math.exp(-r * tranche.time) * intrinsic(payoff.optionType, path[index], payoff.strike);
+      }
+      return value;
+    }
+  }
+}
+
+/**
+ * 以 GBM 路徑模擬估算任意鎖倉 payoff 的現值
+ * 支援 antithetic variates 與以折現終值 e^(-rT)·S_T（期望值 = S_0）為控制變量
+ */
+export function runMonteCarlo(payoff: MonteCarloPayoff, params: MonteCarloParams): MonteCarloResult {
+  const validationError = validateMonteCarloParams(params);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const { spotPrice: S, riskFreeRate: r, volatility: sigma, timeToExpiry: T } = params;
+  const paths = params.paths ?? DEFAULT_MC_PATHS;
+  const steps = params.steps ?? defaultMonteCarloSteps(T);
+  const seed = params.seed ?? 42;
+  const antithetic = params.antithetic ?? true;
+  const controlVariate = params.controlVariate ?? true;
+
+  const normal = createNormal(createRandom(seed));
+  const dt = T / steps;
+  const drift = (r - 0.5 * sigma * sigma) * dt;
+  const diffusion = sigma * Math.sqrt(dt);
+  const terminalDiscount = Math.exp(-r * T);
+
+  const path = new Float64Array(steps + 1);
+  const mirror = new Float64Array(steps + 1);
+
+  // antithetic 時每組兩條路徑取平均，作為一個獨立樣本
+  const samples = antithetic ? Math.floor(paths / 2) : paths;
+  const payoffs = new Float64Array(samples);
+  const controls = new Float64Array(samples);
+
+  for (let n = 0; n < samples; n++) {
+    path[0] = S;
+    mirror[0] = S;
+    for (let i = 1; i <= steps; i++) {
+      const z = normal();
+      path[i] = path[i - 1] * Math.exp(drift + diffusion * z);
+      if (antithetic) {
+        mirror[i] = mirror[i - 1] * Math.exp(drift - diffusion * z);
+      }
+    }
+
+    if (antithetic) {
+      payoffs[n] = 0.5 * (discountedPayoff(payoff, path, dt, r, T) + discountedPayoff(payoff, mirror, dt, r, T));
+      controls[n] = 0.5 * terminalDiscount * (path[steps] + mirror[steps]);
+    } else {
+      payoffs[n] = discountedPayoff(payoff, path, dt, r, T);
+      controls[n] = terminalDiscount * path[steps];
+    }
+  }
+
+  const mean = (values: Float64Array) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const payoffMean = mean(payoffs);
+  const controlMean = mean(controls);
+
+  let covariance = 0;
+  let controlVariance = 0;
+  let payoffVariance = 0;
+  for (let n = 0; n < samples; n++) {
+    const dp = payoffs[n] - payoffMean;
+    const dc = controls[n] - controlMean;
+    covariance += dp * dc;
+    controlVariance += dc * dc;
+    payoffVariance += dp * dp;
+  }
+  covariance /= samples - 1;
+  controlVariance /= samples - 1;
+  payoffVariance /= samples - 1;
+
+  let price = payoffMean;
+  let variance = payoffVariance;
+  let beta: number | undefined;
+
+  if (controlVariate && controlVariance > 0) {
+    beta = covariance / controlVariance;
+    price = payoffMean - beta * (controlMean - S);
+    variance = Math.max(payoffVariance - (covariance * covariance) / controlVariance, 0);
+  }
+
+  const standardError = Math.sqrt(variance / samples);
+
+  return {
+    price,
+    standardError,
+    confidenceInterval: [price - 1.96 * standardError, price + 1.96 * standardError],
+    paths: antithetic ? samples * 2 : samples,
+    steps,
+    seed,
+    antithetic,
+    controlVariate: beta !== undefined,
+    ...(beta !== undefined && {
+      controlVariateBeta: beta,
+      varianceReductionFactor: variance > 0 ? payoffVariance / variance : undefined
+    })
+  };
+}
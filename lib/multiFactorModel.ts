@@ -0,0 +1,349 @@
+// Multi-factor regression of altcoin returns on benchmark tokens (BTC, ETH, optionally SOL)
+// and the implied volatility it derives from each factor's option market
+
+import { fetchHistoricalPrices, ApiProvider, HistoricalPriceData } from './historicalVolatility';
+import {
+  getOptionsImpliedVolatility,
+  ImpliedVolatilityResult,
+  DEFAULT_BETA_ESTIMATION,
+  MIN_BETA_RETURNS,
+  RETURN_PERIOD_DAYS,
+  PERIODS_PER_YEAR,
+  forcedBetaProvider,
+  sampleByFrequency,
+  calculateReturns
+} from './betaCalculator';
+import { invertMatrix } from './linearAlgebra';
+import { LockupPeriod, Token, BetaEstimationOptions, BetaReturnFrequency, BetaReturnType } from '@/types';
+
+export interface MultiFactorBenchmark {
+  symbol: string;
+  tokenId: string;      // 歷史價格 API 的代幣 ID
+  optionsToken?: Token; // 有 Deribit 期權時以鎖倉期隱含波動率定價
+  required: boolean;    // BTC 與 ETH 固定納入，其餘為選用因子
+}
+
+export const MULTI_FACTOR_BENCHMARKS: MultiFactorBenchmark[] = [
+  { symbol: 'BTC', tokenId: 'bitcoin', optionsToken: 'BTC', required: true },
+  { symbol: 'ETH', tokenId: 'ethereum', optionsToken: 'ETH', required: true },
+  { symbol: 'SOL', tokenId: 'solana', required: false }
+];
+
+export const OPTIONAL_FACTOR_SYMBOLS = MULTI_FACTOR_BENCHMARKS.filter(b => !b.required).map(b => b.symbol);
+
+// 多因子迴歸沿用 Beta 的估計設定；收縮僅適用單因子 beta，不在此使用
+export type MultiFactorEstimationOptions = Omit<BetaEstimationOptions, 'shrinkage'>;
+
+// 解析選用因子參數 (逗號分隔的代號)，未提供時為空，無效時返回 null
+export function parseExtraFactors(value: string | null | undefined): string[] | null {
+  if (!value) return [];
+  const symbols = value.split(',').map(symbol => symbol.trim().toUpperCase()).filter(Boolean);
+  if (symbols.some(symbol => !OPTIONAL_FACTOR_SYMBOLS.includes(symbol))) return null;
+  return Array.from(new Set(symbols));
+}
+
+export const INVALID_EXTRA_FACTORS_MESSAGE =
+  `Invalid extraFactors. Must be a comma-separated list of: ${OPTIONAL_FACTOR_SYMBOLS.join(', ')}`;
+
+export interface FactorRegressionCoefficient {
+  symbol: string;
+  tokenId: string;
+  loading: number;            // 因子載荷 (偏迴歸係數)
+  standardError: number;
+  tStat: number;
+  realizedVolatility: number; // 迴歸窗口內的年化已實現波動率 (%)
+}
+
+export interface MultiFactorRegressionFit {
+  factors: FactorRegressionCoefficient[];
+  alpha: number; // 每期報酬迴歸截距
+  alphaTStat: number;
+  rSquared: number;
+  adjustedRSquared: number;
+  factorCorrelations: number[][]; // 因子報酬的相關係數矩陣，順序同 factors
+  altcoinVolatility: number;       // %
+  idiosyncraticVolatility: number; // 迴歸殘差的年化波動率 (%)
+  dataPoints: number; // 取樣後的價格點數
+  calculationPeriodDays: number;
+  frequency: BetaReturnFrequency;
+  returnType: BetaReturnType;
+}
+
+export interface MultiFactorRegressionResult extends MultiFactorRegressionFit {
+  altcoinProvider: ApiProvider; // 實際取得價格的資料來源
+  factorProviders: ApiProvider[]; // 順序同 factors
+}
+
+export interface FactorImpliedVolatility {
+  symbol: string;
+  volatility: number; // 用於定價的因子波動率 (%)
+  source: 'deribit_options' | 'realized';
+  optionsDetail?: ImpliedVolatilityResult;
+  varianceContribution: number; // b_i·(Σb)_i，系統性方差的 Euler 分解 (%²)
+}
+
+export interface MultiFactorImpliedVolDerivation {
+  regression: MultiFactorRegressionResult;
+  factorVolatilities: FactorImpliedVolatility[];
+  altcoinHistoricalVol: number;
+  systematicImpliedVol: number;     // √(bᵀΣb) (%)
+  idiosyncraticVol: number;         // %
+  derivedAltcoinImpliedVol: number; // √(bᵀΣb + σ²_idio) (%)
+  comparisonMetrics: {
+    impliedVsHistoricalDiff: number;
+    impliedVsHistoricalRatio: number;
+    confidence: 'high' | 'medium' | 'low';
+  };
+}
+
+/**
+ * 以 OLS (含截距) 將 altcoin 報酬迴歸到多個因子報酬
+ * 價格序列須已按日期對齊 (並依頻率取樣)、由舊到新
+ */
+export function runMultiFactorRegression(
+  altcoinPrices: number[],
+  factorPrices: number[][],
+  benchmarks: MultiFactorBenchmark[],
+  periodDays: number,
+  frequency: BetaReturnFrequency = 'daily',
+  returnType: BetaReturnType = 'simple'
+): MultiFactorRegressionFit {
+  const y = calculateReturns(altcoinPrices, returnType);
+  const factorReturns = factorPrices.map(prices => calculateReturns(prices, returnType));
+  const n = y.length;
+  const k = factorReturns.length;
+  const p = k + 1;
+
+  if (n - p < 1) {
+    throw new Error(`Insufficient observations for a ${k}-factor regression: ${n}`);
+  }
+
+  // 正規方程 XᵀX b = Xᵀy，X = [1, f_1, ..., f_k]
+  const xtx = Array.from({ length: p }, () => new Array(p).fill(0));
+  const xty = new Array(p).fill(0);
+  for (let t = 0; t < n; t++) {
+    const row = [1, ...factorReturns.map(f => f[t])];
+    for (let r = 0; r < p; r++) {
+      xty[r] += row[r] * y[t];
+      for (let c = 0; c < p; c++) xtx[r][c] += row[r] * row[c];
+    }
+  }
+
+  const xtxInverse = invertMatrix(xtx);
+  if (!xtxInverse) {
+    throw new Error('Factor returns are collinear; the multi-factor regression is not identified');
+  }
+  const coefficients = xtxInverse.map(row => row.reduce((sum, value, j) => sum + value * xty[j], 0));
+
+  let residualSumSquares = 0;
+  for (let t = 0; t < n; t++) {
+    let fitted = coefficients[0];
+    for (let j = 0; j < k; j++) fitted += coefficients[j + 1] * factorReturns[j][t];
+    residualSumSquares += (y[t] - fitted) * (y[t] - fitted);
+  }
+  const yMean = mean(y);
+  const totalSumSquares = y.reduce((sum, value) => sum + (value - yMean) * (value - yMean), 0);
+
+  // 殘差方差 (自由度 n - k - 1)
+  const residualVariance = residualSumSquares / (n - p);
+  const standardErrors = xtxInverse.map((row, j) => Math.sqrt(residualVariance * row[j]));
+  const rSquared = totalSumSquares > 0 ? 1 - residualSumSquares / totalSumSquares : 0;
+  const adjustedRSquared = 1 - (1 - rSquared) * (n - 1) / (n - p);
+
+  const covariance = covarianceMatrix(factorReturns);
+  const factorCorrelations = covariance.map((row, i) =>
+    row.map((value, j) => (i === j ? 1 : value / Math.sqrt(covariance[i][i] * covariance[j][j])))
+  );
+
+  const annualize = (variance: number) => Math.sqrt(variance * PERIODS_PER_YEAR[frequency]) * 100;
+
+  return {
+    factors: benchmarks.map((benchmark, j) => ({
+      symbol: benchmark.symbol,
+      tokenId: benchmark.tokenId,
+      loading: coefficients[j + 1],
+      standardError: standardErrors[j + 1],
+      tStat: coefficients[j + 1] / standardErrors[j + 1],
+      realizedVolatility: annualize(covariance[j][j])
+    })),
+    alpha: coefficients[0],
+    alphaTStat: coefficients[0] / standardErrors[0],
+    rSquared,
+    adjustedRSquared,
+    factorCorrelations,
+    altcoinVolatility: annualize(totalSumSquares / (n - 1)),
+    idiosyncraticVolatility: annualize(residualVariance),
+    dataPoints: n + 1,
+    calculationPeriodDays: periodDays,
+    frequency,
+    returnType
+  };
+}
+
+/**
+ * 取得 altcoin 與各因子的價格歷史並執行多因子迴歸
+ * 價格來源、回看天數、報酬頻率與類型與 proxy-implied 模式的 Beta 估計一致
+ */
+export async function calculateMultiFactorRegression(
+  altcoinId: string,
+  benchmarks: MultiFactorBenchmark[],
+  options: MultiFactorEstimationOptions = DEFAULT_BETA_ESTIMATION
+): Promise<MultiFactorRegressionResult> {
+  const { windowDays, frequency, returnType, provider } = options;
+  console.log(`[Multi-Factor] 🔄 Regressing ${altcoinId} on ${benchmarks.map(b => b.symbol).join(' + ')} over ${windowDays} days (${frequency} ${returnType} returns, provider: ${provider})`);
+
+  // altcoin 依回退鏈取得，因子優先使用相同來源；明確指定來源時皆不回退
+  // 多取一期價格，使報酬涵蓋完整的回看天數
+  const forcedProvider = forcedBetaProvider(provider);
+  const historyDays = windowDays + RETURN_PERIOD_DAYS[frequency];
+  const altcoinResult = await fetchHistoricalPrices(altcoinId, historyDays, forcedProvider, forcedProvider !== undefined);
+  const factorResults = await Promise.all(benchmarks.map(benchmark =>
+    fetchHistoricalPrices(benchmark.tokenId, historyDays, altcoinResult.provider, forcedProvider !== undefined)
+  ));
+
+  if (altcoinResult.data.length === 0 || factorResults.some(result => result.data.length === 0)) {
+    throw new Error(`Insufficient price data for ${altcoinId} or its factor tokens`);
+  }
+
+  factorResults.forEach((result, i) => {
+    if (result.provider !== altcoinResult.provider) {
+      console.warn(`[Multi-Factor] ⚠️ ${altcoinId} prices from ${altcoinResult.provider}, ${benchmarks[i].symbol} from ${result.provider}; daily closes may be offset`);
+    }
+  });
+
+  // 以所有序列共同的日期對齊，再依頻率取樣
+  const factorMaps = factorResults.map(result => toPriceMap(result.data));
+  const altcoinMap = toPriceMap(altcoinResult.data);
+  const dates = Array.from(altcoinMap.keys())
+    .filter(date => factorMaps.every(map => map.has(date)))
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+  const sampledDates = sampleByFrequency(dates.map(date => ({ date })), frequency).map(({ date }) => date);
+
+  if (sampledDates.length - 1 < MIN_BETA_RETURNS[frequency]) {
+    throw new Error(`Insufficient ${frequency} returns: ${sampledDates.length - 1} < ${MIN_BETA_RETURNS[frequency]}`);
+  }
+
+  const fit = runMultiFactorRegression(
+    sampledDates.map(date => altcoinMap.get(date)!),
+    factorMaps.map(map => sampledDates.map(date => map.get(date)!)),
+    benchmarks,
+    windowDays,
+    frequency,
+    returnType
+  );
+  const result: MultiFactorRegressionResult = {
+    ...fit,
+    altcoinProvider: altcoinResult.provider,
+    factorProviders: factorResults.map(factorResult => factorResult.provider)
+  };
+
+  console.log(`[Multi-Factor] ✅ Regression completed:`, {
+    loadings: result.factors.map(f => `${f.symbol} ${f.loading.toFixed(3)} (t=${f.tStat.toFixed(1)})`).join(', '),
+    rSquared: result.rSquared.toFixed(3),
+    idioVol: result.idiosyncraticVolatility.toFixed(1) + '%',
+    dataPoints: result.dataPoints,
+    provider: result.altcoinProvider
+  });
+
+  return result;
+}
+
+/**
+ * 以多因子載荷組合各因子的鎖倉期隱含波動率，推導 altcoin 隱含波動率
+ * Σ_ij = ρ_ij·σ_i·σ_j (ρ 為已實現相關係數，σ 為隱含波動率；無期權的因子以已實現波動率代替)
+ */
+export async function deriveMultiFactorImpliedVolatility(
+  altcoinId: string,
+  altcoinHistoricalVol: number,
+  period: LockupPeriod,
+  extraFactors: string[] = [],
+  options: MultiFactorEstimationOptions = DEFAULT_BETA_ESTIMATION
+): Promise<MultiFactorImpliedVolDerivation> {
+  // 代幣本身是因子時移除，避免完全共線
+  const benchmarks = MULTI_FACTOR_BENCHMARKS.filter(benchmark =>
+    (benchmark.required || extraFactors.includes(benchmark.symbol)) &&
+    benchmark.tokenId !== altcoinId.toLowerCase()
+  );
+
+  console.log(`[Multi-Factor IV Derivation] 🔄 Starting derivation for ${altcoinId} (${period}) on ${benchmarks.map(b => b.symbol).join(' + ')}`);
+
+  const [regression, ...optionsVolatilities] = await Promise.all([
+    calculateMultiFactorRegression(altcoinId, benchmarks, options),
+    ...benchmarks.map(benchmark =>
+      benchmark.optionsToken ? getOptionsImpliedVolatility(benchmark.optionsToken, period) : Promise.resolve(null)
+    )
+  ]);
+
+  const sigmas = regression.factors.map((factor, i) => optionsVolatilities[i]?.impliedVolatility ?? factor.realizedVolatility);
+  const loadings = regression.factors.map(factor => factor.loading);
+  const covarianceTimesLoadings = sigmas.map((sigmaI, i) =>
+    sigmas.reduce((sum, sigmaJ, j) => sum + regression.factorCorrelations[i][j] * sigmaI * sigmaJ * loadings[j], 0)
+  );
+  const systematicVariance = Math.max(loadings.reduce((sum, loading, i) => sum + loading * covarianceTimesLoadings[i], 0), 0);
+
+  const factorVolatilities: FactorImpliedVolatility[] = regression.factors.map((factor, i) => ({
+    symbol: factor.symbol,
+    volatility: sigmas[i],
+    source: optionsVolatilities[i] ? 'deribit_options' : 'realized',
+    optionsDetail: optionsVolatilities[i] ?? undefined,
+    varianceContribution: loadings[i] * covarianceTimesLoadings[i]
+  }));
+
+  const systematicImpliedVol = Math.sqrt(systematicVariance);
+  const idiosyncraticVol = regression.idiosyncraticVolatility;
+  const derivedAltcoinImpliedVol = Math.sqrt(systematicVariance + idiosyncraticVol * idiosyncraticVol);
+
+  let confidence: 'high' | 'medium' | 'low' = 'low';
+  if (regression.adjustedRSquared > 0.7) {
+    confidence = 'high';
+  } else if (regression.adjustedRSquared > 0.5) {
+    confidence = 'medium';
+  }
+
+  const result: MultiFactorImpliedVolDerivation = {
+    regression,
+    factorVolatilities,
+    altcoinHistoricalVol,
+    systematicImpliedVol,
+    idiosyncraticVol,
+    derivedAltcoinImpliedVol,
+    comparisonMetrics: {
+      impliedVsHistoricalDiff: derivedAltcoinImpliedVol - altcoinHistoricalVol,
+      impliedVsHistoricalRatio: derivedAltcoinImpliedVol / altcoinHistoricalVol,
+      confidence
+    }
+  };
+
+  console.log(`[Multi-Factor IV Derivation] ✅ Derivation completed:`, {
+    factorVols: factorVolatilities.map(f => `${f.symbol} ${f.volatility.toFixed(1)}% (${f.source})`).join(', '),
+    systematicIV: systematicImpliedVol.toFixed(1) + '%',
+    idioVol: idiosyncraticVol.toFixed(1) + '%',
+    derivedIV: derivedAltcoinImpliedVol.toFixed(1) + '%',
+    historicalIV: altcoinHistoricalVol.toFixed(1) + '%',
+    confidence
+  });
+
+  return result;
+}
+
+// Helper functions
+function toPriceMap(history: HistoricalPriceData[]): Map<string, number> {
+  return new Map(history.map(item => [item.date, item.price]));
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// 樣本共變異數矩陣 (自由度 n - 1)
+function covarianceMatrix(series: number[][]): number[][] {
+  const means = series.map(mean);
+  const n = series[0].length;
+  return series.map((x, i) =>
+    series.map((z, j) => {
+      let sum = 0;
+      for (let t = 0; t < n; t++) sum += (x[t] - means[i]) * (z[t] - means[j]);
+      return sum / (n - 1);
+    })
+  );
+}
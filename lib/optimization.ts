@@ -0,0 +1,44 @@
+// Derivative-free optimizers shared by the model-fitting modules
+
+// 二維 Nelder-Mead 最小化
+export function nelderMead2D(f: (x: number[]) => number, start: number[], step: number[], iterations: number = 200): number[] {
+  let simplex = [start, [start[0] + step[0], start[1]], [start[0], start[1] + step[1]]]
+    .map(point => ({ point, value: f(point) }));
+
+  for (let iter = 0; iter < iterations; iter++) {
+    simplex.sort((p, q) => p.value - q.value);
+    const [best, good, worst] = simplex;
+    if (Math.abs(worst.value - best.value) <= 1e-14 * (Math.abs(best.value) + 1e-14)) break;
+
+    const centroid = [(best.point[0] + good.point[0]) / 2, (best.point[1] + good.point[1]) / 2];
+    const along = (t: number) => [centroid[0] + t * (worst.point[0] - centroid[0]), centroid[1] + t * (worst.point[1] - centroid[1])];
+
+    const reflected = along(-1);
+    const reflectedValue = f(reflected);
+    if (reflectedValue < best.value) {
+      const expanded = along(-2);
+      const expandedValue = f(expanded);
+      simplex[2] = expandedValue < reflectedValue
+        ? { point: expanded, value: expandedValue }
+        : { point: reflected, value: reflectedValue };
+    } else if (reflectedValue < good.value) {
+      simplex[2] = { point: reflected, value: reflectedValue };
+    } else {
+      const contracted = along(0.5);
+      const contractedValue = f(contracted);
+      if (contractedValue < worst.value) {
+        simplex[2] = { point: contracted, value: contractedValue };
+      } else {
+        // 向最佳點收縮
+        simplex = simplex.map((vertex, i) => {
+          if (i === 0) return vertex;
+          const point = [(vertex.point[0] + best.point[0]) / 2, (vertex.point[1] + best.point[1]) / 2];
+          return { point, value: f(point) };
+        });
+      }
+    }
+  }
+
+  simplex.sort((p, q) => p.value - q.value);
+  return simplex[0].point;
+}
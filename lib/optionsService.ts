@@ -1,4 +1,9 @@
-import { Token, OptionData, LockupPeriod, DualExpiryData, ExtrapolationStrategy } from '@/types';
+import { Token, OptionData, LockupPeriod, DualExpiryData, ExtrapolationStrategy, ForwardCurve, ForwardPoint, ForwardInfo, TermStructureModel, TermStructurePoint, ArbitrageReport } from '@/types';
+import { lockupPeriodToDate, calculateImpliedForward } from './calculator';
+import { fitSviSmile, smileImpliedVolatility } from './volatilitySmile';
+import { fitTermStructure, DEFAULT_TERM_STRUCTURE_MODEL } from './termStructure';
+import { getPricingModel, solveOptionPairImpliedVolatility } from './pricing';
+import { removeStaticArbitrage, removeCalendarArbitrage, repairTermStructureCalendar } from './arbitrageChecks';
 
 const DERIBIT_API = 'https://www.deribit.com/api/v2';
 const CLIENT_ID = process.env.DERIBIT_CLIENT_ID || 'E34lksyJ';
@@ -120,23 +125,7 @@ async function callDeribitPublicAPI(method: string, params: any = {}): Promise<a
 
 // 將鎖倉期轉換為選擇權到期月份
 function lockupPeriodToExpiry(period: LockupPeriod): string {
-  const now = new Date();
-  const targetDate = new Date(now);
-  
-  switch (period) {
-    case '3M':
-      targetDate.setMonth(now.getMonth() + 3);
-      break;
-    case '6M':
-      targetDate.setMonth(now.getMonth() + 6);
-      break;
-    case '1Y':
-      targetDate.setFullYear(now.getFullYear() + 1);
-      break;
-    case '2Y':
-      targetDate.setFullYear(now.getFullYear() + 2);
-      break;
-  }
+  const targetDate = lockupPeriodToDate(period);
   
   // 格式化為 DDMMMYY (例: 28MAR25)
   const day = targetDate.getDate().toString().padStart(2, '0');
@@ -232,31 +221,240 @@ function daysBetween(date1: Date, date2: Date): number {
 
 // 解析到期日字符串為Date對象
 function parseExpiryDate(expiry: string): Date | null {
-  try {
-    // 格式: 28MAR25
-    const day = parseInt(expiry.substring(0, 2));
-    const monthStr = expiry.substring(2, 5);
-    const year = 2000 + parseInt(expiry.substring(5, 7));
+  // 格式: 28MAR25，個位數日期不補零 (e.g. 7NOV25)
+  const match = /^(\d{1,2})([A-Z]{3})(\d{2})$/.exec(expiry);
+  if (!match) return null;
+  
+  const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN',
+                  'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+  const month = months.indexOf(match[2]);
+  
+  if (month === -1) return null;
+  
+  return new Date(2000 + parseInt(match[3]), month, parseInt(match[1]));
+}
+
+// 獲取Deribit指數價格 (btc_usd / eth_usd)
+export async function fetchIndexPrice(token: Token): Promise<number> {
+  const cacheKey = `index_${token}`;
+  const cached = apiCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    return cached.data;
+  }
+  
+  const result = await callDeribitPublicAPI('get_index_price', {
+    index_name: `${token.toLowerCase()}_usd`
+  });
+  
+  if (!(result?.index_price > 0)) {
+    throw new Error(`Invalid ${token} index price from Deribit`);
+  }
+  
+  apiCache.set(cacheKey, { data: result.index_price, timestamp: Date.now() });
+  return result.index_price;
+}
+
+// 以Deribit期貨標記價格建立遠期曲線（不含永續合約）
+export async function fetchForwardCurve(token: Token, now: Date = new Date()): Promise<ForwardCurve> {
+  const cacheKey = `forward_curve_${token}`;
+  const cached = apiCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    return cached.data;
+  }
+  
+  const [indexPrice, summaries] = await Promise.all([
+    fetchIndexPrice(token),
+    callDeribitPublicAPI('get_book_summary_by_currency', { currency: token, kind: 'future' })
+  ]);
+  
+  const points: ForwardPoint[] = [];
+  for (const summary of summaries as any[]) {
+    const [, expiry] = String(summary.instrument_name).split('-');
+    const expiryDate = expiry && expiry !== 'PERPETUAL' ? parseExpiryDate(expiry) : null;
+    if (!expiryDate || !(summary.mark_price > 0)) continue;
     
-    const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN',
-                    'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
-    const month = months.indexOf(monthStr);
+    const timeToExpiry = (expiryDate.getTime() - now.getTime()) / (365 * 24 * 60 * 60 * 1000);
+    if (timeToExpiry <= 0) continue;
     
-    if (month === -1) return null;
+    points.push({
+      instrument: summary.instrument_name,
+      expiry,
+      timeToExpiry,
+      futurePrice: summary.mark_price,
+      basis: (summary.mark_price / indexPrice - 1) * 100,
+      impliedCarry: Math.log(summary.mark_price / indexPrice) / timeToExpiry
+    });
+  }
+  
+  if (points.length === 0) {
+    throw new Error(`No dated ${token} futures available on Deribit`);
+  }
+  
+  const curve: ForwardCurve = {
+    token,
+    indexPrice,
+    points: points.sort((a, b) => a.timeToExpiry - b.timeToExpiry)
+  };
+  
+  console.log(`Forward curve ${token}: index $${indexPrice.toFixed(2)}, ${curve.points.map(p => `${p.expiry} ${(p.impliedCarry * 100).toFixed(2)}%`).join(', ')}`);
+  
+  apiCache.set(cacheKey, { data: curve, timestamp: Date.now() });
+  return curve;
+}
+
+// 年化持有成本在期限上線性內插，曲線兩端之外維持平坦持有成本
+function forwardFromCurve(curve: ForwardCurve, timeToExpiry: number): { forward: number; impliedCarry: number } {
+  const points = curve.points;
+  let impliedCarry: number;
+  
+  if (timeToExpiry <= points[0].timeToExpiry) {
+    impliedCarry = points[0].impliedCarry;
+  } else if (timeToExpiry >= points[points.length - 1].timeToExpiry) {
+    impliedCarry = points[points.length - 1].impliedCarry;
+  } else {
+    const upper = points.findIndex(p => p.timeToExpiry >= timeToExpiry);
+    const lo = points[upper - 1];
+    const hi = points[upper];
+    const weight = (timeToExpiry - lo.timeToExpiry) / (hi.timeToExpiry - lo.timeToExpiry);
+    impliedCarry = lo.impliedCarry + weight * (hi.impliedCarry - lo.impliedCarry);
+  }
+  
+  return { forward: curve.indexPrice * Math.exp(impliedCarry * timeToExpiry), impliedCarry };
+}
+
+// 到期前不足 1 天的合約不納入期限結構
+const MIN_TERM_STRUCTURE_DAYS = 1;
+
+/**
+ * 以單次 book summary 取得所有到期日的 ATM 隱含波動率（交易所 mark_iv）
+ * 各到期日的遠期為 underlying_price 中位數，ATM 波動率在 ln(K/F) 上對遠期兩側最近履約價線性內插
+ */
+export async function fetchAtmTermStructure(token: Token, now: Date = new Date()): Promise<TermStructurePoint[]> {
+  const cacheKey = `atm_term_structure_${token}`;
+  const cached = apiCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    return cached.data;
+  }
+  
+  const summaries = await callDeribitPublicAPI('get_book_summary_by_currency', { currency: token, kind: 'option' });
+  
+  // 到期日 → 履約價 → 該履約價 call/put 的 mark_iv
+  const byExpiry = new Map<string, { underlyingPrices: number[]; strikes: Map<number, number[]> }>();
+  for (const summary of summaries as any[]) {
+    const parsed = parseInstrumentName(String(summary.instrument_name));
+    if (!parsed || !(summary.mark_iv > 0)) continue;
     
-    return new Date(year, month, day);
-  } catch {
-    return null;
+    if (!byExpiry.has(parsed.expiry)) {
+      byExpiry.set(parsed.expiry, { underlyingPrices: [], strikes: new Map() });
+    }
+    const entry = byExpiry.get(parsed.expiry)!;
+    if (summary.underlying_price > 0) entry.underlyingPrices.push(summary.underlying_price);
+    if (!entry.strikes.has(parsed.strike)) entry.strikes.set(parsed.strike, []);
+    entry.strikes.get(parsed.strike)!.push(summary.mark_iv);
+  }
+  
+  const points: TermStructurePoint[] = [];
+  for (const [expiry, entry] of byExpiry) {
+    const expiryDate = parseExpiryDate(expiry);
+    if (!expiryDate || entry.underlyingPrices.length === 0) continue;
+    
+    const timeToExpiry = (expiryDate.getTime() - now.getTime()) / (365 * 24 * 60 * 60 * 1000);
+    if (timeToExpiry * 365 < MIN_TERM_STRUCTURE_DAYS) continue;
+    
+    const forward = medianUnderlyingPrice(entry.underlyingPrices, 0);
+    const quotes = Array.from(entry.strikes.entries())
+      .map(([strike, ivs]) => ({ k: Math.log(strike / forward), iv: ivs.reduce((sum, iv) => sum + iv, 0) / ivs.length }))
+      .sort((a, b) => a.k - b.k);
+    
+    const upper = quotes.findIndex(quote => quote.k >= 0);
+    let atmVol: number;
+    if (upper === -1) {
+      atmVol = quotes[quotes.length - 1].iv;
+    } else if (upper === 0) {
+      atmVol = quotes[0].iv;
+    } else {
+      const lo = quotes[upper - 1];
+      const hi = quotes[upper];
+      atmVol = lo.iv + (hi.iv - lo.iv) * (0 - lo.k) / (hi.k - lo.k);
+    }
+    
+    points.push({ expiry, timeToExpiry, atmVol });
   }
+  
+  points.sort((a, b) => a.timeToExpiry - b.timeToExpiry);
+  console.log(`ATM term structure ${token}: ${points.map(point => `${point.expiry} ${point.atmVol.toFixed(1)}%`).join(', ')}`);
+  
+  apiCache.set(cacheKey, { data: points, timestamp: Date.now() });
+  return points;
+}
+
+/**
+ * 以選擇權 put-call parity 推算遠期，交叉驗證期貨曲線
+ * Deribit 選擇權以幣本位報價（USD 價值 = 幣價 × 標的遠期）且以零利率標記，
+ * 因此以固定點迭代 F = K + (C - P) × F，取最接近遠期的 3 個履約價之中位數
+ */
+function parityForward(optionsData: OptionData[], initialForward: number, timeToExpiry: number): number | undefined {
+  const nearest = optionsData
+    .filter(option => option.callPrice > 0 && option.putPrice > 0)
+    .sort((a, b) => Math.abs(a.strike - initialForward) - Math.abs(b.strike - initialForward))
+    .slice(0, 3);
+  
+  const forwards = nearest.map(option => {
+    let forward = initialForward;
+    for (let i = 0; i < 20; i++) {
+      const next = calculateImpliedForward(option.callPrice * forward, option.putPrice * forward, option.strike, 0, timeToExpiry);
+      if (!(next > 0)) return NaN;
+      const converged = Math.abs(next - forward) < 1e-8 * forward;
+      forward = next;
+      if (converged) break;
+    }
+    return forward;
+  }).filter(Number.isFinite).sort((a, b) => a - b);
+  
+  return forwards.length > 0 ? forwards[Math.floor(forwards.length / 2)] : undefined;
 }
 
 // 價格選擇類型
 export type PriceType = 'mark' | 'mid' | 'last';
 
-// 智能雙到期日選擇函數
+export const PRICE_TYPES: readonly PriceType[] = ['mark', 'mid', 'last'];
+
+// 標的遠期：取該到期日各合約 underlying_price 的中位數，缺少時使用備用值
+function medianUnderlyingPrice(underlyingPrices: number[], fallback: number): number {
+  if (underlyingPrices.length === 0) return fallback;
+  const sorted = [...underlyingPrices].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * 以所選價格類型 (mark/mid/last) 反推各履約價的隱含波動率，取代直接採用 mark_iv
+ * Deribit 選擇權以幣本位報價且以零利率標記，USD 價格 = 幣價 × 標的遠期
+ */
+function applySolvedImpliedVolatility(options: OptionData[], forward: number, timeToExpiry: number): void {
+  for (const option of options) {
+    const solution = solveOptionPairImpliedVolatility(getPricingModel('black-scholes'), {
+      callPrice: option.callPrice * forward,
+      putPrice: option.putPrice * forward,
+      forward,
+      strike: option.strike,
+      timeToExpiry,
+      marketIV: option.impliedVol
+    });
+    option.ivSolution = solution;
+    option.impliedVol = solution.impliedVol;
+  }
+  
+  const flagged = options.filter(option => option.ivSolution!.flags.length > 0);
+  if (flagged.length > 0) {
+    console.warn(`IV solver flagged ${flagged.length}/${options.length} strikes: ${flagged.map(option => `${option.strike} [${option.ivSolution!.flags.join(', ')}]`).join('; ')}`);
+  }
+}
+
+// 智能雙到期日選擇函數：目標在兩個到期日之間時內插，否則以擬合的期限結構自最近的到期日外推
 function findOptimalExpiryPair(
   expiryDates: Map<string, Date>, 
-  targetDate: Date
+  targetDate: Date,
+  termStructureModel: TermStructureModel
 ): {
   shortExpiry: string;
   longExpiry: string;
@@ -303,12 +501,12 @@ function findOptimalExpiryPair(
     const [shortExp, shortDate] = lastTwoExpiries[0];
     const [longExp, longDate] = lastTwoExpiries[1];
     
-    console.log(`✅ 策略: EXTRAPOLATION using ${shortExp} and ${longExp} (目標超出所有可用期限)`);
-    console.log(`使用最後兩個到期日進行外推: ${shortExp}(${shortDate.toDateString()}) -> ${longExp}(${longDate.toDateString()}) -> 目標(${targetDate.toDateString()})`);
+    console.log(`✅ 策略: ${termStructureModel} from ${longExp} (目標超出所有可用期限)`);
+    console.log(`以期限結構自最後到期日外推: ${shortExp}(${shortDate.toDateString()}) -> ${longExp}(${longDate.toDateString()}) -> 目標(${targetDate.toDateString()})`);
     return {
       shortExpiry: shortExp,
       longExpiry: longExp,
-      strategy: ExtrapolationStrategy.EXTRAPOLATION
+      strategy: termStructureModel
     };
   }
   
@@ -318,12 +516,12 @@ function findOptimalExpiryPair(
     const [shortExp2, shortDate2] = firstTwoExpiries[0];
     const [longExp2, longDate2] = firstTwoExpiries[1];
     
-    console.log(`✅ 策略: BOUNDED_EXTRAPOLATION using ${shortExp2} and ${longExp2} (目標短於最短期限)`);
-    console.log(`使用前兩個到期日進行有界外推: 目標(${targetDate.toDateString()}) <- ${shortExp2}(${shortDate2.toDateString()}) <- ${longExp2}(${longDate2.toDateString()})`);
+    console.log(`✅ 策略: ${termStructureModel} from ${shortExp2} (目標短於最短期限)`);
+    console.log(`以期限結構自最短到期日外推: 目標(${targetDate.toDateString()}) <- ${shortExp2}(${shortDate2.toDateString()}) <- ${longExp2}(${longDate2.toDateString()})`);
     return {
       shortExpiry: shortExp2,
       longExpiry: longExp2,
-      strategy: ExtrapolationStrategy.BOUNDED_EXTRAPOLATION
+      strategy: termStructureModel
     };
   }
   
@@ -378,22 +576,7 @@ export async function fetchOptionsChain(
     
     // 計算目標到期日
     const now = new Date();
-    const targetDate = new Date(now);
-    
-    switch (period) {
-      case '3M':
-        targetDate.setMonth(now.getMonth() + 3);
-        break;
-      case '6M':
-        targetDate.setMonth(now.getMonth() + 6);
-        break;
-      case '1Y':
-        targetDate.setFullYear(now.getFullYear() + 1);
-        break;
-      case '2Y':
-        targetDate.setFullYear(now.getFullYear() + 2);
-        break;
-    }
+    const targetDate = lockupPeriodToDate(period, now);
     
     console.log(`Target date for ${period}: ${targetDate.toDateString()}`);
     
@@ -481,6 +664,7 @@ export async function fetchOptionsChain(
     
     // 組織成選擇權鏈格式
     const optionsMap = new Map<number, Partial<OptionData>>();
+    const underlyingPrices: number[] = [];
     
     for (const result of validResults) {
       const parsed = parseInstrumentName(result!.name);
@@ -554,8 +738,9 @@ export async function fetchOptionsChain(
         console.log(`Put ${strike}: Mark=${markPrice.toFixed(6)}, Mid=${midPrice.toFixed(6)}, Last=${lastPrice.toFixed(6)}, Final=${option.putPrice?.toFixed(6) || '0'}`);
       }
       
-      // 使用implied volatility
+      // 交易所標記IV，稍後由所選價格反推的IV取代
       option.impliedVol = priceData.mark_iv || 0;
+      if (priceData.underlying_price > 0) underlyingPrices.push(priceData.underlying_price);
     }
     
     // 過濾出有完整call和put數據的合約
@@ -572,6 +757,9 @@ export async function fetchOptionsChain(
     
     console.log(`Complete option pairs found: ${completeOptions.length}`);
     
+    const timeToExpiry = daysBetween(now, expiryDates.get(closestExpiry)!) / 365;
+    applySolvedImpliedVolatility(completeOptions, medianUnderlyingPrice(underlyingPrices, spotPrice), timeToExpiry);
+    
     if (completeOptions.length > 0) {
       console.log('Sample option data:', {
         strike: completeOptions[0].strike,
@@ -589,109 +777,248 @@ export async function fetchOptionsChain(
   }
 }
 
-// 新的雙到期日選擇權數據獲取函數
+type ExpiryOptionsChain = { options: OptionData[] } & ArbitrageReport;
+
+/**
+ * 同一請求內多個期限共用的 Deribit 市場數據：合約清單、期貨遠期曲線與所有到期日的 ATM 隱含波動率
+ * 各到期日的選擇權鏈在首次使用時取得並快取，歸屬計畫的多個分批期限不會重複抓取
+ */
+export interface OptionsMarketSnapshot {
+  token: Token;
+  now: Date;
+  spotPrice: number;
+  priceType: PriceType;
+  instrumentsByExpiry: Map<string, string[]>;
+  expiryDates: Map<string, Date>;
+  forwardCurve: ForwardCurve | null;
+  atmTermStructure: TermStructurePoint[];
+  chains: Map<string, Promise<ExpiryOptionsChain>>;
+}
+
+// 取得合約清單、遠期曲線與 ATM 期限結構；遠期曲線或期限結構失敗時記錄警告並以空值回退
+export async function fetchOptionsMarketSnapshot(
+  token: Token,
+  spotPrice: number,
+  priceType: PriceType = 'mark',
+  now: Date = new Date()
+): Promise<OptionsMarketSnapshot> {
+  // 獲取所有可用合約
+  const instruments = await fetchAvailableInstruments(token);
+  console.log(`Total instruments available: ${instruments.length}`);
+  
+  // 分析所有合約並建立到期日映射
+  const instrumentsByExpiry = new Map<string, string[]>();
+  const expiryDates = new Map<string, Date>();
+  
+  for (const name of instruments) {
+    const parsed = parseInstrumentName(name);
+    if (!parsed) continue;
+    
+    // 只取strike價格在現價附近的合約 (±50%)
+    const strikeDiff = Math.abs(parsed.strike - spotPrice) / spotPrice;
+    if (strikeDiff > 0.5) continue;
+    
+    if (!instrumentsByExpiry.has(parsed.expiry)) {
+      instrumentsByExpiry.set(parsed.expiry, []);
+      const expiryDate = parseExpiryDate(parsed.expiry);
+      if (expiryDate) {
+        expiryDates.set(parsed.expiry, expiryDate);
+      }
+    }
+    
+    instrumentsByExpiry.get(parsed.expiry)!.push(name);
+  }
+  
+  // Deribit 期貨遠期曲線；取得失敗時回退為現貨定價
+  let forwardCurve: ForwardCurve | null = null;
+  try {
+    forwardCurve = await fetchForwardCurve(token, now);
+  } catch (error) {
+    console.warn('Forward curve unavailable, pricing off spot:', error instanceof Error ? error.message : error);
+  }
+  
+  // 所有到期日的 ATM 隱含波動率；取得失敗時僅以所選兩個到期日擬合
+  let atmTermStructure: TermStructurePoint[] = [];
+  try {
+    atmTermStructure = await fetchAtmTermStructure(token, now);
+  } catch (error) {
+    console.warn('ATM term structure unavailable, fitting the selected expiries only:', error instanceof Error ? error.message : error);
+  }
+  
+  return { token, now, spotPrice, priceType, instrumentsByExpiry, expiryDates, forwardCurve, atmTermStructure, chains: new Map() };
+}
+
+// 取得快照中某到期日的選擇權鏈，首次使用時抓取；抓取失敗時移除快取，之後的查詢重新抓取
+function snapshotOptionsForExpiry(snapshot: OptionsMarketSnapshot, expiry: string, timeToExpiry: number, forward: number | undefined): Promise<ExpiryOptionsChain> {
+  let chain = snapshot.chains.get(expiry);
+  if (!chain) {
+    const instruments = snapshot.instrumentsByExpiry.get(expiry) || [];
+    console.log(`Fetching ${expiry}: ${instruments.length} instruments`);
+    const pending = fetchOptionsForExpiry(instruments, expiry, snapshot.priceType, timeToExpiry, forward ?? snapshot.spotPrice);
+    pending.catch(() => {
+      if (snapshot.chains.get(expiry) === pending) snapshot.chains.delete(expiry);
+    });
+    snapshot.chains.set(expiry, pending);
+    chain = pending;
+  }
+  return chain;
+}
+
+// 新的雙到期日選擇權數據獲取函數；傳入 snapshot 時重用其市場數據（多個期限共用一次抓取）
 export async function fetchDualExpiryOptionsData(
   token: Token,
   period: LockupPeriod,
   spotPrice: number,
-  priceType: PriceType = 'mark'
+  priceType: PriceType = 'mark',
+  termStructureModel: TermStructureModel = DEFAULT_TERM_STRUCTURE_MODEL,
+  snapshot?: OptionsMarketSnapshot
 ): Promise<DualExpiryData | null> {
   try {
-    // 獲取所有可用合約
-    const instruments = await fetchAvailableInstruments(token);
-    console.log(`Total instruments available: ${instruments.length}`);
+    const market = snapshot ?? await fetchOptionsMarketSnapshot(token, spotPrice, priceType);
+    const { now, expiryDates, forwardCurve } = market;
     
     // 計算目標到期日
-    const now = new Date();
-    const targetDate = new Date(now);
-    
-    switch (period) {
-      case '3M':
-        targetDate.setMonth(now.getMonth() + 3);
-        break;
-      case '6M':
-        targetDate.setMonth(now.getMonth() + 6);
-        break;
-      case '1Y':
-        targetDate.setFullYear(now.getFullYear() + 1);
-        break;
-      case '2Y':
-        targetDate.setFullYear(now.getFullYear() + 2);
-        break;
-    }
-    
-    // 分析所有合約並建立到期日映射
-    const instrumentsByExpiry = new Map<string, string[]>();
-    const expiryDates = new Map<string, Date>();
-    
-    for (const name of instruments) {
-      const parsed = parseInstrumentName(name);
-      if (!parsed) continue;
-      
-      // 只取strike價格在現價附近的合約 (±50%)
-      const strikeDiff = Math.abs(parsed.strike - spotPrice) / spotPrice;
-      if (strikeDiff > 0.5) continue;
-      
-      if (!instrumentsByExpiry.has(parsed.expiry)) {
-        instrumentsByExpiry.set(parsed.expiry, []);
-        const expiryDate = parseExpiryDate(parsed.expiry);
-        if (expiryDate) {
-          expiryDates.set(parsed.expiry, expiryDate);
-        }
-      }
-      
-      instrumentsByExpiry.get(parsed.expiry)!.push(name);
-    }
+    const targetDate = lockupPeriodToDate(period, now);
     
     // 使用智能雙到期日選擇
-    const expiryPair = findOptimalExpiryPair(expiryDates, targetDate);
+    const expiryPair = findOptimalExpiryPair(expiryDates, targetDate, termStructureModel);
     if (!expiryPair) {
       console.error('無法找到適合的雙到期日組合');
       return null;
     }
     
-    // 獲取兩個到期日的選擇權數據
-    const shortTermInstruments = instrumentsByExpiry.get(expiryPair.shortExpiry) || [];
-    const longTermInstruments = instrumentsByExpiry.get(expiryPair.longExpiry) || [];
-    
-    console.log(`Short term (${expiryPair.shortExpiry}): ${shortTermInstruments.length} instruments`);
-    console.log(`Long term (${expiryPair.longExpiry}): ${longTermInstruments.length} instruments`);
+    // 計算到期時間（年為單位）
+    const shortTermTimeToExpiry = daysBetween(now, expiryDates.get(expiryPair.shortExpiry)!) / 365;
+    const longTermTimeToExpiry = daysBetween(now, expiryDates.get(expiryPair.longExpiry)!) / 365;
+    const targetTimeToExpiry = daysBetween(now, targetDate) / 365;
     
-    // 獲取短期選擇權數據
-    const shortTermOptions = await fetchOptionsForExpiry(shortTermInstruments, expiryPair.shortExpiry, priceType);
+    const shortTermForward = forwardCurve ? forwardFromCurve(forwardCurve, shortTermTimeToExpiry).forward : undefined;
+    const longTermForward = forwardCurve ? forwardFromCurve(forwardCurve, longTermTimeToExpiry).forward : undefined;
     
-    // 獲取長期選擇權數據  
-    const longTermOptions = await fetchOptionsForExpiry(longTermInstruments, expiryPair.longExpiry, priceType);
+    // 獲取兩個到期日的選擇權數據
+    const { options: shortTermOptions, ...shortTermArbitrage } = await snapshotOptionsForExpiry(market, expiryPair.shortExpiry, shortTermTimeToExpiry, shortTermForward);
+    const { options: longTermOptions, ...longTermArbitrage } = await snapshotOptionsForExpiry(market, expiryPair.longExpiry, longTermTimeToExpiry, longTermForward);
     
     if (shortTermOptions.length === 0 || longTermOptions.length === 0) {
       console.error('無法獲取足夠的雙到期日選擇權數據');
       return null;
     }
     
-    // 計算到期時間（年為單位）
-    const shortTermTimeToExpiry = daysBetween(now, expiryDates.get(expiryPair.shortExpiry)!) / 365;
-    const longTermTimeToExpiry = daysBetween(now, expiryDates.get(expiryPair.longExpiry)!) / 365;
-    const targetTimeToExpiry = daysBetween(now, targetDate) / 365;
+    let forward: ForwardInfo | undefined;
+    if (forwardCurve) {
+      const target = forwardFromCurve(forwardCurve, targetTimeToExpiry);
+      const checks = [
+        { expiry: expiryPair.shortExpiry, futuresForward: shortTermForward!, options: shortTermOptions, time: shortTermTimeToExpiry },
+        { expiry: expiryPair.longExpiry, futuresForward: longTermForward!, options: longTermOptions, time: longTermTimeToExpiry }
+      ].map(({ expiry, futuresForward, options, time }) => {
+        const parity = parityForward(options, futuresForward, time);
+        return {
+          expiry,
+          futuresForward,
+          ...(parity !== undefined && {
+            parityForward: parity,
+            deviation: (parity / futuresForward - 1) * 100
+          })
+        };
+      });
+      
+      for (const check of checks) {
+        console.log(`Forward ${check.expiry}: futures $${check.futuresForward.toFixed(2)}, parity ${check.parityForward ? `$${check.parityForward.toFixed(2)} (${check.deviation!.toFixed(2)}%)` : 'N/A'}`);
+      }
+      
+      forward = {
+        indexPrice: forwardCurve.indexPrice,
+        targetForward: target.forward,
+        impliedCarry: target.impliedCarry,
+        basis: (target.forward / forwardCurve.indexPrice - 1) * 100,
+        checks,
+        curve: forwardCurve.points
+      };
+    }
     
-    // 計算平均隱含波動率
+    // 計算短期平均隱含波動率（由所選價格反推），並擬合短期波動率微笑 (raw SVI)，以遠期 moneyness 為座標，供逐履約價取隱含波動率
     const shortTermAvgIV = shortTermOptions.reduce((sum, opt) => sum + opt.impliedVol, 0) / shortTermOptions.length;
-    const longTermAvgIV = longTermOptions.reduce((sum, opt) => sum + opt.impliedVol, 0) / longTermOptions.length;
+    const shortTermSmile = fitSviSmile(shortTermOptions, shortTermForward ?? spotPrice, shortTermTimeToExpiry);
+    
+    const shortTerm: DualExpiryData['shortTerm'] = {
+      expiry: expiryPair.shortExpiry,
+      timeToExpiry: shortTermTimeToExpiry,
+      impliedVol: shortTermAvgIV,
+      optionsData: shortTermOptions,
+      ...(shortTermSmile && { smile: shortTermSmile }),
+      ...(shortTermForward && { forward: shortTermForward })
+    };
+    
+    // 兩個到期日間的日曆價差檢查（以長期報價的隱含波動率比較）：違反的長期履約價在擬合微笑與平均之前剔除
+    const calendar = removeCalendarArbitrage(shortTerm, {
+      expiry: expiryPair.longExpiry,
+      timeToExpiry: longTermTimeToExpiry,
+      impliedVol: longTermOptions.reduce((sum, opt) => sum + opt.impliedVol, 0) / longTermOptions.length,
+      optionsData: longTermOptions,
+      ...(longTermForward && { forward: longTermForward })
+    });
+    const longTermCleanOptions = calendar.longTermOptions;
+    if (longTermCleanOptions.length === 0) {
+      console.error('長期到期日所有履約價均違反日曆價差檢查');
+      return null;
+    }
+    
+    const longTermAvgIV = longTermCleanOptions.reduce((sum, opt) => sum + opt.impliedVol, 0) / longTermCleanOptions.length;
+    const longTermSmile = fitSviSmile(longTermCleanOptions, longTermForward ?? spotPrice, longTermTimeToExpiry);
+    
+    for (const [expiry, smile] of [[expiryPair.shortExpiry, shortTermSmile], [expiryPair.longExpiry, longTermSmile]] as const) {
+      if (smile) {
+        console.log(`SVI smile ${expiry}: ${smile.points} quotes, RMSE ${smile.rmse.toFixed(2)} vol pts`);
+      } else {
+        console.warn(`SVI smile ${expiry}: fit unavailable, using average IV`);
+      }
+    }
+    
+    // 以所有到期日的 ATM 隱含波動率擬合期限結構；取得失敗時僅以所選兩個到期日擬合
+    let termStructurePoints = market.atmTermStructure;
+    const termStructureSource = termStructurePoints.length >= 2 ? 'deribit_book_summary' : 'selected_expiries';
+    if (termStructureSource === 'selected_expiries') {
+      termStructurePoints = [
+        {
+          expiry: expiryPair.shortExpiry,
+          timeToExpiry: shortTermTimeToExpiry,
+          atmVol: shortTermSmile ? smileImpliedVolatility(shortTermSmile, shortTermSmile.referencePrice) : shortTermAvgIV
+        },
+        {
+          expiry: expiryPair.longExpiry,
+          timeToExpiry: longTermTimeToExpiry,
+          atmVol: longTermSmile ? smileImpliedVolatility(longTermSmile, longTermSmile.referencePrice) : longTermAvgIV
+        }
+      ];
+    }
+    
+    // ATM 總方差須隨期限遞增，違反者先修正再擬合
+    const termStructureRepair = repairTermStructureCalendar(termStructurePoints);
+    const termStructure = fitTermStructure(termStructureRepair.points, termStructureModel, termStructureSource);
+    
+    const longTerm: DualExpiryData['longTerm'] = {
+      expiry: expiryPair.longExpiry,
+      timeToExpiry: longTermTimeToExpiry,
+      impliedVol: longTermAvgIV,
+      optionsData: longTermCleanOptions,
+      ...(longTermSmile && { smile: longTermSmile }),
+      ...(longTermForward && { forward: longTermForward })
+    };
+    
+    const violations = [...shortTermArbitrage.violations, ...longTermArbitrage.violations, ...calendar.violations, ...termStructureRepair.violations];
+    const excludedContracts = shortTermArbitrage.excludedContracts + longTermArbitrage.excludedContracts + calendar.violations.length;
+    if (violations.length > 0) {
+      console.warn(`Arbitrage checks: ${violations.length} violations, ${excludedContracts} contracts excluded`);
+    }
     
     return {
-      shortTerm: {
-        expiry: expiryPair.shortExpiry,
-        timeToExpiry: shortTermTimeToExpiry,
-        impliedVol: shortTermAvgIV,
-        optionsData: shortTermOptions
-      },
-      longTerm: {
-        expiry: expiryPair.longExpiry,
-        timeToExpiry: longTermTimeToExpiry,
-        impliedVol: longTermAvgIV,
-        optionsData: longTermOptions
-      },
+      shortTerm,
+      longTerm,
       strategy: expiryPair.strategy,
-      targetTimeToExpiry: targetTimeToExpiry
+      termStructure,
+      arbitrage: { violations, excludedContracts },
+      targetTimeToExpiry: targetTimeToExpiry,
+      ...(forward && { forward })
     };
     
   } catch (error) {
@@ -700,13 +1027,15 @@ export async function fetchDualExpiryOptionsData(
   }
 }
 
-// 輔助函數：獲取特定到期日的選擇權數據
+// 輔助函數：獲取特定到期日的選擇權數據，並以所選價格反推隱含波動率；違反靜態無套利條件的履約價會被剔除
 async function fetchOptionsForExpiry(
   instruments: string[], 
   expiry: string,
-  priceType: PriceType
-): Promise<OptionData[]> {
-  if (instruments.length === 0) return [];
+  priceType: PriceType,
+  timeToExpiry: number,
+  fallbackForward: number // 合約缺少 underlying_price 時使用的遠期
+): Promise<{ options: OptionData[] } & ArbitrageReport> {
+  if (instruments.length === 0) return { options: [], violations: [], excludedContracts: 0 };
   
   // 分批處理請求
   const batchSize = 5;
@@ -739,6 +1068,7 @@ async function fetchOptionsForExpiry(
   
   // 組織成選擇權鏈格式
   const optionsMap = new Map<number, Partial<OptionData>>();
+  const underlyingPrices: number[] = [];
   
   for (const result of validResults) {
     const parsed = parseInstrumentName(result!.name);
@@ -798,13 +1128,18 @@ async function fetchOptionsForExpiry(
       option.putAsk = priceData.ask_price || 0;
     }
     
-    // 使用implied volatility
+    // 交易所標記IV，稍後由所選價格反推的IV取代
     option.impliedVol = priceData.mark_iv || 0;
+    if (priceData.underlying_price > 0) underlyingPrices.push(priceData.underlying_price);
   }
   
   // 過濾出有完整call和put數據的合約
   const completeOptions = Array.from(optionsMap.values())
     .filter(option => option.callPrice! > 0 && option.putPrice! > 0) as OptionData[];
-    
-  return completeOptions.sort((a, b) => a.strike - b.strike);
+  
+  const forward = medianUnderlyingPrice(underlyingPrices, fallbackForward);
+  applySolvedImpliedVolatility(completeOptions, forward, timeToExpiry);
+  
+  // Put-call parity、垂直價差與蝶式價差檢查（結果已依履約價排序）
+  return removeStaticArbitrage(completeOptions, forward, expiry);
 }
\ No newline at end of file
@@ -0,0 +1,79 @@
+// Generalized Black-Scholes (cost-of-carry b): b = r is Black-Scholes, b = 0 on a forward is Black-76
+
+import { ContractGreeks } from '@/types';
+import { OptionPricingModel, OptionSide, PricingInputs } from './model';
+import { normalCdf, normalPdf } from './normal';
+import { solveImpliedVolatility } from './impliedVolatility';
+
+function d1d2(inputs: PricingInputs, carry: number): { d1: number; d2: number } {
+  const { spot: S, strike: K, timeToExpiry: T, volatility: sigma } = inputs;
+  const sigmaSqrtT = sigma * Math.sqrt(T);
+  const d1 = (Math.log(S / K) + (carry + 0.5 * sigma * sigma) * T) / sigmaSqrtT;
+  return { d1, d2: d1 - sigmaSqrtT };
+}
+
+export function blackScholesPrice(side: OptionSide, inputs: PricingInputs): number {
+  const { spot: S, strike: K, timeToExpiry: T, riskFreeRate: r } = inputs;
+  const b = inputs.carry ?? r;
+  const { d1, d2 } = d1d2(inputs, b);
+  const carryFactor = Math.exp((b - r) * T);
+  const discountFactor = Math.exp(-r * T);
+
+  return side === 'call'
+    ? S * carryFactor * normalCdf(d1) - K * discountFactor * normalCdf(d2)
+    : K * discountFactor * normalCdf(-d2) - S * carryFactor * normalCdf(-d1);
+}
+
+/**
+ * Call/Put 完整敏感度
+ * 未提供 carry 時 b = r（標準 Black-Scholes）；提供時代表遠期由市場給定（例如期貨曲線），
+ * rho 以遠期固定計算（= -T × 價格）
+ */
+export function blackScholesGreeks(inputs: PricingInputs): ContractGreeks {
+  const { spot: S, strike: K, timeToExpiry: T, riskFreeRate: r, volatility: sigma, carry } = inputs;
+  const b = carry ?? r;
+  const { d1, d2 } = d1d2(inputs, b);
+  const sqrtT = Math.sqrt(T);
+  const carryFactor = Math.exp((b - r) * T);
+  const discountFactor = Math.exp(-r * T);
+  const density = normalPdf(d1);
+
+  const gamma = carryFactor * density / (S * sigma * sqrtT);
+  const vega = S * carryFactor * density * sqrtT / 100;
+  const timeDecay = -S * carryFactor * density * sigma / (2 * sqrtT);
+
+  const callTheta = timeDecay - (b - r) * S * carryFactor * normalCdf(d1) - r * K * discountFactor * normalCdf(d2);
+  const putTheta = timeDecay + (b - r) * S * carryFactor * normalCdf(-d1) + r * K * discountFactor * normalCdf(-d2);
+
+  const callRho = carry === undefined
+    ? K * T * discountFactor * normalCdf(d2)
+    : -T * blackScholesPrice('call', inputs);
+  const putRho = carry === undefined
+    ? -K * T * discountFactor * normalCdf(-d2)
+    : -T * blackScholesPrice('put', inputs);
+
+  return {
+    call: {
+      delta: carryFactor * normalCdf(d1),
+      gamma,
+      vega,
+      theta: callTheta / 365,
+      rho: callRho / 100
+    },
+    put: {
+      delta: -carryFactor * normalCdf(-d1),
+      gamma,
+      vega,
+      theta: putTheta / 365,
+      rho: putRho / 100
+    }
+  };
+}
+
+export const blackScholesModel: OptionPricingModel = {
+  name: 'black-scholes',
+  label: 'Black-Scholes',
+  price: blackScholesPrice,
+  greeks: blackScholesGreeks,
+  impliedVolatility: (price, side, inputs) => solveImpliedVolatility(blackScholesModel, price, side, inputs)
+};
@@ -0,0 +1,189 @@
+// Implied-volatility solver: backs out any engine model's volatility from option prices
+
+import { ImpliedVolSolution, IVSolverFlag } from '@/types';
+import { OptionPricingModel, OptionSide, PricingInputs, ImpliedVolResult } from './model';
+
+// 波動率搜尋區間（年化，小數）
+const MIN_VOLATILITY = 1e-4;
+const MAX_VOLATILITY = 10;
+
+// 價格收斂容差（相對於現貨/遠期價格）
+const PRICE_TOLERANCE = 1e-10;
+
+// Call/Put 隱含波動率差異超過此值（百分點）時標記
+export const IV_DISAGREEMENT_THRESHOLD = 5;
+
+// Brent 求根法（f(lo) 與 f(hi) 需異號）
+function brent(f: (x: number) => number, lo: number, hi: number, tolerance: number, maxIterations: number = 100): { root: number | null; iterations: number } {
+  let a = lo;
+  let b = hi;
+  let fa = f(a);
+  let fb = f(b);
+  if (fa * fb > 0) return { root: null, iterations: 0 };
+
+  let c = a;
+  let fc = fa;
+  let d = b - a;
+  let e = d;
+
+  for (let iter = 1; iter <= maxIterations; iter++) {
+    if (fb * fc > 0) {
+      c = a;
+      fc = fa;
+      d = b - a;
+      e = d;
+    }
+    if (Math.abs(fc) < Math.abs(fb)) {
+      a = b; b = c; c = a;
+      fa = fb; fb = fc; fc = fa;
+    }
+
+    const tol = 2 * Number.EPSILON * Math.abs(b) + 0.5 * 1e-12;
+    const m = 0.5 * (c - b);
+    if (Math.abs(m) <= tol || Math.abs(fb) <= tolerance) {
+      return { root: b, iterations: iter };
+    }
+
+    if (Math.abs(e) >= tol && Math.abs(fa) > Math.abs(fb)) {
+      // 反二次插值或割線法
+      const s = fb / fa;
+      let p: number;
+      let q: number;
+      if (a === c) {
+        p = 2 * m * s;
+        q = 1 - s;
+      } else {
+        const qa = fa / fc;
+        const r = fb / fc;
+        p = s * (2 * m * qa * (qa - r) - (b - a) * (r - 1));
+        q = (qa - 1) * (r - 1) * (s - 1);
+      }
+      if (p > 0) q = -q;
+      else p = -p;
+
+      if (2 * p < Math.min(3 * m * q - Math.abs(tol * q), Math.abs(e * q))) {
+        e = d;
+        d = p / q;
+      } else {
+        d = m;
+        e = d;
+      }
+    } else {
+      d = m;
+      e = d;
+    }
+
+    a = b;
+    fa = fb;
+    b += Math.abs(d) > tol ? d : (m > 0 ? tol : -tol);
+    fb = f(b);
+  }
+
+  return { root: null, iterations: maxIterations };
+}
+
+/**
+ * 由選擇權價格反推模型的隱含波動率
+ * 先以 Newton 法（Brenner-Subrahmanyam 初始值，vega 取自模型）求解，vega 過小或跳出區間時改用 Brent 法
+ */
+export function solveImpliedVolatility(
+  model: OptionPricingModel,
+  price: number,
+  side: OptionSide,
+  inputs: Omit<PricingInputs, 'volatility'>
+): ImpliedVolResult {
+  const failed: ImpliedVolResult = { volatility: null, method: null, iterations: 0 };
+  const { spot, strike, timeToExpiry: T, riskFreeRate: r } = inputs;
+  if (!(price > 0) || !(spot > 0) || !(strike > 0) || !(T > 0)) return failed;
+
+  // 無套利邊界：內含價值 < 價格 < 上限（以折現遠期與折現履約價表示）
+  const b = inputs.carry ?? r;
+  const discountedForward = spot * Math.exp((b - r) * T);
+  const discountedStrike = strike * Math.exp(-r * T);
+  const intrinsic = Math.max(side === 'call' ? discountedForward - discountedStrike : discountedStrike - discountedForward, 0);
+  const upperBound = side === 'call' ? discountedForward : discountedStrike;
+  if (price <= intrinsic || price >= upperBound) return failed;
+
+  const tolerance = PRICE_TOLERANCE * spot;
+  const objective = (volatility: number) => model.price(side, { ...inputs, volatility }) - price;
+
+  let sigma = Math.sqrt(2 * Math.PI / T) * price / discountedForward;
+  sigma = Math.min(Math.max(sigma, 0.05), 3);
+
+  for (let iter = 1; iter <= 50; iter++) {
+    const diff = objective(sigma);
+    if (Math.abs(diff) <= tolerance) {
+      return { volatility: sigma, method: 'newton', iterations: iter };
+    }
+    // 模型 vega 以每 1 個百分點表示
+    const vega = model.greeks({ ...inputs, volatility: sigma })[side].vega * 100;
+    if (!(vega > 1e-12)) break;
+
+    const next = sigma - diff / vega;
+    if (!(next > MIN_VOLATILITY && next < MAX_VOLATILITY)) break;
+    sigma = next;
+  }
+
+  const { root, iterations } = brent(objective, MIN_VOLATILITY, MAX_VOLATILITY, tolerance);
+  return root === null ? failed : { volatility: root, method: 'brent', iterations };
+}
+
+/**
+ * 同一履約價的 Call/Put 隱含波動率與最終採用值 (%)
+ * 兩者皆成功且一致時取平均；不一致時取價外 (OTM) 一側；僅一側成功時採用該側；
+ * 皆失敗時回退為交易所標記IV
+ */
+export function solveOptionPairImpliedVolatility(model: OptionPricingModel, params: {
+  callPrice: number;
+  putPrice: number;
+  forward: number;
+  strike: number;
+  timeToExpiry: number;
+  marketIV: number; // 交易所標記IV (%)
+  riskFreeRate?: number;
+}): ImpliedVolSolution {
+  const { callPrice, putPrice, forward, strike, timeToExpiry, marketIV, riskFreeRate = 0 } = params;
+
+  // 以遠期定價：spot = 遠期、持有成本為 0
+  const inputs = { spot: forward, strike, timeToExpiry, riskFreeRate, carry: 0 };
+  const call = solveImpliedVolatility(model, callPrice, 'call', inputs);
+  const put = solveImpliedVolatility(model, putPrice, 'put', inputs);
+  const callIV = call.volatility !== null ? call.volatility * 100 : undefined;
+  const putIV = put.volatility !== null ? put.volatility * 100 : undefined;
+
+  const flags: IVSolverFlag[] = [];
+  if (callIV === undefined) flags.push('call-failed');
+  if (putIV === undefined) flags.push('put-failed');
+
+  let impliedVol: number;
+  let source: ImpliedVolSolution['source'];
+  if (callIV !== undefined && putIV !== undefined) {
+    if (Math.abs(callIV - putIV) > IV_DISAGREEMENT_THRESHOLD) {
+      flags.push('call-put-disagree');
+      source = strike >= forward ? 'call' : 'put';
+      impliedVol = source === 'call' ? callIV : putIV;
+    } else {
+      source = 'average';
+      impliedVol = (callIV + putIV) / 2;
+    }
+  } else if (callIV !== undefined) {
+    source = 'call';
+    impliedVol = callIV;
+  } else if (putIV !== undefined) {
+    source = 'put';
+    impliedVol = putIV;
+  } else {
+    source = 'market';
+    impliedVol = marketIV;
+  }
+
+  return {
+    impliedVol,
+    source,
+    marketIV,
+    ...(callIV !== undefined && { callIV, callMethod: call.method! }),
+    ...(putIV !== undefined && { putIV, putMethod: put.method! }),
+    forward,
+    flags
+  };
+}
@@ -0,0 +1,35 @@
+// Pricing engine: model registry plus shared pricing utilities
+// 新模型實作 OptionPricingModel 後加入 PRICING_ENGINE 並擴充 PricingModel 型別，即可透過 API 的 pricingModel 參數選用
+
+import { PricingModel } from '@/types';
+import { OptionPricingModel } from './model';
+import { blackScholesModel } from './blackScholes';
+import { mertonJumpModel } from './mertonJump';
+
+const PRICING_ENGINE: Record<PricingModel, OptionPricingModel> = {
+  'black-scholes': blackScholesModel,
+  'merton-jump': mertonJumpModel
+};
+
+export const PRICING_MODELS = Object.keys(PRICING_ENGINE) as PricingModel[];
+
+export const DEFAULT_PRICING_MODEL: PricingModel = 'black-scholes';
+
+export function getPricingModel(name: PricingModel = DEFAULT_PRICING_MODEL): OptionPricingModel {
+  return PRICING_ENGINE[name];
+}
+
+// 解析定價模型參數，未提供時使用 Black-Scholes，無效時返回 null
+export function parsePricingModel(value: string | null | undefined): PricingModel | null {
+  if (!value) return DEFAULT_PRICING_MODEL;
+  return (PRICING_MODELS as string[]).includes(value) ? value as PricingModel : null;
+}
+
+export const INVALID_PRICING_MODEL_MESSAGE =
+  `Invalid pricing model. Must be one of: ${PRICING_MODELS.join(', ')}`;
+
+export type { OptionPricingModel, OptionSide, PricingInputs, JumpInputs, ImpliedVolResult } from './model';
+export { normalCdf, normalPdf } from './normal';
+export { blackScholesModel } from './blackScholes';
+export { mertonJumpModel, jumpAdjustedVolatility } from './mertonJump';
+export { solveImpliedVolatility, solveOptionPairImpliedVolatility, IV_DISAGREEMENT_THRESHOLD } from './impliedVolatility';
@@ -0,0 +1,32 @@
+// Pricing model interface implemented by every engine model
+
+import { ContractGreeks, JumpDiffusionParameters, PricingModel, IVSolverMethod } from '@/types';
+
+export type OptionSide = 'call' | 'put';
+
+export type JumpInputs = Pick<JumpDiffusionParameters, 'jumpIntensity' | 'jumpMean' | 'jumpVolatility'>;
+
+export interface PricingInputs {
+  spot: number;          // 現貨價格（以遠期定價時傳入遠期並令 carry = 0）
+  strike: number;        // 履約價格
+  timeToExpiry: number;  // 到期時間（年）
+  riskFreeRate: number;  // 折現利率
+  volatility: number;    // 年化波動率（小數）；跳躍擴散模型為擴散部分
+  carry?: number;        // 年化持有成本 b，未提供時 b = riskFreeRate
+  jumps?: JumpInputs;    // 跳躍參數（僅跳躍擴散模型使用）
+}
+
+export interface ImpliedVolResult {
+  volatility: number | null; // 年化（小數），失敗時為 null
+  method: IVSolverMethod | null;
+  iterations: number;
+}
+
+export interface OptionPricingModel {
+  name: PricingModel;
+  label: string;
+  price(side: OptionSide, inputs: PricingInputs): number;
+  // vega 與 rho 以每 1 個百分點、theta 以每日曆日表示
+  greeks(inputs: PricingInputs): ContractGreeks;
+  impliedVolatility(price: number, side: OptionSide, inputs: Omit<PricingInputs, 'volatility'>): ImpliedVolResult;
+}
@@ -0,0 +1,49 @@
+// Standard normal distribution functions shared by every pricing model
+
+const SQRT_2PI = Math.sqrt(2 * Math.PI);
+
+/**
+ * 標準正態分佈累積函數 N(x)，雙精度（絕對誤差約 1e-14）
+ * Hart (1968) 有理函數近似，依 West (2005) "Better approximations to cumulative normal functions"
+ */
+export function normalCdf(x: number): number {
+  const z = Math.abs(x);
+  let tail: number;
+
+  if (z > 37) {
+    tail = 0;
+  } else {
+    const e = Math.exp(-0.5 * z * z);
+    if (z < 7.07106781186547) {
+      let n = 3.52624965998911e-2 * z + 0.700383064443688;
+      n = n * z + 6.37396220353165;
+      n = n * z + 33.912866078383;
+      n = n * z + 112.079291497871;
+      n = n * z + 221.213596169931;
+      n = n * z + 220.206867912376;
+      let d = 8.83883476483184e-2 * z + 1.75566716318264;
+      d = d * z + 16.064177579207;
+      d = d * z + 86.7807322029461;
+      d = d * z + 296.564248779674;
+      d = d * z + 637.333633378831;
+      d = d * z + 793.826512519948;
+      d = d * z + 440.413735824752;
+      tail = e * n / d;
+    } else {
+      // 遠尾端使用連分數
+      let b = z + 0.65;
+      b = z + 4 / b;
+      b = z + 3 / b;
+      b = z + 2 / b;
+      b = z + 1 / b;
+      tail = e / b / SQRT_2PI;
+    }
+  }
+
+  return x > 0 ? 1 - tail : tail;
+}
+
+// 標準正態分佈密度函數 n(x)
+export function normalPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / SQRT_2PI;
+}
@@ -0,0 +1,202 @@
+// ATM implied volatility term structure fitted across every listed expiry
+// 新策略實作 TermStructureStrategy 後加入 TERM_STRUCTURE_STRATEGIES 並擴充 ExtrapolationStrategy / TermStructureModel，即可透過 API 的 termStructure 參數選用
+
+import { ExtrapolationStrategy, TermStructureModel, TermStructurePoint, TermStructureResidual, TermStructureFit } from '@/types';
+import { solveLinearSystem } from './linearAlgebra';
+
+// 總方差下限，避免擬合曲線出現非正方差
+const MIN_TOTAL_VARIANCE = 1e-8;
+
+interface TermStructureStrategy {
+  minPoints: number;
+  // 擬合參數，資料無法支撐時返回 null（改用平坦遠期方差）
+  fit(nodes: TermStructurePoint[]): Record<string, number> | null;
+  // 總方差 w(T) = σ²(T)·T（小數）
+  totalVariance(parameters: Record<string, number>, nodes: TermStructurePoint[], timeToExpiry: number): number;
+}
+
+const nodeTotalVariance = (node: TermStructurePoint) => (node.atmVol / 100) ** 2 * node.timeToExpiry;
+
+/**
+ * 平坦遠期方差：節點間總方差線性內插（即各區間遠期方差固定），
+ * 最短期限之前延續首段 (σ 固定)，最長期限之後延續最後一段的遠期方差（下限為 0）
+ */
+const flatForwardStrategy: TermStructureStrategy = {
+  minPoints: 1,
+  fit(nodes) {
+    const last = nodes[nodes.length - 1];
+    const previous = nodes[nodes.length - 2];
+    const lastForwardVariance = previous
+      ? Math.max((nodeTotalVariance(last) - nodeTotalVariance(previous)) / (last.timeToExpiry - previous.timeToExpiry), 0)
+      : (last.atmVol / 100) ** 2;
+    return { lastForwardVol: Math.sqrt(lastForwardVariance) * 100 };
+  },
+  totalVariance(parameters, nodes, timeToExpiry) {
+    const first = nodes[0];
+    if (timeToExpiry <= first.timeToExpiry) {
+      return nodeTotalVariance(first) * timeToExpiry / first.timeToExpiry;
+    }
+    const last = nodes[nodes.length - 1];
+    if (timeToExpiry >= last.timeToExpiry) {
+      return nodeTotalVariance(last) + (parameters.lastForwardVol / 100) ** 2 * (timeToExpiry - last.timeToExpiry);
+    }
+    const upper = nodes.findIndex(node => node.timeToExpiry >= timeToExpiry);
+    const lo = nodes[upper - 1];
+    const hi = nodes[upper];
+    const weight = (timeToExpiry - lo.timeToExpiry) / (hi.timeToExpiry - lo.timeToExpiry);
+    return nodeTotalVariance(lo) + weight * (nodeTotalVariance(hi) - nodeTotalVariance(lo));
+  }
+};
+
+// 冪律：ln σ = ln a + b·ln T 的最小平方，a 為 1 年期 ATM 波動率 (%)
+const powerLawStrategy: TermStructureStrategy = {
+  minPoints: 2,
+  fit(nodes) {
+    const xs = nodes.map(node => Math.log(node.timeToExpiry));
+    const ys = nodes.map(node => Math.log(node.atmVol));
+    const n = nodes.length;
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+    let sxx = 0;
+    let sxy = 0;
+    for (let i = 0; i < n; i++) {
+      sxx += (xs[i] - meanX) ** 2;
+      sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    }
+    if (sxx <= 0) return null;
+    const b = sxy / sxx;
+    return { a: Math.exp(meanY - b * meanX), b };
+  },
+  totalVariance(parameters, _nodes, timeToExpiry) {
+    const vol = parameters.a / 100 * Math.pow(timeToExpiry, parameters.b);
+    return vol * vol * timeToExpiry;
+  }
+};
+
+// Nelson-Siegel 因子載荷，x = T / τ
+function nelsonSiegelLoadings(x: number): [number, number, number] {
+  const decay = Math.exp(-x);
+  const slope = x < 1e-8 ? 1 : (1 - decay) / x;
+  return [1, slope, slope - decay];
+}
+
+// τ 網格（年），對數間距；固定 τ 時 β 為線性最小平方
+const NELSON_SIEGEL_TAU_GRID = Array.from({ length: 40 }, (_, i) => 0.02 * Math.pow(150, i / 39));
+
+/**
+ * Nelson-Siegel 形式的平均方差 v(T) = w(T)/T = β0 + β1·(1 - e^(-x))/x + β2·((1 - e^(-x))/x - e^(-x))
+ * β0 為長期方差、β0 + β1 為瞬時方差；要求長期方差為正
+ */
+const nelsonSiegelStrategy: TermStructureStrategy = {
+  minPoints: 4,
+  fit(nodes) {
+    const variances = nodes.map(node => (node.atmVol / 100) ** 2);
+    let best: { beta: number[]; tau: number; sse: number } | null = null;
+
+    for (const tau of NELSON_SIEGEL_TAU_GRID) {
+      const rows = nodes.map(node => nelsonSiegelLoadings(node.timeToExpiry / tau));
+      const ata = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+      const atv = [0, 0, 0];
+      rows.forEach((row, i) => {
+        for (let r = 0; r < 3; r++) {
+          atv[r] += row[r] * variances[i];
+          for (let c = 0; c < 3; c++) ata[r][c] += row[r] * row[c];
+        }
+      });
+
+      const beta = solveLinearSystem(ata, atv);
+      if (!beta || !(beta[0] > 0)) continue;
+
+      const sse = rows.reduce((sum, row, i) => sum + (row[0] * beta[0] + row[1] * beta[1] + row[2] * beta[2] - variances[i]) ** 2, 0);
+      if (!best || sse < best.sse) best = { beta, tau, sse };
+    }
+
+    if (!best) return null;
+    return { beta0: best.beta[0], beta1: best.beta[1], beta2: best.beta[2], tau: best.tau, longRunVol: Math.sqrt(best.beta[0]) * 100 };
+  },
+  totalVariance(parameters, _nodes, timeToExpiry) {
+    const [level, slope, curvature] = nelsonSiegelLoadings(timeToExpiry / parameters.tau);
+    const averageVariance = parameters.beta0 * level + parameters.beta1 * slope + parameters.beta2 * curvature;
+    return averageVariance * timeToExpiry;
+  }
+};
+
+const TERM_STRUCTURE_STRATEGIES: Record<TermStructureModel, TermStructureStrategy> = {
+  [ExtrapolationStrategy.FLAT_FORWARD]: flatForwardStrategy,
+  [ExtrapolationStrategy.POWER_LAW]: powerLawStrategy,
+  [ExtrapolationStrategy.NELSON_SIEGEL]: nelsonSiegelStrategy
+};
+
+export const TERM_STRUCTURE_MODELS = Object.keys(TERM_STRUCTURE_STRATEGIES) as TermStructureModel[];
+
+export const DEFAULT_TERM_STRUCTURE_MODEL: TermStructureModel = ExtrapolationStrategy.FLAT_FORWARD;
+
+// 解析期限結構策略參數，未提供時使用平坦遠期方差，無效時返回 null
+export function parseTermStructureModel(value: string | null | undefined): TermStructureModel | null {
+  if (!value) return DEFAULT_TERM_STRUCTURE_MODEL;
+  return (TERM_STRUCTURE_MODELS as string[]).includes(value) ? value as TermStructureModel : null;
+}
+
+export const INVALID_TERM_STRUCTURE_MODEL_MESSAGE =
+  `Invalid term structure model. Must be one of: ${TERM_STRUCTURE_MODELS.join(', ')}`;
+
+export const EXTRAPOLATION_STRATEGY_LABELS: Record<ExtrapolationStrategy, string> = {
+  [ExtrapolationStrategy.INTERPOLATION]: 'Interpolation',
+  [ExtrapolationStrategy.FLAT_FORWARD]: 'Flat Forward Variance',
+  [ExtrapolationStrategy.POWER_LAW]: 'Power Law',
+  [ExtrapolationStrategy.NELSON_SIEGEL]: 'Nelson-Siegel'
+};
+
+/**
+ * 以所有到期日的 ATM 隱含波動率擬合總方差期限結構
+ * 所選策略資料點不足或無法擬合時回退為平坦遠期方差（requestedModel 保留原選擇）
+ */
+export function fitTermStructure(
+  points: TermStructurePoint[],
+  requestedModel: TermStructureModel = DEFAULT_TERM_STRUCTURE_MODEL,
+  source: TermStructureFit['source'] = 'deribit_book_summary'
+): TermStructureFit {
+  const nodes = points
+    .filter(point => point.timeToExpiry > 0 && point.atmVol > 0)
+    .sort((a, b) => a.timeToExpiry - b.timeToExpiry);
+
+  if (nodes.length === 0) {
+    throw new Error('No ATM implied volatilities available to fit a term structure');
+  }
+
+  const requested = TERM_STRUCTURE_STRATEGIES[requestedModel];
+  const requestedParameters = nodes.length >= requested.minPoints ? requested.fit(nodes) : null;
+  const model = requestedParameters ? requestedModel : DEFAULT_TERM_STRUCTURE_MODEL;
+  const parameters = requestedParameters || TERM_STRUCTURE_STRATEGIES[model].fit(nodes)!;
+
+  if (model !== requestedModel) {
+    console.warn(`Term structure: ${requestedModel} unavailable with ${nodes.length} expiries, using ${model}`);
+  }
+
+  const strategy = TERM_STRUCTURE_STRATEGIES[model];
+  const residuals: TermStructureResidual[] = nodes.map(node => {
+    const totalVariance = Math.max(strategy.totalVariance(parameters, nodes, node.timeToExpiry), MIN_TOTAL_VARIANCE);
+    const fittedVol = Math.sqrt(totalVariance / node.timeToExpiry) * 100;
+    return { ...node, fittedVol, residual: fittedVol - node.atmVol };
+  });
+
+  const rmse = Math.sqrt(residuals.reduce((sum, r) => sum + r.residual * r.residual, 0) / residuals.length);
+  const maxAbsResidual = Math.max(...residuals.map(r => Math.abs(r.residual)));
+
+  console.log(`Term structure (${model}): ${nodes.length} expiries, RMSE ${rmse.toFixed(2)} vol pts, params ${JSON.stringify(parameters)}`);
+
+  return { model, requestedModel, parameters, nodes, residuals, rmse, maxAbsResidual, source };
+}
+
+// 擬合期限結構在指定期限的總方差（小數）
+export function termStructureTotalVariance(fit: TermStructureFit, timeToExpiry: number): number {
+  return Math.max(TERM_STRUCTURE_STRATEGIES[fit.model].totalVariance(fit.parameters, fit.nodes, timeToExpiry), MIN_TOTAL_VARIANCE);
+}
+
+/**
+ * 擬合期限結構在指定期限的 ATM 隱含波動率
+ * @returns 隱含波動率 (%)
+ */
+export function termStructureVolatility(fit: TermStructureFit, timeToExpiry: number): number {
+  return Math.sqrt(termStructureTotalVariance(fit, timeToExpiry) / timeToExpiry) * 100;
+}
@@ -1,15 +1,85 @@
 // Treasury rates utility functions for getting risk-free rates based on lockup periods
 
-import { LockupPeriod } from '@/types';
-
-// Mapping from lockup periods to treasury periods
-const LOCKUP_TO_TREASURY_MAP: Record<LockupPeriod, string> = {
-  '3M': '3M',
-  '6M': '6M', 
-  '1Y': '1Y',
-  '2Y': '2Y'
+import { LockupPeriod, LockupPreset } from '@/types';
+import { lockupPeriodToDays, LOCKUP_PRESETS } from './calculator';
+
+export type TreasuryTenor = '3M' | '6M' | '1Y' | '2Y';
+
+// Tenor lengths in days, aligned with lockupPeriodToDays presets
+export const TREASURY_TENOR_DAYS: Record<TreasuryTenor, number> = {
+  '3M': 90,
+  '6M': 180,
+  '1Y': 365,
+  '2Y': 730
+};
+
+// Fallback rates (decimal) used when FRED is unavailable
+const FALLBACK_RATES: Record<TreasuryTenor, number> = {
+  '3M': 0.0420,  // 4.20%
+  '6M': 0.0423,  // 4.23%
+  '1Y': 0.0425,  // 4.25%
+  '2Y': 0.0430   // 4.30%
 };
 
+export interface TreasuryTenorBracket {
+  lower: TreasuryTenor;
+  upper: TreasuryTenor;
+  weight: number; // Weight of the upper tenor (0 = lower only, 1 = upper only)
+}
+
+/**
+ * Find the two treasury tenors bracketing a lockup length
+ * Lockups shorter than 3M or longer than 2Y use the nearest tenor flat
+ * @param lockupDays Lockup length in days
+ */
+export function getTreasuryTenorBracket(lockupDays: number): TreasuryTenorBracket {
+  const tenors = Object.keys(TREASURY_TENOR_DAYS) as TreasuryTenor[];
+  const first = tenors[0];
+  const last = tenors[tenors.length - 1];
+
+  if (lockupDays <= TREASURY_TENOR_DAYS[first]) {
+    return { lower: first, upper: first, weight: 0 };
+  }
+  if (lockupDays >= TREASURY_TENOR_DAYS[last]) {
+    return { lower: last, upper: last, weight: 0 };
+  }
+
+  for (let i = 0; i < tenors.length - 1; i++) {
+    const lowerDays = TREASURY_TENOR_DAYS[tenors[i]];
+    const upperDays = TREASURY_TENOR_DAYS[tenors[i + 1]];
+    if (lockupDays >= lowerDays && lockupDays <= upperDays) {
+      return {
+        lower: tenors[i],
+        upper: tenors[i + 1],
+        weight: (lockupDays - lowerDays) / (upperDays - lowerDays)
+      };
+    }
+  }
+
+  return { lower: last, upper: last, weight: 0 };
+}
+
+/**
+ * Linearly interpolate between the bracketing tenor rates
+ */
+export function interpolateTreasuryRate(bracket: TreasuryTenorBracket, lowerRate: number, upperRate: number): number {
+  return lowerRate + (upperRate - lowerRate) * bracket.weight;
+}
+
+function isLockupPreset(period: LockupPeriod): period is LockupPreset {
+  return (LOCKUP_PRESETS as string[]).includes(period);
+}
+
+// Query string for /api/treasury-rates: presets map to a tenor, custom lockups pass their day count
+function treasuryQueryForPeriod(period: LockupPeriod): string {
+  return isLockupPreset(period) ? `period=${period}` : `days=${lockupPeriodToDays(period)}`;
+}
+
+function getFallbackRateForDays(lockupDays: number): number {
+  const bracket = getTreasuryTenorBracket(lockupDays);
+  return interpolateTreasuryRate(bracket, FALLBACK_RATES[bracket.lower], FALLBACK_RATES[bracket.upper]);
+}
+
 // Treasury rate response interface
 export interface TreasuryRateResponse {
   success: boolean;
@@ -29,21 +99,14 @@ export interface TreasuryRateResponse {
 
 /**
  * Get the appropriate treasury rate for a given lockup period
- * @param period Lockup period (3M, 6M, 1Y, 2Y)
+ * @param period Lockup period (preset, day count or unlock date)
  * @returns Promise<number> Risk-free rate as decimal (e.g., 0.0425 for 4.25%)
  */
 export async function getTreasuryRateForPeriod(period: LockupPeriod): Promise<number> {
-  const treasuryPeriod = LOCKUP_TO_TREASURY_MAP[period];
-  
-  if (!treasuryPeriod) {
-    console.warn(`[Treasury Rates] ⚠️ Unknown period ${period}, defaulting to 1Y rate`);
-    return getTreasuryRateForPeriod('1Y');
-  }
-
   try {
-    console.log(`[Treasury Rates] 🔄 Fetching treasury rate for ${period} (${treasuryPeriod})...`);
+    console.log(`[Treasury Rates] 🔄 Fetching treasury rate for ${period}...`);
     
-    const response = await fetch(`/api/treasury-rates?period=${treasuryPeriod}`, {
+    const response = await fetch(`/api/treasury-rates?${treasuryQueryForPeriod(period)}`, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json'
@@ -68,14 +131,7 @@ export async function getTreasuryRateForPeriod(period: LockupPeriod): Promise<nu
     console.error(`[Treasury Rates] ❌ Error fetching ${period} rate:`, error);
     
     // Return fallback rates
-    const fallbackRates = {
-      '3M': 0.0420,  // 4.20%
-      '6M': 0.0423,  // 4.23%
-      '1Y': 0.0425,  // 4.25%
-      '2Y': 0.0430   // 4.30%
-    };
-    
-    const fallbackRate = fallbackRates[period];
+    const fallbackRate = getFallbackRateForDays(lockupPeriodToDays(period));
     console.warn(`[Treasury Rates] 🔄 Using fallback rate for ${period}: ${(fallbackRate * 100).toFixed(2)}%`);
     
     return fallbackRate;
@@ -87,7 +143,7 @@ export async function getTreasuryRateForPeriod(period: LockupPeriod): Promise<nu
  * @param period Treasury period (3M, 6M, 1Y, 2Y) 
  * @returns Promise<number> Risk-free rate as decimal
  */
-export async function getTreasuryRateServer(period: '3M' | '6M' | '1Y' | '2Y'): Promise<number> {
+export async function getTreasuryRateServer(period: TreasuryTenor): Promise<number> {
   const treasurySeriesMap = {
     '3M': 'DGS3MO',
     '6M': 'DGS6MO', 
@@ -95,19 +151,11 @@ export async function getTreasuryRateServer(period: '3M' | '6M' | '1Y' | '2Y'):
     '2Y': 'DGS2'
   };
 
-  // Fallback rates for server-side usage
-  const fallbackRates = {
-    '3M': 0.0420,
-    '6M': 0.0423,
-    '1Y': 0.0425,
-    '2Y': 0.0430
-  };
-
   const fredApiKey = process.env.FRED_API_KEY;
   
   if (!fredApiKey) {
     console.warn(`[Treasury Rates Server] ⚠️ No FRED API key, using fallback for ${period}`);
-    return fallbackRates[period];
+    return FALLBACK_RATES[period];
   }
 
   try {
@@ -150,12 +198,36 @@ export async function getTreasuryRateServer(period: '3M' | '6M' | '1Y' | '2Y'):
     
   } catch (error) {
     console.error(`[Treasury Rates Server] ❌ Error fetching ${period}:`, error);
-    console.warn(`[Treasury Rates Server] 🔄 Using fallback rate: ${(fallbackRates[period] * 100).toFixed(2)}%`);
+    console.warn(`[Treasury Rates Server] 🔄 Using fallback rate: ${(FALLBACK_RATES[period] * 100).toFixed(2)}%`);
     
-    return fallbackRates[period];
+    return FALLBACK_RATES[period];
   }
 }
 
+/**
+ * Get treasury rate for an arbitrary lockup length (server-side)
+ * Interpolates linearly between the bracketing treasury tenors
+ * @param lockupDays Lockup length in days
+ * @returns Promise<number> Risk-free rate as decimal
+ */
+export async function getTreasuryRateForDaysServer(lockupDays: number): Promise<number> {
+  const bracket = getTreasuryTenorBracket(lockupDays);
+
+  if (bracket.lower === bracket.upper) {
+    return getTreasuryRateServer(bracket.lower);
+  }
+
+  const [lowerRate, upperRate] = await Promise.all([
+    getTreasuryRateServer(bracket.lower),
+    getTreasuryRateServer(bracket.upper)
+  ]);
+  const rate = interpolateTreasuryRate(bracket, lowerRate, upperRate);
+
+  console.log(`[Treasury Rates Server] 📐 ${lockupDays}d: ${(rate * 100).toFixed(2)}% (interpolated ${bracket.lower}–${bracket.upper}, weight ${bracket.weight.toFixed(3)})`);
+
+  return rate;
+}
+
 /**
  * Get treasury rate information for display purposes
  * @param period Lockup period
@@ -167,14 +239,18 @@ export async function getTreasuryRateInfo(period: LockupPeriod): Promise<{
   source: string;
   date: string;
 }> {
-  const treasuryPeriod = LOCKUP_TO_TREASURY_MAP[period];
+  const lockupDays = lockupPeriodToDays(period);
+  const bracket = getTreasuryTenorBracket(lockupDays);
+  const tenorText = isLockupPreset(period) || bracket.lower === bracket.upper
+    ? getPeriodDisplayName(isLockupPreset(period) ? period : bracket.lower)
+    : `${getPeriodDisplayName(bracket.lower)}–${getPeriodDisplayName(bracket.upper)}內插`;
   
   try {
-    const response = await fetch(`/api/treasury-rates?period=${treasuryPeriod}`);
+    const response = await fetch(`/api/treasury-rates?${treasuryQueryForPeriod(period)}`);
     const data: TreasuryRateResponse = await response.json();
     
     if (data.success) {
-      const displayText = `${(data.rate * 100).toFixed(2)}% (${getPeriodDisplayName(treasuryPeriod)}美國國庫券, ${data.date})`;
+      const displayText = `${(data.rate * 100).toFixed(2)}% (${tenorText}美國國庫券, ${data.date})`;
       
       return {
         rate: data.rate,
@@ -188,16 +264,11 @@ export async function getTreasuryRateInfo(period: LockupPeriod): Promise<{
   }
   
   // Fallback
-  const fallbackRate = {
-    '3M': 0.0420,
-    '6M': 0.0423, 
-    '1Y': 0.0425,
-    '2Y': 0.0430
-  }[period];
+  const fallbackRate = getFallbackRateForDays(lockupDays);
   
   return {
     rate: fallbackRate,
-    displayText: `${(fallbackRate * 100).toFixed(2)}% (${getPeriodDisplayName(treasuryPeriod)}美國國庫券, 預設值)`,
+    displayText: `${(fallbackRate * 100).toFixed(2)}% (${tenorText}美國國庫券, 預設值)`,
     source: 'FALLBACK',
     date: new Date().toISOString().split('T')[0]
   };
@@ -0,0 +1,102 @@
+// Variance risk premium: Deribit implied vol vs realized vol over matching windows (BTC/ETH market mode)
+
+import { DiscountCalculation, DiscountMethodology, DualExpiryData, Token, VarianceRiskPremiumAnalysis, VarianceRiskPremiumPoint } from '@/types';
+import { fetchHistoricalPrices, HistoricalPriceData } from './historicalVolatility';
+import { priceDiscountModels, selectMethodologyPrice } from './calculator';
+import { getPricingModel } from './pricing';
+
+// 已實現波動率回看窗口上下限（天）；長鎖倉期以可取得的歷史為上限
+const MIN_REALIZED_WINDOW = 7;
+const MAX_REALIZED_WINDOW = 1095;
+
+const HISTORY_TOKEN_IDS: Record<Token, string> = {
+  BTC: 'bitcoin',
+  ETH: 'ethereum'
+};
+
+// 最近 windowDays 個日報酬的年化已實現波動率 (%)
+function trailingRealizedVolatility(sortedPrices: HistoricalPriceData[], windowDays: number): number {
+  const window = sortedPrices.slice(-(windowDays + 1));
+  const returns: number[] = [];
+  for (let i = 1; i < window.length; i++) {
+    if (window[i - 1].price <= 0 || window[i].price <= 0) continue;
+    returns.push(Math.log(window[i].price / window[i - 1].price));
+  }
+  if (returns.length < 2) {
+    throw new Error(`Insufficient price history for a ${windowDays}-day realized volatility`);
+  }
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) * (r - mean), 0) / (returns.length - 1);
+  return Math.sqrt(variance * 365) * 100;
+}
+
+const clampWindow = (days: number) => Math.min(Math.max(Math.round(days), MIN_REALIZED_WINDOW), MAX_REALIZED_WINDOW);
+
+/**
+ * 隱含與已實現波動率的差距
+ * 短/長到期日與鎖倉期各自以相同天數的回看窗口計算已實現波動率，
+ * 並以已實現波動率（鎖倉期窗口）依自定義代幣模式的定價計算 ATM 折扣，與雙到期日折扣並列
+ */
+export async function analyzeVarianceRiskPremium(
+  token: Token,
+  dualExpiryData: DualExpiryData,
+  calculation: DiscountCalculation,
+  spotPrice: number,
+  lockupDays: number,
+  riskFreeRate: number,
+  methodology: DiscountMethodology
+): Promise<VarianceRiskPremiumAnalysis> {
+  const tenors = [
+    { label: 'Short expiry', days: dualExpiryData.shortTerm.timeToExpiry * 365, impliedVolatility: dualExpiryData.shortTerm.impliedVol },
+    { label: 'Long expiry', days: dualExpiryData.longTerm.timeToExpiry * 365, impliedVolatility: dualExpiryData.longTerm.impliedVol },
+    { label: 'Lockup', days: lockupDays, impliedVolatility: calculation.impliedVolatility ?? dualExpiryData.longTerm.impliedVol }
+  ].map(tenor => ({ ...tenor, windowDays: clampWindow(tenor.days) }));
+
+  const historyDays = Math.max(...tenors.map(tenor => tenor.windowDays)) + 1;
+  const historicalPricesResult = await fetchHistoricalPrices(HISTORY_TOKEN_IDS[token], historyDays);
+  const sortedPrices = [...historicalPricesResult.data].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+
+  const points: VarianceRiskPremiumPoint[] = tenors.map(tenor => {
+    const realizedVolatility = trailingRealizedVolatility(sortedPrices, tenor.windowDays);
+    return {
+      label: tenor.label,
+      windowDays: tenor.windowDays,
+      impliedVolatility: tenor.impliedVolatility,
+      realizedVolatility,
+      spread: tenor.impliedVolatility - realizedVolatility,
+      ratio: tenor.impliedVolatility / realizedVolatility
+    };
+  });
+
+  // 與自定義代幣模式相同的定價（Black-Scholes，遠期 = S·e^(rT)），履約價取現貨
+  const lockupPoint = points[points.length - 1];
+  const prices = priceDiscountModels(getPricingModel('black-scholes'), {
+    spot: spotPrice,
+    strike: spotPrice,
+    timeToExpiry: lockupDays / 365,
+    riskFreeRate,
+    volatility: lockupPoint.realizedVolatility / 100
+  });
+  const primaryPrice = selectMethodologyPrice(methodology, prices);
+  const historicalDiscount = {
+    realizedVolatility: lockupPoint.realizedVolatility,
+    windowDays: lockupPoint.windowDays,
+    discount: (primaryPrice / spotPrice) * 100,
+    callDiscount: (prices.call / spotPrice) * 100,
+    lookbackDiscount: (prices.lookback / spotPrice) * 100,
+    averageStrikeDiscount: (prices.averageStrike / spotPrice) * 100,
+    fairValue: spotPrice - primaryPrice
+  };
+
+  console.log(`📐 ${token} variance risk premium: ${points.map(p => `${p.label} ${p.impliedVolatility.toFixed(1)}% vs ${p.realizedVolatility.toFixed(1)}% (${p.windowDays}d)`).join(', ')}`);
+
+  return {
+    points,
+    historicalDiscount,
+    impliedDiscount: calculation.discount,
+    discountDifference: calculation.discount - historicalDiscount.discount,
+    apiProvider: historicalPricesResult.provider
+  };
+}
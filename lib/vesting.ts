@@ -0,0 +1,180 @@
+import { LockupPeriod, VestingFrequency, VestingSchedule, VestingTranche, VestingTrancheValuation, VestingValuation } from '@/types';
+import { MAX_LOCKUP_DAYS, parseLockupPeriod, parseUnlockDate } from './calculator';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+const FREQUENCY_MONTHS: Record<VestingFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+};
+
+export const VESTING_FREQUENCIES: VestingFrequency[] = ['monthly', 'quarterly'];
+
+// 定期解鎖次數上限（月解鎖 3 年 = 36 次）
+export const MAX_VESTING_TRANCHES = 36;
+
+// 單一 tranche 的定價結果（不含 tranche 本身的日期與比例；合理價格由 valueVestingSchedule 以同一現貨換算）
+export type TrancheQuote = Omit<VestingTrancheValuation, keyof VestingTranche | 'fairValue'>;
+
+function toDateString(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// 加月份，月底日期對齊到目標月份最後一天（1/31 + 1M = 2/28）
+function addMonths(date: Date, months: number): Date {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(date.getDate(), lastDay));
+  return target;
+}
+
+/**
+ * 從查詢參數解析歸屬計畫
+ * 未提供 vestingStart 時返回 null（一次性解鎖）；數值是否有效交由 validateVestingSchedule 檢查
+ */
+export function parseVestingSchedule(searchParams: URLSearchParams): VestingSchedule | null {
+  const startDate = searchParams.get('vestingStart');
+  if (!startDate) return null;
+
+  return {
+    startDate,
+    cliffMonths: Number(searchParams.get('cliffMonths') ?? 0),
+    cliffPercent: Number(searchParams.get('cliffPercent') ?? 0),
+    frequency: (searchParams.get('vestingFrequency') || 'monthly') as VestingFrequency,
+    trancheCount: Number(searchParams.get('vestingTranches') ?? 0),
+  };
+}
+
+// 將歸屬計畫轉為查詢參數，供前端呼叫 API
+export function vestingScheduleToQuery(schedule: VestingSchedule): string {
+  return new URLSearchParams({
+    vestingStart: schedule.startDate,
+    cliffMonths: String(schedule.cliffMonths),
+    cliffPercent: String(schedule.cliffPercent),
+    vestingFrequency: schedule.frequency,
+    vestingTranches: String(schedule.trancheCount),
+  }).toString();
+}
+
+/**
+ * 展開歸屬計畫為各次解鎖 (tranche)
+ * Cliff 當天解鎖 cliffPercent，之後每個週期平均解鎖剩餘比例；比例為 0 的 tranche 會略過
+ */
+export function buildVestingTranches(schedule: VestingSchedule, now: Date = new Date()): VestingTranche[] {
+  const start = parseUnlockDate(schedule.startDate);
+  if (!start) return [];
+
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const stepMonths = FREQUENCY_MONTHS[schedule.frequency];
+  const periodicPercent = schedule.trancheCount > 0
+    ? (100 - schedule.cliffPercent) / schedule.trancheCount
+    : 0;
+
+  const unlocks: { date: Date; percent: number }[] = [
+    { date: addMonths(start, schedule.cliffMonths), percent: schedule.cliffPercent },
+  ];
+  for (let i = 1; i <= schedule.trancheCount; i++) {
+    unlocks.push({ date: addMonths(start, schedule.cliffMonths + i * stepMonths), percent: periodicPercent });
+  }
+
+  return unlocks
+    .filter(unlock => unlock.percent > 0)
+    .map((unlock, index) => {
+      const lockupDays = Math.max(0, Math.round((unlock.date.getTime() - today.getTime()) / ONE_DAY_MS));
+      return {
+        index: index + 1,
+        unlockDate: toDateString(unlock.date),
+        percent: unlock.percent,
+        lockupDays,
+        vested: lockupDays === 0,
+      };
+    });
+}
+
+/**
+ * 驗證歸屬計畫
+ * @returns 錯誤訊息，有效時返回 null
+ */
+export function validateVestingSchedule(schedule: VestingSchedule, now: Date = new Date()): string | null {
+  if (!parseUnlockDate(schedule.startDate)) {
+    return 'Invalid vesting start date. Must be YYYY-MM-DD';
+  }
+  if (!Number.isInteger(schedule.cliffMonths) || schedule.cliffMonths < 0 || schedule.cliffMonths > 36) {
+    return 'Invalid cliff. Must be a whole number of months between 0 and 36';
+  }
+  if (!Number.isFinite(schedule.cliffPercent) || schedule.cliffPercent < 0 || schedule.cliffPercent > 100) {
+    return 'Invalid cliff percentage. Must be between 0 and 100';
+  }
+  if (!VESTING_FREQUENCIES.includes(schedule.frequency)) {
+    return 'Invalid vesting frequency. Must be monthly or quarterly';
+  }
+  if (!Number.isInteger(schedule.trancheCount) || schedule.trancheCount < 0 || schedule.trancheCount > MAX_VESTING_TRANCHES) {
+    return `Invalid tranche count. Must be a whole number between 0 and ${MAX_VESTING_TRANCHES}`;
+  }
+  if (schedule.trancheCount === 0 && schedule.cliffPercent !== 100) {
+    return 'Cliff percentage must be 100 when there are no periodic tranches';
+  }
+
+  const tranches = buildVestingTranches(schedule, now);
+  const lastTranche = tranches[tranches.length - 1];
+  if (!lastTranche || lastTranche.vested) {
+    return 'Vesting schedule is already fully unlocked';
+  }
+  if (lastTranche.lockupDays > MAX_LOCKUP_DAYS) {
+    return `Final unlock (${lastTranche.unlockDate}) is more than ${MAX_LOCKUP_DAYS} days away`;
+  }
+  return null;
+}
+
+// 最後一次解鎖日作為鎖倉期（一次性解鎖的對照基準）
+export function finalUnlockPeriod(schedule: VestingSchedule, now: Date = new Date()): LockupPeriod | null {
+  const tranches = buildVestingTranches(schedule, now);
+  const lastTranche = tranches[tranches.length - 1];
+  return lastTranche ? parseLockupPeriod(lastTranche.unlockDate, now) : null;
+}
+
+/**
+ * 將歸屬計畫當作一組期權 (strip) 估值
+ * 每個未解鎖 tranche 以其解鎖日為到期日交由 priceTranche 定價，已解鎖 tranche 無折扣；
+ * 各 tranche 合理價格一律以 spotPrice × (1 − 折扣) 換算（定價可能以 Deribit 指數為基準），再按解鎖比例加權
+ */
+export async function valueVestingSchedule(
+  schedule: VestingSchedule,
+  spotPrice: number,
+  priceTranche: (period: LockupPeriod, lockupDays: number) => Promise<TrancheQuote>,
+  now: Date = new Date()
+): Promise<VestingValuation> {
+  const tranches = buildVestingTranches(schedule, now);
+  const valuations: VestingTrancheValuation[] = [];
+
+  // 依序定價，避免同時打出大量期權/利率請求
+  for (const tranche of tranches) {
+    if (tranche.vested) {
+      valuations.push({ ...tranche, discount: 0, fairValue: spotPrice, annualizedRate: 0, method: 'vested' });
+      continue;
+    }
+
+    const period = parseLockupPeriod(tranche.unlockDate, now);
+    if (!period) {
+      throw new Error(`Tranche ${tranche.index} unlock date ${tranche.unlockDate} is outside the supported lockup range`);
+    }
+    const quote = await priceTranche(period, tranche.lockupDays);
+    valuations.push({ ...tranche, ...quote, fairValue: spotPrice * (1 - quote.discount / 100) });
+  }
+
+  const totalPercent = valuations.reduce((sum, t) => sum + t.percent, 0);
+  const weighted = (value: (t: VestingTrancheValuation) => number) =>
+    valuations.reduce((sum, t) => sum + value(t) * t.percent, 0) / totalPercent;
+
+  return {
+    schedule,
+    tranches: valuations,
+    blendedDiscount: weighted(t => t.discount),
+    blendedFairValue: weighted(t => t.fairValue),
+    weightedAverageLockupDays: weighted(t => t.lockupDays),
+    vestedPercent: valuations.filter(t => t.vested).reduce((sum, t) => sum + t.percent, 0),
+    finalUnlockDate: valuations[valuations.length - 1]?.unlockDate ?? schedule.startDate,
+  };
+}
@@ -0,0 +1,96 @@
+// Volatility cone: distribution of rolling realized volatility across horizons
+
+import { VolatilityCone, VolatilityConeWindow } from '@/types';
+import { HistoricalPriceData } from './historicalVolatility';
+
+export const VOLATILITY_CONE_WINDOWS = [30, 60, 90, 180, 365];
+
+// 預設取 3 年歷史，使 365 天窗口仍有足夠樣本
+export const DEFAULT_CONE_HISTORY_DAYS = 1095;
+
+// 已排序數列的線性內插百分位
+function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * 計算波動率錐
+ * 每個窗口以所有重疊的滾動窗口計算已實現波動率（樣本標準差 × √365），取最小、四分位、中位數與最大值
+ * 歷史不足一個窗口的期限略過
+ * @param overlayVolatility 疊加的隱含或所選波動率 (%)，計算其在各窗口分佈中的百分位
+ */
+export function calculateVolatilityCone(
+  tokenId: string,
+  prices: HistoricalPriceData[],
+  windows: number[] = VOLATILITY_CONE_WINDOWS,
+  overlayVolatility?: number
+): VolatilityCone {
+  const sortedPrices = [...prices].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+
+  const returns: number[] = [];
+  for (let i = 1; i < sortedPrices.length; i++) {
+    if (sortedPrices[i - 1].price <= 0 || sortedPrices[i].price <= 0) {
+      continue; // Skip invalid prices
+    }
+    returns.push(Math.log(sortedPrices[i].price / sortedPrices[i - 1].price));
+  }
+
+  // 前綴和讓每個窗口的均值與方差為 O(1)
+  const sums = [0];
+  const squares = [0];
+  returns.forEach((r, i) => {
+    sums.push(sums[i] + r);
+    squares.push(squares[i] + r * r);
+  });
+
+  const coneWindows: VolatilityConeWindow[] = [];
+  for (const windowDays of windows) {
+    if (returns.length < windowDays || windowDays < 2) continue;
+
+    const vols: number[] = [];
+    for (let end = windowDays; end <= returns.length; end++) {
+      const sum = sums[end] - sums[end - windowDays];
+      const sumSquares = squares[end] - squares[end - windowDays];
+      const variance = Math.max((sumSquares - (sum * sum) / windowDays) / (windowDays - 1), 0);
+      vols.push(Math.sqrt(variance * 365) * 100);
+    }
+
+    const current = vols[vols.length - 1];
+    const sorted = [...vols].sort((a, b) => a - b);
+    coneWindows.push({
+      windowDays,
+      min: sorted[0],
+      p25: percentile(sorted, 0.25),
+      median: percentile(sorted, 0.5),
+      p75: percentile(sorted, 0.75),
+      max: sorted[sorted.length - 1],
+      current,
+      samples: vols.length,
+      ...(overlayVolatility !== undefined && {
+        overlayPercentile: (sorted.filter(vol => vol <= overlayVolatility).length / sorted.length) * 100
+      })
+    });
+  }
+
+  if (coneWindows.length === 0) {
+    throw new Error(`Need at least ${Math.min(...windows)} daily returns for a volatility cone`);
+  }
+
+  console.log(`🍦 Volatility cone for ${tokenId} (${returns.length} returns):`);
+  coneWindows.forEach(w => {
+    console.log(`   ${w.windowDays}d: min ${w.min.toFixed(1)}%, median ${w.median.toFixed(1)}%, max ${w.max.toFixed(1)}%, current ${w.current.toFixed(1)}%`);
+  });
+
+  return {
+    tokenId,
+    historyDays: sortedPrices.length,
+    observations: returns.length,
+    windows: coneWindows,
+    ...(overlayVolatility !== undefined && { overlayVolatility })
+  };
+}
@@ -0,0 +1,216 @@
+// Conditional volatility forecasting (EWMA / GARCH(1,1)) over a lockup horizon
+
+import { VolatilityEstimator, VolatilityForecast, EwmaParameters, GarchParameters, RangeVolatilityEstimator, RobustVolatilityMethod, PricingModel } from '@/types';
+import { HistoricalPriceData } from './historicalVolatility';
+import { nelderMead2D } from './optimization';
+
+export const VOLATILITY_ESTIMATORS: VolatilityEstimator[] = ['sample', 'ewma', 'garch'];
+
+// 解析波動率估計方法參數，未提供時使用樣本標準差，無效時返回 null
+export function parseVolatilityEstimator(value: string | null | undefined): VolatilityEstimator | null {
+  if (!value) return 'sample';
+  return (VOLATILITY_ESTIMATORS as string[]).includes(value) ? value as VolatilityEstimator : null;
+}
+
+export const INVALID_VOLATILITY_ESTIMATOR_MESSAGE =
+  `Invalid volatility estimator. Must be one of: ${VOLATILITY_ESTIMATORS.join(', ')}`;
+
+// 檢查波動率估計設定的組合，無效時返回錯誤訊息
+// 穩健估計僅作用於收盤對收盤報酬；EWMA / GARCH 以收盤對數報酬預測，不使用區間或穩健估計
+// Merton 的擴散波動率由剔除跳躍後的收盤對收盤報酬估計，不使用任何其他估計設定
+export function validateVolatilityEstimation(options: {
+  volatilityEstimator: VolatilityEstimator;
+  rangeEstimator: RangeVolatilityEstimator;
+  robustMethod: RobustVolatilityMethod;
+  pricingModel?: PricingModel;
+}): string | null {
+  const { volatilityEstimator, rangeEstimator, robustMethod, pricingModel } = options;
+  if (pricingModel === 'merton-jump' && (volatilityEstimator !== 'sample' || rangeEstimator !== 'close-to-close' || robustMethod !== 'none')) {
+    return 'pricingModel merton-jump estimates its diffusion volatility from jump-filtered close-to-close returns; use volatilityEstimator sample, rangeEstimator close-to-close and robustMethod none';
+  }
+  if (rangeEstimator !== 'close-to-close' && robustMethod !== 'none') {
+    return `robustMethod ${robustMethod} applies only to close-to-close returns; it cannot be combined with rangeEstimator ${rangeEstimator}`;
+  }
+  if (volatilityEstimator !== 'sample' && rangeEstimator !== 'close-to-close') {
+    return `volatilityEstimator ${volatilityEstimator} forecasts from close-to-close returns; it cannot be combined with rangeEstimator ${rangeEstimator}`;
+  }
+  if (volatilityEstimator !== 'sample' && robustMethod !== 'none') {
+    return `volatilityEstimator ${volatilityEstimator} forecasts from unfiltered returns; it cannot be combined with robustMethod ${robustMethod}`;
+  }
+  return null;
+}
+
+// RiskMetrics 日資料衰減係數
+export const RISKMETRICS_LAMBDA = 0.94;
+
+// GARCH 最大似然估計所需的最少日報酬數
+export const MIN_GARCH_OBSERVATIONS = 30;
+
+// α + β 上限，確保平穩
+const MAX_PERSISTENCE = 0.999;
+
+function dailyLogReturns(prices: HistoricalPriceData[]): number[] {
+  const sortedPrices = [...prices].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+
+  const returns: number[] = [];
+  for (let i = 1; i < sortedPrices.length; i++) {
+    if (sortedPrices[i - 1].price <= 0 || sortedPrices[i].price <= 0) {
+      continue; // Skip invalid prices
+    }
+    returns.push(Math.log(sortedPrices[i].price / sortedPrices[i - 1].price));
+  }
+  return returns;
+}
+
+const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+const logit = (p: number) => Math.log(p / (1 - p));
+
+/**
+ * EWMA 條件方差 σ²_t = λσ²_{t-1} + (1 - λ)r²_{t-1}（RiskMetrics 零均值慣例）
+ * 以前 20 個報酬的平方平均作為初始值
+ * @returns 下一日條件方差
+ */
+function ewmaNextVariance(returns: number[], lambda: number): number {
+  const seedCount = Math.min(20, returns.length);
+  let variance = returns.slice(0, seedCount).reduce((sum, r) => sum + r * r, 0) / seedCount;
+  for (const r of returns) {
+    variance = lambda * variance + (1 - lambda) * r * r;
+  }
+  return variance;
+}
+
+// GARCH(1,1) 高斯負對數似然（省略常數），同時返回下一日條件方差
+function garchNegLogLikelihood(
+  residuals: number[],
+  omega: number,
+  alpha: number,
+  beta: number,
+  initialVariance: number
+): { value: number; nextVariance: number } {
+  let variance = initialVariance;
+  let value = 0;
+  for (const e of residuals) {
+    if (!(variance > 0)) return { value: Infinity, nextVariance: NaN };
+    value += 0.5 * (Math.log(variance) + (e * e) / variance);
+    variance = omega + alpha * e * e + beta * variance;
+  }
+  return { value, nextVariance: variance };
+}
+
+/**
+ * 以最大似然估計 GARCH(1,1)：σ²_t = ω + αε²_{t-1} + βσ²_{t-1}
+ * 使用方差目標法 ω = σ̄²(1 - α - β)，以 (α + β, α 佔比) 的 logistic 參數化保證 α, β ≥ 0 且 α + β < 1
+ */
+function fitGarch(returns: number[]): GarchParameters {
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const residuals = returns.map(r => r - mean);
+  const sampleVariance = residuals.reduce((sum, e) => sum + e * e, 0) / (residuals.length - 1);
+
+  const unpack = (x: number[]) => {
+    const persistence = MAX_PERSISTENCE * logistic(x[0]);
+    const alpha = persistence * logistic(x[1]);
+    return { alpha, beta: persistence - alpha, omega: sampleVariance * (1 - persistence) };
+  };
+  const objective = (x: number[]) => {
+    const { omega, alpha, beta } = unpack(x);
+    return garchNegLogLikelihood(residuals, omega, alpha, beta, sampleVariance).value;
+  };
+
+  let best = { x: [logit(0.9 / MAX_PERSISTENCE), logit(0.1)], value: Infinity };
+  for (const persistence of [0.7, 0.85, 0.93, 0.97, 0.99]) {
+    for (const share of [0.03, 0.08, 0.15, 0.3]) {
+      const x = [logit(persistence / MAX_PERSISTENCE), logit(share)];
+      const value = objective(x);
+      if (value < best.value) best = { x, value };
+    }
+  }
+
+  const refined = nelderMead2D(objective, best.x, [0.5, 0.5], 400);
+  const { omega, alpha, beta } = unpack(refined);
+  const { value, nextVariance } = garchNegLogLikelihood(residuals, omega, alpha, beta, sampleVariance);
+  const persistence = alpha + beta;
+
+  return {
+    omega,
+    alpha,
+    beta,
+    persistence,
+    longRunVolatility: Math.sqrt(sampleVariance * 365),
+    halfLife: Math.log(0.5) / Math.log(persistence),
+    currentVolatility: Math.sqrt(nextVariance * 365),
+    logLikelihood: -value - 0.5 * residuals.length * Math.log(2 * Math.PI)
+  };
+}
+
+/**
+ * GARCH(1,1) 未來 h 日平均方差（年化波動率）
+ * E[σ²_{t+k}] = V_L + (α + β)^(k-1)(σ²_{t+1} - V_L)，平均後隨期限向長期水準回歸
+ */
+export function garchHorizonVolatility(garch: GarchParameters, horizonDays: number): number {
+  const longRunVariance = garch.longRunVolatility * garch.longRunVolatility;
+  const currentVariance = garch.currentVolatility * garch.currentVolatility;
+  const p = garch.persistence;
+  const h = Math.max(horizonDays, 1);
+
+  const decay = p < 1 ? (1 - Math.pow(p, h)) / ((1 - p) * h) : 1;
+  return Math.sqrt(longRunVariance + (currentVariance - longRunVariance) * decay);
+}
+
+// 預測在其他期限（例如各歸屬批次）的年化波動率；EWMA 無均值回歸，期限結構為平坦
+export function forecastVolatilityAtHorizon(forecast: VolatilityForecast, horizonDays: number): number {
+  if (forecast.garch) return garchHorizonVolatility(forecast.garch, horizonDays);
+  if (forecast.ewma) return forecast.ewma.currentVolatility;
+  return forecast.sampleVolatility;
+}
+
+/**
+ * 由歷史價格估計鎖倉期間的波動率預測
+ * @param horizonDays 鎖倉天數，GARCH 依此計算期間平均方差
+ */
+export function estimateVolatilityForecast(
+  prices: HistoricalPriceData[],
+  estimator: VolatilityEstimator,
+  horizonDays: number,
+  lambda: number = RISKMETRICS_LAMBDA
+): VolatilityForecast {
+  const returns = dailyLogReturns(prices);
+  if (returns.length < 2) {
+    throw new Error('Insufficient valid price data for volatility calculation');
+  }
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const sampleVolatility = Math.sqrt(
+    returns.reduce((sum, r) => sum + (r - mean) * (r - mean), 0) / (returns.length - 1) * 365
+  );
+
+  const forecast: VolatilityForecast = {
+    estimator,
+    horizonDays,
+    forecastVolatility: sampleVolatility,
+    sampleVolatility,
+    observations: returns.length
+  };
+
+  if (estimator === 'ewma') {
+    const ewma: EwmaParameters = {
+      lambda,
+      currentVolatility: Math.sqrt(ewmaNextVariance(returns, lambda) * 365)
+    };
+    forecast.ewma = ewma;
+    forecast.forecastVolatility = ewma.currentVolatility;
+    console.log(`📉 EWMA (λ=${lambda}): ${(ewma.currentVolatility * 100).toFixed(2)}% vs sample ${(sampleVolatility * 100).toFixed(2)}%`);
+  } else if (estimator === 'garch') {
+    if (returns.length < MIN_GARCH_OBSERVATIONS) {
+      throw new Error(`Need at least ${MIN_GARCH_OBSERVATIONS} daily returns to fit GARCH(1,1)`);
+    }
+    const garch = fitGarch(returns);
+    forecast.garch = garch;
+    forecast.forecastVolatility = garchHorizonVolatility(garch, horizonDays);
+    console.log(`📉 GARCH(1,1): α=${garch.alpha.toFixed(3)}, β=${garch.beta.toFixed(3)}, half-life ${garch.halfLife.toFixed(1)}d`);
+    console.log(`   Current ${(garch.currentVolatility * 100).toFixed(2)}% → long-run ${(garch.longRunVolatility * 100).toFixed(2)}%, ${horizonDays}d forecast ${(forecast.forecastVolatility * 100).toFixed(2)}%`);
+  }
+
+  return forecast;
+}
@@ -0,0 +1,134 @@
+// Per-expiry volatility smile fitting (raw SVI) from an option chain
+
+import { OptionData, SviParameters, SmileFit, SmileFitResidual } from '@/types';
+import { nelderMead2D } from './optimization';
+import { solveLinearSystem } from './linearAlgebra';
+
+// Raw SVI 有 5 個參數，至少需要 5 個報價
+export const MIN_SMILE_POINTS = 5;
+
+// 總方差下限，避免擬合曲線在翼端出現負方差
+const MIN_TOTAL_VARIANCE = 1e-8;
+
+// Raw SVI 總方差 w(k)
+export function sviTotalVariance(params: SviParameters, k: number): number {
+  const y = k - params.m;
+  return params.a + params.b * (params.rho * y + Math.sqrt(y * y + params.sigma * params.sigma));
+}
+
+/**
+ * 擬合微笑在指定履約價的隱含波動率
+ * @returns 隱含波動率 (%)，與 OptionData.impliedVol 單位一致
+ */
+export function smileImpliedVolatility(smile: SmileFit, strike: number): number {
+  const k = Math.log(strike / smile.referencePrice);
+  const totalVariance = Math.max(sviTotalVariance(smile.parameters, k), MIN_TOTAL_VARIANCE);
+  return Math.sqrt(totalVariance / smile.timeToExpiry) * 100;
+}
+
+/**
+ * 固定 (m, σ) 時 w = a + d·y + c·z 對 (a, d, c) 為線性 (y = k - m, z = √(y² + σ²))
+ * 解最小平方後投影到可行域：b ≥ 0、|ρ| < 1、最小總方差 ≥ 0
+ */
+function fitLinearSvi(ks: number[], ws: number[], m: number, sigma: number): { params: SviParameters; sse: number } {
+  const n = ks.length;
+  const ys = ks.map(k => k - m);
+  const zs = ys.map(y => Math.sqrt(y * y + sigma * sigma));
+
+  const ata = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const atw = [0, 0, 0];
+  for (let i = 0; i < n; i++) {
+    const row = [1, ys[i], zs[i]];
+    for (let r = 0; r < 3; r++) {
+      atw[r] += row[r] * ws[i];
+      for (let c = 0; c < 3; c++) ata[r][c] += row[r] * row[c];
+    }
+  }
+
+  const solution = solveLinearSystem(ata, atw) || [ws.reduce((sum, w) => sum + w, 0) / n, 0, 0];
+  const b = Math.max(solution[2], 0);
+  const rho = b > 0 ? Math.max(-0.999, Math.min(0.999, solution[1] / b)) : 0;
+
+  // 投影後重新估計 a，並確保最小總方差非負
+  let a = 0;
+  for (let i = 0; i < n; i++) a += ws[i] - b * (rho * ys[i] + zs[i]);
+  a = Math.max(a / n, -b * sigma * Math.sqrt(1 - rho * rho));
+
+  const params: SviParameters = { a, b, rho, m, sigma };
+  let sse = 0;
+  for (let i = 0; i < n; i++) {
+    const diff = sviTotalVariance(params, ks[i]) - ws[i];
+    sse += diff * diff;
+  }
+  return { params, sse };
+}
+
+/**
+ * 以 raw SVI 擬合單一到期日的波動率微笑
+ * 使用以 referencePrice 為基準的 log-moneyness（有期貨曲線時為該到期日遠期，否則為現貨，殘餘偏移由參數 m 吸收）
+ * 外層以網格 + Nelder-Mead 搜尋 (m, σ)，內層 (a, b, ρ) 以線性最小平方求解
+ * @returns 擬合結果，報價不足或數值失敗時返回 null
+ */
+export function fitSviSmile(
+  optionsData: OptionData[],
+  referencePrice: number,
+  timeToExpiry: number
+): SmileFit | null {
+  const quotes = optionsData.filter(option => option.impliedVol > 0 && option.strike > 0);
+  if (quotes.length < MIN_SMILE_POINTS || !(timeToExpiry > 0) || !(referencePrice > 0)) {
+    return null;
+  }
+
+  const ks = quotes.map(option => Math.log(option.strike / referencePrice));
+  const ws = quotes.map(option => Math.pow(option.impliedVol / 100, 2) * timeToExpiry);
+
+  const kMin = Math.min(...ks);
+  const kMax = Math.max(...ks);
+  const kRange = Math.max(kMax - kMin, 0.01);
+
+  // 以 ln σ 參數化確保 σ > 0
+  const objective = (x: number[]) => fitLinearSvi(ks, ws, x[0], Math.exp(x[1])).sse;
+
+  let best = { x: [0, Math.log(0.1)], value: Infinity };
+  for (let i = 0; i <= 20; i++) {
+    const m = kMin - 0.25 * kRange + (1.5 * kRange * i) / 20;
+    for (let j = 0; j <= 15; j++) {
+      const logSigma = Math.log(0.005) + (Math.log(2) - Math.log(0.005)) * j / 15;
+      const value = objective([m, logSigma]);
+      if (value < best.value) best = { x: [m, logSigma], value };
+    }
+  }
+
+  const refined = nelderMead2D(objective, best.x, [0.05 * kRange, 0.3]);
+  const { params } = fitLinearSvi(ks, ws, refined[0], Math.exp(refined[1]));
+
+  if (![params.a, params.b, params.rho, params.m, params.sigma].every(Number.isFinite)) {
+    return null;
+  }
+
+  const smile: SmileFit = {
+    model: 'raw-svi',
+    parameters: params,
+    referencePrice,
+    timeToExpiry,
+    points: quotes.length,
+    rmse: 0,
+    residuals: []
+  };
+
+  const residuals: SmileFitResidual[] = quotes.map((option, i) => {
+    const fittedIV = smileImpliedVolatility(smile, option.strike);
+    return {
+      strike: option.strike,
+      logMoneyness: ks[i],
+      marketIV: option.impliedVol,
+      fittedIV,
+      residual: fittedIV - option.impliedVol
+    };
+  });
+
+  smile.residuals = residuals;
+  smile.rmse = Math.sqrt(residuals.reduce((sum, r) => sum + r.residual * r.residual, 0) / residuals.length);
+
+  return smile;
+}
@@ -0,0 +1,85 @@
+#!/usr/bin/env ts-node
+
+import { removeStaticArbitrage, removeCalendarArbitrage, repairTermStructureCalendar } from './lib/arbitrageChecks.js';
+import { blackScholesModel } from './lib/pricing/index.js';
+import { DualExpiryData, OptionData } from './types/index.js';
+import { check, checkThat, reportResult } from './test-helpers.js';
+
+const forward = 100000;
+const timeToExpiry = 0.25;
+const strikes = [80000, 85000, 90000, 95000, 100000, 105000, 110000, 115000, 120000];
+
+// 以平坦 50% 波動率建立無套利的幣本位選擇權鏈（Deribit 慣例：零利率、以遠期定價）
+function buildChain(): OptionData[] {
+  return strikes.map(strike => {
+    const inputs = { spot: forward, strike, timeToExpiry, riskFreeRate: 0, volatility: 0.5, carry: 0 };
+    return {
+      strike,
+      callPrice: blackScholesModel.price('call', inputs) / forward,
+      putPrice: blackScholesModel.price('put', inputs) / forward,
+      expiry: '27MAR26',
+      impliedVol: 50
+    };
+  });
+}
+
+// 只改動 105000 履約價的報價
+const bumpStrike = (callBump: number, putBump: number) => buildChain().map(option =>
+  option.strike === 105000 ? { ...option, callPrice: option.callPrice + callBump, putPrice: option.putPrice + putBump } : option
+);
+
+async function testArbitrageChecks() {
+  console.log('🧪 測試靜態與日曆套利檢查\n');
+
+  console.log('📊 靜態套利 (F = 100000, T = 0.25, σ = 50%):');
+  const clean = removeStaticArbitrage(buildChain(), forward, '27MAR26');
+  check('無套利鏈剔除數', clean.excludedContracts, 0, 0, 0);
+
+  // 105000 的 call 偏離 put-call parity 2% 遠期
+  const parity = removeStaticArbitrage(bumpStrike(0.02, 0), forward, '27MAR26');
+  check('Parity 違反剔除數', parity.excludedContracts, 1, 0, 0);
+  check('Parity 剔除履約價', parity.violations[0]?.strikes[0], 105000, 0, 0);
+  checkThat('僅有 put-call parity 違反', parity.violations.every(v => v.type === 'put-call-parity'),
+    parity.violations.map(v => v.type).join(', '));
+
+  // 105000 的 call/put 同時上調（parity 仍成立），使其高於 100000 的 call：垂直價差與蝶式同時違反
+  const butterfly = removeStaticArbitrage(bumpStrike(0.04, 0.04), forward, '27MAR26');
+  check('價格違反剔除數', butterfly.excludedContracts, 1, 0, 0);
+  checkThat('剔除 105000', !butterfly.options.some(option => option.strike === 105000),
+    `保留 ${butterfly.options.map(option => option.strike).join(', ')}`);
+  checkThat('違反類型含垂直價差與蝶式',
+    butterfly.violations.some(v => v.type === 'vertical-spread') && butterfly.violations.some(v => v.type === 'butterfly'),
+    Array.from(new Set(butterfly.violations.map(v => v.type))).join(', '));
+
+  // 長期（T = 0.5）110000 的 IV 30%：總方差 0.045 低於短期 0.0625
+  console.log('\n📊 日曆套利:');
+  const shortTerm: DualExpiryData['shortTerm'] = {
+    expiry: '27MAR26', timeToExpiry, impliedVol: 50, optionsData: buildChain(), forward
+  };
+  const longTerm: DualExpiryData['longTerm'] = {
+    expiry: '26JUN26', timeToExpiry: 0.5, impliedVol: 50, forward,
+    optionsData: buildChain().map(option => ({ ...option, expiry: '26JUN26', impliedVol: option.strike === 110000 ? 30 : 50 }))
+  };
+  const calendar = removeCalendarArbitrage(shortTerm, longTerm);
+  check('剔除數', longTerm.optionsData.length - calendar.longTermOptions.length, 1, 0, 0);
+  check('剔除履約價', calendar.violations[0]?.strikes[0], 110000, 0, 0);
+
+  // ATM 期限結構：0.5 年 40% 的總方差 0.08 低於 0.25 年 60% 的 0.09，修正為 √(0.09 / 0.5)
+  const repaired = repairTermStructureCalendar([
+    { expiry: 'A', timeToExpiry: 0.25, atmVol: 60 },
+    { expiry: 'B', timeToExpiry: 0.5, atmVol: 40 },
+    { expiry: 'C', timeToExpiry: 1, atmVol: 45 }
+  ]);
+  check('修正後 ATM IV (%)', repaired.points[1].atmVol, Math.sqrt(0.09 / 0.5) * 100, 1e-9);
+  check('未違反節點不變 (%)', repaired.points[2].atmVol, 45, 0);
+  check('修正數', repaired.violations.length, 1, 0, 0);
+
+  reportResult();
+}
+
+// 運行測試
+if (require.main === module) {
+  testArbitrageChecks();
+}
+
+export { testArbitrageChecks };
@@ -0,0 +1,36 @@
+#!/usr/bin/env ts-node
+
+import { averageStrikePut } from './lib/calculator.js';
+import { normalCdf } from './lib/pricing/index.js';
+import { check, reportResult } from './test-helpers.js';
+
+async function testAverageStrikePut() {
+  console.log('🧪 測試 Finnerty 平均履約價賣權\n');
+
+  // S = 1, T = 1, σ = 50%：v²T = 0.25 + ln(2 × 0.034025) − 2ln(0.284025) = 0.079883，
+  // P = N(√v²T / 2) − N(−√v²T / 2) = 2N(0.141318) − 1
+  console.log('📊 Finnerty (2012) 封閉解:');
+  check('σ=50%, T=1 折扣', averageStrikePut(1, 1, 0.5), 0.112381, 1e-5);
+
+  // 小方差極限 v²T → σ²T/3（平均價格的方差）
+  const smallVariance = 0.1 * 0.1 * 0.25;
+  check('σ=10%, T=0.25 → σ²T/3 極限', averageStrikePut(1, 0.25, 0.1), 2 * normalCdf(Math.sqrt(smallVariance / 3) / 2) - 1, 1e-5);
+
+  // 持有成本等於 r 時與利率無關；持有成本低於 r 時乘上 e^((b − r)T)
+  console.log('\n📊 利率與持有成本:');
+  const base = averageStrikePut(100, 2, 0.8);
+  check('b = r = 5% 與 r = 0 相同', averageStrikePut(100, 2, 0.8, 0.05), base, 1e-10);
+  check('r = 5%, b = 2%', averageStrikePut(100, 2, 0.8, 0.05, 0.02), base * Math.exp((0.02 - 0.05) * 2), 1e-10);
+
+  // 方差極小時數值相消，視為無折扣
+  check('σ → 0', averageStrikePut(100, 1, 1e-6), 0, 1e-6);
+
+  reportResult();
+}
+
+// 運行測試
+if (require.main === module) {
+  testAverageStrikePut();
+}
+
+export { testAverageStrikePut };
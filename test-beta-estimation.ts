@@ -0,0 +1,67 @@
+#!/usr/bin/env ts-node
+
+import { estimateBeta, shrinkBeta, studentT975 } from './lib/betaCalculator.js';
+import { createNormal, createRandom } from './lib/monteCarlo.js';
+import { check, reportResult } from './test-helpers.js';
+
+async function testBetaEstimation() {
+  console.log('🧪 測試 Beta 標準誤、信賴區間與收縮\n');
+
+  // t 分佈 97.5% 分位數（查表值）
+  console.log('📊 studentT975:');
+  check('t(4)', studentT975(4), 2.776445, 0.01);
+  check('t(10)', studentT975(10), 2.228139, 0.01);
+  check('t(30)', studentT975(30), 2.042272, 0.01);
+
+  // 手算 6 期報酬：Sxx = 17.5e-4, Sxy = 15.5e-4 → β = 31/35，RSS = 3.7714e-4，SE = √(RSS / 4 / Sxx)
+  const proxyReturns = [1, 2, 3, 4, 5, 6].map(r => r / 100);
+  const altcoinReturns = [2, 1, 4, 3, 5, 6].map(r => r / 100);
+
+  console.log('\n📊 OLS（無收縮）:');
+  const ols = estimateBeta(altcoinReturns, proxyReturns, 'none');
+  check('β', ols.beta, 0.885714, 1e-6);
+  check('α', ols.alpha, 0.004, 1e-9);
+  check('標準誤', ols.standardError, 0.232115, 1e-6);
+  check('t 值', ols.tStat, 0.885714 / 0.232115, 1e-4);
+  check('R²', ols.rSquared, 0.784490, 1e-6);
+  // β ± t(4)·SE，t(4) 近似誤差 < 0.01
+  check('95% 區間下限', ols.confidenceInterval.lower, 0.241259, 0.003);
+  check('95% 區間上限', ols.confidenceInterval.upper, 1.530170, 0.003);
+
+  console.log('\n📊 Blume 收縮 (0.67β + 0.33):');
+  const blume = estimateBeta(altcoinReturns, proxyReturns, 'blume');
+  check('β', blume.adjustedBeta, 0.923429, 1e-6);
+  check('標準誤', blume.adjustedStandardError, 0.155517, 1e-6);
+  check('95% 區間下限', blume.confidenceInterval.lower, 0.491643, 0.002);
+  check('95% 區間上限', blume.confidenceInterval.upper, 1.355214, 0.002);
+  check('OLS β 不變', blume.beta, ols.beta, 1e-12);
+
+  // Vasicek：先驗 N(1, 0.5²)，權重 w = 0.25 / (0.25 + SE²)
+  console.log('\n📊 Vasicek 收縮:');
+  const vasicek = estimateBeta(altcoinReturns, proxyReturns, 'vasicek');
+  check('β', vasicek.adjustedBeta, 0.905977, 1e-6);
+  check('標準誤', vasicek.adjustedStandardError, 0.210535, 1e-6);
+  // 精確估計（SE → 0）時不收縮；極不精確時趨近先驗 1
+  check('SE → 0 時不收縮', shrinkBeta(1.8, 1e-6, 'vasicek').beta, 1.8, 1e-9);
+  check('SE → ∞ 時趨近先驗', shrinkBeta(1.8, 1e3, 'vasicek').beta, 1, 1e-6);
+
+  // 模擬：y = 1.5x + ε，σ_x = 3%、σ_ε = 4%，SE ≈ σ_ε / (σ_x·√n)
+  console.log('\n📊 模擬報酬 (n = 1000):');
+  const normal = createNormal(createRandom(20261019));
+  const x = Array.from({ length: 1000 }, () => 0.03 * normal());
+  const y = x.map(value => 1.5 * value + 0.04 * normal());
+  const simulated = estimateBeta(y, x, 'none');
+  const expectedStandardError = 0.04 / (0.03 * Math.sqrt(1000));
+  check('β', simulated.beta, 1.5, 4 * simulated.standardError, 4);
+  check('標準誤', simulated.standardError, expectedStandardError, 0.1 * expectedStandardError, 5);
+  check('相關係數', simulated.correlation, 1.5 * 0.03 / Math.sqrt((1.5 * 0.03) ** 2 + 0.04 ** 2), 0.03, 4);
+
+  reportResult();
+}
+
+// 運行測試（apiCache 的定期清理計時器會讓程序持續執行，完成後明確結束）
+if (require.main === module) {
+  testBetaEstimation().then(() => process.exit());
+}
+
+export { testBetaEstimation };
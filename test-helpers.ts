@@ -0,0 +1,20 @@
+// 根目錄 test-*.ts 檢查腳本共用的已知答案比對
+
+// 比對已知答案，超出容差時標記失敗（process.exitCode = 1）
+export function check(label: string, actual: number | null | undefined, expected: number, tolerance: number, digits: number = 6): void {
+  const passed = actual !== null && actual !== undefined && Number.isFinite(actual) && Math.abs(actual - expected) <= tolerance;
+  const shown = actual === null || actual === undefined ? String(actual) : actual.toFixed(digits);
+  console.log(`${passed ? '✅' : '❌'} ${label}: ${shown} (預期 ${expected.toFixed(digits)} ± ${Number(tolerance.toPrecision(3))})`);
+  if (!passed) process.exitCode = 1;
+}
+
+// 檢查條件成立（非數值的已知答案，如剔除的履約價或回退的模型）
+export function checkThat(label: string, passed: boolean, detail: string = ''): void {
+  console.log(`${passed ? '✅' : '❌'} ${label}${detail ? `: ${detail}` : ''}`);
+  if (!passed) process.exitCode = 1;
+}
+
+// 輸出整體結果
+export function reportResult(): void {
+  console.log(process.exitCode ? '\n❌ 測試失敗！' : '\n✅ 測試完成！');
+}
@@ -0,0 +1,56 @@
+#!/usr/bin/env ts-node
+
+import { parseLockupPeriod, lockupPeriodToDays, formatLockupPeriod } from './lib/calculator.js';
+import { check, checkThat, reportResult } from './test-helpers.js';
+
+// 固定「今天」為 2026-10-19（本地時間），日期型鎖倉期的天數因此可重現
+const now = new Date(2026, 9, 19, 15, 30);
+
+async function testLockupPeriod() {
+  console.log('🧪 測試鎖倉期解析\n');
+
+  console.log('📊 parseLockupPeriod:');
+  const cases: [string | null, string | null][] = [
+    ['6M', '6M'],
+    ['2y', '2Y'],
+    [' 417d ', '417D'],
+    ['1095D', '1095D'],
+    ['1096D', null],          // 超過上限
+    ['0D', null],
+    ['2027-03-14', '2027-03-14'],
+    ['2029-10-18', '2029-10-18'], // 恰為 1095 天（含 2028 閏日）
+    ['2029-10-19', null],     // 1096 天
+    ['2026-10-19', null],     // 今天：0 天
+    ['2027-02-30', null],     // 不存在的日期
+    ['2027-3-14', null],      // 非 YYYY-MM-DD
+    ['18M', null],
+    [null, null]
+  ];
+  for (const [input, expected] of cases) {
+    const actual = parseLockupPeriod(input, now);
+    checkThat(`${JSON.stringify(input)} → ${expected}`, actual === expected, `${actual}`);
+  }
+
+  console.log('\n📊 lockupPeriodToDays:');
+  check('6M', lockupPeriodToDays('6M', now), 180, 0, 0);
+  check('1Y', lockupPeriodToDays('1Y', now), 365, 0, 0);
+  check('417D', lockupPeriodToDays('417D', now), 417, 0, 0);
+  // 2026-10-19 → 2027-03-14：12 + 30 + 31 + 31 + 28 + 14
+  check('2027-03-14', lockupPeriodToDays('2027-03-14', now), 146, 0, 0);
+  check('2029-10-18', lockupPeriodToDays('2029-10-18', now), 1095, 0, 0);
+
+  console.log('\n📊 formatLockupPeriod:');
+  for (const [period, expected] of [['6M', '6M'], ['417D', '417 days'], ['2027-03-14', 'until 2027-03-14']] as const) {
+    const actual = formatLockupPeriod(period);
+    checkThat(`${period} → ${expected}`, actual === expected, actual);
+  }
+
+  reportResult();
+}
+
+// 運行測試
+if (require.main === module) {
+  testLockupPeriod();
+}
+
+export { testLockupPeriod };
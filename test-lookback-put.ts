@@ -0,0 +1,63 @@
+#!/usr/bin/env ts-node
+
+import { longstaffLookbackPut } from './lib/calculator.js';
+import { createNormal, createRandom } from './lib/monteCarlo.js';
+import { check, reportResult } from './test-helpers.js';
+
+/**
+ * 以布朗橋精確抽樣連續監測的最大值估計浮動履約價回望賣權 E[e^(−rT)(S_max − S_T)]
+ * X_T ~ N((b − σ²/2)T, σ²T)，給定 X_T 時 max = (X_T + √(X_T² − 2σ²T·ln U)) / 2
+ */
+function sampledLookbackPut(S: number, T: number, r: number, sigma: number, carry: number, samples: number, seed: number) {
+  const random = createRandom(seed);
+  const normal = createNormal(random);
+  const drift = (carry - 0.5 * sigma * sigma) * T;
+  const variance = sigma * sigma * T;
+  let sum = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < samples; i++) {
+    const x = drift + Math.sqrt(variance) * normal();
+    const u = 1 - random();
+    const max = (x + Math.sqrt(x * x - 2 * variance * Math.log(u))) / 2;
+    const payoff = Math.exp(-r * T) * S * (Math.exp(max) - Math.exp(x));
+    sum += payoff;
+    sumSquares += payoff * payoff;
+  }
+  const mean = sum / samples;
+  return { price: mean, standardError: Math.sqrt((sumSquares / samples - mean * mean) / samples) };
+}
+
+async function testLookbackPut() {
+  console.log('🧪 測試 Longstaff 回望賣權\n');
+
+  // Longstaff (1995) 封閉解：S = 1, T = 1, σ = 30%, b = r = 0
+  // (2 + σ²T/2)·N(σ√T/2) + √(σ²T/2π)·e^(−σ²T/8) − 1 = 2.045 × 0.559618 + 0.119683 × 0.988813 − 1
+  console.log('📊 Longstaff 封閉解:');
+  check('σ=30%, T=1 折扣', longstaffLookbackPut(1, 1, 0, 0.3, 0), 0.262763, 1e-5);
+
+  // 持有成本趨近 0 時 Goldman-Sosin-Gatto 分支應與 Longstaff 分支連續
+  console.log('\n📊 b → 0 連續性:');
+  check('b = 1e-6 vs b = 0', longstaffLookbackPut(100, 1, 0, 0.3, 1e-6), longstaffLookbackPut(100, 1, 0, 0.3, 0), 1e-4);
+  check('b = −1e-6 vs b = 0', longstaffLookbackPut(100, 1, 0, 0.3, -1e-6), longstaffLookbackPut(100, 1, 0, 0.3, 0), 1e-4);
+
+  // 與連續監測最大值的精確抽樣比較（容差 4 個標準誤）
+  console.log('\n📊 與布朗橋抽樣比較 (200,000 樣本):');
+  const cases = [
+    { label: 'b = r = 0, σ=30%, T=1', T: 1, r: 0, sigma: 0.3, carry: 0 },
+    { label: 'b = r = 5%, σ=80%, T=2', T: 2, r: 0.05, sigma: 0.8, carry: 0.05 },
+    { label: 'r = 4%, b = 1%, σ=60%, T=0.5', T: 0.5, r: 0.04, sigma: 0.6, carry: 0.01 }
+  ];
+  for (const { label, T, r, sigma, carry } of cases) {
+    const sampled = sampledLookbackPut(100, T, r, sigma, carry, 200000, 20261019);
+    check(label, longstaffLookbackPut(100, T, r, sigma, carry), sampled.price, 4 * sampled.standardError, 4);
+  }
+
+  reportResult();
+}
+
+// 運行測試
+if (require.main === module) {
+  testLookbackPut();
+}
+
+export { testLookbackPut };
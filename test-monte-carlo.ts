@@ -0,0 +1,63 @@
+#!/usr/bin/env ts-node
+
+import { runMonteCarlo, MonteCarloParams } from './lib/monteCarlo.js';
+import { blackScholesModel } from './lib/pricing/index.js';
+import { check, checkThat, reportResult } from './test-helpers.js';
+
+const params: MonteCarloParams = {
+  spotPrice: 100,
+  riskFreeRate: 0.04,
+  volatility: 0.7,
+  timeToExpiry: 1,
+  paths: 100000,
+  steps: 12,
+  seed: 20261019
+};
+
+async function testMonteCarlo() {
+  console.log('🧪 測試 Monte Carlo 定價引擎\n');
+
+  console.log('📊 測試參數:');
+  console.log(`   S=${params.spotPrice}, r=${params.riskFreeRate * 100}%, σ=${params.volatility * 100}%, T=${params.timeToExpiry}, ${params.paths} 路徑 × ${params.steps} 步\n`);
+
+  // 歐式 payoff 應收斂到 Black-Scholes（容差 4 個標準誤）
+  console.log('📊 歐式 payoff vs Black-Scholes:');
+  for (const strike of [70, 100, 140]) {
+    for (const optionType of ['call', 'put'] as const) {
+      const expected = blackScholesModel.price(optionType, {
+        spot: params.spotPrice,
+        strike,
+        timeToExpiry: params.timeToExpiry,
+        riskFreeRate: params.riskFreeRate,
+        volatility: params.volatility
+      });
+      const result = runMonteCarlo({ type: 'european', optionType, strike }, params);
+      check(`K=${strike} ${optionType}`, result.price, expected, 4 * result.standardError, 4);
+    }
+  }
+
+  // 無 antithetic 與控制變量時仍應收斂
+  const plainResult = runMonteCarlo({ type: 'european', optionType: 'call', strike: 100 }, { ...params, antithetic: false, controlVariate: false });
+  const atmCall = blackScholesModel.price('call', { spot: 100, strike: 100, timeToExpiry: 1, riskFreeRate: 0.04, volatility: 0.7 });
+  check('K=100 call（無方差縮減）', plainResult.price, atmCall, 4 * plainResult.standardError, 4);
+
+  console.log('\n📊 可重現性與方差縮減:');
+  const first = runMonteCarlo({ type: 'european', optionType: 'call', strike: 100 }, params);
+  const second = runMonteCarlo({ type: 'european', optionType: 'call', strike: 100 }, params);
+  check('同一 seed 結果相同', second.price, first.price, 0, 10);
+  checkThat('控制變量降低標準誤', first.standardError < plainResult.standardError,
+    `${first.standardError.toFixed(4)} < ${plainResult.standardError.toFixed(4)}`);
+
+  // 單一 tranche 於到期日解鎖的歸屬 strip 即歐式選擇權
+  const strip = runMonteCarlo({ type: 'vesting-strip', optionType: 'call', strike: 100, tranches: [{ time: 1, weight: 1 }] }, params);
+  check('單一 tranche strip = 歐式', strip.price, first.price, 1e-9, 10);
+
+  reportResult();
+}
+
+// 運行測試
+if (require.main === module) {
+  testMonteCarlo();
+}
+
+export { testMonteCarlo };
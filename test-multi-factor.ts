@@ -0,0 +1,72 @@
+#!/usr/bin/env ts-node
+
+import { runMultiFactorRegression, MULTI_FACTOR_BENCHMARKS } from './lib/multiFactorModel.js';
+import { createNormal, createRandom } from './lib/monteCarlo.js';
+import { check, reportResult } from './test-helpers.js';
+
+const benchmarks = MULTI_FACTOR_BENCHMARKS.filter(benchmark => benchmark.required); // BTC, ETH
+
+// 由日對數報酬建立價格序列（起始價 100）
+function pricesFromLogReturns(returns: number[]): number[] {
+  const prices = [100];
+  for (const r of returns) prices.push(prices[prices.length - 1] * Math.exp(r));
+  return prices;
+}
+
+async function testMultiFactor() {
+  console.log('🧪 測試多因子迴歸 (BTC + ETH)\n');
+
+  // 因子報酬：BTC 日波動 3%，ETH = 0.6·BTC + 0.8·獨立衝擊（相關係數 0.6）
+  const days = 2000;
+  const normal = createNormal(createRandom(20261019));
+  const btc: number[] = [];
+  const eth: number[] = [];
+  const noise: number[] = [];
+  for (let t = 0; t < days; t++) {
+    const z1 = normal();
+    const z2 = normal();
+    btc.push(0.03 * z1);
+    eth.push(0.03 * (0.6 * z1 + 0.8 * z2));
+    noise.push(0.02 * normal());
+  }
+  const factorPrices = [pricesFromLogReturns(btc), pricesFromLogReturns(eth)];
+
+  // 無雜訊：y = 0.001 + 1.2·BTC + 0.5·ETH 應精確還原
+  console.log('📊 無雜訊線性組合:');
+  const exact = runMultiFactorRegression(
+    pricesFromLogReturns(btc.map((b, t) => 0.001 + 1.2 * b + 0.5 * eth[t])),
+    factorPrices, benchmarks, days, 'daily', 'log'
+  );
+  check('α', exact.alpha, 0.001, 1e-10, 8);
+  check('BTC loading', exact.factors[0].loading, 1.2, 1e-9);
+  check('ETH loading', exact.factors[1].loading, 0.5, 1e-9);
+  check('R²', exact.rSquared, 1, 1e-9);
+  check('特有波動率 (%)', exact.idiosyncraticVolatility, 0, 1e-5);
+  check('資料點', exact.dataPoints, days + 1, 0, 0);
+
+  // 加入 2% 日雜訊：loading 在 4 個標準誤內，標準誤 ≈ σ_ε / (σ_f·√n·√(1 − ρ²))
+  console.log('\n📊 含雜訊 (σ_ε = 2%):');
+  const noisy = runMultiFactorRegression(
+    pricesFromLogReturns(btc.map((b, t) => 1.2 * b + 0.5 * eth[t] + noise[t])),
+    factorPrices, benchmarks, days, 'daily', 'log'
+  );
+  const [btcFactor, ethFactor] = noisy.factors;
+  check('BTC loading', btcFactor.loading, 1.2, 4 * btcFactor.standardError, 4);
+  check('ETH loading', ethFactor.loading, 0.5, 4 * ethFactor.standardError, 4);
+  const expectedStandardError = 0.02 / (0.03 * Math.sqrt(days) * Math.sqrt(1 - 0.6 * 0.6));
+  check('BTC 標準誤', btcFactor.standardError, expectedStandardError, 0.1 * expectedStandardError, 5);
+  check('ETH 標準誤', ethFactor.standardError, expectedStandardError, 0.1 * expectedStandardError, 5);
+  check('BTC t 值 = loading / 標準誤', btcFactor.tStat, btcFactor.loading / btcFactor.standardError, 1e-9, 2);
+  check('因子相關係數', noisy.factorCorrelations[0][1], 0.6, 0.03, 4);
+  check('BTC 年化波動率 (%)', btcFactor.realizedVolatility, 0.03 * Math.sqrt(365) * 100, 3, 2);
+  check('特有波動率 (%)', noisy.idiosyncraticVolatility, 0.02 * Math.sqrt(365) * 100, 2, 2);
+
+  reportResult();
+}
+
+// 運行測試（apiCache 的定期清理計時器會讓程序持續執行，完成後明確結束）
+if (require.main === module) {
+  testMultiFactor().then(() => process.exit());
+}
+
+export { testMultiFactor };
@@ -0,0 +1,69 @@
+#!/usr/bin/env ts-node
+
+import { blackScholesModel, mertonJumpModel, normalCdf, solveImpliedVolatility, PricingInputs } from './lib/pricing/index.js';
+import { check, reportResult } from './test-helpers.js';
+
+const baseInputs: PricingInputs = {
+  spot: 100,
+  strike: 100,
+  timeToExpiry: 0.5,
+  riskFreeRate: 0.05,
+  volatility: 0.6
+};
+
+const strikes = [60, 80, 100, 120, 150];
+
+async function testPricingModels() {
+  console.log('🧪 測試選擇權定價模型\n');
+
+  // 標準常態累積分佈（雙精度參考值）
+  console.log('📊 標準常態 CDF:');
+  check('N(1.96)', normalCdf(1.96), 0.9750021048517795, 1e-12, 12);
+  check('N(-3)', normalCdf(-3), 0.0013498980316301, 1e-12, 12);
+  check('N(-8)', normalCdf(-8), 6.22096057427178e-16, 1e-20, 20);
+
+  // 教科書數值：S = K = 100, T = 1, r = 5%, σ = 20% → C = 10.4506, P = 5.5735
+  console.log('\n📊 Black-Scholes 教科書數值:');
+  const textbook: PricingInputs = { spot: 100, strike: 100, timeToExpiry: 1, riskFreeRate: 0.05, volatility: 0.2 };
+  check('Call', blackScholesModel.price('call', textbook), 10.4506, 1e-4);
+  check('Put', blackScholesModel.price('put', textbook), 5.5735, 1e-4);
+
+  // Put-call parity：C − P = S − K·e^(−rT)
+  console.log('\n📊 Put-Call Parity:');
+  for (const strike of strikes) {
+    const inputs = { ...baseInputs, strike };
+    const call = blackScholesModel.price('call', inputs);
+    const put = blackScholesModel.price('put', inputs);
+    const expected = inputs.spot - strike * Math.exp(-inputs.riskFreeRate * inputs.timeToExpiry);
+    check(`K=${strike} C − P`, call - put, expected, 1e-8);
+  }
+
+  // 隱含波動率往返：以已知 σ 定價後反解應還原 σ
+  console.log('\n📊 隱含波動率往返 (σ = 60%):');
+  for (const strike of strikes) {
+    const inputs = { ...baseInputs, strike };
+    for (const side of ['call', 'put'] as const) {
+      const price = blackScholesModel.price(side, inputs);
+      const result = solveImpliedVolatility(blackScholesModel, price, side, {
+        spot: inputs.spot, strike, timeToExpiry: inputs.timeToExpiry, riskFreeRate: inputs.riskFreeRate
+      });
+      check(`K=${strike} ${side} IV`, result.volatility, baseInputs.volatility, 1e-6);
+    }
+  }
+
+  // 跳躍強度為 0 時 Merton 模型應退化為 Black-Scholes
+  console.log('\n📊 Merton (λ = 0) 與 Black-Scholes 一致:');
+  for (const strike of strikes) {
+    const inputs: PricingInputs = { ...baseInputs, strike, jumps: { jumpIntensity: 0, jumpMean: -0.1, jumpVolatility: 0.3 } };
+    check(`K=${strike} call`, mertonJumpModel.price('call', inputs), blackScholesModel.price('call', inputs), 1e-8);
+  }
+
+  reportResult();
+}
+
+// 運行測試
+if (require.main === module) {
+  testPricingModels();
+}
+
+export { testPricingModels };
@@ -0,0 +1,64 @@
+#!/usr/bin/env ts-node
+
+import { fitTermStructure, termStructureVolatility } from './lib/termStructure.js';
+import { ExtrapolationStrategy, TermStructurePoint } from './types/index.js';
+import { check, checkThat, reportResult } from './test-helpers.js';
+
+async function testTermStructure() {
+  console.log('🧪 測試期限結構擬合策略\n');
+
+  // 平坦遠期方差：兩節點間總方差線性內插
+  console.log('📊 Flat forward:');
+  const flatNodes: TermStructurePoint[] = [
+    { expiry: 'A', timeToExpiry: 0.25, atmVol: 40 },
+    { expiry: 'B', timeToExpiry: 1, atmVol: 60 }
+  ];
+  const flat = fitTermStructure(flatNodes, ExtrapolationStrategy.FLAT_FORWARD, 'selected_expiries');
+  const interpolatedVariance = 0.4 ** 2 * 0.25 + (0.5 - 0.25) / (1 - 0.25) * (0.6 ** 2 * 1 - 0.4 ** 2 * 0.25);
+  check('T=0.5 (%)', termStructureVolatility(flat, 0.5), Math.sqrt(interpolatedVariance / 0.5) * 100, 1e-9);
+  check('最後遠期波動率 (%)', flat.parameters.lastForwardVol, Math.sqrt((0.36 - 0.04) / 0.75) * 100, 1e-9);
+
+  // 冪律 σ(T) = a·T^b
+  console.log('\n📊 Power law:');
+  const powerNodes: TermStructurePoint[] = [0.05, 0.1, 0.25, 0.5, 1, 2].map((t, i) => ({
+    expiry: `P${i}`, timeToExpiry: t, atmVol: 55 * Math.pow(t, -0.1)
+  }));
+  const power = fitTermStructure(powerNodes, ExtrapolationStrategy.POWER_LAW, 'selected_expiries');
+  check('a (%)', power.parameters.a, 55, 1e-9);
+  check('b', power.parameters.b, -0.1, 1e-9);
+
+  // Nelson-Siegel 平均方差曲線：長期 50%、瞬時 80%
+  console.log('\n📊 Nelson-Siegel:');
+  const beta0 = 0.25;
+  const beta1 = 0.39;
+  const beta2 = -0.1;
+  const tau = 0.3;
+  const nelsonSiegelVol = (t: number) => {
+    const x = t / tau;
+    const slope = (1 - Math.exp(-x)) / x;
+    return Math.sqrt(beta0 + beta1 * slope + beta2 * (slope - Math.exp(-x))) * 100;
+  };
+  const nsNodes: TermStructurePoint[] = [0.02, 0.05, 0.1, 0.25, 0.5, 1, 1.5, 2].map((t, i) => ({
+    expiry: `N${i}`, timeToExpiry: t, atmVol: nelsonSiegelVol(t)
+  }));
+  const nelsonSiegel = fitTermStructure(nsNodes, ExtrapolationStrategy.NELSON_SIEGEL, 'selected_expiries');
+  checkThat('使用 Nelson-Siegel 模型', nelsonSiegel.model === ExtrapolationStrategy.NELSON_SIEGEL, nelsonSiegel.model);
+  check('RMSE (百分點)', nelsonSiegel.rmse, 0, 0.05);
+  check('長期波動率 (%)', nelsonSiegel.parameters.longRunVol, 50, 1);
+  check('T=0.75 (%)', termStructureVolatility(nelsonSiegel, 0.75), nelsonSiegelVol(0.75), 0.05);
+
+  // Nelson-Siegel 至少需要 4 個到期日，不足時回退為平坦遠期方差
+  console.log('\n📊 資料不足:');
+  const fallback = fitTermStructure(nsNodes.slice(0, 3), ExtrapolationStrategy.NELSON_SIEGEL, 'selected_expiries');
+  checkThat('3 個到期日回退 flat forward', fallback.model === ExtrapolationStrategy.FLAT_FORWARD, fallback.model);
+  checkThat('保留原選擇的模型', fallback.requestedModel === ExtrapolationStrategy.NELSON_SIEGEL, fallback.requestedModel);
+
+  reportResult();
+}
+
+// 運行測試
+if (require.main === module) {
+  testTermStructure();
+}
+
+export { testTermStructure };
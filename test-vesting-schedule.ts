@@ -0,0 +1,80 @@
+#!/usr/bin/env ts-node
+
+import { buildVestingTranches, finalUnlockPeriod, validateVestingSchedule, valueVestingSchedule } from './lib/vesting.js';
+import { VestingSchedule, VestingTranche } from './types/index.js';
+import { check, checkThat, reportResult } from './test-helpers.js';
+
+// 固定「今天」為 2026-10-19（本地時間）
+const now = new Date(2026, 9, 19, 9, 0);
+
+function checkTranches(label: string, actual: VestingTranche[], expected: [string, number, number, boolean][]): void {
+  const summary = actual.map(t => `${t.unlockDate} ${t.percent}% ${t.lockupDays}d${t.vested ? ' vested' : ''}`).join(', ');
+  const matches = actual.length === expected.length && expected.every(([date, percent, days, vested], i) =>
+    actual[i].unlockDate === date && Math.abs(actual[i].percent - percent) < 1e-9 && actual[i].lockupDays === days && actual[i].vested === vested
+  );
+  checkThat(label, matches, summary);
+}
+
+async function testVestingSchedule() {
+  console.log('🧪 測試歸屬計畫展開與估值\n');
+
+  // 12 個月 cliff 解鎖 25%，之後 3 次月解鎖；月底起始日對齊到各月最後一天
+  const cliffSchedule: VestingSchedule = { startDate: '2026-01-31', cliffMonths: 12, cliffPercent: 25, frequency: 'monthly', trancheCount: 3 };
+  console.log('📊 buildVestingTranches:');
+  checkTranches('Cliff + 月解鎖', buildVestingTranches(cliffSchedule, now), [
+    ['2027-01-31', 25, 104, false],
+    ['2027-02-28', 25, 132, false],
+    ['2027-03-31', 25, 163, false],
+    ['2027-04-30', 25, 193, false]
+  ]);
+
+  // 部分已解鎖的季解鎖計畫
+  const quarterlySchedule: VestingSchedule = { startDate: '2025-06-15', cliffMonths: 6, cliffPercent: 20, frequency: 'quarterly', trancheCount: 4 };
+  checkTranches('季解鎖（部分已解鎖）', buildVestingTranches(quarterlySchedule, now), [
+    ['2025-12-15', 20, 0, true],
+    ['2026-03-15', 20, 0, true],
+    ['2026-06-15', 20, 0, true],
+    ['2026-09-15', 20, 0, true],
+    ['2026-12-15', 20, 57, false]
+  ]);
+
+  // cliff 比例為 0 時略過 cliff tranche
+  const linearSchedule: VestingSchedule = { startDate: '2026-11-01', cliffMonths: 0, cliffPercent: 0, frequency: 'monthly', trancheCount: 4 };
+  checkTranches('無 cliff 線性解鎖', buildVestingTranches(linearSchedule, now), [
+    ['2026-12-01', 25, 43, false],
+    ['2027-01-01', 25, 74, false],
+    ['2027-02-01', 25, 105, false],
+    ['2027-03-01', 25, 133, false]
+  ]);
+
+  console.log('\n📊 驗證與最後解鎖日:');
+  const finalPeriod = finalUnlockPeriod(cliffSchedule, now);
+  checkThat('最後解鎖日', finalPeriod === '2027-04-30', `${finalPeriod}`);
+  checkThat('有效計畫', validateVestingSchedule(cliffSchedule, now) === null);
+  const unlocked = validateVestingSchedule({ ...quarterlySchedule, trancheCount: 3 }, now);
+  checkThat('全部解鎖的計畫被拒絕', unlocked === 'Vesting schedule is already fully unlocked', `${unlocked}`);
+  const invalidStart = validateVestingSchedule({ ...cliffSchedule, startDate: '2026-02-30' }, now);
+  checkThat('無效起始日被拒絕', invalidStart === 'Invalid vesting start date. Must be YYYY-MM-DD', `${invalidStart}`);
+
+  // 每個未解鎖 tranche 折扣 10%：合理價格皆以同一現貨換算
+  console.log('\n📊 valueVestingSchedule (未解鎖 tranche 折扣 10%):');
+  const spotPrice = 2;
+  const valuation = await valueVestingSchedule(quarterlySchedule, spotPrice, async () => ({
+    discount: 10,
+    annualizedRate: 0,
+    method: 'test'
+  }), now);
+  check('已解鎖比例 (%)', valuation.vestedPercent, 80, 1e-9);
+  check('加權折扣 (%)', valuation.blendedDiscount, 2, 1e-9);
+  check('加權合理價格', valuation.blendedFairValue, spotPrice * (1 - 0.02), 1e-12);
+  check('未解鎖 tranche 合理價格', valuation.tranches[4].fairValue, spotPrice * 0.9, 1e-12);
+
+  reportResult();
+}
+
+// 運行測試
+if (require.main === module) {
+  testVestingSchedule();
+}
+
+export { testVestingSchedule };
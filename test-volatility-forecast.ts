@@ -0,0 +1,78 @@
+#!/usr/bin/env ts-node
+
+import { estimateVolatilityForecast, RISKMETRICS_LAMBDA } from './lib/volatilityForecast.js';
+import { HistoricalPriceData } from './lib/historicalVolatility.js';
+import { createNormal, createRandom } from './lib/monteCarlo.js';
+import { check, reportResult } from './test-helpers.js';
+
+const START = Date.UTC(2015, 0, 1);
+const ONE_DAY_MS = 86400000;
+
+// 由日對數報酬建立價格序列（起始價 100）
+function pricesFromReturns(returns: number[]): HistoricalPriceData[] {
+  let price = 100;
+  const prices: HistoricalPriceData[] = [{ date: new Date(START).toISOString().split('T')[0], price }];
+  returns.forEach((r, i) => {
+    price *= Math.exp(r);
+    prices.push({ date: new Date(START + (i + 1) * ONE_DAY_MS).toISOString().split('T')[0], price });
+  });
+  return prices;
+}
+
+// 以已知參數模擬 GARCH(1,1) 日對數報酬
+function simulateGarchReturns(omega: number, alpha: number, beta: number, days: number, seed: number): number[] {
+  const normal = createNormal(createRandom(seed));
+  let variance = omega / (1 - alpha - beta);
+  const returns: number[] = [];
+  for (let day = 0; day < days; day++) {
+    const shock = Math.sqrt(variance) * normal();
+    returns.push(shock);
+    variance = omega + alpha * shock * shock + beta * variance;
+  }
+  return returns;
+}
+
+// 正負交替的固定大小報酬（平均為 0）
+const alternating = (size: number, count: number) => Array.from({ length: count }, (_, i) => (i % 2 === 0 ? size : -size));
+
+async function testVolatilityForecast() {
+  console.log('🧪 測試 EWMA 與 GARCH(1,1) 波動率預測\n');
+
+  // 固定 |r| = 2%：EWMA 方差恆為 0.0004，年化 √(0.0004 × 365)
+  console.log('📊 EWMA (λ = 0.94):');
+  const flat = estimateVolatilityForecast(pricesFromReturns(alternating(0.02, 60)), 'ewma', 30);
+  check('固定報酬', flat.ewma?.currentVolatility, Math.sqrt(0.0004 * 365), 1e-9);
+
+  // 20 日 |r| = 1% 後 10 日 |r| = 3%：σ² = 0.0009 − 0.0008 × λ^10
+  const shift = estimateVolatilityForecast(pricesFromReturns([...alternating(0.01, 20), ...alternating(0.03, 10)]), 'ewma', 30);
+  check('波動率跳升後', shift.ewma?.currentVolatility, Math.sqrt((0.0009 - 0.0008 * Math.pow(RISKMETRICS_LAMBDA, 10)) * 365), 1e-9);
+
+  // 年化長期波動率 60%：日方差 0.6² / 365
+  const alpha = 0.08;
+  const beta = 0.9;
+  const longRunVolatility = 0.6;
+  const omega = (longRunVolatility ** 2 / 365) * (1 - alpha - beta);
+
+  console.log('\n📊 GARCH(1,1) 參數還原:');
+  console.log(`   α = ${alpha}, β = ${beta}, 長期波動率 = ${(longRunVolatility * 100).toFixed(0)}%, 4000 日模擬報酬\n`);
+
+  const prices = pricesFromReturns(simulateGarchReturns(omega, alpha, beta, 4000, 20240601));
+  const forecast = estimateVolatilityForecast(prices, 'garch', 30);
+  check('α', forecast.garch?.alpha, alpha, 0.03, 4);
+  check('β', forecast.garch?.beta, beta, 0.04, 4);
+  check('α + β', forecast.garch?.persistence, alpha + beta, 0.015, 4);
+  check('長期波動率', forecast.garch?.longRunVolatility, longRunVolatility, 0.08, 4);
+
+  // 預測期限極長時應收斂至長期波動率
+  const longHorizon = estimateVolatilityForecast(prices, 'garch', 3650);
+  check('10 年預測收斂至長期波動率', longHorizon.forecastVolatility, forecast.garch?.longRunVolatility ?? NaN, 0.01, 4);
+
+  reportResult();
+}
+
+// 運行測試
+if (require.main === module) {
+  testVolatilityForecast();
+}
+
+export { testVolatilityForecast };
@@ -0,0 +1,57 @@
+#!/usr/bin/env ts-node
+
+import { fitSviSmile, sviTotalVariance, smileImpliedVolatility, MIN_SMILE_POINTS } from './lib/volatilitySmile.js';
+import { OptionData, SviParameters } from './types/index.js';
+import { check, checkThat, reportResult } from './test-helpers.js';
+
+const forward = 100000;
+const timeToExpiry = 0.25;
+
+// 以已知 raw SVI 參數產生各履約價的隱含波動率報價
+function sviQuotes(params: SviParameters, logMoneyness: number[]): OptionData[] {
+  return logMoneyness.map(k => ({
+    strike: forward * Math.exp(k),
+    callPrice: 0,
+    putPrice: 0,
+    expiry: '27MAR26',
+    impliedVol: Math.sqrt(sviTotalVariance(params, k) / timeToExpiry) * 100
+  }));
+}
+
+async function testVolatilitySmile() {
+  console.log('🧪 測試 SVI 微笑擬合\n');
+
+  // 已知參數：w(k) = a + b(ρ(k − m) + √((k − m)² + σ²))
+  const truth: SviParameters = { a: 0.02, b: 0.1, rho: -0.4, m: 0.05, sigma: 0.15 };
+  console.log('📊 sviTotalVariance:');
+  check('w(m) = a + bσ', sviTotalVariance(truth, truth.m), truth.a + truth.b * truth.sigma, 1e-12, 8);
+  // w(0) = 0.02 + 0.1 × (0.02 + √0.025)
+  check('w(0)', sviTotalVariance(truth, 0), 0.03781139, 1e-8, 8);
+
+  console.log('\n📊 還原已知參數 (11 個報價):');
+  const smile = fitSviSmile(sviQuotes(truth, [-0.5, -0.4, -0.3, -0.2, -0.1, 0, 0.1, 0.2, 0.3, 0.4, 0.5]), forward, timeToExpiry);
+  check('RMSE (百分點)', smile?.rmse, 0, 0.01);
+  check('a', smile?.parameters.a, truth.a, 0.002);
+  check('b', smile?.parameters.b, truth.b, 0.005);
+  check('ρ', smile?.parameters.rho, truth.rho, 0.02);
+  check('m', smile?.parameters.m, truth.m, 0.01);
+  check('σ', smile?.parameters.sigma, truth.sigma, 0.01);
+
+  // 擬合曲線在報價之間的履約價亦應與真實微笑一致
+  const between = forward * Math.exp(0.15);
+  check('K = F·e^0.15 隱含波動率 (%)', smile ? smileImpliedVolatility(smile, between) : undefined,
+    Math.sqrt(sviTotalVariance(truth, 0.15) / timeToExpiry) * 100, 0.01);
+
+  console.log('\n📊 報價不足:');
+  const sparse = fitSviSmile(sviQuotes(truth, [-0.2, -0.1, 0, 0.1]), forward, timeToExpiry);
+  checkThat(`少於 ${MIN_SMILE_POINTS} 個報價時不擬合`, sparse === null);
+
+  reportResult();
+}
+
+// 運行測試
+if (require.main === module) {
+  testVolatilitySmile();
+}
+
+export { testVolatilitySmile };
@@ -1,8 +1,10 @@
 export type Token = 'BTC' | 'ETH';
-export type LockupPeriod = '3M' | '6M' | '1Y' | '2Y';
+export type LockupPreset = '3M' | '6M' | '1Y' | '2Y';
+// 鎖倉期：預設期限、天數 (e.g. '417D') 或解鎖日期 (e.g. '2027-03-14')
+export type LockupPeriod = LockupPreset | `${number}D` | `${number}-${number}-${number}`;
 
 // Token calculation modes
-export type TokenCalculationMode = 'market-data' | 'historical-volatility';
+export type TokenCalculationMode = 'market-data' | 'historical-volatility' | 'proxy-implied' | 'multi-factor';
 
 // Custom token input for historical volatility mode
 export interface CustomTokenInput {
@@ -10,6 +12,179 @@ export interface CustomTokenInput {
   targetPrice: number;
   period: LockupPeriod;
   volatilityDays?: number; // Number of days for historical volatility calculation (60, 90, or 180)
+  vestingSchedule?: VestingSchedule; // 有歸屬計畫時 period 為最後解鎖日
+  methodology?: DiscountMethodology; // 主要折扣方法論，預設 ATM Call
+  pricingModel?: PricingModel;       // 歷史波動率模式的定價模型，預設 Black-Scholes
+  volatilityEstimator?: VolatilityEstimator; // 歷史波動率估計方法，預設樣本標準差
+  rangeEstimator?: RangeVolatilityEstimator; // 樣本波動率的報酬度量，預設收盤對收盤
+  robustMethod?: RobustVolatilityMethod;      // 收盤對收盤的穩健估計，預設不過濾
+  extraFactors?: string[];                    // 多因子模式在 BTC、ETH 之外的選用因子 (例如 SOL)
+  proxy?: Token;                              // proxy-implied 模式的期權錨定資產
+  betaEstimation?: BetaEstimationOptions;     // proxy-implied 與多因子模式的 Beta 估計設定
+}
+
+// Beta 迴歸的報酬頻率：週報酬可緩解低流動性代幣的非同步交易
+export type BetaReturnFrequency = 'daily' | 'weekly';
+export type BetaReturnType = 'simple' | 'log';
+// auto 依 Binance → CoinCap → CoinGecko 順序回退，指定來源時僅使用該來源（失敗不回退）
+export type BetaPriceProvider = 'auto' | 'binance' | 'coincap' | 'coingecko';
+
+// Beta 收縮：Blume (0.67β + 0.33) 或 Vasicek (以先驗 β = 1 依標準誤加權)
+export type BetaShrinkage = 'none' | 'blume' | 'vasicek';
+
+export interface BetaEstimationOptions {
+  windowDays: number;
+  frequency: BetaReturnFrequency;
+  returnType: BetaReturnType;
+  provider: BetaPriceProvider;
+  shrinkage: BetaShrinkage;
+}
+
+export interface RollingBetaPoint {
+  date: string; // 窗口結束日
+  beta: number;
+}
+
+// Proxy-implied 模式：以 BTC 或 ETH 的 Deribit 隱含波動率與對該資產的 beta 推導 altcoin 隱含波動率
+export interface ProxyImpliedRequest {
+  tokenId: string;
+  period: LockupPeriod;
+  proxy: Token;
+  betaEstimation: BetaEstimationOptions;
+}
+
+export interface ProxyBetaAnalysis {
+  beta: number;          // 推導所用 (收縮後) 的 beta
+  standardError: number;
+  confidenceInterval: { lower: number; upper: number };
+  shrinkage: BetaShrinkage;
+  olsBeta: number;
+  olsStandardError: number;
+  tStat: number;
+  rollingBeta: RollingBetaPoint[];
+  alpha: number;
+  correlation: number;
+  rSquared: number;
+  altcoinVolatility: number;       // %
+  proxyVolatility: number;         // %
+  idiosyncraticVolatility: number; // %
+  dataPoints: number;
+  calculationPeriodDays: number;
+  frequency: BetaReturnFrequency;
+  returnType: BetaReturnType;
+  altcoinProvider: string;
+  proxyProvider: string;
+}
+
+export interface ProxyImpliedVolatility {
+  impliedVolatility: number; // 鎖倉期 ATM 隱含波動率 (%)
+  source: 'deribit_options';
+  atmStrike: number;
+  optionsUsed: number;
+  calculationMethod: 'dual_expiry_extrapolation';
+  lockupDays: number;
+  strategy: ExtrapolationStrategy;
+  shortTermExpiry: string;
+  longTermExpiry: string;
+  shortTermIV: number; // %
+  longTermIV: number;  // %
+}
+
+export interface ProxyVolatilityComparison {
+  historicalVolatility: number;
+  systematicImpliedVolatility: number;
+  idiosyncraticVolatility: number;
+  derivedImpliedVolatility: number;
+  derivedImpliedVolatilityRange: { lower: number; upper: number };
+  difference: number; // percentage points
+  ratio: number;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export interface ProxyImpliedAnalysisResponse {
+  success: true;
+  tokenId: string;
+  period: LockupPeriod;
+  proxy: Token;
+  currentPrice: number;
+  betaAnalysis: ProxyBetaAnalysis;
+  proxyImpliedVolatility: ProxyImpliedVolatility;
+  volatilityComparison: ProxyVolatilityComparison;
+  methodology: {
+    description: string;
+    formula: string;
+    betaFormula: string;
+    betaShrinkage: string;
+    rangeFormula: string;
+    period: string;
+    proxyImpliedVolSource: string;
+  };
+  performance: {
+    totalDuration: number;
+    timestamp: string;
+  };
+}
+
+// 多因子模式：以 BTC、ETH（與選用因子）的迴歸載荷組合各因子的隱含波動率推導 altcoin 隱含波動率
+export interface MultiFactorLoading {
+  symbol: string;
+  tokenId: string;
+  loading: number;                // 因子載荷 (偏迴歸係數)
+  standardError: number;
+  tStat: number;
+  realizedVolatility: number;     // %
+  impliedVolatility: number;      // 定價所用的因子波動率 (%)
+  volatilitySource: 'deribit_options' | 'realized';
+  varianceContribution: number;   // 系統性方差的 Euler 分解 (%²)
+  optionsDetail?: ProxyImpliedVolatility;
+  provider: string;               // 因子價格的資料來源
+}
+
+export interface MultiFactorAnalysis {
+  factors: MultiFactorLoading[];
+  alpha: number;
+  alphaTStat: number;
+  rSquared: number;
+  adjustedRSquared: number;
+  factorCorrelations: number[][]; // 順序同 factors
+  altcoinVolatility: number;       // %
+  idiosyncraticVolatility: number; // %
+  dataPoints: number;
+  calculationPeriodDays: number;
+  frequency: BetaReturnFrequency;
+  returnType: BetaReturnType;
+  altcoinProvider: string;
+}
+
+export type MultiFactorVolatilityComparison = Omit<ProxyVolatilityComparison, 'derivedImpliedVolatilityRange'>;
+
+export interface MultiFactorAnalysisResponse {
+  success: true;
+  tokenId: string;
+  period: LockupPeriod;
+  currentPrice: number;
+  multiFactorAnalysis: MultiFactorAnalysis;
+  volatilityComparison: MultiFactorVolatilityComparison;
+  methodology: {
+    description: string;
+    formula: string;
+    regression: string;
+    period: string;
+    factorVolatilitySources: string[];
+  };
+  performance: {
+    totalDuration: number;
+    timestamp: string;
+  };
+}
+
+// API 路由 500 錯誤的回應格式
+export interface ApiErrorResponse {
+  success: false;
+  error: string;
+  details: string;
+  duration: number;
+  timestamp: string;
 }
 
 export interface PriceData {
@@ -28,12 +203,31 @@ export interface ATMCalculation {
   weight: number;
   atmDistance: number;
   expiry: string;  // 到期日 (e.g., "26DEC25")
+  lookbackDiscount?: number;         // Longstaff回望賣權折扣 (%)
+  theoreticalLookbackPrice?: number; // 理論回望賣權價格
+  averageStrikeDiscount?: number;         // 平均履約價賣權折扣 (%)
+  theoreticalAverageStrikePrice?: number; // 理論平均履約價賣權價格
   // 雙到期日計算相關資訊
   shortTermIV?: number;    // 短期隱含波動率
   longTermIV?: number;     // 長期隱含波動率
   shortTermExpiry?: string; // 短期到期日
   longTermExpiry?: string;  // 長期到期日
   extrapolationStrategy?: ExtrapolationStrategy; // 外推策略
+  greeks?: ContractGreeks; // 該履約價的Call/Put敏感度
+}
+
+// 選擇權敏感度（每單位代幣，USD）
+export interface OptionGreeks {
+  delta: number; // ∂V/∂S
+  gamma: number; // ∂²V/∂S²
+  vega: number;  // 每 1 個波動率百分點
+  theta: number; // 每日曆日的時間價值變化
+  rho: number;   // 每 1 個利率百分點
+}
+
+export interface ContractGreeks {
+  call: OptionGreeks;
+  put: OptionGreeks;
 }
 
 // 原始市場合約數據接口（用於顯示）
@@ -44,15 +238,125 @@ export interface RawATMContract {
   impliedVol: number;  // 原始市場波動率
   expiry: string;
   atmDistance: number;
+  extrapolatedVol?: number; // 該履約價外推至目標期限的隱含波動率 (%)
+  ivFlags?: IVSolverFlag[]; // 隱含波動率反推警示
   callDiscount?: number;
   putDiscount?: number;
   weight?: number;
 }
 
 export enum ExtrapolationStrategy {
-  INTERPOLATION = 'interpolation',           // 內插：目標在兩個期限之間
-  EXTRAPOLATION = 'extrapolation',          // 外推：目標超出所有期限
-  BOUNDED_EXTRAPOLATION = 'bounded_extrapolation' // 有界外推：使用最佳兩個期限
+  INTERPOLATION = 'interpolation', // 內插：目標在兩個期限之間，總方差線性內插
+  FLAT_FORWARD = 'flat_forward',   // 平坦遠期方差：節點間線性總方差，兩端延續邊界遠期方差
+  POWER_LAW = 'power_law',         // 冪律：σ(T) = a·T^b
+  NELSON_SIEGEL = 'nelson_siegel'  // Nelson-Siegel 形式的平均方差曲線
+}
+
+// 可選的期限結構擬合策略（目標超出已掛牌到期日時使用）
+export type TermStructureModel =
+  | ExtrapolationStrategy.FLAT_FORWARD
+  | ExtrapolationStrategy.POWER_LAW
+  | ExtrapolationStrategy.NELSON_SIEGEL;
+
+// 單一到期日的 ATM 隱含波動率
+export interface TermStructurePoint {
+  expiry: string;
+  timeToExpiry: number; // 年
+  atmVol: number;       // ATM 隱含波動率 (%)
+}
+
+export interface TermStructureResidual extends TermStructurePoint {
+  fittedVol: number;    // 擬合 ATM 隱含波動率 (%)
+  residual: number;     // 擬合 - 市場 (百分點)
+}
+
+// 以所有到期日擬合的 ATM 總方差期限結構
+export interface TermStructureFit {
+  model: TermStructureModel;          // 實際使用的策略
+  requestedModel: TermStructureModel; // 資料不足時回退為平坦遠期方差
+  parameters: Record<string, number>;
+  nodes: TermStructurePoint[];        // 依到期時間排序
+  residuals: TermStructureResidual[];
+  rmse: number;                       // 隱含波動率均方根誤差 (百分點)
+  maxAbsResidual: number;             // 百分點
+  source: 'deribit_book_summary' | 'selected_expiries'; // 全部到期日或僅雙到期日
+}
+
+// Raw SVI 參數：總方差 w(k) = a + b(ρ(k - m) + √((k - m)² + σ²))
+export interface SviParameters {
+  a: number;
+  b: number;
+  rho: number;
+  m: number;
+  sigma: number;
+}
+
+export interface SmileFitResidual {
+  strike: number;
+  logMoneyness: number;  // ln(K / 參考價格)
+  marketIV: number;      // 市場隱含波動率 (%)
+  fittedIV: number;      // 擬合隱含波動率 (%)
+  residual: number;      // 擬合 - 市場 (百分點)
+}
+
+// 單一到期日的波動率微笑擬合結果
+export interface SmileFit {
+  model: 'raw-svi';
+  parameters: SviParameters;
+  referencePrice: number;  // log-moneyness 的基準（遠期價格，無遠期曲線時為現貨）
+  timeToExpiry: number;    // 年
+  points: number;
+  rmse: number;            // 隱含波動率均方根誤差 (百分點)
+  residuals: SmileFitResidual[];
+}
+
+// Deribit 期貨遠期曲線上的單一到期點
+export interface ForwardPoint {
+  instrument: string;      // e.g. BTC-27MAR26
+  expiry: string;
+  timeToExpiry: number;    // 年
+  futurePrice: number;     // 期貨標記價格 (USD)
+  basis: number;           // F / 指數 - 1 (%)
+  impliedCarry: number;    // ln(F / 指數) / T，年化連續複利（小數）
+}
+
+export interface ForwardCurve {
+  token: Token;
+  indexPrice: number;      // Deribit 指數價格
+  points: ForwardPoint[];  // 依到期時間排序
+}
+
+// 選擇權到期日的遠期：期貨曲線值與 put-call parity 交叉驗證
+export interface ExpiryForwardCheck {
+  expiry: string;
+  futuresForward: number;   // 由期貨曲線內插
+  parityForward?: number;   // 由選擇權 put-call parity 推得
+  deviation?: number;       // (parity - futures) / futures (%)
+}
+
+export interface ForwardInfo {
+  indexPrice: number;
+  targetForward: number;    // 目標鎖倉期限的遠期價格
+  impliedCarry: number;     // 目標期限的年化隱含持有成本（小數）
+  basis: number;            // 目標遠期相對指數的基差 (%)
+  checks: ExpiryForwardCheck[];
+  curve: ForwardPoint[];
+}
+
+// 選擇權曲面的靜態套利檢查
+export type ArbitrageViolationType = 'put-call-parity' | 'vertical-spread' | 'butterfly' | 'calendar';
+
+export interface ArbitrageViolation {
+  type: ArbitrageViolationType;
+  expiry: string;
+  strikes: number[];                 // 涉及的履約價；ATM 期限結構為空
+  action: 'excluded' | 'repaired';   // 剔除合約或修正總方差
+  detail: string;
+}
+
+export interface ArbitrageReport {
+  violations: ArbitrageViolation[];
+  excludedContracts: number;         // 因套利被剔除的履約價數
 }
 
 export interface DualExpiryData {
@@ -61,28 +365,197 @@ export interface DualExpiryData {
     timeToExpiry: number;  // 年為單位
     impliedVol: number;
     optionsData: OptionData[];
+    smile?: SmileFit;      // 擬合失敗時回退為平均隱含波動率
+    forward?: number;      // 該到期日的遠期價格
   };
   longTerm: {
     expiry: string;
     timeToExpiry: number;  // 年為單位
     impliedVol: number;
     optionsData: OptionData[];
+    smile?: SmileFit;
+    forward?: number;
   };
+  forward?: ForwardInfo;   // 期貨曲線取得失敗時為空，回退為現貨 × e^(rT)
   strategy: ExtrapolationStrategy;
+  termStructure: TermStructureFit;
+  arbitrage: ArbitrageReport;
   targetTimeToExpiry: number;  // 目標鎖倉時間（年）
 }
 
+// 折扣方法論：ATM Call 權利金 (預設)、Longstaff (1995) 回望賣權上限或 Finnerty 平均履約價賣權
+export type DiscountMethodology = 'atm-call' | 'longstaff-lookback' | 'average-strike-put';
+
+// 定價模型：對數常態 Black-Scholes 或 Merton (1976) 跳躍擴散
+export type PricingModel = 'black-scholes' | 'merton-jump';
+
+// 由歷史對數報酬門檻偵測估計的 Merton 跳躍參數
+export interface JumpDiffusionParameters {
+  jumpIntensity: number;       // λ：每年跳躍次數
+  jumpMean: number;            // μ_J：跳躍對數幅度平均值
+  jumpVolatility: number;      // δ：跳躍對數幅度標準差
+  diffusionVolatility: number; // 扣除跳躍後的年化擴散波動率
+  jumpCount: number;           // 偵測到的跳躍次數
+  observations: number;        // 日報酬樣本數
+  thresholdSigmas: number;     // 偵測門檻（標準差倍數）
+}
+
+export interface JumpDiffusionAnalysis {
+  parameters: JumpDiffusionParameters;
+  blackScholesDiscount: number;   // 同方法論下純 Black-Scholes 折扣 (%)
+  jumpDiffusionDiscount: number;  // Merton 跳躍擴散折扣 (%)
+  discountDifference: number;     // 跳躍擴散 - Black-Scholes (百分點)
+}
+
+// 歷史波動率估計方法：樣本標準差、EWMA (RiskMetrics)、GARCH(1,1)
+export type VolatilityEstimator = 'sample' | 'ewma' | 'garch';
+
+export interface EwmaParameters {
+  lambda: number;            // RiskMetrics 衰減係數
+  currentVolatility: number; // 最新條件波動率（年化，小數）
+}
+
+export interface GarchParameters {
+  omega: number;             // 日方差常數項
+  alpha: number;             // ARCH 係數
+  beta: number;              // GARCH 係數
+  persistence: number;       // α + β
+  longRunVolatility: number; // 長期波動率 √(ω / (1 - α - β))（年化，小數）
+  halfLife: number;          // 方差均值回歸半衰期（天）
+  currentVolatility: number; // 下一日條件波動率（年化，小數）
+  logLikelihood: number;
+}
+
+// 鎖倉期間的波動率預測
+export interface VolatilityForecast {
+  estimator: VolatilityEstimator;
+  horizonDays: number;
+  forecastVolatility: number; // 期間平均方差對應的年化波動率（小數）
+  sampleVolatility: number;   // 同一序列的樣本波動率（年化，小數）
+  observations: number;
+  ewma?: EwmaParameters;
+  garch?: GarchParameters;
+}
+
+// 日波動率的報酬度量：收盤對收盤，或使用 OHLC 的區間估計量 (Parkinson、Garman-Klass、Rogers-Satchell、Yang-Zhang)
+export type RangeVolatilityEstimator = 'close-to-close' | 'parkinson' | 'garman-klass' | 'rogers-satchell' | 'yang-zhang';
+
+export interface RangeVolatilityEstimate {
+  estimator: RangeVolatilityEstimator;
+  annualizedVolatility: number; // 年化（小數）
+  dailyVolatility: number;      // 日波動率（小數）
+  observations: number;         // 使用的日K線/報酬數
+}
+
+export interface RangeVolatilityComparison {
+  selected: RangeVolatilityEstimator; // 使用者選擇的估計量
+  applied: RangeVolatilityEstimator;  // 實際採用；資料來源無 OHLC 時回退為收盤對收盤
+  ohlcAvailable: boolean;
+  estimates: RangeVolatilityEstimate[]; // 可計算的所有估計量並列比較
+}
+
+// 穩健波動率：雙冪次變異（抗跳躍）、MAD（中位數絕對離差）或縮尾報酬，none 為一般樣本標準差
+export type RobustVolatilityMethod = 'none' | 'bipower' | 'mad' | 'winsorized';
+
+// 離群原因：相鄰日反向的尖峰（多為錯誤報價）或單日極端報酬
+export type OutlierReason = 'spike-reversal' | 'extreme-return';
+
+export interface DailyReturnPoint {
+  date: string;
+  logReturn: number;
+}
+
+export interface ReturnOutlier {
+  date: string;
+  logReturn: number;     // 原始日對數報酬
+  clippedReturn: number; // 縮尾後的報酬
+  robustZScore: number;  // (r - 中位數) / MAD 標準差
+  reason: OutlierReason;
+}
+
+export interface RobustVolatilityAnalysis {
+  method: RobustVolatilityMethod;
+  threshold: number;             // 縮尾門檻（MAD 標準差倍數）
+  sampleVolatility: number;      // 以下皆為年化（小數）
+  bipowerVolatility: number;
+  madVolatility: number;
+  winsorizedVolatility: number;
+  selectedVolatility: number;    // 所選方法的波動率
+  outliers: ReturnOutlier[];
+  returns: DailyReturnPoint[];
+}
+
+// 波動率錐：各滾動窗口已實現波動率的歷史分佈（年化 %）
+export interface VolatilityConeWindow {
+  windowDays: number;
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  max: number;
+  current: number;             // 最近一個窗口的已實現波動率
+  samples: number;             // 重疊窗口數
+  overlayPercentile?: number;  // 疊加波動率在該窗口分佈中的百分位 (0-100)
+}
+
+export interface VolatilityCone {
+  tokenId: string;
+  historyDays: number;
+  observations: number;        // 日報酬數
+  windows: VolatilityConeWindow[];
+  overlayVolatility?: number;  // 疊加的隱含或所選波動率 (%)
+}
+
+// 波動率風險溢酬：隱含波動率與相同期限回看的已實現波動率比較
+export interface VarianceRiskPremiumPoint {
+  label: string;               // 'Short expiry' / 'Long expiry' / 'Lockup'
+  windowDays: number;          // 已實現波動率回看天數（= 該期限天數）
+  impliedVolatility: number;   // %
+  realizedVolatility: number;  // %
+  spread: number;              // 隱含 - 已實現（百分點）
+  ratio: number;               // 隱含 / 已實現
+}
+
+// 以已實現波動率與自定義代幣相同的定價計算的折扣（履約價 = 現貨）
+export interface HistoricalVolatilityDiscount {
+  realizedVolatility: number;  // %
+  windowDays: number;
+  discount: number;            // 依方法論的主要折扣 (%)
+  callDiscount: number;
+  lookbackDiscount: number;
+  averageStrikeDiscount: number;
+  fairValue: number;
+}
+
+export interface VarianceRiskPremiumAnalysis {
+  points: VarianceRiskPremiumPoint[];
+  historicalDiscount: HistoricalVolatilityDiscount;
+  impliedDiscount: number;     // 雙到期日（隱含波動率）主要折扣 (%)
+  discountDifference: number;  // 隱含 - 歷史（百分點）
+  apiProvider: string;
+}
+
 export interface DiscountCalculation {
   annualizedRate: number;      // 年化折扣率 (%)
   fairValue: number;           // 合理價格
+  underlyingPrice?: number;    // 定價所用標的價格（雙到期日且有 Deribit 期貨曲線時為指數價格）
   discount: number;            // 實際折扣 (%)
   method?: string;             // 計算方法
+  methodology?: DiscountMethodology; // 主要折扣採用的方法論
   // Black-Scholes相關字段
   callDiscount?: number;       // Call折扣率 (%)
   putDiscount?: number;        // Put折扣率 (%)
   impliedVolatility?: number;  // 隱含波動率 (%)
   theoreticalCallPrice?: number; // 理論Call價格
   theoreticalPutPrice?: number;  // 理論Put價格
+  // Longstaff回望賣權（可售性折扣上限）
+  lookbackDiscount?: number;         // 回望賣權折扣率 (%)
+  theoreticalLookbackPrice?: number; // 理論回望賣權價格
+  // Finnerty / Ghaidarov 平均履約價賣權
+  averageStrikeDiscount?: number;         // 平均履約價賣權折扣率 (%)
+  theoreticalAverageStrikePrice?: number; // 理論平均履約價賣權價格
+  // 加權平均的Call/Put敏感度
+  greeks?: ContractGreeks;
   // 多合約ATM計算詳細信息
   atmCalculations?: ATMCalculation[];
   totalContracts?: number;
@@ -91,6 +564,30 @@ export interface DiscountCalculation {
   rawLongTermContracts?: RawATMContract[];   // 長期到期日原始合約
 }
 
+// /api/custom-token 回應的 calculation 欄位（價格為美元，比例為 %）
+export interface CustomTokenCalculationResult {
+  currentPrice: number;
+  targetPrice: number;
+  theoreticalCallPrice: number;
+  theoreticalLookbackPrice: number;
+  theoreticalAverageStrikePrice: number;
+  discountRate: number;              // 所選方法論的折扣率
+  callDiscountRate: number;
+  lookbackDiscountRate: number;
+  averageStrikeDiscountRate: number;
+  annualizedRate: number;
+  fairValue: number;
+  greeks: ContractGreeks;
+  method: string;
+  methodology: DiscountMethodology;
+  pricingModel: PricingModel;
+  volatilityEstimator: VolatilityEstimator;
+  impliedVolatility: number;
+  timeToExpiry: number;              // 年
+  riskFreeRate: number;
+  lockupDays: number;
+}
+
 export interface OptionData {
   strike: number;
   callPrice: number;
@@ -101,6 +598,23 @@ export interface OptionData {
   callAsk?: number;
   putBid?: number;
   putAsk?: number;
+  ivSolution?: ImpliedVolSolution; // 由所選價格反推的隱含波動率明細
+}
+
+export type IVSolverMethod = 'newton' | 'brent';
+export type IVSolverFlag = 'call-failed' | 'put-failed' | 'call-put-disagree';
+
+// 單一履約價由選擇權價格反推的隱含波動率
+export interface ImpliedVolSolution {
+  impliedVol: number; // 最終採用的隱含波動率 (%)
+  source: 'average' | 'call' | 'put' | 'market';
+  marketIV: number;   // 交易所標記IV (%)
+  callIV?: number;    // Call 反推IV (%)
+  putIV?: number;     // Put 反推IV (%)
+  callMethod?: IVSolverMethod;
+  putMethod?: IVSolverMethod;
+  forward: number;    // 反推時使用的遠期價格
+  flags: IVSolverFlag[];
 }
 
 
@@ -132,6 +646,7 @@ export interface CalculationStep {
   duration?: number;
   errorMessage?: string;
   timestamp?: Date;
+  termStructure?: TermStructureFit; // 期限結構擬合診斷
 }
 
 export interface DebugInfo {
@@ -159,4 +674,42 @@ export interface MarketData {
   ethereum: {
     usd: number;
   };
-}
\ No newline at end of file
+}
+
+// 歸屬計畫 (cliff + 定期解鎖)
+export type VestingFrequency = 'monthly' | 'quarterly';
+
+export interface VestingSchedule {
+  startDate: string;          // 歸屬起始日 (YYYY-MM-DD)
+  cliffMonths: number;        // Cliff 月數
+  cliffPercent: number;       // Cliff 時一次解鎖的比例 (%)
+  frequency: VestingFrequency;
+  trancheCount: number;       // Cliff 之後的定期解鎖次數，剩餘比例平均分配
+}
+
+export interface VestingTranche {
+  index: number;
+  unlockDate: string;         // YYYY-MM-DD
+  percent: number;            // 佔總額比例 (%)
+  lockupDays: number;         // 距今天數，已解鎖為 0
+  vested: boolean;            // 解鎖日已過
+}
+
+export interface VestingTrancheValuation extends VestingTranche {
+  discount: number;           // 折扣 (%)
+  fairValue: number;          // 每顆token合理價格
+  annualizedRate: number;     // 年化折扣率 (%)
+  impliedVolatility?: number; // 使用的波動率 (%)
+  riskFreeRate?: number;      // 無風險利率 (%)
+  method?: string;
+}
+
+export interface VestingValuation {
+  schedule: VestingSchedule;
+  tranches: VestingTrancheValuation[];
+  blendedDiscount: number;          // 按比例加權折扣 (%)
+  blendedFairValue: number;         // 按比例加權合理價格（每顆token）
+  weightedAverageLockupDays: number;
+  vestedPercent: number;            // 已解鎖比例 (%)
+  finalUnlockDate: string;
+}